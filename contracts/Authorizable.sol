@@ -3,21 +3,67 @@
 pragma solidity 0.6.12;
 
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/EnumerableSet.sol";
 
+// Role-scoped permissions with enumerable members. The owner implicitly holds every role and is the only one granting & revoking them.
 contract Authorizable is Ownable {
-    mapping(address => bool) public authorized;
+    using EnumerableSet for EnumerableSet.AddressSet;
 
-    modifier onlyAuthorized() {
-        require(authorized[msg.sender] || owner() == msg.sender);
+    // Withdrawal fee tiers, deposit fees & the per-user blocks fee tiers are measured from
+    bytes32 public constant FEE_MANAGER_ROLE = keccak256("FEE_MANAGER_ROLE");
+    // Reward per block, multipliers, halvings, lock & referral percentages, the token's cap & lock window
+    bytes32 public constant EMISSIONS_MANAGER_ROLE = keccak256("EMISSIONS_MANAGER_ROLE");
+    // Adding pools & updating their allocation points
+    bytes32 public constant POOL_MANAGER_ROLE = keccak256("POOL_MANAGER_ROLE");
+    // Fund addresses, fee recipients & manual mints
+    bytes32 public constant TREASURY_MANAGER_ROLE = keccak256("TREASURY_MANAGER_ROLE");
+
+    mapping(bytes32 => EnumerableSet.AddressSet) private _roleMembers;
+
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+
+    modifier onlyRole(bytes32 _role) {
+        _checkRole(_role);
         _;
     }
 
-    function addAuthorized(address _toAdd) public onlyOwner {
-        authorized[_toAdd] = true;
+    function hasRole(bytes32 _role, address _account) public view returns (bool) {
+        return _roleMembers[_role].contains(_account);
+    }
+
+    function getRoleMemberCount(bytes32 _role) public view returns (uint256) {
+        return _roleMembers[_role].length();
+    }
+
+    // Members aren't kept in any particular order & the order can change when a member is revoked
+    function getRoleMember(bytes32 _role, uint256 _index) public view returns (address) {
+        return _roleMembers[_role].at(_index);
+    }
+
+    function grantRole(bytes32 _role, address _account) public onlyOwner {
+        if (_roleMembers[_role].add(_account)) {
+            emit RoleGranted(_role, _account, msg.sender);
+        }
+    }
+
+    function revokeRole(bytes32 _role, address _account) public onlyOwner {
+        _revokeRole(_role, _account);
+    }
+
+    // Lets a member give up a role it no longer needs, e.g. a compromised key
+    function renounceRole(bytes32 _role) public {
+        _revokeRole(_role, msg.sender);
+    }
+
+    // Keeps the modifier small, it's inlined into every function it guards
+    function _checkRole(bytes32 _role) internal view {
+        require(hasRole(_role, msg.sender) || owner() == msg.sender, "Authorizable: caller is missing role");
     }
 
-    function removeAuthorized(address _toRemove) public onlyOwner {
-        require(_toRemove != msg.sender);
-        authorized[_toRemove] = false;
+    function _revokeRole(bytes32 _role, address _account) internal {
+        if (_roleMembers[_role].remove(_account)) {
+            emit RoleRevoked(_role, _account, msg.sender);
+        }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,214 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.6.12;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/SafeERC20.sol";
+import "@openzeppelin/contracts/math/Math.sol";
+import "@openzeppelin/contracts/math/SafeMath.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@venomswap/core/contracts/interfaces/IUniswapV2Pair.sol";
+import "@venomswap/lib/contracts/libraries/Babylonian.sol";
+import "@venomswap/periphery/contracts/interfaces/IUniswapV2Router02.sol";
+import "./interfaces/IGovernanceToken.sol";
+import "./interfaces/IMasterBreeder.sol";
+
+// BreederVault auto-compounds a MasterBreeder pool whose LP token pairs GovToken with another token.
+// Shares are worth a pro rata part of the LP tokens the vault holds. harvest claims the pool's rewards, swaps part of
+// them for the paired token, adds liquidity & stakes the new LP tokens again, so the LP tokens behind a share grow.
+// Anyone could sandwich a harvest between their own swaps, so only the owner & the keepers it sets harvest, with
+// minimums quoted off-chain.
+//
+// MasterBreeder locks PERCENT_LOCK_BONUS_REWARD of the rewards harvested during the bonus period. Locked GovToken
+// doesn't count towards the value of the shares, harvest unlocks whatever GovernanceToken releases & compounds it
+// with the rest of the rewards.
+//
+// MasterBreeder sees the vault as a single user: every stake pays the deposit fee & every withdrawal pays the fee tier
+// of the vault's own block delta, so all holders share one fee clock. Any holder's withdrawal resets it for everyone,
+// frequent withdrawals keep every holder at the most expensive tiers, & a withdrawal in the block of a deposit or a
+// harvest pays the same-block tier. Shares don't age on their own, holders pay the tier of the vault's clock.
+contract BreederVault is ERC20, Ownable, ReentrancyGuard {
+    using SafeMath for uint256;
+    using SafeERC20 for IERC20;
+
+    IMasterBreeder public immutable breeder;
+    uint256 public immutable pid;
+    IERC20 public immutable lpToken;
+    IERC20 public immutable govToken;
+    // The other token of the LP pair
+    IERC20 public immutable pairedToken;
+    IUniswapV2Router02 public immutable router;
+
+    // Minted to the vault itself by the first deposit & never burned, so that LP tokens sent to an almost empty vault
+    // can't inflate the value of a share until later deposits round down to no shares
+    uint256 public constant MINIMUM_SHARES = 1000;
+    // harvest swaps the part of the rewards that leaves amounts matching the pair's reserves, so addLiquidity has to
+    // use all but rounding & earlier leftovers of either token
+    uint256 public constant MAX_LEFTOVER_BPS = 100;
+    uint256 internal constant FEE_BPS = 10000;
+
+    mapping(address => bool) public isKeeper;
+
+    // Named apart from MasterBreeder's Deposit & Withdraw, which share their topics & are emitted in the same transactions
+    event Deposited(address indexed user, uint256 amount, uint256 shares);
+    event Withdrawn(address indexed user, uint256 amount, uint256 shares);
+    // rewards is the GovToken compounded into liquidity LP tokens, before MasterBreeder's deposit fee
+    event Harvest(address indexed caller, uint256 rewards, uint256 liquidity);
+    event KeeperSet(address indexed keeper, bool approved);
+
+    modifier onlyKeeper() {
+        require(isKeeper[msg.sender] || owner() == msg.sender, "BreederVault: caller is not a keeper");
+        _;
+    }
+
+    constructor(
+        string memory _name,
+        string memory _symbol,
+        IMasterBreeder _breeder,
+        uint256 _pid,
+        IUniswapV2Router02 _router
+    ) public ERC20(_name, _symbol) {
+        (IERC20 _lpToken, , , ) = _breeder.poolInfo(_pid);
+        IUniswapV2Pair pair = IUniswapV2Pair(address(_lpToken));
+        IERC20 _govToken = IERC20(_breeder.govToken());
+
+        IERC20 _pairedToken;
+        if (pair.token0() == address(_govToken)) {
+            _pairedToken = IERC20(pair.token1());
+        } else if (pair.token1() == address(_govToken)) {
+            _pairedToken = IERC20(pair.token0());
+        } else {
+            revert("BreederVault: pool without govToken");
+        }
+
+        breeder = _breeder;
+        pid = _pid;
+        lpToken = _lpToken;
+        govToken = _govToken;
+        pairedToken = _pairedToken;
+        router = _router;
+
+        _lpToken.safeApprove(address(_breeder), uint256(-1));
+        _govToken.safeApprove(address(_router), uint256(-1));
+        _pairedToken.safeApprove(address(_router), uint256(-1));
+    }
+
+    // LP tokens behind all shares: the vault's stake in the pool & the LP tokens it hasn't staked yet
+    function balance() public view returns (uint256) {
+        (uint256 staked, ) = breeder.userInfo(pid, address(this));
+        return staked.add(lpToken.balanceOf(address(this)));
+    }
+
+    function setKeeper(address _keeper, bool _approved) external onlyOwner {
+        isKeeper[_keeper] = _approved;
+        emit KeeperSet(_keeper, _approved);
+    }
+
+    // Rewards MasterBreeder locked for the vault, they're compounded once GovernanceToken releases them
+    function lockedRewards() external view returns (uint256) {
+        return IGovernanceToken(address(govToken)).lockOf(address(this));
+    }
+
+    // Stakes _amount LP tokens & mints shares for what's left of them after MasterBreeder's deposit fee
+    function deposit(uint256 _amount) public nonReentrant {
+        require(_amount > 0, "BreederVault::deposit: amount must be greater than 0");
+        uint256 totalBefore = balance();
+        lpToken.safeTransferFrom(msg.sender, address(this), _amount);
+        _stake();
+
+        uint256 added = balance().sub(totalBefore);
+        uint256 totalShares = totalSupply();
+        uint256 shares;
+        if (totalShares == 0) {
+            require(added > MINIMUM_SHARES, "BreederVault::deposit: first deposit too small");
+            _mint(address(this), MINIMUM_SHARES);
+            shares = added.sub(MINIMUM_SHARES);
+        } else {
+            shares = totalBefore == 0 ? added : added.mul(totalShares).div(totalBefore);
+        }
+        require(shares > 0, "BreederVault::deposit: no shares minted");
+        _mint(msg.sender, shares);
+        emit Deposited(msg.sender, _amount, shares);
+    }
+
+    // Burns _shares & sends their LP tokens minus MasterBreeder's withdrawal fee, which has to leave at least _minAmountOut
+    function withdraw(uint256 _shares, uint256 _minAmountOut) public nonReentrant {
+        require(_shares > 0, "BreederVault::withdraw: shares must be greater than 0");
+        uint256 amount = balance().mul(_shares).div(totalSupply());
+        _burn(msg.sender, _shares);
+
+        uint256 idle = lpToken.balanceOf(address(this));
+        if (amount > idle) {
+            breeder.withdraw(pid, amount.sub(idle), address(0));
+        }
+        // The withdrawal fee comes out of the withdrawn LP tokens, so the other shares keep their value
+        amount = Math.min(amount, lpToken.balanceOf(address(this)));
+        require(amount >= _minAmountOut, "BreederVault::withdraw: insufficient output amount");
+        lpToken.safeTransfer(msg.sender, amount);
+        emit Withdrawn(msg.sender, amount, _shares);
+    }
+
+    // Compounds the pool's rewards & the unlocked part of the locked ones. _minPairedOut bounds the slippage of swapping
+    // part of the rewards for the paired token.
+    function harvest(uint256 _minPairedOut) public onlyKeeper nonReentrant {
+        breeder.claimReward(pid);
+        IGovernanceToken lockingToken = IGovernanceToken(address(govToken));
+        if (lockingToken.canUnlockAmount(address(this)) > 0) {
+            lockingToken.unlock();
+        }
+
+        uint256 rewards = govToken.balanceOf(address(this));
+        require(rewards > 0, "BreederVault::harvest: nothing to compound");
+        address[] memory path = new address[](2);
+        path[0] = address(govToken);
+        path[1] = address(pairedToken);
+        router.swapExactTokensForTokens(
+            _swapAmount(_govTokenReserve(), rewards),
+            _minPairedOut,
+            path,
+            address(this),
+            block.timestamp
+        );
+
+        // Leftovers of either token are added to the liquidity of the next harvest
+        uint256 govTokenAmount = govToken.balanceOf(address(this));
+        uint256 pairedAmount = pairedToken.balanceOf(address(this));
+        (, , uint256 liquidity) =
+            router.addLiquidity(
+                address(govToken),
+                address(pairedToken),
+                govTokenAmount,
+                pairedAmount,
+                govTokenAmount.mul(FEE_BPS - MAX_LEFTOVER_BPS).div(FEE_BPS),
+                pairedAmount.mul(FEE_BPS - MAX_LEFTOVER_BPS).div(FEE_BPS),
+                address(this),
+                block.timestamp
+            );
+        _stake();
+        emit Harvest(msg.sender, rewards, liquidity);
+    }
+
+    function _govTokenReserve() internal view returns (uint256) {
+        IUniswapV2Pair pair = IUniswapV2Pair(address(lpToken));
+        (uint256 reserve0, uint256 reserve1, ) = pair.getReserves();
+        return pair.token0() == address(govToken) ? reserve0 : reserve1;
+    }
+
+    // Same as Zapper's: the part of _amountIn to swap so that the swapped & the remaining tokens match the pair's reserves
+    // after the swap, accounting for the 0.3% swap fee
+    function _swapAmount(uint256 _reserveIn, uint256 _amountIn) internal pure returns (uint256) {
+        return
+            Babylonian
+                .sqrt(_reserveIn.mul(_reserveIn.mul(3988009).add(_amountIn.mul(3988000))))
+                .sub(_reserveIn.mul(1997)) / 1994;
+    }
+
+    function _stake() internal {
+        uint256 idle = lpToken.balanceOf(address(this));
+        if (idle > 0) {
+            breeder.deposit(pid, idle, address(0));
+        }
+    }
+}
@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.6.12;
+
+// Block-pinned history of a value, the same scheme GovernanceToken uses for votes: one checkpoint per block,
+// looked up with a binary search.
+library Checkpoints {
+    struct Checkpoint {
+        uint32 fromBlock;
+        uint256 value;
+    }
+
+    struct History {
+        Checkpoint[] checkpoints;
+    }
+
+    function latest(History storage self) internal view returns (uint256) {
+        uint256 length = self.checkpoints.length;
+        return length > 0 ? self.checkpoints[length - 1].value : 0;
+    }
+
+    // Records value as of the current block, a later write in the same block overwrites the earlier one
+    function push(History storage self, uint256 value) internal {
+        require(block.number < 2**32, "Checkpoints: block number exceeds 32 bits");
+        uint32 blockNumber = uint32(block.number);
+        uint256 length = self.checkpoints.length;
+
+        if (length > 0 && self.checkpoints[length - 1].fromBlock == blockNumber) {
+            self.checkpoints[length - 1].value = value;
+        } else {
+            self.checkpoints.push(Checkpoint(blockNumber, value));
+        }
+    }
+
+    // Value as of the end of blockNumber, 0 before the first checkpoint
+    function getAt(History storage self, uint256 blockNumber) internal view returns (uint256) {
+        uint256 length = self.checkpoints.length;
+        if (length == 0 || self.checkpoints[0].fromBlock > blockNumber) {
+            return 0;
+        }
+        if (self.checkpoints[length - 1].fromBlock <= blockNumber) {
+            return self.checkpoints[length - 1].value;
+        }
+
+        uint256 lower = 0;
+        uint256 upper = length - 1;
+        while (upper > lower) {
+            uint256 center = upper - (upper - lower) / 2; // ceil, avoiding overflow
+            Checkpoint storage cp = self.checkpoints[center];
+            if (cp.fromBlock == blockNumber) {
+                return cp.value;
+            } else if (cp.fromBlock < blockNumber) {
+                lower = center;
+            } else {
+                upper = center - 1;
+            }
+        }
+        return self.checkpoints[lower].value;
+    }
+}
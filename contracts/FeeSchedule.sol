@@ -0,0 +1,134 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.6.12;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/SafeERC20.sol";
+import "@openzeppelin/contracts/math/SafeMath.sol";
+
+// MasterBreeder's withdrawal fee tiers & fee recipients. The library is deployed on its own & linked, which keeps
+// MasterBreeder below the contract size limit. Its functions run on MasterBreeder's storage through delegatecall, so
+// the LP tokens are MasterBreeder's & so are the events.
+library FeeSchedule {
+    using SafeMath for uint256;
+    using SafeERC20 for IERC20;
+
+    // Withdrawal fee tier, applies once the blocks since the user's last withdrawal (or first deposit) reach minBlockDelta
+    struct FeeTier {
+        uint256 minBlockDelta;
+        uint256 userBps; // share of the withdrawn LP tokens sent to the user
+        uint256 devBps; // share of the withdrawn LP tokens sent to devaddr
+    }
+
+    // Share of the withdrawal & deposit fees routed away from devaddr
+    struct FeeRecipient {
+        address recipient;
+        uint256 bps; // of every fee, devaddr keeps what the recipients' shares don't add up to
+    }
+
+    // Same as MasterBreeder's
+    uint256 internal constant FEE_BPS = 10000;
+    uint256 internal constant MAX_FEE_TIERS = 16;
+    uint256 internal constant MAX_FEE_RECIPIENTS = 8;
+
+    event FeeRecipientsUpdated(address[] recipients, uint256[] bps);
+    // LP tokens of pool pid sent to a fee recipient, devaddr's remainder of the fee isn't included
+    event FeeDistributed(address indexed recipient, uint256 indexed pid, uint256 amount);
+
+    // Replaces the whole fee schedule, tier i is (_minBlockDeltas[i], _userBps[i], _devBps[i]). Every block delta falls
+    // into a tier & every tier pays out the whole withdrawn amount. Returns the tiers as flattened
+    // (minBlockDelta, userBps, devBps) triples
+    function setTiers(
+        FeeTier[] storage _tiers,
+        uint256[] memory _minBlockDeltas,
+        uint256[] memory _userBps,
+        uint256[] memory _devBps
+    ) external returns (uint256[] memory values) {
+        uint256 count = _minBlockDeltas.length;
+        require(
+            count > 0 && count <= MAX_FEE_TIERS && _userBps.length == count && _devBps.length == count,
+            "MasterBreeder: needs 1 to 16 fee tiers"
+        );
+        require(_minBlockDeltas[0] == 0, "MasterBreeder: fee tiers must start at 0 & increase");
+        while (_tiers.length > 0) {
+            _tiers.pop();
+        }
+        values = new uint256[](count * 3);
+        for (uint256 i = 0; i < count; i++) {
+            require(
+                i == 0 || _minBlockDeltas[i] > _minBlockDeltas[i - 1],
+                "MasterBreeder: fee tiers must start at 0 & increase"
+            );
+            require(_userBps[i].add(_devBps[i]) == FEE_BPS, "MasterBreeder: fee tier doesn't add up to 100%");
+            _tiers.push(FeeTier(_minBlockDeltas[i], _userBps[i], _devBps[i]));
+            values[i * 3] = _minBlockDeltas[i];
+            values[i * 3 + 1] = _userBps[i];
+            values[i * 3 + 2] = _devBps[i];
+        }
+    }
+
+    // Index of the last tier whose minBlockDelta the block delta has reached
+    function tierOf(FeeTier[] storage _tiers, uint256 _blockDelta) external view returns (uint256 tier) {
+        while (tier + 1 < _tiers.length && _tiers[tier + 1].minBlockDelta <= _blockDelta) {
+            tier++;
+        }
+    }
+
+    // Replaces all fee recipients, an empty list sends every fee to devaddr again
+    function setRecipients(
+        FeeRecipient[] storage _recipients,
+        address[] memory _addresses,
+        uint256[] memory _bps
+    ) external {
+        require(
+            _addresses.length <= MAX_FEE_RECIPIENTS && _bps.length == _addresses.length,
+            "MasterBreeder::setFeeRecipients: too many recipients"
+        );
+        while (_recipients.length > 0) {
+            _recipients.pop();
+        }
+        uint256 total = 0;
+        for (uint256 i = 0; i < _addresses.length; i++) {
+            require(_addresses[i] != address(0), "MasterBreeder::setFeeRecipients: zero address");
+            total = total.add(_bps[i]);
+            _recipients.push(FeeRecipient(_addresses[i], _bps[i]));
+        }
+        require(total <= FEE_BPS, "MasterBreeder::setFeeRecipients: shares above 100%");
+        emit FeeRecipientsUpdated(_addresses, _bps);
+    }
+
+    // Splits withdrawn LP tokens between the user's _to & _dev, the user gets the rounding remainder so that nothing is
+    // left behind
+    function payOut(
+        FeeTier storage _tier,
+        FeeRecipient[] storage _recipients,
+        IERC20 _lpToken,
+        uint256 _pid,
+        uint256 _amount,
+        address _to,
+        address _dev
+    ) external returns (uint256 toUser) {
+        uint256 fee = _amount.mul(_tier.devBps).div(FEE_BPS);
+        toUser = _amount.sub(fee);
+        _lpToken.safeTransfer(_to, toUser);
+        _lpToken.safeTransfer(_dev, distribute(_recipients, _lpToken, _pid, fee));
+    }
+
+    // Sends the fee recipients their share of a fee & returns the remainder left for devaddr
+    function distribute(
+        FeeRecipient[] storage _recipients,
+        IERC20 _lpToken,
+        uint256 _pid,
+        uint256 _fee
+    ) public returns (uint256 remainder) {
+        remainder = _fee;
+        for (uint256 i = 0; i < _recipients.length; i++) {
+            uint256 share = _fee.mul(_recipients[i].bps).div(FEE_BPS);
+            if (share > 0) {
+                remainder = remainder.sub(share);
+                _lpToken.safeTransfer(_recipients[i].recipient, share);
+                emit FeeDistributed(_recipients[i].recipient, _pid, share);
+            }
+        }
+    }
+}
@@ -5,9 +5,12 @@ pragma solidity 0.6.12;
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "./Authorizable.sol";
+import "./Checkpoints.sol";
 
 // The GovernanceToken
 contract GovernanceToken is ERC20, Ownable, Authorizable {
+    using Checkpoints for Checkpoints.History;
+
     uint256 private _cap;
     uint256 private _totalLock;
     uint256 public lockFromBlock;
@@ -17,8 +20,11 @@ contract GovernanceToken is ERC20, Ownable, Authorizable {
 
     mapping(address => uint256) private _locks;
     mapping(address => uint256) private _lastUnlockBlock;
+    // Lock balances by block, for block-pinned voting power
+    mapping(address => Checkpoints.History) private _lockHistory;
 
     event Lock(address indexed to, uint256 value);
+    event LockTransfer(address indexed from, address indexed to, uint256 value);
 
     constructor(
       string memory _name,
@@ -42,17 +48,17 @@ contract GovernanceToken is ERC20, Ownable, Authorizable {
     }
 
     // Update the total cap - can go up or down but wont destroy previous tokens.
-    function capUpdate(uint256 _newCap) public onlyAuthorized {
+    function capUpdate(uint256 _newCap) public onlyRole(EMISSIONS_MANAGER_ROLE) {
         _cap = _newCap;
     }
 
     // Update the lockFromBlock
-    function lockFromUpdate(uint256 _newLockFrom) public onlyAuthorized {
+    function lockFromUpdate(uint256 _newLockFrom) public onlyRole(EMISSIONS_MANAGER_ROLE) {
         lockFromBlock = _newLockFrom;
     }
 
     // Update the lockToBlock
-    function lockToUpdate(uint256 _newLockTo) public onlyAuthorized {
+    function lockToUpdate(uint256 _newLockTo) public onlyRole(EMISSIONS_MANAGER_ROLE) {
         lockToBlock = _newLockTo;
     }
 
@@ -124,7 +130,7 @@ contract GovernanceToken is ERC20, Ownable, Authorizable {
         _moveDelegates(address(0), _delegates[_to], _amount);
     }
 
-    function manualMint(address _to, uint256 _amount) public onlyAuthorized {
+    function manualMint(address _to, uint256 _amount) public onlyRole(TREASURY_MANAGER_ROLE) {
         require(manualMinted < manualMintLimit, "ERC20: manualMinted greater than manualMintLimit");
         _mint(_to, _amount);
         _moveDelegates(address(0), _delegates[_to], _amount);
@@ -143,6 +149,15 @@ contract GovernanceToken is ERC20, Ownable, Authorizable {
         return _lastUnlockBlock[_holder];
     }
 
+    /// @notice Locked balance of `_holder` as of the end of `_blockNumber`, which has to be a finalized block
+    function getPriorLock(address _holder, uint256 _blockNumber) public view returns (uint256) {
+        require(
+            _blockNumber < block.number,
+            "GovernanceToken::getPriorLock: not yet determined"
+        );
+        return _lockHistory[_holder].getAt(_blockNumber);
+    }
+
     function lock(address _holder, uint256 _amount) public onlyOwner {
         require(_holder != address(0), "ERC20: lock to the zero address");
         require(
@@ -153,6 +168,7 @@ contract GovernanceToken is ERC20, Ownable, Authorizable {
         _transfer(_holder, address(this), _amount);
 
         _locks[_holder] = _locks[_holder].add(_amount);
+        _lockHistory[_holder].push(_locks[_holder]);
         _totalLock = _totalLock.add(_amount);
         if (_lastUnlockBlock[_holder] < lockFromBlock) {
             _lastUnlockBlock[_holder] = lockFromBlock;
@@ -183,13 +199,15 @@ contract GovernanceToken is ERC20, Ownable, Authorizable {
         }
         _transfer(address(this), msg.sender, amount);
         _locks[msg.sender] = _locks[msg.sender].sub(amount);
+        _lockHistory[msg.sender].push(_locks[msg.sender]);
         _lastUnlockBlock[msg.sender] = block.number;
         _totalLock = _totalLock.sub(amount);
     }
 
     // This function is for dev address migrate all balance to a multi sig address
     function transferAll(address _to) public {
-        _locks[_to] = _locks[_to].add(_locks[msg.sender]);
+        uint256 locked = _locks[msg.sender];
+        _locks[_to] = _locks[_to].add(locked);
 
         if (_lastUnlockBlock[_to] < lockFromBlock) {
             _lastUnlockBlock[_to] = lockFromBlock;
@@ -201,6 +219,9 @@ contract GovernanceToken is ERC20, Ownable, Authorizable {
 
         _locks[msg.sender] = 0;
         _lastUnlockBlock[msg.sender] = 0;
+        _lockHistory[_to].push(_locks[_to]);
+        _lockHistory[msg.sender].push(0);
+        emit LockTransfer(msg.sender, _to, locked);
 
         _transfer(msg.sender, _to, balanceOf(msg.sender));
     }
@@ -4,37 +4,96 @@ pragma solidity 0.6.12;
 
 import "@openzeppelin/contracts/math/SafeMath.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
 import "@venomswap/core/contracts/interfaces/IUniswapV2Pair.sol";
+import "@venomswap/lib/contracts/libraries/Babylonian.sol";
+import "@venomswap/lib/contracts/libraries/FixedPoint.sol";
+import "@venomswap/periphery/contracts/libraries/UniswapV2OracleLibrary.sol";
 import "./interfaces/IGovernanceToken.sol";
 import "./interfaces/IMasterBreeder.sol";
+import "./interfaces/IPit.sol";
+import "./Checkpoints.sol";
 
-contract GovernanceVote {
+// Snapshot-style voting power: GovToken in LP tokens staked in any of the counted MasterBreeder pools, Pit shares,
+// locked and unlocked GovToken, each component weighted in basis points. The owner (e.g. the Timelock) manages the
+// counted pools & weights.
+//
+// balanceOf reads live state, getPriorVotes reads the same components as of a finalized block: LP stakes, Pit shares and
+// locks from their checkpoints, unlocked GovToken from the GovernanceToken votes delegated to the account. The counted
+// pools & the weights are checkpointed too, so the owner can't change the votes of a past block either.
+//
+// Staked LP tokens are valued at the pool's GovToken per LP token rate checkpointed at or before that block. A rate is
+// the GovToken reserve the pair would hold at its average price since the previous observation, sqrt(k * price), per
+// LP token. The average comes from the pair's cumulative prices over at least RATE_PERIOD, which swaps in the
+// checkpointing block don't move, & swaps can only raise k by the fees they pay into the pair. Anyone can call
+// checkpointPools, the rates only follow the pairs as often as someone does.
+contract GovernanceVote is Ownable {
   using SafeMath for uint256;
+  using FixedPoint for *;
+  using Checkpoints for Checkpoints.History;
+
+  struct VotingPool {
+    uint256 pid;
+    IUniswapV2Pair lpPair;
+    uint8 govTokenReservePosition;
+  }
+
+  struct Observation {
+    uint256 priceCumulative; // the pair's cumulative price of its other token in GovToken
+    uint32 timestamp;
+  }
+
+  // Weights are in basis points, 10000 counts a token once
+  uint256 public constant WEIGHT_PRECISION = 10000;
+  uint256 public constant MAX_WEIGHT = 100 * WEIGHT_PRECISION;
+  // GovToken per LP token rates are scaled by RATE_PRECISION
+  uint256 public constant RATE_PRECISION = 1e18;
+  // Minimum time a rate's average price is taken over
+  uint256 public constant RATE_PERIOD = 30 minutes;
 
   string private _name;
   string private _symbol;
   uint8 private _decimals;
-  uint8 private _poolId;
-  uint8 private _lpMultiplier;
-  uint8 private _singleStakingMultiplier;
-  uint8 private _govTokenReservePosition;
 
   IGovernanceToken public govToken;
   IMasterBreeder public masterBreeder;
-  IUniswapV2Pair public lpPair;
   IERC20 public pit;
 
+  VotingPool[] public pools;
+  mapping(uint256 => bool) public countsPool;
+  // GovToken per LP token by block, pid => history
+  mapping(uint256 => Checkpoints.History) private _poolRates;
+  // Observation the next rate of a pool averages from, pid => observation
+  mapping(uint256 => Observation) public observations;
+  // Every pool that was ever counted & whether it's counted by block, 1 or 0, pid => history
+  uint256[] private _poolIds;
+  mapping(uint256 => Checkpoints.History) private _countedPools;
+
+  uint256 public lpWeight;
+  uint256 public pitWeight;
+  uint256 public lockedWeight;
+  uint256 public unlockedWeight;
+  Checkpoints.History private _lpWeights;
+  Checkpoints.History private _pitWeights;
+  Checkpoints.History private _lockedWeights;
+  Checkpoints.History private _unlockedWeights;
+
+  event PoolAdded(uint256 indexed pid, address indexed lpPair);
+  event PoolRemoved(uint256 indexed pid, address indexed lpPair);
+  event WeightsUpdated(uint256 lpWeight, uint256 pitWeight, uint256 lockedWeight, uint256 unlockedWeight);
+
+  // Counts poolId_ from the start, the multipliers are whole numbers & locked/unlocked GovToken counts for 33%/25%
   constructor(
     string memory name_,
     string memory symbol_,
     IGovernanceToken govToken_,
     IERC20 pit_,
     IMasterBreeder masterBreeder_,
-    uint8 poolId_,
+    uint256 poolId_,
     IUniswapV2Pair lpPair_,
     uint8 govTokenReservePosition_,
-    uint8 lpMultiplier_,
-    uint8 singleStakingMultiplier_
+    uint256 lpMultiplier_,
+    uint256 singleStakingMultiplier_
   ) public {
       _name = name_;
       _symbol = symbol_;
@@ -42,11 +101,13 @@ contract GovernanceVote {
       govToken = govToken_;
       pit = pit_;
       masterBreeder = masterBreeder_;
-      _poolId = poolId_;
-      lpPair = lpPair_;
-      _govTokenReservePosition = govTokenReservePosition_;
-      _lpMultiplier = lpMultiplier_;
-      _singleStakingMultiplier = singleStakingMultiplier_;
+      _addPool(poolId_, lpPair_, govTokenReservePosition_);
+      _setWeights(
+        lpMultiplier_.mul(WEIGHT_PRECISION),
+        singleStakingMultiplier_.mul(WEIGHT_PRECISION),
+        3300,
+        2500
+      );
   }
 
   function name() public view virtual returns (string memory) {
@@ -66,81 +127,219 @@ contract GovernanceVote {
   function approve(address, uint256) public pure returns (bool) { return false; }
   function transferFrom(address, address, uint256) public pure returns (bool) { return false; }
 
-  function govTokenReserve() public view returns (uint256) {
-    (uint256 reserve0, uint256 reserve1,) = lpPair.getReserves();
-    uint256 _govTokenReserve = 0;
-
-    if (_govTokenReservePosition == 0) {
-      _govTokenReserve = reserve0;
-    } else if (_govTokenReservePosition == 1) {
-      _govTokenReserve = reserve1;
-    }
+  function poolLength() external view returns (uint256) {
+    return pools.length;
+  }
 
-    return _govTokenReserve;
+  // Pair of the first counted pool
+  function lpPair() external view returns (IUniswapV2Pair) {
+    return pools.length > 0 ? pools[0].lpPair : IUniswapV2Pair(address(0));
   }
 
-  function totalSupply() public view returns (uint256) {
-    uint256 govTokenCurrentReserve = govTokenReserve();
-    uint256 pitTotalSupply = pit.totalSupply();
-    uint256 unlockedTotal = govToken.unlockedSupply();
-    uint256 lockedTotal = govToken.totalLock();
+  // Counts MasterBreeder pool _pid, whose LP token has to be a pair with GovToken
+  function addPool(uint256 _pid) external onlyOwner {
+    (IERC20 lpToken, , , ) = masterBreeder.poolInfo(_pid);
+    IUniswapV2Pair pair = IUniswapV2Pair(address(lpToken));
 
-    uint256 calculatedTotalSupply = 0;
+    uint8 position;
+    if (pair.token0() == address(govToken)) {
+      position = 0;
+    } else if (pair.token1() == address(govToken)) {
+      position = 1;
+    } else {
+      revert("GovernanceVote: pool without govToken");
+    }
+    _addPool(_pid, pair, position);
+  }
 
-    // govTokenCurrentReserve x _lpMultiplier (e.g. 4) tokens are added to the total supply
-    if (govTokenCurrentReserve > 0) {
-      calculatedTotalSupply = govTokenCurrentReserve.mul(_lpMultiplier);
+  function removePool(uint256 _pid) external onlyOwner {
+    require(countsPool[_pid], "GovernanceVote: pool not counted");
+    uint256 length = pools.length;
+    for (uint256 i = 0; i < length; i++) {
+      if (pools[i].pid == _pid) {
+        emit PoolRemoved(_pid, address(pools[i].lpPair));
+        pools[i] = pools[length - 1];
+        pools.pop();
+        break;
+      }
     }
+    countsPool[_pid] = false;
+    _countedPools[_pid].push(0);
+  }
 
-    // pitTotalSupply x _singleStakingMultiplier (e.g. 2) tokens are added to the total supply
-    if (pitTotalSupply > 0) {
-      calculatedTotalSupply = calculatedTotalSupply.add(pitTotalSupply.mul(_singleStakingMultiplier));
+  function setWeights(
+    uint256 _lpWeight,
+    uint256 _pitWeight,
+    uint256 _lockedWeight,
+    uint256 _unlockedWeight
+  ) external onlyOwner {
+    _setWeights(_lpWeight, _pitWeight, _lockedWeight, _unlockedWeight);
+  }
+
+  // Records the GovToken per LP token rate of every counted pool whose last observation is at least RATE_PERIOD old
+  function checkpointPools() external {
+    for (uint256 i = 0; i < pools.length; i++) {
+      _checkpointPool(pools[i]);
     }
+  }
+
+  // GovToken per LP token of pool _pid as of the end of _blockNumber, scaled by RATE_PRECISION
+  function getPriorRate(uint256 _pid, uint256 _blockNumber) public view returns (uint256) {
+    require(_blockNumber < block.number, "GovernanceVote: not yet determined");
+    return _poolRates[_pid].getAt(_blockNumber);
+  }
 
-    // 33% of locked tokens are added to the total supply
-    if (lockedTotal > 0) {
-      calculatedTotalSupply = calculatedTotalSupply.add(lockedTotal.mul(33).div(100));
+  function getPriorVotes(address account, uint256 blockNumber) external view returns (uint256) {
+    (uint256 lp, uint256 pitPower, uint256 locked, uint256 unlocked) = priorVotesBreakdown(account, blockNumber);
+    return lp.add(pitPower).add(locked).add(unlocked);
+  }
+
+  // Weighted components of getPriorVotes, blockNumber has to be a finalized block
+  function priorVotesBreakdown(address account, uint256 blockNumber) public view returns (
+    uint256 lp,
+    uint256 pitPower,
+    uint256 locked,
+    uint256 unlocked
+  ) {
+    require(blockNumber < block.number, "GovernanceVote: not yet determined");
+
+    uint256 underlying = 0;
+    for (uint256 i = 0; i < _poolIds.length; i++) {
+      uint256 pid = _poolIds[i];
+      if (_countedPools[pid].getAt(blockNumber) == 0) {
+        continue;
+      }
+      uint256 staked = masterBreeder.getPriorStake(pid, account, blockNumber);
+      if (staked > 0) {
+        underlying = underlying.add(staked.mul(_poolRates[pid].getAt(blockNumber)).div(RATE_PRECISION));
+      }
     }
 
-    // 25% of unlocked tokens are added to the total supply
-    if (unlockedTotal > 0) {
-      calculatedTotalSupply = calculatedTotalSupply.add(unlockedTotal.mul(25).div(100));
+    lp = underlying.mul(_lpWeights.getAt(blockNumber)).div(WEIGHT_PRECISION);
+    pitPower = IPit(address(pit)).getPriorShares(account, blockNumber).mul(_pitWeights.getAt(blockNumber)).div(
+      WEIGHT_PRECISION
+    );
+    locked = govToken.getPriorLock(account, blockNumber).mul(_lockedWeights.getAt(blockNumber)).div(WEIGHT_PRECISION);
+    unlocked = govToken.getPriorVotes(account, blockNumber).mul(_unlockedWeights.getAt(blockNumber)).div(
+      WEIGHT_PRECISION
+    );
+  }
+
+  // GovToken held by the pairs of all counted pools
+  function govTokenReserve() public view returns (uint256 reserve) {
+    for (uint256 i = 0; i < pools.length; i++) {
+      reserve = reserve.add(_govTokenReserve(pools[i]));
     }
+  }
 
-    return calculatedTotalSupply;
+  function totalSupply() public view returns (uint256) {
+    (uint256 lp, uint256 pitPower, uint256 locked, uint256 unlocked) = totalSupplyBreakdown();
+    return lp.add(pitPower).add(locked).add(unlocked);
   }
 
-  function balanceOf(address owner) public view returns (uint256) {    
-    uint256 votingPower = 0;
+  function balanceOf(address owner) public view returns (uint256) {
+    (uint256 lp, uint256 pitPower, uint256 locked, uint256 unlocked) = balanceBreakdown(owner);
+    return lp.add(pitPower).add(locked).add(unlocked);
+  }
 
-    uint256 govTokenCurrentReserve = govTokenReserve();
+  // Weighted components of totalSupply
+  function totalSupplyBreakdown() public view returns (
+    uint256 lp,
+    uint256 pitPower,
+    uint256 locked,
+    uint256 unlocked
+  ) {
+    lp = govTokenReserve().mul(lpWeight).div(WEIGHT_PRECISION);
+    pitPower = pit.totalSupply().mul(pitWeight).div(WEIGHT_PRECISION);
+    locked = govToken.totalLock().mul(lockedWeight).div(WEIGHT_PRECISION);
+    unlocked = govToken.unlockedSupply().mul(unlockedWeight).div(WEIGHT_PRECISION);
+  }
 
-    (uint256 userLpTokenAmountInPool, ) = masterBreeder.userInfo(_poolId, owner);
-    uint256 pairTotal = lpPair.totalSupply();
-    
-    // Calculate lp share voting power
-    uint256 userShare = userLpTokenAmountInPool.mul(100).div(pairTotal);
-    uint256 pairUnderlying = govTokenCurrentReserve.mul(userShare).div(100);
-    votingPower = pairUnderlying.mul(_lpMultiplier);
+  // Weighted components of balanceOf
+  function balanceBreakdown(address owner) public view returns (
+    uint256 lp,
+    uint256 pitPower,
+    uint256 locked,
+    uint256 unlocked
+  ) {
+    // GovToken underlying the LP tokens owner staked in the counted pools
+    uint256 underlying = 0;
+    for (uint256 i = 0; i < pools.length; i++) {
+      VotingPool storage pool = pools[i];
+      (uint256 staked, ) = masterBreeder.userInfo(pool.pid, owner);
+      if (staked > 0) {
+        underlying = underlying.add(staked.mul(_govTokenReserve(pool)).div(pool.lpPair.totalSupply()));
+      }
+    }
 
-    // Add single-staking voting power
-    uint256 pitBalance = pit.balanceOf(owner);
-    if (pitBalance > 0) {
-      votingPower = votingPower.add(pitBalance.mul(_singleStakingMultiplier));
+    lp = underlying.mul(lpWeight).div(WEIGHT_PRECISION);
+    pitPower = pit.balanceOf(owner).mul(pitWeight).div(WEIGHT_PRECISION);
+    locked = govToken.lockOf(owner).mul(lockedWeight).div(WEIGHT_PRECISION);
+    unlocked = govToken.balanceOf(owner).mul(unlockedWeight).div(WEIGHT_PRECISION);
+  }
+
+  function _govTokenReserve(VotingPool storage pool) internal view returns (uint256) {
+    (uint256 reserve0, uint256 reserve1,) = pool.lpPair.getReserves();
+    return pool.govTokenReservePosition == 0 ? reserve0 : reserve1;
+  }
+
+  // The first observation of a pair with liquidity only starts the period, pairs without liquidity aren't observed
+  function _checkpointPool(VotingPool storage pool) internal {
+    (uint256 reserve0, uint256 reserve1, ) = pool.lpPair.getReserves();
+    if (reserve0 == 0 || reserve1 == 0) {
+      return;
     }
-    
-    // Add locked balance
-    uint256 lockedBalance = govToken.lockOf(owner);
-    if (lockedBalance > 0) {
-      votingPower = votingPower.add(lockedBalance.mul(33).div(100));
+    (uint256 price0Cumulative, uint256 price1Cumulative, uint32 timestamp) =
+      UniswapV2OracleLibrary.currentCumulativePrices(address(pool.lpPair));
+    uint256 priceCumulative = pool.govTokenReservePosition == 0 ? price1Cumulative : price0Cumulative;
+
+    Observation storage observation = observations[pool.pid];
+    if (observation.timestamp != 0) {
+      uint32 elapsed = timestamp - observation.timestamp; // overflow is desired
+      if (elapsed < RATE_PERIOD) {
+        return;
+      }
+      // overflow is desired
+      FixedPoint.uq112x112 memory averagePrice =
+        FixedPoint.uq112x112(uint224((priceCumulative - observation.priceCumulative) / elapsed));
+      uint256 fairReserve = averagePrice.sqrt().mul(Babylonian.sqrt(reserve0.mul(reserve1))).decode144();
+      _poolRates[pool.pid].push(fairReserve.mul(RATE_PRECISION).div(pool.lpPair.totalSupply()));
     }
-    
-    // Add unlocked balance
-    uint256 govTokenBalance = govToken.balanceOf(owner);
-    if (govTokenBalance > 0) {
-      votingPower = votingPower.add(govTokenBalance.mul(25).div(100));
+    observation.priceCumulative = priceCumulative;
+    observation.timestamp = timestamp;
+  }
+
+  function _addPool(uint256 _pid, IUniswapV2Pair _lpPair, uint8 _govTokenReservePosition) internal {
+    require(!countsPool[_pid], "GovernanceVote: pool already counted");
+    require(_govTokenReservePosition <= 1, "GovernanceVote: invalid reserve position");
+    pools.push(VotingPool({pid: _pid, lpPair: _lpPair, govTokenReservePosition: _govTokenReservePosition}));
+    countsPool[_pid] = true;
+    if (_countedPools[_pid].checkpoints.length == 0) {
+      _poolIds.push(_pid);
     }
-    
-    return votingPower;
+    _countedPools[_pid].push(1);
+    _checkpointPool(pools[pools.length - 1]);
+    emit PoolAdded(_pid, address(_lpPair));
+  }
+
+  function _setWeights(
+    uint256 _lpWeight,
+    uint256 _pitWeight,
+    uint256 _lockedWeight,
+    uint256 _unlockedWeight
+  ) internal {
+    require(
+      _lpWeight <= MAX_WEIGHT && _pitWeight <= MAX_WEIGHT && _lockedWeight <= MAX_WEIGHT && _unlockedWeight <= MAX_WEIGHT,
+      "GovernanceVote: weight too high"
+    );
+    lpWeight = _lpWeight;
+    pitWeight = _pitWeight;
+    lockedWeight = _lockedWeight;
+    unlockedWeight = _unlockedWeight;
+    _lpWeights.push(_lpWeight);
+    _pitWeights.push(_pitWeight);
+    _lockedWeights.push(_lockedWeight);
+    _unlockedWeights.push(_unlockedWeight);
+    emit WeightsUpdated(_lpWeight, _pitWeight, _lockedWeight, _unlockedWeight);
   }
 }
@@ -0,0 +1,383 @@
+// SPDX-License-Identifier: MIT
+
+// COPIED FROM https://github.com/compound-finance/compound-protocol/blob/master/contracts/Governance/GovernorAlpha.sol
+// Copyright 2020 Compound Labs, Inc.
+// Redistribution and use in source and binary forms, with or without modification, are permitted provided that the following conditions are met:
+// 1. Redistributions of source code must retain the above copyright notice, this list of conditions and the following disclaimer.
+// 2. Redistributions in binary form must reproduce the above copyright notice, this list of conditions and the following disclaimer in the documentation and/or other materials provided with the distribution.
+// 3. Neither the name of the copyright holder nor the names of its contributors may be used to endorse or promote products derived from this software without specific prior written permission.
+// THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS" AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY, OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+//
+// Ctrl+f for XXX to see all the modifications.
+
+// XXX: pragma solidity ^0.5.16;
+pragma solidity 0.6.12;
+pragma experimental ABIEncoderV2;
+
+import "@openzeppelin/contracts/math/SafeMath.sol";
+import "./interfaces/IVotingPower.sol";
+
+contract GovernorAlpha {
+    // XXX: add256/sub256 are replaced by SafeMath
+    using SafeMath for uint256;
+
+    /// @notice The name of this contract
+    // XXX: string public constant name = "Compound Governor Alpha";
+    string public constant name = "GovernorAlpha";
+
+    // XXX: quorumVotes, proposalThreshold, votingDelay & votingPeriod are set at deployment instead of being constants,
+    // quorumVotes & proposalThreshold can be updated through the Timelock
+
+    /// @notice The number of votes in support of a proposal required in order for a quorum to be reached and for a vote to succeed
+    uint256 public quorumVotes;
+
+    /// @notice The number of votes required in order for a voter to become a proposer
+    uint256 public proposalThreshold;
+
+    /// @notice The maximum number of actions that can be included in a proposal
+    function proposalMaxOperations() public pure returns (uint256) { return 10; } // 10 actions
+
+    /// @notice The delay before voting on a proposal may take place, once proposed
+    uint256 public votingDelay;
+
+    /// @notice The duration of voting on a proposal, in blocks
+    uint256 public votingPeriod;
+
+    /// @notice The address of the Timelock
+    TimelockInterface public timelock;
+
+    // XXX: CompInterface public comp;
+    /// @notice The source of voting power, e.g. GovernanceToken or GovernanceVote - can be swapped through the Timelock
+    IVotingPower public votingPower;
+
+    /// @notice The address of the Governor Guardian
+    address public guardian;
+
+    /// @notice The total number of proposals
+    uint256 public proposalCount;
+
+    struct Proposal {
+        // Unique id for looking up a proposal
+        uint256 id;
+
+        // Creator of the proposal
+        address proposer;
+
+        // The timestamp that the proposal will be available for execution, set once the vote succeeds
+        uint256 eta;
+
+        // the ordered list of target addresses for calls to be made
+        address[] targets;
+
+        // The ordered list of values (i.e. msg.value) to be passed to the calls to be made
+        uint256[] values;
+
+        // The ordered list of function signatures to be called
+        string[] signatures;
+
+        // The ordered list of calldata to be passed to each call
+        bytes[] calldatas;
+
+        // The block at which voting begins: holders must delegate their votes prior to this block
+        uint256 startBlock;
+
+        // The block at which voting ends: votes must be cast prior to this block
+        uint256 endBlock;
+
+        // Current number of votes in favor of this proposal
+        uint256 forVotes;
+
+        // Current number of votes in opposition to this proposal
+        uint256 againstVotes;
+
+        // Flag marking whether the proposal has been canceled
+        bool canceled;
+
+        // Flag marking whether the proposal has been executed
+        bool executed;
+
+        // XXX: quorumVotes & votingPower as of the proposal's creation, so that the Timelock updating them doesn't
+        // change the outcome of proposals in flight
+        uint256 quorumVotes;
+
+        IVotingPower votingPower;
+
+        // Receipts of ballots for the entire set of voters
+        mapping (address => Receipt) receipts;
+    }
+
+    /// @notice Ballot receipt record for a voter
+    struct Receipt {
+        // Whether or not a vote has been cast
+        bool hasVoted;
+
+        // Whether or not the voter supports the proposal
+        bool support;
+
+        // The number of votes the voter had, which were cast
+        // XXX: uint96 votes;
+        uint256 votes;
+    }
+
+    /// @notice Possible states that a proposal may be in
+    enum ProposalState {
+        Pending,
+        Active,
+        Canceled,
+        Defeated,
+        Succeeded,
+        Queued,
+        Expired,
+        Executed
+    }
+
+    /// @notice The official record of all proposals ever proposed
+    mapping (uint256 => Proposal) public proposals;
+
+    /// @notice The latest proposal for each proposer
+    mapping (address => uint256) public latestProposalIds;
+
+    /// @notice The EIP-712 typehash for the contract's domain
+    bytes32 public constant DOMAIN_TYPEHASH = keccak256("EIP712Domain(string name,uint256 chainId,address verifyingContract)");
+
+    /// @notice The EIP-712 typehash for the ballot struct used by the contract
+    bytes32 public constant BALLOT_TYPEHASH = keccak256("Ballot(uint256 proposalId,bool support)");
+
+    /// @notice An event emitted when a new proposal is created
+    event ProposalCreated(uint256 id, address proposer, address[] targets, uint256[] values, string[] signatures, bytes[] calldatas, uint256 startBlock, uint256 endBlock, string description);
+
+    /// @notice An event emitted when a vote has been cast on a proposal
+    event VoteCast(address voter, uint256 proposalId, bool support, uint256 votes);
+
+    /// @notice An event emitted when a proposal has been canceled
+    event ProposalCanceled(uint256 id);
+
+    /// @notice An event emitted when a proposal has been queued in the Timelock
+    event ProposalQueued(uint256 id, uint256 eta);
+
+    /// @notice An event emitted when a proposal has been executed in the Timelock
+    event ProposalExecuted(uint256 id);
+
+    // XXX: events for the settings the Timelock can update
+    event NewVotingPower(address indexed votingPower);
+    event NewQuorumVotes(uint256 quorumVotes);
+    event NewProposalThreshold(uint256 proposalThreshold);
+
+    // XXX: constructor(address timelock_, address comp_, address guardian_) public {
+    constructor(
+        address timelock_,
+        address votingPower_,
+        address guardian_,
+        uint256 quorumVotes_,
+        uint256 proposalThreshold_,
+        uint256 votingDelay_,
+        uint256 votingPeriod_
+    ) public {
+        require(votingPeriod_ > 0, "GovernorAlpha::constructor: voting period must be greater than 0");
+        timelock = TimelockInterface(timelock_);
+        votingPower = IVotingPower(votingPower_);
+        guardian = guardian_;
+        quorumVotes = quorumVotes_;
+        proposalThreshold = proposalThreshold_;
+        votingDelay = votingDelay_;
+        votingPeriod = votingPeriod_;
+    }
+
+    function propose(address[] memory targets, uint256[] memory values, string[] memory signatures, bytes[] memory calldatas, string memory description) public returns (uint256) {
+        require(votingPower.getPriorVotes(msg.sender, block.number.sub(1)) > proposalThreshold, "GovernorAlpha::propose: proposer votes below proposal threshold");
+        require(targets.length == values.length && targets.length == signatures.length && targets.length == calldatas.length, "GovernorAlpha::propose: proposal function information arity mismatch");
+        require(targets.length != 0, "GovernorAlpha::propose: must provide actions");
+        require(targets.length <= proposalMaxOperations(), "GovernorAlpha::propose: too many actions");
+
+        uint256 latestProposalId = latestProposalIds[msg.sender];
+        if (latestProposalId != 0) {
+          ProposalState proposersLatestProposalState = state(latestProposalId);
+          require(proposersLatestProposalState != ProposalState.Active, "GovernorAlpha::propose: one live proposal per proposer, found an already active proposal");
+          require(proposersLatestProposalState != ProposalState.Pending, "GovernorAlpha::propose: one live proposal per proposer, found an already pending proposal");
+        }
+
+        uint256 startBlock = block.number.add(votingDelay);
+        uint256 endBlock = startBlock.add(votingPeriod);
+
+        proposalCount++;
+        // XXX: Proposal memory newProposal = Proposal({...}), structs with mappings can't be built in memory since 0.6
+        Proposal storage newProposal = proposals[proposalCount];
+        newProposal.id = proposalCount;
+        newProposal.proposer = msg.sender;
+        newProposal.targets = targets;
+        newProposal.values = values;
+        newProposal.signatures = signatures;
+        newProposal.calldatas = calldatas;
+        newProposal.startBlock = startBlock;
+        newProposal.endBlock = endBlock;
+        newProposal.quorumVotes = quorumVotes;
+        newProposal.votingPower = votingPower;
+
+        latestProposalIds[newProposal.proposer] = newProposal.id;
+
+        emit ProposalCreated(newProposal.id, msg.sender, targets, values, signatures, calldatas, startBlock, endBlock, description);
+        return newProposal.id;
+    }
+
+    function queue(uint256 proposalId) public {
+        require(state(proposalId) == ProposalState.Succeeded, "GovernorAlpha::queue: proposal can only be queued if it is succeeded");
+        Proposal storage proposal = proposals[proposalId];
+        // XXX: uint eta = add256(block.timestamp, timelock.delay());
+        uint256 eta = block.timestamp.add(timelock.delay());
+        for (uint256 i = 0; i < proposal.targets.length; i++) {
+            _queueOrRevert(proposal.targets[i], proposal.values[i], proposal.signatures[i], proposal.calldatas[i], eta);
+        }
+        proposal.eta = eta;
+        emit ProposalQueued(proposalId, eta);
+    }
+
+    function _queueOrRevert(address target, uint256 value, string memory signature, bytes memory data, uint256 eta) internal {
+        require(!timelock.queuedTransactions(keccak256(abi.encode(target, value, signature, data, eta))), "GovernorAlpha::_queueOrRevert: proposal action already queued at eta");
+        timelock.queueTransaction(target, value, signature, data, eta);
+    }
+
+    function execute(uint256 proposalId) public payable {
+        require(state(proposalId) == ProposalState.Queued, "GovernorAlpha::execute: proposal can only be executed if it is queued");
+        Proposal storage proposal = proposals[proposalId];
+        proposal.executed = true;
+        for (uint256 i = 0; i < proposal.targets.length; i++) {
+            // XXX: timelock.executeTransaction.value(proposal.values[i])(...);
+            timelock.executeTransaction{value: proposal.values[i]}(proposal.targets[i], proposal.values[i], proposal.signatures[i], proposal.calldatas[i], proposal.eta);
+        }
+        emit ProposalExecuted(proposalId);
+    }
+
+    function cancel(uint256 proposalId) public {
+        ProposalState state = state(proposalId);
+        require(state != ProposalState.Executed, "GovernorAlpha::cancel: cannot cancel executed proposal");
+
+        Proposal storage proposal = proposals[proposalId];
+        require(msg.sender == guardian || proposal.votingPower.getPriorVotes(proposal.proposer, block.number.sub(1)) < proposalThreshold, "GovernorAlpha::cancel: proposer above threshold");
+
+        proposal.canceled = true;
+        for (uint256 i = 0; i < proposal.targets.length; i++) {
+            timelock.cancelTransaction(proposal.targets[i], proposal.values[i], proposal.signatures[i], proposal.calldatas[i], proposal.eta);
+        }
+
+        emit ProposalCanceled(proposalId);
+    }
+
+    function getActions(uint256 proposalId) public view returns (address[] memory targets, uint256[] memory values, string[] memory signatures, bytes[] memory calldatas) {
+        Proposal storage p = proposals[proposalId];
+        return (p.targets, p.values, p.signatures, p.calldatas);
+    }
+
+    function getReceipt(uint256 proposalId, address voter) public view returns (Receipt memory) {
+        return proposals[proposalId].receipts[voter];
+    }
+
+    function state(uint256 proposalId) public view returns (ProposalState) {
+        require(proposalCount >= proposalId && proposalId > 0, "GovernorAlpha::state: invalid proposal id");
+        Proposal storage proposal = proposals[proposalId];
+        if (proposal.canceled) {
+            return ProposalState.Canceled;
+        } else if (block.number <= proposal.startBlock) {
+            return ProposalState.Pending;
+        } else if (block.number <= proposal.endBlock) {
+            return ProposalState.Active;
+        } else if (proposal.forVotes <= proposal.againstVotes || proposal.forVotes < proposal.quorumVotes) {
+            return ProposalState.Defeated;
+        } else if (proposal.eta == 0) {
+            return ProposalState.Succeeded;
+        } else if (proposal.executed) {
+            return ProposalState.Executed;
+        } else if (block.timestamp >= proposal.eta.add(timelock.GRACE_PERIOD())) {
+            return ProposalState.Expired;
+        } else {
+            return ProposalState.Queued;
+        }
+    }
+
+    function castVote(uint256 proposalId, bool support) public {
+        return _castVote(msg.sender, proposalId, support);
+    }
+
+    function castVoteBySig(uint256 proposalId, bool support, uint8 v, bytes32 r, bytes32 s) public {
+        bytes32 domainSeparator = keccak256(abi.encode(DOMAIN_TYPEHASH, keccak256(bytes(name)), getChainId(), address(this)));
+        bytes32 structHash = keccak256(abi.encode(BALLOT_TYPEHASH, proposalId, support));
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", domainSeparator, structHash));
+        address signatory = ecrecover(digest, v, r, s);
+        require(signatory != address(0), "GovernorAlpha::castVoteBySig: invalid signature");
+        return _castVote(signatory, proposalId, support);
+    }
+
+    function _castVote(address voter, uint256 proposalId, bool support) internal {
+        require(state(proposalId) == ProposalState.Active, "GovernorAlpha::_castVote: voting is closed");
+        Proposal storage proposal = proposals[proposalId];
+        Receipt storage receipt = proposal.receipts[voter];
+        require(receipt.hasVoted == false, "GovernorAlpha::_castVote: voter already voted");
+        uint256 votes = proposal.votingPower.getPriorVotes(voter, proposal.startBlock);
+
+        if (support) {
+            proposal.forVotes = proposal.forVotes.add(votes);
+        } else {
+            proposal.againstVotes = proposal.againstVotes.add(votes);
+        }
+
+        receipt.hasVoted = true;
+        receipt.support = support;
+        receipt.votes = votes;
+
+        emit VoteCast(voter, proposalId, support, votes);
+    }
+
+    // XXX: setVotingPower, setQuorumVotes & setProposalThreshold
+    function setVotingPower(address votingPower_) public {
+        require(msg.sender == address(timelock), "GovernorAlpha::setVotingPower: Call must come from Timelock.");
+        votingPower = IVotingPower(votingPower_);
+        emit NewVotingPower(votingPower_);
+    }
+
+    function setQuorumVotes(uint256 quorumVotes_) public {
+        require(msg.sender == address(timelock), "GovernorAlpha::setQuorumVotes: Call must come from Timelock.");
+        quorumVotes = quorumVotes_;
+        emit NewQuorumVotes(quorumVotes_);
+    }
+
+    function setProposalThreshold(uint256 proposalThreshold_) public {
+        require(msg.sender == address(timelock), "GovernorAlpha::setProposalThreshold: Call must come from Timelock.");
+        proposalThreshold = proposalThreshold_;
+        emit NewProposalThreshold(proposalThreshold_);
+    }
+
+    function __acceptAdmin() public {
+        require(msg.sender == guardian, "GovernorAlpha::__acceptAdmin: sender must be gov guardian");
+        timelock.acceptAdmin();
+    }
+
+    function __abdicate() public {
+        require(msg.sender == guardian, "GovernorAlpha::__abdicate: sender must be gov guardian");
+        guardian = address(0);
+    }
+
+    function __queueSetTimelockPendingAdmin(address newPendingAdmin, uint256 eta) public {
+        require(msg.sender == guardian, "GovernorAlpha::__queueSetTimelockPendingAdmin: sender must be gov guardian");
+        timelock.queueTransaction(address(timelock), 0, "setPendingAdmin(address)", abi.encode(newPendingAdmin), eta);
+    }
+
+    function __executeSetTimelockPendingAdmin(address newPendingAdmin, uint256 eta) public {
+        require(msg.sender == guardian, "GovernorAlpha::__executeSetTimelockPendingAdmin: sender must be gov guardian");
+        timelock.executeTransaction(address(timelock), 0, "setPendingAdmin(address)", abi.encode(newPendingAdmin), eta);
+    }
+
+    function getChainId() internal pure returns (uint256) {
+        uint256 chainId;
+        assembly { chainId := chainid() }
+        return chainId;
+    }
+}
+
+interface TimelockInterface {
+    function delay() external view returns (uint256);
+    function GRACE_PERIOD() external view returns (uint256);
+    function acceptAdmin() external;
+    function queuedTransactions(bytes32 hash) external view returns (bool);
+    function queueTransaction(address target, uint256 value, string calldata signature, bytes calldata data, uint256 eta) external returns (bytes32);
+    function cancelTransaction(address target, uint256 value, string calldata signature, bytes calldata data, uint256 eta) external;
+    function executeTransaction(address target, uint256 value, string calldata signature, bytes calldata data, uint256 eta) external payable returns (bytes memory);
+}
@@ -5,11 +5,17 @@ pragma solidity 0.6.12;
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/EnumerableSet.sol";
+import "@openzeppelin/contracts/math/Math.sol";
 import "@openzeppelin/contracts/math/SafeMath.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/drafts/IERC20Permit.sol";
 import "./GovernanceToken.sol";
 import "./Authorizable.sol";
+import "./Checkpoints.sol";
+import "./FeeSchedule.sol";
+import "./Referrals.sol";
+import "./RewardSchedule.sol";
 
 // MasterBreeder is the master breeder of whatever creature the GovernanceToken represents.
 //
@@ -20,6 +26,12 @@ import "./Authorizable.sol";
 contract MasterBreeder is Ownable, Authorizable, ReentrancyGuard {
     using SafeMath for uint256;
     using SafeERC20 for IERC20;
+    using Checkpoints for Checkpoints.History;
+    using FeeSchedule for FeeSchedule.FeeTier;
+    using FeeSchedule for FeeSchedule.FeeTier[];
+    using FeeSchedule for FeeSchedule.FeeRecipient[];
+    using RewardSchedule for uint256[];
+    using Referrals for mapping(address => Referrals.UserGlobalInfo);
 
     // Info of each user.
     struct UserInfo {
@@ -43,13 +55,6 @@ contract MasterBreeder is Ownable, Authorizable, ReentrancyGuard {
         //   4. User's `rewardDebt` gets updated.
     }
 
-    struct UserGlobalInfo {
-        uint256 globalAmount;
-        mapping(address => uint256) referrals;
-        uint256 totalReferals;
-        uint256 globalRefAmount;
-    }
-
     // Info of each pool.
     struct PoolInfo {
         IERC20 lpToken; // Address of LP token contract.
@@ -75,10 +80,9 @@ contract MasterBreeder is Ownable, Authorizable, ReentrancyGuard {
     // Bonus muliplier for early GovernanceToken makers.
     uint256[] public REWARD_MULTIPLIER; // init in constructor function
     uint256[] public HALVING_AT_BLOCK; // init in constructor function
-    uint256[] public blockDeltaStartStage;
-    uint256[] public blockDeltaEndStage;
-    uint256[] public userFeeStage;
-    uint256[] public devFeeStage;
+    // Sorted by minBlockDelta, the first tier starts at 0 & also applies to withdrawals in the deposit block
+    FeeSchedule.FeeTier[] public feeTiers;
+    FeeSchedule.FeeRecipient[] public feeRecipients;
     uint256 public FINISH_BONUS_AT_BLOCK;
     uint256 public userDepFee;
     uint256 public devDepFee;
@@ -91,14 +95,27 @@ contract MasterBreeder is Ownable, Authorizable, ReentrancyGuard {
     uint256 public PERCENT_FOR_LP; // LP fund
     uint256 public PERCENT_FOR_COM; // community fund
     uint256 public PERCENT_FOR_FOUNDERS; // founders fund
+    uint256 public referralBps; // share of every harvested reward minted on top of it for the harvester's referrer
+
+    // Upper bounds of the admin setters
+    uint256 public constant MAX_REWARD_PER_BLOCK = 10000e18;
+    uint256 public constant MAX_DEPOSIT_FEE = 1000; // 10%, in basis points like userDepFee
+    uint256 public constant MAX_FEE_TIERS = 16; // withdraw searches the tiers, so their count bounds its gas
+    uint256 public constant FEE_BPS = 10000;
+    uint256 public constant MAX_FEE_RECIPIENTS = 8; // every fee is split between all of them
+    uint256 public constant MAX_REFERRAL_BPS = 1000; // 10%, in basis points like referralBps
 
     // Info of each pool.
     PoolInfo[] public poolInfo;
     mapping(address => uint256) public poolId1; // poolId1 count from 1, subtraction 1 before using with poolInfo
     // Info of each user that stakes LP tokens. pid => user address => info
     mapping(uint256 => mapping(address => UserInfo)) public userInfo;
-    mapping(address => UserGlobalInfo) public userGlobalInfo;
+    mapping(address => Referrals.UserGlobalInfo) public userGlobalInfo;
+    // Staked LP token amounts by block, for block-pinned voting power. pid => user address => history
+    mapping(uint256 => mapping(address => Checkpoints.History)) private _stakeHistory;
     mapping(IERC20 => bool) public poolExistence;
+    // Operators a user approved to manage their positions. user address => operator address => approved
+    mapping(address => mapping(address => bool)) public isOperator;
     // Total allocation poitns. Must be the sum of all allocation points in all pools.
     uint256 public totalAllocPoint = 0;
 
@@ -115,6 +132,27 @@ contract MasterBreeder is Ownable, Authorizable, ReentrancyGuard {
         uint256 amount,
         uint256 lockAmount
     );
+    // Emitted by every admin setter with the name of the updated state variable & its new value(s)
+    event ParameterUpdated(string parameter, uint256[] values);
+    // Emitted by the fund address setters with the name of the updated state variable
+    event AddressUpdated(string parameter, address value);
+    // parameter is the revised UserInfo field, lastWithdrawBlock or firstDepositBlock
+    event UserBlockRevised(uint256 indexed pid, address indexed user, string parameter, uint256 blockNumber);
+    // FeeRecipientsUpdated & FeeDistributed are emitted by FeeSchedule on MasterBreeder's behalf
+    event FeeRecipientsUpdated(address[] recipients, uint256[] bps);
+    // LP tokens of pool pid sent to a fee recipient, devaddr's remainder of the fee isn't included
+    event FeeDistributed(address indexed recipient, uint256 indexed pid, uint256 amount);
+    // ReferrerBound, ReferralRewardAccrued & ReferralRewardClaimed are emitted by Referrals on MasterBreeder's behalf
+    event ReferrerBound(address indexed user, address indexed referrer);
+    event ReferralRewardAccrued(address indexed referrer, address indexed user, uint256 amount);
+    event ReferralRewardClaimed(address indexed referrer, uint256 amount, uint256 lockAmount);
+    event OperatorSet(address indexed user, address indexed operator, bool approved);
+
+    // _to is where the call sends the user's LP tokens or rewards
+    modifier onlyOperator(address _user, address _to) {
+        _checkOperator(_user, _to);
+        _;
+    }
 
     modifier nonDuplicated(IERC20 _lpToken) {
         require(poolExistence[_lpToken] == false, "MasterBreeder::nonDuplicated: duplicated");
@@ -133,10 +171,9 @@ contract MasterBreeder is Ownable, Authorizable, ReentrancyGuard {
         uint256 _userDepFee,
         uint256 _devDepFee,
         uint256[] memory _rewardMultiplier,
-        uint256[] memory _blockDeltaStartStage,
-        uint256[] memory _blockDeltaEndStage,
-        uint256[] memory _userFeeStage,
-        uint256[] memory _devFeeStage
+        uint256[] memory _feeTierMinBlockDeltas,
+        uint256[] memory _feeTierUserBps,
+        uint256[] memory _feeTierDevBps
     ) public {
         govToken = _govToken;
         devaddr = _devaddr;
@@ -147,11 +184,13 @@ contract MasterBreeder is Ownable, Authorizable, ReentrancyGuard {
         START_BLOCK = _startBlock;
         userDepFee = _userDepFee;
         devDepFee = _devDepFee;
+        _checkDepositFees();
+        // Indexers replay these, as deposits are only indexed with their gross amount
+        _parameterUpdated("userDepFee", _userDepFee);
+        _parameterUpdated("devDepFee", _devDepFee);
+        _addressUpdated("devaddr", _devaddr);
         REWARD_MULTIPLIER = _rewardMultiplier;
-        blockDeltaStartStage = _blockDeltaStartStage;
-        blockDeltaEndStage = _blockDeltaEndStage;
-        userFeeStage = _userFeeStage;
-        devFeeStage = _devFeeStage;
+        feeTiers.setTiers(_feeTierMinBlockDeltas, _feeTierUserBps, _feeTierDevBps);
         for (uint256 i = 0; i < REWARD_MULTIPLIER.length - 1; i++) {
             uint256 halvingAtBlock = _halvingAfterBlock.mul(i+1).add(_startBlock).add(1);
             HALVING_AT_BLOCK.push(halvingAtBlock);
@@ -166,12 +205,12 @@ contract MasterBreeder is Ownable, Authorizable, ReentrancyGuard {
         return poolInfo.length;
     }
 
-    // Add a new lp to the pool. Can only be called by the owner.
+    // Add a new lp to the pool. Can only be called by the owner or a pool manager.
     function add(
         uint256 _allocPoint,
         IERC20 _lpToken,
         bool _withUpdate
-    ) public onlyOwner nonDuplicated(_lpToken) {
+    ) public onlyRole(POOL_MANAGER_ROLE) nonDuplicated(_lpToken) {
         require(
             poolId1[address(_lpToken)] == 0,
             "MasterBreeder::add: lp is already in pool"
@@ -194,12 +233,12 @@ contract MasterBreeder is Ownable, Authorizable, ReentrancyGuard {
         );
     }
 
-    // Update the given pool's GovernanceToken allocation point. Can only be called by the owner.
+    // Update the given pool's GovernanceToken allocation point. Can only be called by the owner or a pool manager.
     function set(
         uint256 _pid,
         uint256 _allocPoint,
         bool _withUpdate
-    ) public onlyOwner {
+    ) public onlyRole(POOL_MANAGER_ROLE) {
         if (_withUpdate) {
             massUpdatePools();
         }
@@ -245,64 +284,34 @@ contract MasterBreeder is Ownable, Authorizable, ReentrancyGuard {
             GovTokenForFarmer.mul(1e12).div(lpSupply)
         );
         pool.lastRewardBlock = block.number;
-        if (GovTokenForDev > 0) {
-            govToken.mint(address(devaddr), GovTokenForDev);
-            //Dev fund has xx% locked during the starting bonus period. After which locked funds drip out linearly each block over 3 years.
-            if (block.number <= FINISH_BONUS_AT_BLOCK) {
-                govToken.lock(address(devaddr), GovTokenForDev.mul(75).div(100));
-            }
-        }
-        if (GovTokenForLP > 0) {
-            govToken.mint(liquidityaddr, GovTokenForLP);
-            //LP + Partnership fund has only xx% locked over time as most of it is needed early on for incentives and listings. The locked amount will drip out linearly each block after the bonus period.
-            if (block.number <= FINISH_BONUS_AT_BLOCK) {
-                govToken.lock(address(liquidityaddr), GovTokenForLP.mul(45).div(100));
-            }
-        }
-        if (GovTokenForCom > 0) {
-            govToken.mint(comfundaddr, GovTokenForCom);
-            //Community Fund has xx% locked during bonus period and then drips out linearly over 3 years.
-            if (block.number <= FINISH_BONUS_AT_BLOCK) {
-                govToken.lock(address(comfundaddr), GovTokenForCom.mul(85).div(100));
-            }
-        }
-        if (GovTokenForFounders > 0) {
-            govToken.mint(founderaddr, GovTokenForFounders);
-            //The Founders reward has xx% of their funds locked during the bonus period which then drip out linearly per block over 3 years.
+        //Dev fund has xx% locked during the starting bonus period. After which locked funds drip out linearly each block over 3 years.
+        _mintFund(devaddr, GovTokenForDev, 75);
+        //LP + Partnership fund has only xx% locked over time as most of it is needed early on for incentives and listings. The locked amount will drip out linearly each block after the bonus period.
+        _mintFund(liquidityaddr, GovTokenForLP, 45);
+        //Community Fund has xx% locked during bonus period and then drips out linearly over 3 years.
+        _mintFund(comfundaddr, GovTokenForCom, 85);
+        //The Founders reward has xx% of their funds locked during the bonus period which then drip out linearly per block over 3 years.
+        _mintFund(founderaddr, GovTokenForFounders, 95);
+    }
+
+    // Mints a fund's share of the rewards, _lockPercent of which is locked until the bonus period ends
+    function _mintFund(address _fund, uint256 _amount, uint256 _lockPercent) internal {
+        if (_amount > 0) {
+            govToken.mint(_fund, _amount);
             if (block.number <= FINISH_BONUS_AT_BLOCK) {
-                govToken.lock(address(founderaddr), GovTokenForFounders.mul(95).div(100));
+                govToken.lock(_fund, _amount.mul(_lockPercent).div(100));
             }
         }
     }
 
-    // |--------------------------------------|
-    // [20, 30, 40, 50, 60, 70, 80, 99999999]
     // Return reward multiplier over the given _from to _to block.
     function getMultiplier(uint256 _from, uint256 _to)
         public
         view
         returns (uint256)
     {
-        uint256 result = 0;
         if (_from < START_BLOCK) return 0;
-
-        for (uint256 i = 0; i < HALVING_AT_BLOCK.length; i++) {
-            uint256 endBlock = HALVING_AT_BLOCK[i];
-            if (i > REWARD_MULTIPLIER.length-1) return 0;
-
-            if (_to <= endBlock) {
-                uint256 m = _to.sub(_from).mul(REWARD_MULTIPLIER[i]);
-                return result.add(m);
-            }
-
-            if (_from < endBlock) {
-                uint256 m = endBlock.sub(_from).mul(REWARD_MULTIPLIER[i]);
-                _from = endBlock;
-                result = result.add(m);
-            }
-        }
-
-        return result;
+        return HALVING_AT_BLOCK.multiplierOf(REWARD_MULTIPLIER, _from, _to);
     }
 
     function getPoolReward(
@@ -374,13 +383,27 @@ contract MasterBreeder is Ownable, Authorizable, ReentrancyGuard {
 
     function claimReward(uint256 _pid) public {
         updatePool(_pid);
-        _harvest(_pid);
+        _harvest(_pid, msg.sender, msg.sender);
+    }
+
+    // Harvests _user's rewards to _to, who also gets the locked part of them. Callable by _user & their operators
+    function claimRewardTo(
+        uint256 _pid,
+        address _user,
+        address _to
+    ) public onlyOperator(_user, _to) {
+        updatePool(_pid);
+        _harvest(_pid, _user, _to);
     }
 
     // lock 95% of reward if it comes from bonus time
-    function _harvest(uint256 _pid) internal {
+    function _harvest(
+        uint256 _pid,
+        address _user,
+        address _to
+    ) internal {
         PoolInfo storage pool = poolInfo[_pid];
-        UserInfo storage user = userInfo[_pid][msg.sender];
+        UserInfo storage user = userInfo[_pid][_user];
 
         if (user.amount > 0) {
             uint256 pending =
@@ -394,37 +417,45 @@ contract MasterBreeder is Ownable, Authorizable, ReentrancyGuard {
             }
 
             if (pending > 0) {
-                govToken.transfer(msg.sender, pending);
+                govToken.transfer(_to, pending);
                 uint256 lockAmount = 0;
                 if (user.rewardDebtAtBlock <= FINISH_BONUS_AT_BLOCK) {
                     lockAmount = pending.mul(PERCENT_LOCK_BONUS_REWARD).div(
                         100
                     );
-                    govToken.lock(msg.sender, lockAmount);
+                    govToken.lock(_to, lockAmount);
                 }
 
                 user.rewardDebtAtBlock = block.number;
 
-                emit SendGovernanceTokenReward(msg.sender, _pid, pending, lockAmount);
+                emit SendGovernanceTokenReward(_user, _pid, pending, lockAmount);
+                userGlobalInfo.accrue(_user, pending, referralBps);
             }
 
             user.rewardDebt = user.amount.mul(pool.accGovTokenPerShare).div(1e12);
         }
     }
 
+    // LP tokens _user had staked in pool _pid as of the end of _blockNumber, which has to be a finalized block
+    function getPriorStake(
+        uint256 _pid,
+        address _user,
+        uint256 _blockNumber
+    ) public view returns (uint256) {
+        require(_blockNumber < block.number, "MasterBreeder::getPriorStake: not yet determined");
+        return _stakeHistory[_pid][_user].getAt(_blockNumber);
+    }
+
     function getGlobalAmount(address _user) public view returns (uint256) {
-        UserGlobalInfo memory current = userGlobalInfo[_user];
-        return current.globalAmount;
+        return userGlobalInfo[_user].globalAmount;
     }
 
     function getGlobalRefAmount(address _user) public view returns (uint256) {
-        UserGlobalInfo memory current = userGlobalInfo[_user];
-        return current.globalRefAmount;
+        return userGlobalInfo[_user].globalRefAmount;
     }
 
     function getTotalRefs(address _user) public view returns (uint256) {
-        UserGlobalInfo memory current = userGlobalInfo[_user];
-        return current.totalReferals;
+        return userGlobalInfo[_user].totalReferals;
     }
 
     function getRefValueOf(address _user, address _user2)
@@ -432,9 +463,28 @@ contract MasterBreeder is Ownable, Authorizable, ReentrancyGuard {
         view
         returns (uint256)
     {
-        UserGlobalInfo storage current = userGlobalInfo[_user];
-        uint256 a = current.referrals[_user2];
-        return a;
+        return userGlobalInfo[_user].referrals[_user2];
+    }
+
+    function referrerOf(address _user) public view returns (address) {
+        return userGlobalInfo[_user].referrer;
+    }
+
+    // Referral rewards accrue when a referee harvests, rewards the referees haven't harvested yet aren't included
+    function pendingReferralReward(address _referrer) public view returns (uint256) {
+        return userGlobalInfo[_referrer].referralReward;
+    }
+
+    // Mints the caller's accrued referral rewards up to the token's cap, locking the same share as harvests until the bonus
+    // period ends. What the cap leaves out stays pending
+    function claimReferralReward() public nonReentrant {
+        userGlobalInfo.claim(govToken, PERCENT_LOCK_BONUS_REWARD, FINISH_BONUS_AT_BLOCK);
+    }
+
+    // Lets _operator deposit for the caller & withdraw or harvest the caller's positions to any address
+    function setOperator(address _operator, bool _approved) public {
+        isOperator[msg.sender][_operator] = _approved;
+        emit OperatorSet(msg.sender, _operator, _approved);
     }
 
     // Deposit LP tokens to MasterBreeder for GovernanceToken allocation.
@@ -442,33 +492,66 @@ contract MasterBreeder is Ownable, Authorizable, ReentrancyGuard {
         uint256 _pid,
         uint256 _amount,
         address _ref
-    ) public nonReentrant {
+    ) public {
+        _deposit(_pid, _amount, msg.sender, _ref);
+    }
+
+    // Deposit the caller's LP tokens for _user, who owns the stake, receives its rewards & binds _ref on their first
+    // deposit. Callable by _user's operators only, so that nobody else can bind _user's referrer
+    function depositFor(
+        uint256 _pid,
+        uint256 _amount,
+        address _user,
+        address _ref
+    ) public onlyOperator(_user, _user) {
+        _deposit(_pid, _amount, _user, _ref);
+    }
+
+    // Deposit with an EIP-2612 permit of the caller's LP tokens instead of an approval, e.g. for UniswapV2Pair tokens.
+    // Anyone can submit a permit seen in the mempool first & use up its nonce, so a failed permit only reverts the
+    // deposit when the allowance doesn't cover it
+    function depositWithPermit(
+        uint256 _pid,
+        uint256 _amount,
+        address _ref,
+        uint256 _deadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) public {
+        IERC20 lpToken = poolInfo[_pid].lpToken;
+        try IERC20Permit(address(lpToken)).permit(msg.sender, address(this), _amount, _deadline, _v, _r, _s) {} catch {
+            require(
+                lpToken.allowance(msg.sender, address(this)) >= _amount,
+                "MasterBreeder::depositWithPermit: permit failed"
+            );
+        }
+        _deposit(_pid, _amount, msg.sender, _ref);
+    }
+
+    function _deposit(
+        uint256 _pid,
+        uint256 _amount,
+        address _user,
+        address _ref
+    ) internal nonReentrant {
         require(
             _amount > 0,
             "MasterBreeder::deposit: amount must be greater than 0"
         );
 
         PoolInfo storage pool = poolInfo[_pid];
-        UserInfo storage user = userInfo[_pid][msg.sender];
-        UserInfo storage devr = userInfo[_pid][devaddr];
-        UserGlobalInfo storage refer = userGlobalInfo[_ref];
-        UserGlobalInfo storage current = userGlobalInfo[msg.sender];
+        UserInfo storage user = userInfo[_pid][_user];
+        Referrals.UserGlobalInfo storage current = userGlobalInfo[_user];
 
-        if (refer.referrals[msg.sender] > 0) {
-            refer.referrals[msg.sender] = refer.referrals[msg.sender] + _amount;
-            refer.globalRefAmount = refer.globalRefAmount + _amount;
-        } else {
-            refer.referrals[msg.sender] = refer.referrals[msg.sender] + _amount;
-            refer.totalReferals = refer.totalReferals + 1;
-            refer.globalRefAmount = refer.globalRefAmount + _amount;
-        }
+        userGlobalInfo.credit(_user, _ref, _amount);
 
         current.globalAmount =
             current.globalAmount +
             _amount.mul(userDepFee).div(100);
 
         updatePool(_pid);
-        _harvest(_pid);
+        _harvest(_pid, _user, _user);
         pool.lpToken.safeTransferFrom(
             address(msg.sender),
             address(this),
@@ -477,170 +560,121 @@ contract MasterBreeder is Ownable, Authorizable, ReentrancyGuard {
         if (user.amount == 0) {
             user.rewardDebtAtBlock = block.number;
         }
-        user.amount = user.amount.add(
-            _amount.sub(_amount.mul(userDepFee).div(10000))
-        );
+        user.amount = user.amount.add(_amount.sub(_stakeDepositFee(_pid, _amount)));
         user.rewardDebt = user.amount.mul(pool.accGovTokenPerShare).div(1e12);
-        devr.amount = devr.amount.add(
-            _amount.sub(_amount.mul(devDepFee).div(10000))
-        );
-        devr.rewardDebt = devr.amount.mul(pool.accGovTokenPerShare).div(1e12);
-        emit Deposit(msg.sender, _pid, _amount);
+        _stakeHistory[_pid][_user].push(user.amount);
+        emit Deposit(_user, _pid, _amount);
         if (user.firstDepositBlock > 0) {} else {
             user.firstDepositBlock = block.number;
         }
         user.lastDepositBlock = block.number;
     }
 
-    // Withdraw LP tokens from MasterBreeder.
+    // The fee recipients receive their share of the deposit fee as LP tokens, the dev's remainder is staked for devaddr.
+    // Returns the fee charged: devDepFee's part of the deposit, capped at userDepFee's, so that the depositor keeps
+    // whatever of userDepFee's part nobody receives
+    function _stakeDepositFee(uint256 _pid, uint256 _amount) internal returns (uint256 fee) {
+        PoolInfo storage pool = poolInfo[_pid];
+        UserInfo storage devr = userInfo[_pid][devaddr];
+        fee = Math.min(_amount.mul(userDepFee).div(10000), _amount.sub(_amount.mul(devDepFee).div(10000)));
+        devr.amount = devr.amount.add(feeRecipients.distribute(pool.lpToken, _pid, fee));
+        devr.rewardDebt = devr.amount.mul(pool.accGovTokenPerShare).div(1e12);
+        _stakeHistory[_pid][devaddr].push(devr.amount);
+    }
+
+    // Withdraw LP tokens from MasterBreeder. The referral argument is only kept for compatibility, the withdrawal is
+    // debited from the referrer bound on the first deposit
     function withdraw(
         uint256 _pid,
         uint256 _amount,
-        address _ref
-    ) public nonReentrant {
+        address /* _ref */
+    ) public {
+        _withdraw(_pid, _amount, msg.sender, msg.sender);
+    }
+
+    // Withdraw _user's LP tokens & rewards to _to, minus the withdrawal fee of _user's stake. Callable by _user & their
+    // operators
+    function withdrawTo(
+        uint256 _pid,
+        uint256 _amount,
+        address _user,
+        address _to
+    ) public onlyOperator(_user, _to) {
+        _withdraw(_pid, _amount, _user, _to);
+    }
+
+    function _withdraw(
+        uint256 _pid,
+        uint256 _amount,
+        address _user,
+        address _to
+    ) internal nonReentrant {
         PoolInfo storage pool = poolInfo[_pid];
-        UserInfo storage user = userInfo[_pid][msg.sender];
-        UserGlobalInfo storage refer = userGlobalInfo[_ref];
-        UserGlobalInfo storage current = userGlobalInfo[msg.sender];
+        UserInfo storage user = userInfo[_pid][_user];
+        Referrals.UserGlobalInfo storage current = userGlobalInfo[_user];
         require(user.amount >= _amount, "MasterBreeder::withdraw: not good");
-        if (_ref != address(0)) {
-            refer.referrals[msg.sender] = refer.referrals[msg.sender] - _amount;
-            refer.globalRefAmount = refer.globalRefAmount - _amount;
-        }
-        current.globalAmount = current.globalAmount - _amount;
+        userGlobalInfo.debit(_user, _amount);
+        // globalAmount only grows by userDepFee% of every deposit, so withdrawals bottom it out at 0
+        current.globalAmount = current.globalAmount.sub(Math.min(_amount, current.globalAmount));
 
         updatePool(_pid);
-        _harvest(_pid);
+        _harvest(_pid, _user, _to);
 
         if (_amount > 0) {
             user.amount = user.amount.sub(_amount);
+            _stakeHistory[_pid][_user].push(user.amount);
             if (user.lastWithdrawBlock > 0) {
                 user.blockdelta = block.number - user.lastWithdrawBlock;
             } else {
                 user.blockdelta = block.number - user.firstDepositBlock;
             }
-            if (
-                user.blockdelta == blockDeltaStartStage[0] ||
-                block.number == user.lastDepositBlock
-            ) {
-                //25% fee for withdrawals of LP tokens in the same block this is to prevent abuse from flashloans
-                pool.lpToken.safeTransfer(
-                    address(msg.sender),
-                    _amount.mul(userFeeStage[0]).div(100)
-                );
-                pool.lpToken.safeTransfer(
-                    address(devaddr),
-                    _amount.mul(devFeeStage[0]).div(100)
-                );
-            } else if (
-                user.blockdelta >= blockDeltaStartStage[1] &&
-                user.blockdelta <= blockDeltaEndStage[0]
-            ) {
-                //8% fee if a user deposits and withdraws in between same block and 59 minutes.
-                pool.lpToken.safeTransfer(
-                    address(msg.sender),
-                    _amount.mul(userFeeStage[1]).div(100)
-                );
-                pool.lpToken.safeTransfer(
-                    address(devaddr),
-                    _amount.mul(devFeeStage[1]).div(100)
-                );
-            } else if (
-                user.blockdelta >= blockDeltaStartStage[2] &&
-                user.blockdelta <= blockDeltaEndStage[1]
-            ) {
-                //4% fee if a user deposits and withdraws after 1 hour but before 1 day.
-                pool.lpToken.safeTransfer(
-                    address(msg.sender),
-                    _amount.mul(userFeeStage[2]).div(100)
-                );
-                pool.lpToken.safeTransfer(
-                    address(devaddr),
-                    _amount.mul(devFeeStage[2]).div(100)
-                );
-            } else if (
-                user.blockdelta >= blockDeltaStartStage[3] &&
-                user.blockdelta <= blockDeltaEndStage[2]
-            ) {
-                //2% fee if a user deposits and withdraws between after 1 day but before 3 days.
-                pool.lpToken.safeTransfer(
-                    address(msg.sender),
-                    _amount.mul(userFeeStage[3]).div(100)
-                );
-                pool.lpToken.safeTransfer(
-                    address(devaddr),
-                    _amount.mul(devFeeStage[3]).div(100)
-                );
-            } else if (
-                user.blockdelta >= blockDeltaStartStage[4] &&
-                user.blockdelta <= blockDeltaEndStage[3]
-            ) {
-                //1% fee if a user deposits and withdraws after 3 days but before 5 days.
-                pool.lpToken.safeTransfer(
-                    address(msg.sender),
-                    _amount.mul(userFeeStage[4]).div(100)
-                );
-                pool.lpToken.safeTransfer(
-                    address(devaddr),
-                    _amount.mul(devFeeStage[4]).div(100)
-                );
-            } else if (
-                user.blockdelta >= blockDeltaStartStage[5] &&
-                user.blockdelta <= blockDeltaEndStage[4]
-            ) {
-                //0.5% fee if a user deposits and withdraws if the user withdraws after 5 days but before 2 weeks.
-                pool.lpToken.safeTransfer(
-                    address(msg.sender),
-                    _amount.mul(userFeeStage[5]).div(1000)
-                );
-                pool.lpToken.safeTransfer(
-                    address(devaddr),
-                    _amount.mul(devFeeStage[5]).div(1000)
-                );
-            } else if (
-                user.blockdelta >= blockDeltaStartStage[6] &&
-                user.blockdelta <= blockDeltaEndStage[5]
-            ) {
-                //0.25% fee if a user deposits and withdraws after 2 weeks.
-                pool.lpToken.safeTransfer(
-                    address(msg.sender),
-                    _amount.mul(userFeeStage[6]).div(10000)
-                );
-                pool.lpToken.safeTransfer(
-                    address(devaddr),
-                    _amount.mul(devFeeStage[6]).div(10000)
-                );
-            } else if (user.blockdelta > blockDeltaStartStage[7]) {
-                //0.1% fee if a user deposits and withdraws after 4 weeks.
-                pool.lpToken.safeTransfer(
-                    address(msg.sender),
-                    _amount.mul(userFeeStage[7]).div(10000)
-                );
-                pool.lpToken.safeTransfer(
-                    address(devaddr),
-                    _amount.mul(devFeeStage[7]).div(10000)
-                );
-            }
+            // Withdrawals in the deposit block pay the first tier's fee to prevent abuse from flashloans
+            feeTiers[block.number == user.lastDepositBlock ? 0 : feeTierOf(user.blockdelta)].payOut(
+                feeRecipients,
+                pool.lpToken,
+                _pid,
+                _amount,
+                _to,
+                devaddr
+            );
             user.rewardDebt = user.amount.mul(pool.accGovTokenPerShare).div(1e12);
-            emit Withdraw(msg.sender, _pid, _amount);
+            emit Withdraw(_user, _pid, _amount);
             user.lastWithdrawBlock = block.number;
         }
     }
 
-    // Withdraw without caring about rewards. EMERGENCY ONLY. This has the same 25% fee as same block withdrawals to prevent abuse of thisfunction.
+    // Withdraw without caring about rewards. EMERGENCY ONLY. This pays the first tier's fee like same block withdrawals to prevent abuse of this function.
     function emergencyWithdraw(uint256 _pid) public nonReentrant {
         PoolInfo storage pool = poolInfo[_pid];
         UserInfo storage user = userInfo[_pid][msg.sender];
         //reordered from Sushi function to prevent risk of reentrancy
-        uint256 amountToSend = user.amount.mul(75).div(100);
-        uint256 devToSend = user.amount.mul(25).div(100);
+        uint256 amount = user.amount;
         user.amount = 0;
         user.rewardDebt = 0;
-        pool.lpToken.safeTransfer(address(msg.sender), amountToSend);
-        pool.lpToken.safeTransfer(address(devaddr), devToSend);
+        _stakeHistory[_pid][msg.sender].push(0);
+        userGlobalInfo.debit(msg.sender, amount);
+        uint256 amountToSend = feeTiers[0].payOut(feeRecipients, pool.lpToken, _pid, amount, msg.sender, devaddr);
         emit EmergencyWithdraw(msg.sender, _pid, amountToSend);
     }
 
+    function _checkOperator(address _user, address _to) internal view {
+        require(_user == msg.sender || isOperator[_user][msg.sender], "MasterBreeder: caller is not an operator");
+        require(_to != address(0), "MasterBreeder: zero address");
+    }
+
+    function feeTierCount() external view returns (uint256) {
+        return feeTiers.length;
+    }
+
+    // Index of the last tier whose minBlockDelta the block delta has reached
+    function feeTierOf(uint256 _blockDelta) public view returns (uint256) {
+        return feeTiers.tierOf(_blockDelta);
+    }
+
+    function feeRecipientCount() external view returns (uint256) {
+        return feeRecipients.length;
+    }
+
     // Safe GovToken transfer function, just in case if rounding error causes pool to not have enough GovTokens.
     function safeGovTokenTransfer(address _to, uint256 _amount) internal {
         uint256 govTokenBal = govToken.balanceOf(address(this));
@@ -654,76 +688,105 @@ contract MasterBreeder is Ownable, Authorizable, ReentrancyGuard {
     }
 
     // Update dev address by the previous dev.
-    function dev(address _devaddr) public onlyAuthorized {
+    function dev(address _devaddr) public onlyRole(TREASURY_MANAGER_ROLE) {
         devaddr = _devaddr;
+        _addressUpdated("devaddr", _devaddr);
     }
 
     // Update Finish Bonus Block
-    function bonusFinishUpdate(uint256 _newFinish) public onlyAuthorized {
+    function bonusFinishUpdate(uint256 _newFinish) public onlyRole(EMISSIONS_MANAGER_ROLE) {
+        require(_newFinish >= START_BLOCK, "MasterBreeder::bonusFinishUpdate: finish before start");
         FINISH_BONUS_AT_BLOCK = _newFinish;
+        _parameterUpdated("FINISH_BONUS_AT_BLOCK", _newFinish);
     }
 
-    // Update Halving At Block
-    function halvingUpdate(uint256[] memory _newHalving) public onlyAuthorized {
-        HALVING_AT_BLOCK = _newHalving;
+    // Update Halving At Block, there's one halving per reward multiplier so REWARD_MULTIPLIER has to be updated first
+    function halvingUpdate(uint256[] calldata _newHalving) external onlyRole(EMISSIONS_MANAGER_ROLE) {
+        HALVING_AT_BLOCK.setHalvings(REWARD_MULTIPLIER, _newHalving);
+        _parametersUpdated("HALVING_AT_BLOCK", _newHalving);
     }
 
     // Update Liquidityaddr
-    function lpUpdate(address _newLP) public onlyAuthorized {
+    function lpUpdate(address _newLP) public onlyRole(TREASURY_MANAGER_ROLE) {
         liquidityaddr = _newLP;
+        _addressUpdated("liquidityaddr", _newLP);
     }
 
     // Update comfundaddr
-    function comUpdate(address _newCom) public onlyAuthorized {
+    function comUpdate(address _newCom) public onlyRole(TREASURY_MANAGER_ROLE) {
         comfundaddr = _newCom;
+        _addressUpdated("comfundaddr", _newCom);
     }
 
     // Update founderaddr
-    function founderUpdate(address _newFounder) public onlyAuthorized {
+    function founderUpdate(address _newFounder) public onlyRole(TREASURY_MANAGER_ROLE) {
         founderaddr = _newFounder;
+        _addressUpdated("founderaddr", _newFounder);
     }
 
     // Update Reward Per Block
-    function rewardUpdate(uint256 _newReward) public onlyAuthorized {
+    function rewardUpdate(uint256 _newReward) public onlyRole(EMISSIONS_MANAGER_ROLE) {
+        require(_newReward <= MAX_REWARD_PER_BLOCK, "MasterBreeder::rewardUpdate: reward too high");
         REWARD_PER_BLOCK = _newReward;
+        _parameterUpdated("REWARD_PER_BLOCK", _newReward);
     }
 
     // Update Rewards Mulitplier Array
-    function rewardMulUpdate(uint256[] memory _newMulReward)
-        public
-        onlyAuthorized
+    function rewardMulUpdate(uint256[] calldata _newMulReward)
+        external
+        onlyRole(EMISSIONS_MANAGER_ROLE)
     {
-        REWARD_MULTIPLIER = _newMulReward;
+        REWARD_MULTIPLIER.setMultipliers(_newMulReward);
+        _parametersUpdated("REWARD_MULTIPLIER", _newMulReward);
     }
 
     // Update % lock for general users
-    function lockUpdate(uint256 _newlock) public onlyAuthorized {
+    function lockUpdate(uint256 _newlock) public onlyRole(EMISSIONS_MANAGER_ROLE) {
+        require(_newlock <= 100, "MasterBreeder::lockUpdate: lock above 100%");
         PERCENT_LOCK_BONUS_REWARD = _newlock;
+        _parameterUpdated("PERCENT_LOCK_BONUS_REWARD", _newlock);
     }
 
     // Update % lock for dev
-    function lockdevUpdate(uint256 _newdevlock) public onlyAuthorized {
+    function lockdevUpdate(uint256 _newdevlock) public onlyRole(EMISSIONS_MANAGER_ROLE) {
         PERCENT_FOR_DEV = _newdevlock;
+        _checkFundPercentages();
+        _parameterUpdated("PERCENT_FOR_DEV", _newdevlock);
     }
 
     // Update % lock for LP
-    function locklpUpdate(uint256 _newlplock) public onlyAuthorized {
+    function locklpUpdate(uint256 _newlplock) public onlyRole(EMISSIONS_MANAGER_ROLE) {
         PERCENT_FOR_LP = _newlplock;
+        _checkFundPercentages();
+        _parameterUpdated("PERCENT_FOR_LP", _newlplock);
     }
 
     // Update % lock for COM
-    function lockcomUpdate(uint256 _newcomlock) public onlyAuthorized {
+    function lockcomUpdate(uint256 _newcomlock) public onlyRole(EMISSIONS_MANAGER_ROLE) {
         PERCENT_FOR_COM = _newcomlock;
+        _checkFundPercentages();
+        _parameterUpdated("PERCENT_FOR_COM", _newcomlock);
     }
 
     // Update % lock for Founders
-    function lockfounderUpdate(uint256 _newfounderlock) public onlyAuthorized {
+    function lockfounderUpdate(uint256 _newfounderlock) public onlyRole(EMISSIONS_MANAGER_ROLE) {
         PERCENT_FOR_FOUNDERS = _newfounderlock;
+        _checkFundPercentages();
+        _parameterUpdated("PERCENT_FOR_FOUNDERS", _newfounderlock);
     }
 
     // Update START_BLOCK
-    function starblockUpdate(uint256 _newstarblock) public onlyAuthorized {
+    function starblockUpdate(uint256 _newstarblock) public onlyRole(EMISSIONS_MANAGER_ROLE) {
+        require(_newstarblock < HALVING_AT_BLOCK[0], "MasterBreeder::starblockUpdate: start after first halving");
         START_BLOCK = _newstarblock;
+        _parameterUpdated("START_BLOCK", _newstarblock);
+    }
+
+    // Update the referrers' share of their referees' rewards
+    function setReferralBps(uint256 _referralBps) public onlyRole(EMISSIONS_MANAGER_ROLE) {
+        require(_referralBps <= MAX_REFERRAL_BPS, "MasterBreeder::setReferralBps: share too high");
+        referralBps = _referralBps;
+        _parameterUpdated("referralBps", _referralBps);
     }
 
     function getNewRewardPerBlock(uint256 pid1) public view returns (uint256) {
@@ -754,51 +817,102 @@ contract MasterBreeder is Ownable, Authorizable, ReentrancyGuard {
         uint256 _pid,
         address _user,
         uint256 _block
-    ) public onlyAuthorized() {
+    ) public onlyRole(FEE_MANAGER_ROLE) {
         UserInfo storage user = userInfo[_pid][_user];
         user.lastWithdrawBlock = _block;
+        _userBlockRevised(_pid, _user, "lastWithdrawBlock", _block);
     }
 
     function reviseDeposit(
         uint256 _pid,
         address _user,
         uint256 _block
-    ) public onlyAuthorized() {
+    ) public onlyRole(FEE_MANAGER_ROLE) {
         UserInfo storage user = userInfo[_pid][_user];
         user.firstDepositBlock = _block;
+        _userBlockRevised(_pid, _user, "firstDepositBlock", _block);
     }
 
-    function setStageStarts(uint256[] memory _blockStarts)
-        public
-        onlyAuthorized()
+    // Replaces the whole fee schedule, tier i is (_minBlockDeltas[i], _userBps[i], _devBps[i])
+    function setFeeTiers(
+        uint256[] calldata _minBlockDeltas,
+        uint256[] calldata _userBps,
+        uint256[] calldata _devBps
+    ) external onlyRole(FEE_MANAGER_ROLE) {
+        // Flattened (minBlockDelta, userBps, devBps) triples
+        _parametersUpdated("feeTiers", feeTiers.setTiers(_minBlockDeltas, _userBps, _devBps));
+    }
+
+    // Replaces all fee recipients, an empty list sends every fee to devaddr again
+    function setFeeRecipients(address[] calldata _recipients, uint256[] calldata _bps)
+        external
+        onlyRole(TREASURY_MANAGER_ROLE)
     {
-        blockDeltaStartStage = _blockStarts;
+        feeRecipients.setRecipients(_recipients, _bps);
+    }
+
+    // devDepFee is the share of a deposit that is not credited to the dev, so it can't go below 100% - MAX_DEPOSIT_FEE.
+    // Lowering both deposit fees has to raise devDepFee first, & raising them has to raise userDepFee first
+    function setDevDepFee(uint256 _devDepFees) public onlyRole(FEE_MANAGER_ROLE) {
+        require(
+            _devDepFees >= uint256(10000).sub(MAX_DEPOSIT_FEE) && _devDepFees <= 10000,
+            "MasterBreeder::setDevDepFee: fee out of bounds"
+        );
+        devDepFee = _devDepFees;
+        _checkDepositFees();
+        _parameterUpdated("devDepFee", _devDepFees);
     }
 
-    function setStageEnds(uint256[] memory _blockEnds) public onlyAuthorized() {
-        blockDeltaEndStage = _blockEnds;
+    function setUserDepFee(uint256 _usrDepFees) public onlyRole(FEE_MANAGER_ROLE) {
+        require(_usrDepFees <= MAX_DEPOSIT_FEE, "MasterBreeder::setUserDepFee: fee too high");
+        userDepFee = _usrDepFees;
+        _checkDepositFees();
+        _parameterUpdated("userDepFee", _usrDepFees);
     }
 
-    function setUserFeeStage(uint256[] memory _userFees)
-        public
-        onlyAuthorized()
-    {
-        userFeeStage = _userFees;
+    function _parameterUpdated(string memory _parameter, uint256 _value) internal {
+        uint256[] memory values = new uint256[](1);
+        values[0] = _value;
+        _parametersUpdated(_parameter, values);
     }
 
-    function setDevFeeStage(uint256[] memory _devFees) public onlyAuthorized() {
-        devFeeStage = _devFees;
+    // Single emit site, the event's ABI encoding would otherwise be inlined into every setter
+    function _parametersUpdated(string memory _parameter, uint256[] memory _values) internal {
+        emit ParameterUpdated(_parameter, _values);
     }
 
-    function setDevDepFee(uint256 _devDepFees) public onlyAuthorized() {
-        devDepFee = _devDepFees;
+    // Fund addresses receive minted rewards & fees, which the zero address would burn or revert on
+    function _addressUpdated(string memory _parameter, address _value) internal {
+        require(_value != address(0), "MasterBreeder: zero address");
+        emit AddressUpdated(_parameter, _value);
     }
 
-    function setUserDepFee(uint256 _usrDepFees) public onlyAuthorized() {
-        userDepFee = _usrDepFees;
+    // withdraw subtracts the revised block from block.number unchecked, so it can't be a future block
+    function _userBlockRevised(
+        uint256 _pid,
+        address _user,
+        string memory _parameter,
+        uint256 _block
+    ) internal {
+        require(_block <= block.number, "MasterBreeder: revised block in the future");
+        emit UserBlockRevised(_pid, _user, _parameter, _block);
+    }
+
+    // The funds are minted on top of the farmers' rewards, as a percentage of them
+    function _checkFundPercentages() internal view {
+        require(
+            PERCENT_FOR_DEV.add(PERCENT_FOR_LP).add(PERCENT_FOR_COM).add(PERCENT_FOR_FOUNDERS) <= 100,
+            "MasterBreeder: fund percentages above 100%"
+        );
+    }
+
+    // devaddr & the fee recipients can't be credited more of a deposit than the user pays for it
+    function _checkDepositFees() internal view {
+        require(uint256(10000).sub(devDepFee) <= userDepFee, "MasterBreeder: dev deposit fee above user deposit fee");
     }
 
-    function reclaimTokenOwnership(address _newOwner) public onlyAuthorized() {
+    // Owner only, MasterBreeder can't mint rewards anymore once the governance token is handed back
+    function reclaimTokenOwnership(address _newOwner) public onlyOwner {
         govToken.transferOwnership(_newOwner);
     }
 }
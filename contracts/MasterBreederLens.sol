@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.6.12;
+pragma experimental ABIEncoderV2;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "./interfaces/IGovernanceToken.sol";
+import "./MasterBreeder.sol";
+
+// MasterBreederLens batches the reads a frontend needs to render a user's farms into a single call, instead of
+// calling poolInfo, userInfo, pendingReward, userDelta & the LP token's balanceOf for every pool. It's read-only &
+// holds nothing, so it can be redeployed whenever the views change.
+contract MasterBreederLens {
+    struct PoolView {
+        uint256 pid;
+        IERC20 lpToken;
+        uint256 allocPoint;
+        uint256 totalStaked; // LP tokens held by MasterBreeder, i.e. the pool's TVL in LP tokens
+        uint256 staked; // the user's stake
+        uint256 lpBalance; // the user's LP tokens that aren't staked
+        uint256 pendingReward;
+        uint256 blockDelta; // blocks since the user's last withdrawal, or their first deposit
+        uint256 feeTier; // the tier a withdrawal in this block pays
+    }
+
+    struct GovTokenView {
+        uint256 balance;
+        uint256 lockOf;
+        uint256 canUnlockAmount;
+    }
+
+    MasterBreeder public immutable breeder;
+    IGovernanceToken public immutable govToken;
+
+    constructor(MasterBreeder _breeder) public {
+        breeder = _breeder;
+        govToken = IGovernanceToken(address(_breeder.govToken()));
+    }
+
+    // Every pool with _user's position in it & _user's GovToken locks, as of blockNumber
+    function dashboard(address _user)
+        external
+        view
+        returns (
+            uint256 blockNumber,
+            uint256 totalAllocPoint,
+            PoolView[] memory pools,
+            GovTokenView memory govTokenView
+        )
+    {
+        pools = new PoolView[](breeder.poolLength());
+        for (uint256 pid = 0; pid < pools.length; pid++) {
+            pools[pid] = poolView(pid, _user);
+        }
+        govTokenView = GovTokenView(govToken.balanceOf(_user), govToken.lockOf(_user), govToken.canUnlockAmount(_user));
+        return (block.number, breeder.totalAllocPoint(), pools, govTokenView);
+    }
+
+    function poolView(uint256 _pid, address _user) public view returns (PoolView memory pool) {
+        (IERC20 lpToken, uint256 allocPoint, , ) = breeder.poolInfo(_pid);
+        pool.pid = _pid;
+        pool.lpToken = lpToken;
+        pool.allocPoint = allocPoint;
+        pool.totalStaked = lpToken.balanceOf(address(breeder));
+        pool.lpBalance = lpToken.balanceOf(_user);
+        pool.pendingReward = breeder.pendingReward(_pid, _user);
+
+        (uint256 amount, , , uint256 lastWithdrawBlock, uint256 firstDepositBlock, , uint256 lastDepositBlock) =
+            breeder.userInfo(_pid, _user);
+        pool.staked = amount;
+        // Mirrors MasterBreeder.withdraw, including its unchecked subtraction
+        pool.blockDelta = block.number - (lastWithdrawBlock > 0 ? lastWithdrawBlock : firstDepositBlock);
+        pool.feeTier = block.number == lastDepositBlock ? 0 : breeder.feeTierOf(pool.blockDelta);
+    }
+}
@@ -5,14 +5,19 @@ pragma solidity 0.6.12;
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import "@openzeppelin/contracts/math/SafeMath.sol";
+import "./Checkpoints.sol";
 
 // The Pit is a pit full of creatures with a tendency to breed.
 // The longer you stay, the more creatures you end up with when you leave.
 // This contract handles swapping to and from xGovernanceToken <> GovernanceToken
 contract Pit is ERC20 {
     using SafeMath for uint256;
+    using Checkpoints for Checkpoints.History;
     IERC20 public govToken;
 
+    // xGovernanceToken balances by block, for block-pinned voting power
+    mapping(address => Checkpoints.History) private _shareHistory;
+
     // Define the Pit token contract
     constructor(
       string memory _name,
@@ -53,4 +58,31 @@ contract Pit is ERC20 {
         _burn(msg.sender, _share);
         govToken.transfer(msg.sender, what);
     }
+
+    // xGovernanceToken balance of _account as of the end of _blockNumber, which has to be a finalized block
+    function getPriorShares(address _account, uint256 _blockNumber) public view returns (uint256) {
+        require(_blockNumber < block.number, "Pit::getPriorShares: not yet determined");
+        return _shareHistory[_account].getAt(_blockNumber);
+    }
+
+    // Every balance change checkpoints the new balance
+    function _transfer(
+        address _sender,
+        address _recipient,
+        uint256 _amount
+    ) internal virtual override {
+        super._transfer(_sender, _recipient, _amount);
+        _shareHistory[_sender].push(balanceOf(_sender));
+        _shareHistory[_recipient].push(balanceOf(_recipient));
+    }
+
+    function _mint(address _account, uint256 _amount) internal virtual override {
+        super._mint(_account, _amount);
+        _shareHistory[_account].push(balanceOf(_account));
+    }
+
+    function _burn(address _account, uint256 _amount) internal virtual override {
+        super._burn(_account, _amount);
+        _shareHistory[_account].push(balanceOf(_account));
+    }
 }
@@ -96,8 +96,10 @@ contract PitBreeder is Ownable {
     // F6: There is an exploit to add lots of GovernanceTokens to the pit, run convert, then remove the GovernanceTokens again.
     //     As the size of the Pit has grown, this requires large amounts of funds and isn't super profitable anymore
     //     The onlyEOA modifier prevents this being done with a flash loan.
+    // Without a minimum anyone could sandwich the conversion between their own swaps in a single bundle, so only the
+    // owner converts without one. Everyone else uses convertWithMinimum
     // C1 - C24: OK
-    function convert(address token0, address token1) external onlyEOA() {
+    function convert(address token0, address token1) external onlyEOA() onlyOwner {
         _convert(token0, token1);
     }
 
@@ -107,7 +109,7 @@ contract PitBreeder is Ownable {
     function convertMultiple(
         address[] calldata token0,
         address[] calldata token1
-    ) external onlyEOA() {
+    ) external onlyEOA() onlyOwner {
         // TODO: This can be optimized a fair bit, but this is safer and simpler for now
         uint256 len = token0.length;
         for (uint256 i = 0; i < len; i++) {
@@ -115,9 +117,44 @@ contract PitBreeder is Ownable {
         }
     }
 
+    // Bounds the slippage of the whole conversion: a sandwich around the swaps of _convertStep (or any other price move
+    // since minGovTokenOut was quoted) leaves less GovernanceToken for the pit and reverts the conversion
+    function convertWithMinimum(
+        address token0,
+        address token1,
+        uint256 minGovTokenOut
+    ) external onlyEOA() {
+        require(
+            _convert(token0, token1) >= minGovTokenOut,
+            "PitBreeder: Insufficient GovernanceToken out"
+        );
+    }
+
+    // convertWithMinimum for every pair, a single conversion below its minimum reverts the whole batch
+    function convertMultipleWithMinimum(
+        address[] calldata token0,
+        address[] calldata token1,
+        uint256[] calldata minGovTokenOut
+    ) external onlyEOA() {
+        uint256 len = token0.length;
+        require(
+            token1.length == len && minGovTokenOut.length == len,
+            "PitBreeder: Length mismatch"
+        );
+        for (uint256 i = 0; i < len; i++) {
+            require(
+                _convert(token0[i], token1[i]) >= minGovTokenOut[i],
+                "PitBreeder: Insufficient GovernanceToken out"
+            );
+        }
+    }
+
     // F1 - F10: OK
     // C1- C24: OK
-    function _convert(address token0, address token1) internal {
+    function _convert(address token0, address token1)
+        internal
+        returns (uint256 govTokenOut)
+    {
         // Interactions
         // S1 - S4: OK
         IUniswapV2Pair pair = IUniswapV2Pair(factory.getPair(token0, token1));
@@ -133,13 +170,14 @@ contract PitBreeder is Ownable {
         if (token0 != pair.token0()) {
             (amount0, amount1) = (amount1, amount0);
         }
+        govTokenOut = _convertStep(token0, token1, amount0, amount1);
         emit LogConvert(
             msg.sender,
             token0,
             token1,
             amount0,
             amount1,
-            _convertStep(token0, token1, amount0, amount1)
+            govTokenOut
         );
     }
 
@@ -232,6 +270,7 @@ contract PitBreeder is Ownable {
         require(address(pair) != address(0), "PitBreeder: Cannot convert");
 
         // Interactions
+        // No slippage check per hop, convertWithMinimum bounds the GovernanceToken out of the whole conversion
         // X1 - X5: OK
         (uint256 reserve0, uint256 reserve1, ) = pair.getReserves();
         uint256 amountInWithFee = amountIn.mul(997);
@@ -241,14 +280,12 @@ contract PitBreeder is Ownable {
                 reserve0.mul(1000).add(amountInWithFee);
             IERC20(fromToken).safeTransfer(address(pair), amountIn);
             pair.swap(0, amountOut, to, new bytes(0));
-            // TODO: Add maximum slippage?
         } else {
             amountOut =
                 amountIn.mul(997).mul(reserve0) /
                 reserve1.mul(1000).add(amountInWithFee);
             IERC20(fromToken).safeTransfer(address(pair), amountIn);
             pair.swap(amountOut, 0, to, new bytes(0));
-            // TODO: Add maximum slippage?
         }
     }
 
@@ -0,0 +1,109 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.6.12;
+
+import "@openzeppelin/contracts/math/Math.sol";
+import "@openzeppelin/contracts/math/SafeMath.sol";
+import "./GovernanceToken.sol";
+
+// MasterBreeder's referral bookkeeping. Deployed on its own & linked like FeeSchedule, its functions run on
+// MasterBreeder's userGlobalInfo through delegatecall, so the events & the minted referral rewards are MasterBreeder's.
+library Referrals {
+    using SafeMath for uint256;
+
+    struct UserGlobalInfo {
+        uint256 globalAmount;
+        mapping(address => uint256) referrals; // LP tokens deposited by each referee & not withdrawn yet
+        uint256 totalReferals;
+        uint256 globalRefAmount;
+        address referrer; // bound on the user's first deposit & immutable afterwards
+        bool hasDeposited;
+        uint256 referralReward; // GovTokens accrued from the referees' harvests, minted by claimReferralReward
+    }
+
+    // Same as MasterBreeder's
+    uint256 internal constant FEE_BPS = 10000;
+
+    event ReferrerBound(address indexed user, address indexed referrer);
+    event ReferralRewardAccrued(address indexed referrer, address indexed user, uint256 amount);
+    event ReferralRewardClaimed(address indexed referrer, uint256 amount, uint256 lockAmount);
+
+    // _ref only counts on the user's first deposit, later deposits are credited to the referrer bound then
+    function credit(
+        mapping(address => UserGlobalInfo) storage _users,
+        address _user,
+        address _ref,
+        uint256 _amount
+    ) external {
+        UserGlobalInfo storage current = _users[_user];
+        if (!current.hasDeposited) {
+            current.hasDeposited = true;
+            if (_ref != address(0)) {
+                require(_ref != _user, "MasterBreeder::deposit: can't refer yourself");
+                current.referrer = _ref;
+                _users[_ref].totalReferals = _users[_ref].totalReferals.add(1);
+                emit ReferrerBound(_user, _ref);
+            }
+        }
+        if (current.referrer != address(0)) {
+            UserGlobalInfo storage refer = _users[current.referrer];
+            refer.referrals[_user] = refer.referrals[_user].add(_amount);
+            refer.globalRefAmount = refer.globalRefAmount.add(_amount);
+        }
+    }
+
+    // Referral values are credited with gross deposits, which cover every withdrawal - the minimum only makes sure that
+    // the referral bookkeeping can never make a withdrawal revert
+    function debit(
+        mapping(address => UserGlobalInfo) storage _users,
+        address _user,
+        uint256 _amount
+    ) external {
+        address referrer = _users[_user].referrer;
+        if (referrer != address(0)) {
+            UserGlobalInfo storage refer = _users[referrer];
+            uint256 amount = Math.min(_amount, refer.referrals[_user]);
+            refer.referrals[_user] = refer.referrals[_user].sub(amount);
+            refer.globalRefAmount = refer.globalRefAmount.sub(amount);
+        }
+    }
+
+    // Only the direct referrer is rewarded, referrals don't cascade up the referrer's own referrer
+    function accrue(
+        mapping(address => UserGlobalInfo) storage _users,
+        address _user,
+        uint256 _harvested,
+        uint256 _referralBps
+    ) external {
+        address referrer = _users[_user].referrer;
+        uint256 reward = _harvested.mul(_referralBps).div(FEE_BPS);
+        if (referrer != address(0) && reward > 0) {
+            UserGlobalInfo storage refer = _users[referrer];
+            refer.referralReward = refer.referralReward.add(reward);
+            emit ReferralRewardAccrued(referrer, _user, reward);
+        }
+    }
+
+    // Mints the caller's accrued referral rewards, locking _lockPercent of them until _finishBonusAtBlock. Like the
+    // farmers' rewards, the mint is capped at what the token's cap has left & the rest stays owed
+    function claim(
+        mapping(address => UserGlobalInfo) storage _users,
+        GovernanceToken _govToken,
+        uint256 _lockPercent,
+        uint256 _finishBonusAtBlock
+    ) external {
+        UserGlobalInfo storage current = _users[msg.sender];
+        require(current.referralReward > 0, "MasterBreeder::claimReferralReward: nothing to claim");
+        uint256 mintable = _govToken.cap().sub(_govToken.totalSupply());
+        require(mintable > 0, "MasterBreeder::claimReferralReward: cap reached");
+        uint256 amount = Math.min(current.referralReward, mintable);
+        current.referralReward = current.referralReward.sub(amount);
+        _govToken.mint(msg.sender, amount);
+        uint256 lockAmount = 0;
+        if (block.number <= _finishBonusAtBlock) {
+            lockAmount = amount.mul(_lockPercent).div(100);
+            _govToken.lock(msg.sender, lockAmount);
+        }
+        emit ReferralRewardClaimed(msg.sender, amount, lockAmount);
+    }
+}
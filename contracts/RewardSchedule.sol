@@ -0,0 +1,65 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.6.12;
+
+import "@openzeppelin/contracts/math/SafeMath.sol";
+
+// MasterBreeder's emission schedule, the reward multiplier of every halving period. Deployed on its own & linked like
+// FeeSchedule, its functions run on MasterBreeder's HALVING_AT_BLOCK & REWARD_MULTIPLIER through delegatecall.
+library RewardSchedule {
+    using SafeMath for uint256;
+
+    // Replaces the halving blocks, there's one halving per reward multiplier so the multipliers have to be updated first
+    function setHalvings(
+        uint256[] storage _halvings,
+        uint256[] storage _multipliers,
+        uint256[] memory _newHalvings
+    ) external {
+        require(_newHalvings.length > 0, "MasterBreeder::halvingUpdate: halvings not increasing");
+        for (uint256 i = 1; i < _newHalvings.length; i++) {
+            require(_newHalvings[i] > _newHalvings[i - 1], "MasterBreeder::halvingUpdate: halvings not increasing");
+        }
+        require(_newHalvings.length == _multipliers.length, "MasterBreeder::halvingUpdate: one halving per multiplier");
+        while (_halvings.length > 0) {
+            _halvings.pop();
+        }
+        for (uint256 i = 0; i < _newHalvings.length; i++) {
+            _halvings.push(_newHalvings[i]);
+        }
+    }
+
+    // Replaces the reward multipliers, multiplier i applies until halving i
+    function setMultipliers(uint256[] storage _multipliers, uint256[] memory _newMultipliers) external {
+        require(_newMultipliers.length > 0, "MasterBreeder::rewardMulUpdate: no multipliers");
+        while (_multipliers.length > 0) {
+            _multipliers.pop();
+        }
+        for (uint256 i = 0; i < _newMultipliers.length; i++) {
+            _multipliers.push(_newMultipliers[i]);
+        }
+    }
+
+    // |--------------------------------------|
+    // [20, 30, 40, 50, 60, 70, 80, 99999999]
+    // Sum of the multipliers of the blocks from _from to _to, which have to be after the start block
+    function multiplierOf(
+        uint256[] storage _halvings,
+        uint256[] storage _multipliers,
+        uint256 _from,
+        uint256 _to
+    ) external view returns (uint256 result) {
+        for (uint256 i = 0; i < _halvings.length; i++) {
+            uint256 endBlock = _halvings[i];
+            if (i > _multipliers.length - 1) return 0;
+
+            if (_to <= endBlock) {
+                return result.add(_to.sub(_from).mul(_multipliers[i]));
+            }
+
+            if (_from < endBlock) {
+                result = result.add(endBlock.sub(_from).mul(_multipliers[i]));
+                _from = endBlock;
+            }
+        }
+    }
+}
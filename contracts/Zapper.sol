@@ -0,0 +1,243 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.6.12;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/SafeERC20.sol";
+import "@openzeppelin/contracts/math/SafeMath.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@venomswap/core/contracts/interfaces/IUniswapV2Pair.sol";
+import "@venomswap/lib/contracts/libraries/Babylonian.sol";
+import "@venomswap/periphery/contracts/interfaces/IUniswapV2Router02.sol";
+import "@venomswap/periphery/contracts/interfaces/IWETH.sol";
+import "./interfaces/IMasterBreeder.sol";
+
+// Zapper enters & exits MasterBreeder pools with a single token of the pool's LP pair, or with ETH for WETH pairs.
+// zapIn swaps part of the token for the other token of the pair, adds liquidity & deposits the LP tokens for the
+// caller, who owns the stake & receives its rewards. Whatever the router didn't add to the pair is sent back.
+// MasterBreeder only lets operators deposit for a user, so callers setOperator the Zapper before their first zap.
+// zapOut is the reverse for LP tokens the caller holds: it removes the liquidity & swaps the other token of the pair for
+// the requested one. withdrawAndZapOut first withdraws the LP tokens from the caller's stake through withdrawTo, which
+// needs the Zapper to be the caller's operator too.
+//
+// The minimum outputs bound the slippage of the whole zap, the intermediate swaps don't have their own.
+contract Zapper is ReentrancyGuard {
+    using SafeMath for uint256;
+    using SafeERC20 for IERC20;
+
+    IMasterBreeder public immutable breeder;
+    IUniswapV2Router02 public immutable router;
+    address public immutable weth;
+
+    event ZapIn(address indexed user, uint256 indexed pid, address tokenIn, uint256 amountIn, uint256 liquidity);
+    event ZapOut(address indexed user, uint256 indexed pid, address tokenOut, uint256 liquidity, uint256 amountOut);
+
+    constructor(IMasterBreeder _breeder, IUniswapV2Router02 _router) public {
+        breeder = _breeder;
+        router = _router;
+        weth = _router.WETH();
+    }
+
+    // Only WETH sends ETH back when the ETH zap outs unwrap it
+    receive() external payable {
+        require(msg.sender == weth, "Zapper: ETH not from WETH");
+    }
+
+    // Zaps _amountIn of _tokenIn into pool _pid, reverting when less than _minLiquidity LP tokens are staked.
+    // _ref binds the caller's referrer if it's their first deposit
+    function zapIn(
+        uint256 _pid,
+        address _tokenIn,
+        uint256 _amountIn,
+        uint256 _minLiquidity,
+        address _ref
+    ) external nonReentrant returns (uint256 liquidity) {
+        require(_amountIn > 0, "Zapper::zapIn: amount must be greater than 0");
+        IERC20(_tokenIn).safeTransferFrom(msg.sender, address(this), _amountIn);
+        liquidity = _zapIn(_pid, _tokenIn, _amountIn, _minLiquidity, _ref);
+    }
+
+    // Same as zapIn with the ETH sent, the pool's pair has to be a WETH pair
+    function zapInETH(
+        uint256 _pid,
+        uint256 _minLiquidity,
+        address _ref
+    ) external payable nonReentrant returns (uint256 liquidity) {
+        require(msg.value > 0, "Zapper::zapIn: amount must be greater than 0");
+        IWETH(weth).deposit{value: msg.value}();
+        liquidity = _zapIn(_pid, weth, msg.value, _minLiquidity, _ref);
+    }
+
+    // Zaps _liquidity of pool _pid's LP tokens out of the caller's balance into _tokenOut, reverting when less than
+    // _minOut is sent back
+    function zapOut(
+        uint256 _pid,
+        uint256 _liquidity,
+        address _tokenOut,
+        uint256 _minOut
+    ) external nonReentrant returns (uint256 amountOut) {
+        amountOut = _zapOut(_pid, _pullLiquidity(_pid, _liquidity), _tokenOut, _minOut);
+        IERC20(_tokenOut).safeTransfer(msg.sender, amountOut);
+    }
+
+    // Same as zapOut into WETH, which is unwrapped & sent as ETH
+    function zapOutETH(
+        uint256 _pid,
+        uint256 _liquidity,
+        uint256 _minOut
+    ) external nonReentrant returns (uint256 amountOut) {
+        amountOut = _zapOut(_pid, _pullLiquidity(_pid, _liquidity), weth, _minOut);
+        _sendETH(amountOut);
+    }
+
+    // Withdraws _amount of the caller's stake in pool _pid & zaps the LP tokens left after MasterBreeder's withdrawal fee
+    // into _tokenOut, reverting when less than _minOut is sent back. The stake's rewards are harvested to the caller
+    function withdrawAndZapOut(
+        uint256 _pid,
+        uint256 _amount,
+        address _tokenOut,
+        uint256 _minOut
+    ) external nonReentrant returns (uint256 amountOut) {
+        amountOut = _zapOut(_pid, _withdrawLiquidity(_pid, _amount), _tokenOut, _minOut);
+        IERC20(_tokenOut).safeTransfer(msg.sender, amountOut);
+    }
+
+    // Same as withdrawAndZapOut into WETH, which is unwrapped & sent as ETH
+    function withdrawAndZapOutETH(
+        uint256 _pid,
+        uint256 _amount,
+        uint256 _minOut
+    ) external nonReentrant returns (uint256 amountOut) {
+        amountOut = _zapOut(_pid, _withdrawLiquidity(_pid, _amount), weth, _minOut);
+        _sendETH(amountOut);
+    }
+
+    function _zapIn(
+        uint256 _pid,
+        address _tokenIn,
+        uint256 _amountIn,
+        uint256 _minLiquidity,
+        address _ref
+    ) internal returns (uint256 liquidity) {
+        (IERC20 lpToken, , , ) = breeder.poolInfo(_pid);
+        (address tokenOther, uint256 reserveIn) = _pairOf(IUniswapV2Pair(address(lpToken)), _tokenIn);
+
+        uint256 swapAmount = _swapAmount(reserveIn, _amountIn);
+        uint256 swapped = _swap(_tokenIn, tokenOther, swapAmount);
+        uint256 remaining = _amountIn.sub(swapAmount);
+        uint256 added;
+        uint256 otherAdded;
+        _approve(_tokenIn, address(router), remaining);
+        _approve(tokenOther, address(router), swapped);
+        (added, otherAdded, liquidity) = router.addLiquidity(
+            _tokenIn,
+            tokenOther,
+            remaining,
+            swapped,
+            0,
+            0,
+            address(this),
+            block.timestamp
+        );
+        require(liquidity >= _minLiquidity, "Zapper::zapIn: insufficient liquidity");
+
+        _approve(address(lpToken), address(breeder), liquidity);
+        breeder.depositFor(_pid, liquidity, msg.sender, _ref);
+        emit ZapIn(msg.sender, _pid, _tokenIn, _amountIn, liquidity);
+
+        // Rounding dust, ETH zaps get it back as WETH
+        if (remaining > added) {
+            IERC20(_tokenIn).safeTransfer(msg.sender, remaining - added);
+        }
+        if (swapped > otherAdded) {
+            IERC20(tokenOther).safeTransfer(msg.sender, swapped - otherAdded);
+        }
+    }
+
+    function _pullLiquidity(uint256 _pid, uint256 _liquidity) internal returns (uint256) {
+        require(_liquidity > 0, "Zapper::zapOut: amount must be greater than 0");
+        (IERC20 lpToken, , , ) = breeder.poolInfo(_pid);
+        lpToken.safeTransferFrom(msg.sender, address(this), _liquidity);
+        return _liquidity;
+    }
+
+    // withdrawTo harvests to where the LP tokens go, so the rewards are claimed to the caller first. Returns the LP
+    // tokens the withdrawal fee left
+    function _withdrawLiquidity(uint256 _pid, uint256 _amount) internal returns (uint256) {
+        require(_amount > 0, "Zapper::zapOut: amount must be greater than 0");
+        (IERC20 lpToken, , , ) = breeder.poolInfo(_pid);
+        uint256 balanceBefore = lpToken.balanceOf(address(this));
+        breeder.claimRewardTo(_pid, msg.sender, msg.sender);
+        breeder.withdrawTo(_pid, _amount, msg.sender, address(this));
+        return lpToken.balanceOf(address(this)).sub(balanceBefore);
+    }
+
+    // _liquidity LP tokens have to be held by the Zapper already
+    function _zapOut(
+        uint256 _pid,
+        uint256 _liquidity,
+        address _tokenOut,
+        uint256 _minOut
+    ) internal returns (uint256 amountOut) {
+        (IERC20 lpToken, , , ) = breeder.poolInfo(_pid);
+        (address tokenOther, ) = _pairOf(IUniswapV2Pair(address(lpToken)), _tokenOut);
+
+        _approve(address(lpToken), address(router), _liquidity);
+        (uint256 removed, uint256 otherRemoved) =
+            router.removeLiquidity(_tokenOut, tokenOther, _liquidity, 0, 0, address(this), block.timestamp);
+        amountOut = removed.add(_swap(tokenOther, _tokenOut, otherRemoved));
+        require(amountOut >= _minOut, "Zapper::zapOut: insufficient output amount");
+        emit ZapOut(msg.sender, _pid, _tokenOut, _liquidity, amountOut);
+    }
+
+    function _sendETH(uint256 _amount) internal {
+        IWETH(weth).withdraw(_amount);
+        (bool success, ) = msg.sender.call{value: _amount}("");
+        require(success, "Zapper::zapOutETH: ETH transfer failed");
+    }
+
+    // The other token of the pair & the pair's reserve of _token
+    function _pairOf(IUniswapV2Pair _pair, address _token) internal view returns (address tokenOther, uint256 reserve) {
+        (uint256 reserve0, uint256 reserve1, ) = _pair.getReserves();
+        if (_token == _pair.token0()) {
+            return (_pair.token1(), reserve0);
+        }
+        require(_token == _pair.token1(), "Zapper: token not in pair");
+        return (_pair.token0(), reserve1);
+    }
+
+    // Part of _amountIn to swap so that the swapped & the remaining tokens match the pair's reserves after the swap,
+    // accounting for the 0.3% swap fee: (sqrt(r * (3988009 * r + 3988000 * a)) - 1997 * r) / 1994
+    function _swapAmount(uint256 _reserveIn, uint256 _amountIn) internal pure returns (uint256) {
+        return
+            Babylonian
+                .sqrt(_reserveIn.mul(_reserveIn.mul(3988009).add(_amountIn.mul(3988000))))
+                .sub(_reserveIn.mul(1997)) / 1994;
+    }
+
+    function _swap(
+        address _from,
+        address _to,
+        uint256 _amount
+    ) internal returns (uint256) {
+        address[] memory path = new address[](2);
+        path[0] = _from;
+        path[1] = _to;
+        _approve(_from, address(router), _amount);
+        uint256[] memory amounts = router.swapExactTokensForTokens(_amount, 0, path, address(this), block.timestamp);
+        return amounts[1];
+    }
+
+    // Tokens are approved once, with a fresh approval whenever earlier zaps used up the allowance
+    function _approve(
+        address _token,
+        address _spender,
+        uint256 _amount
+    ) internal {
+        IERC20 token = IERC20(_token);
+        if (token.allowance(address(this), _spender) < _amount) {
+            token.safeApprove(_spender, 0);
+            token.safeApprove(_spender, uint256(-1));
+        }
+    }
+}
@@ -49,6 +49,7 @@ interface IGovernanceToken {
     function totalBalanceOf(address _holder) external view returns (uint256);
     function lockOf(address _holder) external view returns (uint256);
     function lastUnlockBlock(address _holder) external view returns (uint256);
+    function getPriorLock(address _holder, uint256 _blockNumber) external view returns (uint256);
     function lock(address _holder, uint256 _amount) external;
     function canUnlockAmount(address _holder) external view returns (uint256);
     function unlock() external;
@@ -12,6 +12,12 @@ interface IMasterBreeder {
         uint256 indexed pid,
         uint256 amount
     );
+    event FeeRecipientsUpdated(address[] recipients, uint256[] bps);
+    event FeeDistributed(address indexed recipient, uint256 indexed pid, uint256 amount);
+    event ReferrerBound(address indexed user, address indexed referrer);
+    event ReferralRewardAccrued(address indexed referrer, address indexed user, uint256 amount);
+    event ReferralRewardClaimed(address indexed referrer, uint256 amount, uint256 lockAmount);
+    event OperatorSet(address indexed user, address indexed operator, bool approved);
     event SendGovernanceTokenReward(
         address indexed user,
         uint256 indexed pid,
@@ -19,9 +25,12 @@ interface IMasterBreeder {
         uint256 lockAmount
     );
 
+    function govToken() external view returns (address);
     function poolId1(address addr) external returns (uint256);
     function userInfo(uint256 poolId, address addr) external view returns (uint256, uint256);
+    function poolInfo(uint256 poolId) external view returns (IERC20 lpToken, uint256 allocPoint, uint256 lastRewardBlock, uint256 accGovTokenPerShare);
     function poolExistence(IERC20 token) external view returns (bool);
+    function isOperator(address user, address operator) external view returns (bool);
 
     function poolLength() external view returns (uint256);
     function add(uint256 _allocPoint, IERC20 _lpToken, bool _withUpdate) external;
@@ -39,12 +48,22 @@ interface IMasterBreeder {
     function pendingReward(uint256 _pid, address _user) external view returns (uint256);
     function claimRewards(uint256[] memory _pids) external;
     function claimReward(uint256 _pid) external;
+    function claimRewardTo(uint256 _pid, address _user, address _to) external;
+    function getPriorStake(uint256 _pid, address _user, uint256 _blockNumber) external view returns (uint256);
     function getGlobalAmount(address _user) external view returns (uint256);
     function getGlobalRefAmount(address _user) external view returns (uint256);
     function getTotalRefs(address _user) external view returns (uint256);
     function getRefValueOf(address _user, address _user2) external view returns (uint256);
+    function referrerOf(address _user) external view returns (address);
+    function referralBps() external view returns (uint256);
+    function pendingReferralReward(address _referrer) external view returns (uint256);
+    function claimReferralReward() external;
+    function setOperator(address _operator, bool _approved) external;
     function deposit(uint256 _pid, uint256 _amount, address _ref) external;
+    function depositFor(uint256 _pid, uint256 _amount, address _user, address _ref) external;
+    function depositWithPermit(uint256 _pid, uint256 _amount, address _ref, uint256 _deadline, uint8 _v, bytes32 _r, bytes32 _s) external;
     function withdraw(uint256 _pid, uint256 _amount, address _ref) external;
+    function withdrawTo(uint256 _pid, uint256 _amount, address _user, address _to) external;
     function emergencyWithdraw(uint256 _pid) external;
     function dev(address _devaddr) external;
     function bonusFinishUpdate(uint256 _newFinish) external;
@@ -60,14 +79,18 @@ interface IMasterBreeder {
     function lockcomUpdate(uint256 _newcomlock) external;
     function lockfounderUpdate(uint256 _newfounderlock) external;
     function starblockUpdate(uint256 _newstarblock) external;
+    function setReferralBps(uint256 _referralBps) external;
     function getNewRewardPerBlock(uint256 pid1) external view returns (uint256);
     function userDelta(uint256 _pid) external view returns (uint256);
     function reviseWithdraw(uint256 _pid, address _user, uint256 _block) external;
     function reviseDeposit(uint256 _pid, address _user, uint256 _block) external;
-    function setStageStarts(uint256[] memory _blockStarts) external;
-    function setStageEnds(uint256[] memory _blockEnds) external;
-    function setUserFeeStage(uint256[] memory _userFees) external;
-    function setDevFeeStage(uint256[] memory _devFees) external;
+    function feeTierCount() external view returns (uint256);
+    function feeTiers(uint256 index) external view returns (uint256 minBlockDelta, uint256 userBps, uint256 devBps);
+    function feeTierOf(uint256 _blockDelta) external view returns (uint256);
+    function setFeeTiers(uint256[] memory _minBlockDeltas, uint256[] memory _userBps, uint256[] memory _devBps) external;
+    function feeRecipientCount() external view returns (uint256);
+    function feeRecipients(uint256 index) external view returns (address recipient, uint256 bps);
+    function setFeeRecipients(address[] memory _recipients, uint256[] memory _bps) external;
     function setDevDepFee(uint256 _devDepFees) external;
     function setUserDepFee(uint256 _usrDepFees) external;
     function reclaimTokenOwnership(address _newOwner) external;
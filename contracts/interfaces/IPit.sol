@@ -39,4 +39,5 @@ interface IPit {
     function govToken() external returns (IERC20);
     function enter(uint256 _amount) external;
     function leave(uint256 _share) external;
+    function getPriorShares(address _account, uint256 _blockNumber) external view returns (uint256);
 }
@@ -0,0 +1,8 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.6.12;
+
+// Block-pinned voting power, implemented by GovernanceToken (delegated votes) and GovernanceVote (weighted LP, Pit & lock votes)
+interface IVotingPower {
+    function getPriorVotes(address account, uint256 blockNumber) external view returns (uint256);
+}
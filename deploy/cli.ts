@@ -0,0 +1,52 @@
+import { Wallet } from 'ethers'
+import { JsonRpcProvider } from 'ethers/providers'
+
+import { blocksFor, loadNetworkConfig } from './config'
+import { writeManifest } from './manifest'
+import { deployProtocol } from './pipeline'
+
+// Usage: PRIVATE_KEY=0x... yarn deploy --network harmony [--start-block 123 | --start-delay 86400]
+// RPC_URL overrides the rpcUrl of the network config
+
+function argument(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index === -1 ? undefined : process.argv[index + 1]
+}
+
+async function main() {
+  const network = argument('network')
+  if (!network) {
+    throw new Error('Missing --network')
+  }
+  if (!process.env.PRIVATE_KEY) {
+    throw new Error('Missing PRIVATE_KEY')
+  }
+
+  let config = loadNetworkConfig(network)
+  const provider = new JsonRpcProvider(process.env.RPC_URL || config.rpcUrl)
+  const wallet = new Wallet(process.env.PRIVATE_KEY, provider)
+
+  const { chainId } = await provider.getNetwork()
+  if (chainId !== config.chainId) {
+    throw new Error(`Connected to chain ${chainId}, but the ${network} config expects chain ${config.chainId}`)
+  }
+
+  const startBlock = argument('start-block')
+  const startDelay = argument('start-delay')
+  if (startBlock) {
+    config = loadNetworkConfig(network, { startBlock: parseInt(startBlock) })
+  } else if (startDelay) {
+    const currentBlock = await provider.getBlockNumber()
+    config = loadNetworkConfig(network, {
+      startBlock: currentBlock + blocksFor(parseInt(startDelay), config.blockTime)
+    })
+  }
+
+  const { manifest } = await deployProtocol(wallet, config, { log: message => console.log(message) })
+  console.log(`Deployment manifest written to ${writeManifest(manifest)}`)
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
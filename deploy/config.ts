@@ -0,0 +1,199 @@
+import fs from 'fs'
+import path from 'path'
+import { BigNumber, parseEther } from 'ethers/utils'
+
+import { createFeeTiers, validateFeeTiers } from '../sdk'
+
+import defaults from './defaults.json'
+
+export const NETWORKS_DIR = path.join(__dirname, 'networks')
+
+// All durations are in seconds and get converted to block counts using the network's block time
+export interface NetworkConfig {
+  name: string
+  chainId: number
+  rpcUrl: string
+  blockTime: number
+  startBlock: number
+  governanceToken: {
+    name: string
+    symbol: string
+    cap: string // whole tokens
+    manualMintLimit: string // whole tokens
+    lockFromDelay: number // time from startBlock until locked rewards start unlocking
+    lockDuration: number // time over which locked rewards unlock linearly
+  }
+  masterBreeder: {
+    rewardPerBlock: string // whole tokens
+    halvingInterval: number
+    rewardMultipliers: number[]
+    userDepositFee: number
+    devDepositFee: number
+    // Withdrawal fee tiers 1+ apply once more than their duration passed since the last withdrawal (or first deposit),
+    // tier 0 covers the rest & withdrawals in the deposit block
+    feeTierDurations: number[]
+    feeTierUserBps: number[]
+    feeTierDevBps: number[]
+    percentLockBonusReward: number
+    percentForCom: number
+    percentForDev: number
+    percentForFounders: number
+    percentForLP: number
+    funds: {
+      dev: string
+      liquidity: string
+      community: string
+      founder: string
+    }
+  }
+  pit: {
+    name: string
+    symbol: string
+  }
+  pitBreeder: {
+    factory: string
+    weth: string
+  }
+  governanceVote: {
+    name: string
+    symbol: string
+    allocPoint: number // allocation of the governance token/WETH pool that GovernanceVote counts LP votes for
+    lpMultiplier: number
+    singleStakingMultiplier: number
+  }
+  timelock: {
+    delay: number
+  }
+  // Administers the Timelock & counts GovernanceVote's voting power
+  governorAlpha: {
+    guardian: string // defaults to the deployer when empty
+    quorumVotes: string // whole votes
+    proposalThreshold: string // whole votes
+    votingDelay: number
+    votingPeriod: number
+  }
+}
+
+// Block based constructor parameters derived from a NetworkConfig
+export interface DeploymentParameters {
+  startBlock: number
+  halvingAfterBlock: number
+  lockFromBlock: number
+  lockToBlock: number
+  rewardPerBlock: BigNumber
+  cap: BigNumber
+  manualMintLimit: BigNumber
+  feeTierMinBlockDeltas: number[]
+  quorumVotes: BigNumber
+  proposalThreshold: BigNumber
+  votingDelay: number
+  votingPeriod: number
+}
+
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends any[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K]
+}
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+function merge<T>(base: T, overrides: DeepPartial<T> | undefined): T {
+  const result: any = { ...base }
+  if (!overrides) return result
+  for (const key of Object.keys(overrides)) {
+    const value = (overrides as any)[key]
+    if (value === undefined) continue
+    result[key] = isObject(value) && isObject(result[key]) ? merge(result[key], value) : value
+  }
+  return result
+}
+
+// Converts a wall-clock duration into the closest number of blocks
+export function blocksFor(seconds: number, blockTime: number): number {
+  return Math.round(seconds / blockTime)
+}
+
+// Applies a network's overrides on top of deploy/defaults.json
+export function resolveNetworkConfig(
+  network: DeepPartial<NetworkConfig>,
+  overrides?: DeepPartial<NetworkConfig>
+): NetworkConfig {
+  return merge(merge(defaults as any, network), overrides) as NetworkConfig
+}
+
+export function loadNetworkConfig(name: string, overrides?: DeepPartial<NetworkConfig>): NetworkConfig {
+  const file = path.join(NETWORKS_DIR, `${name}.json`)
+  if (!fs.existsSync(file)) {
+    throw new Error(`Unknown network: ${name}`)
+  }
+  return resolveNetworkConfig(JSON.parse(fs.readFileSync(file, 'utf8')), overrides)
+}
+
+// Tier 0 starts at block delta 0, every following tier in the block after its duration ends
+export function feeTierMinBlockDeltas(durations: number[], blockTime: number): number[] {
+  return [0].concat(durations.map(duration => blocksFor(duration, blockTime) + 1))
+}
+
+export function validateNetworkConfig(config: NetworkConfig) {
+  const errors: string[] = []
+  const isAddress = (value: string) => /^0x[0-9a-fA-F]{40}$/.test(value)
+
+  const { masterBreeder } = config
+  if (!(config.blockTime > 0)) errors.push('blockTime must be greater than 0')
+  if (!(config.startBlock > 0)) errors.push('startBlock must be set')
+  if (masterBreeder.rewardMultipliers.length < 2) errors.push('masterBreeder.rewardMultipliers needs 2+ entries')
+  const tierCount = masterBreeder.feeTierUserBps.length
+  if (masterBreeder.feeTierDevBps.length !== tierCount || masterBreeder.feeTierDurations.length !== tierCount - 1) {
+    errors.push('masterBreeder.feeTierDurations needs one entry less than feeTierUserBps & feeTierDevBps')
+  } else if (config.blockTime > 0) {
+    const tiers = createFeeTiers(
+      feeTierMinBlockDeltas(masterBreeder.feeTierDurations, config.blockTime),
+      masterBreeder.feeTierUserBps,
+      masterBreeder.feeTierDevBps
+    )
+    errors.push(...validateFeeTiers(tiers).map(error => `masterBreeder: ${error}`))
+  }
+
+  const addresses: [string, string][] = [
+    ['masterBreeder.funds.dev', masterBreeder.funds.dev],
+    ['masterBreeder.funds.liquidity', masterBreeder.funds.liquidity],
+    ['masterBreeder.funds.community', masterBreeder.funds.community],
+    ['masterBreeder.funds.founder', masterBreeder.funds.founder],
+    ['pitBreeder.factory', config.pitBreeder.factory],
+    ['pitBreeder.weth', config.pitBreeder.weth]
+  ]
+  for (const [key, value] of addresses) {
+    if (!isAddress(value)) errors.push(`${key} must be an address`)
+  }
+  if (config.governorAlpha.guardian && !isAddress(config.governorAlpha.guardian)) {
+    errors.push('governorAlpha.guardian must be an address')
+  }
+  if (config.blockTime > 0 && blocksFor(config.governorAlpha.votingPeriod, config.blockTime) < 1) {
+    errors.push('governorAlpha.votingPeriod must last at least one block')
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid network config ${config.name}: ${errors.join(', ')}`)
+  }
+}
+
+export function deriveParameters(config: NetworkConfig): DeploymentParameters {
+  const { blockTime, startBlock, governanceToken, masterBreeder, governorAlpha } = config
+  const lockFromBlock = startBlock + blocksFor(governanceToken.lockFromDelay, blockTime)
+
+  return {
+    startBlock,
+    halvingAfterBlock: blocksFor(masterBreeder.halvingInterval, blockTime),
+    lockFromBlock,
+    lockToBlock: lockFromBlock + blocksFor(governanceToken.lockDuration, blockTime),
+    rewardPerBlock: parseEther(masterBreeder.rewardPerBlock),
+    cap: parseEther(governanceToken.cap),
+    manualMintLimit: parseEther(governanceToken.manualMintLimit),
+    feeTierMinBlockDeltas: feeTierMinBlockDeltas(masterBreeder.feeTierDurations, blockTime),
+    quorumVotes: parseEther(governorAlpha.quorumVotes),
+    proposalThreshold: parseEther(governorAlpha.proposalThreshold),
+    votingDelay: blocksFor(governorAlpha.votingDelay, blockTime),
+    votingPeriod: blocksFor(governorAlpha.votingPeriod, blockTime)
+  }
+}
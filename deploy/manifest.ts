@@ -0,0 +1,42 @@
+import fs from 'fs'
+import path from 'path'
+
+import { NetworkConfig } from './config'
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, 'deployments')
+
+export interface ContractDeployment {
+  address: string
+  transactionHash: string
+  blockNumber: number
+  args: any[]
+}
+
+export interface DeploymentManifest {
+  network: string
+  chainId: number
+  deployer: string
+  timestamp: string
+  config: NetworkConfig
+  parameters: { [key: string]: any }
+  contracts: { [name: string]: ContractDeployment }
+}
+
+export function manifestPath(network: string, dir: string = DEPLOYMENTS_DIR): string {
+  return path.join(dir, `${network}.json`)
+}
+
+export function writeManifest(manifest: DeploymentManifest, dir: string = DEPLOYMENTS_DIR): string {
+  const file = manifestPath(manifest.network, dir)
+  fs.mkdirSync(dir, { recursive: true })
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + '\n')
+  return file
+}
+
+export function readManifest(network: string, dir: string = DEPLOYMENTS_DIR): DeploymentManifest {
+  const file = manifestPath(network, dir)
+  if (!fs.existsSync(file)) {
+    throw new Error(`No deployment manifest for network: ${network}`)
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'))
+}
@@ -0,0 +1,229 @@
+import { Contract, ContractFactory, Signer } from 'ethers'
+import { AddressZero } from 'ethers/constants'
+import { ContractTransaction } from 'ethers/contract'
+import { TransactionRequest } from 'ethers/providers'
+import { BigNumber, getContractAddress } from 'ethers/utils'
+
+import {
+  GovernanceToken,
+  GovernanceVote,
+  GovernorAlpha,
+  linkLibraries,
+  MASTER_BREEDER_LIBRARIES,
+  MasterBreeder,
+  Pit,
+  PitBreeder,
+  Timelock
+} from '../sdk'
+
+import { deriveParameters, NetworkConfig, validateNetworkConfig } from './config'
+import { ContractDeployment, DeploymentManifest } from './manifest'
+
+import GovernanceTokenArtifact from '../build/GovernanceToken.json'
+import MasterBreederArtifact from '../build/MasterBreeder.json'
+import PitArtifact from '../build/Pit.json'
+import PitBreederArtifact from '../build/PitBreeder.json'
+import GovernanceVoteArtifact from '../build/GovernanceVote.json'
+import TimelockArtifact from '../build/Timelock.json'
+import GovernorAlphaArtifact from '../build/GovernorAlpha.json'
+import IUniswapV2Factory from '../build/IUniswapV2Factory.json'
+import IUniswapV2Pair from '../build/IUniswapV2Pair.json'
+
+export interface DeployOptions {
+  overrides?: TransactionRequest
+  log?: (message: string) => void
+}
+
+export interface Deployment {
+  manifest: DeploymentManifest
+  govToken: GovernanceToken
+  breeder: MasterBreeder
+  pit: Pit
+  pitBreeder: PitBreeder
+  govVote: GovernanceVote
+  timelock: Timelock
+  governor: GovernorAlpha
+}
+
+// BigNumbers are stored as decimal strings so that manifests stay readable
+function serialize(value: any): any {
+  if (value instanceof BigNumber) return value.toString()
+  if (Array.isArray(value)) return value.map(serialize)
+  if (value !== null && typeof value === 'object') {
+    const result: { [key: string]: any } = {}
+    Object.keys(value).forEach(key => (result[key] = serialize(value[key])))
+    return result
+  }
+  return value
+}
+
+// Deploys GovernanceToken -> FeeSchedule, RewardSchedule & Referrals -> MasterBreeder -> Pit -> PitBreeder -> GovernanceVote -> Timelock ->
+// GovernorAlpha and hands the token's ownership to MasterBreeder
+export async function deployProtocol(
+  signer: Signer,
+  config: NetworkConfig,
+  options: DeployOptions = {}
+): Promise<Deployment> {
+  validateNetworkConfig(config)
+
+  const provider = signer.provider
+  if (!provider) {
+    throw new Error('Signer must be connected to a provider')
+  }
+
+  const overrides = options.overrides || {}
+  const log = options.log || (() => {})
+  const parameters = deriveParameters(config)
+  const deployer = await signer.getAddress()
+  const contracts: { [name: string]: ContractDeployment } = {}
+
+  async function deploy(name: string, artifact: any, args: any[]): Promise<string> {
+    const factory = new ContractFactory(artifact.abi, artifact.bytecode, signer)
+    const contract = await factory.deploy(...args, overrides)
+    await contract.deployed()
+    const receipt = await provider!.getTransactionReceipt(contract.deployTransaction.hash!)
+
+    contracts[name] = {
+      address: contract.address,
+      transactionHash: contract.deployTransaction.hash!,
+      blockNumber: receipt.blockNumber!,
+      args: serialize(args)
+    }
+    log(`${name}: ${contract.address}`)
+    return contract.address
+  }
+
+  async function send(description: string, tx: Promise<ContractTransaction>) {
+    await (await tx).wait()
+    log(description)
+  }
+
+  const { funds } = config.masterBreeder
+
+  const govToken = new GovernanceToken(
+    await deploy('GovernanceToken', GovernanceTokenArtifact, [
+      config.governanceToken.name,
+      config.governanceToken.symbol,
+      parameters.cap,
+      parameters.manualMintLimit,
+      parameters.lockFromBlock,
+      parameters.lockToBlock
+    ]),
+    signer
+  )
+
+  const libraries: { [name: string]: string } = {}
+  for (const name of Object.keys(MASTER_BREEDER_LIBRARIES)) {
+    libraries[name] = await deploy(name, MASTER_BREEDER_LIBRARIES[name], [])
+  }
+  const breeder = new MasterBreeder(
+    await deploy('MasterBreeder', linkLibraries(MasterBreederArtifact, libraries), [
+      govToken.address,
+      funds.dev,
+      funds.liquidity,
+      funds.community,
+      funds.founder,
+      parameters.rewardPerBlock,
+      parameters.startBlock,
+      parameters.halvingAfterBlock,
+      config.masterBreeder.userDepositFee,
+      config.masterBreeder.devDepositFee,
+      config.masterBreeder.rewardMultipliers,
+      parameters.feeTierMinBlockDeltas,
+      config.masterBreeder.feeTierUserBps,
+      config.masterBreeder.feeTierDevBps
+    ]),
+    signer
+  )
+
+  await send('MasterBreeder: lockUpdate', breeder.lockUpdate(config.masterBreeder.percentLockBonusReward, overrides))
+  await send('MasterBreeder: lockcomUpdate', breeder.lockcomUpdate(config.masterBreeder.percentForCom, overrides))
+  await send('MasterBreeder: lockdevUpdate', breeder.lockdevUpdate(config.masterBreeder.percentForDev, overrides))
+  await send(
+    'MasterBreeder: lockfounderUpdate',
+    breeder.lockfounderUpdate(config.masterBreeder.percentForFounders, overrides)
+  )
+  await send('MasterBreeder: locklpUpdate', breeder.locklpUpdate(config.masterBreeder.percentForLP, overrides))
+
+  const pit = new Pit(await deploy('Pit', PitArtifact, [config.pit.name, config.pit.symbol, govToken.address]), signer)
+
+  const pitBreeder = new PitBreeder(
+    await deploy('PitBreeder', PitBreederArtifact, [
+      config.pitBreeder.factory,
+      pit.address,
+      govToken.address,
+      config.pitBreeder.weth
+    ]),
+    signer
+  )
+
+  // GovernanceVote counts the governance token held in the token/WETH pair, which has to be a MasterBreeder pool
+  // Its LP rates start once the pair has liquidity & someone (e.g. the keeper) calls checkpointPools a period later
+  const factory = new Contract(config.pitBreeder.factory, IUniswapV2Factory.abi, signer)
+  let pairAddress: string = await factory.getPair(govToken.address, config.pitBreeder.weth)
+  if (pairAddress === AddressZero) {
+    await send('UniswapV2Factory: createPair', factory.createPair(govToken.address, config.pitBreeder.weth, overrides))
+    pairAddress = await factory.getPair(govToken.address, config.pitBreeder.weth)
+  }
+  await send('MasterBreeder: add', breeder.add(config.governanceVote.allocPoint, pairAddress, true, overrides))
+  const poolId = (await breeder.poolLength()) - 1
+  const token0: string = await new Contract(pairAddress, IUniswapV2Pair.abi, signer).token0()
+  const govTokenReservePosition = token0 === govToken.address ? 0 : 1
+
+  const govVote = new GovernanceVote(
+    await deploy('GovernanceVote', GovernanceVoteArtifact, [
+      config.governanceVote.name,
+      config.governanceVote.symbol,
+      govToken.address,
+      pit.address,
+      breeder.address,
+      poolId,
+      pairAddress,
+      govTokenReservePosition,
+      config.governanceVote.lpMultiplier,
+      config.governanceVote.singleStakingMultiplier
+    ]),
+    signer
+  )
+
+  // The Timelock is administered by the GovernorAlpha deployed right after it, which in turn needs the Timelock's address
+  const governorAddress = getContractAddress({
+    from: deployer,
+    nonce: (await provider.getTransactionCount(deployer, 'pending')) + 1
+  })
+  const timelock = new Timelock(
+    await deploy('Timelock', TimelockArtifact, [governorAddress, config.timelock.delay]),
+    signer
+  )
+  const governor = new GovernorAlpha(
+    await deploy('GovernorAlpha', GovernorAlphaArtifact, [
+      timelock.address,
+      govVote.address,
+      config.governorAlpha.guardian || deployer,
+      parameters.quorumVotes,
+      parameters.proposalThreshold,
+      parameters.votingDelay,
+      parameters.votingPeriod
+    ]),
+    signer
+  )
+  if (governor.address !== governorAddress) {
+    throw new Error(
+      `GovernorAlpha was deployed at ${governor.address} instead of the Timelock's admin ${governorAddress}`
+    )
+  }
+
+  await send('GovernanceToken: transferOwnership', govToken.transferOwnership(breeder.address, overrides))
+
+  const manifest: DeploymentManifest = {
+    network: config.name,
+    chainId: (await provider.getNetwork()).chainId,
+    deployer,
+    timestamp: new Date().toISOString(),
+    config,
+    parameters: serialize({ ...parameters, lpPair: pairAddress, poolId, govTokenReservePosition }),
+    contracts
+  }
+
+  return { manifest, govToken, breeder, pit, pitBreeder, govVote, timelock, governor }
+}
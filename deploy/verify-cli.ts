@@ -0,0 +1,38 @@
+import fs from 'fs'
+import { JsonRpcProvider } from 'ethers/providers'
+
+import { DEPLOYMENTS_DIR, readManifest } from './manifest'
+import { formatReport, verifyDeployment } from './verify'
+
+// Usage: yarn deploy:verify --network harmony [--dir deploy/deployments] [--roles roles.json]
+// --roles points to the expected role members, e.g. { "MasterBreeder": { "feeManager": ["0x..."] }, "GovernanceToken": {} }
+// RPC_URL overrides the rpcUrl stored in the manifest's config, e.g. to verify against a local node
+
+function argument(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index === -1 ? undefined : process.argv[index + 1]
+}
+
+async function main() {
+  const network = argument('network')
+  if (!network) {
+    throw new Error('Missing --network')
+  }
+
+  const manifest = readManifest(network, argument('dir') || DEPLOYMENTS_DIR)
+  const provider = new JsonRpcProvider(process.env.RPC_URL || manifest.config.rpcUrl)
+  const rolesFile = argument('roles')
+
+  const report = await verifyDeployment(manifest, provider, {
+    roles: rolesFile ? JSON.parse(fs.readFileSync(rolesFile, 'utf8')) : {}
+  })
+  console.log(formatReport(report))
+  if (!report.passed) {
+    process.exit(1)
+  }
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
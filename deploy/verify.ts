@@ -0,0 +1,304 @@
+import { Provider } from 'ethers/providers'
+import { MaxUint256 } from 'ethers/constants'
+import { BigNumber } from 'ethers/utils'
+
+import {
+  createFeeTiers,
+  FeeTier,
+  fetchFeeTiers,
+  GOVERNANCE_TOKEN_ROLES,
+  GovernanceToken,
+  GovernanceVote,
+  GovernorAlpha,
+  MASTER_BREEDER_ROLES,
+  MasterBreeder,
+  Pit,
+  PitBreeder,
+  Role,
+  Timelock
+} from '../sdk'
+
+import { deriveParameters } from './config'
+import { DeploymentManifest } from './manifest'
+
+export interface VerificationCheck {
+  name: string
+  passed: boolean
+  details?: string
+}
+
+export interface VerificationReport {
+  network: string
+  passed: boolean
+  checks: VerificationCheck[]
+}
+
+// Expected members by role, roles that are left out are expected to have no members
+export type RoleMembers = Partial<Record<Role, string[]>>
+
+export interface VerifyOptions {
+  roles?: {
+    GovernanceToken?: RoleMembers
+    MasterBreeder?: RoleMembers
+  }
+}
+
+// A check passes when it returns true and fails with the returned string (or thrown error) as details
+type CheckResult = true | string
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase()
+}
+
+function expectAddress(label: string, actual: string, expected: string): CheckResult {
+  return sameAddress(actual, expected) ? true : `${label} is ${actual}, expected ${expected}`
+}
+
+function expectAll(results: CheckResult[]): CheckResult {
+  const failures = results.filter(result => result !== true)
+  return failures.length === 0 ? true : failures.join('; ')
+}
+
+// Public array getters revert past the end of the array and there are no length getters,
+// so the length is found with an exponential + binary search over the getter
+export async function arrayLength(getter: (index: number) => Promise<any>): Promise<number> {
+  const exists = (index: number) =>
+    getter(index).then(
+      () => true,
+      () => false
+    )
+
+  let low = 0
+  let high = 1
+  while (await exists(high - 1)) {
+    low = high
+    high *= 2
+  }
+  // Index low - 1 exists and index high - 1 doesn't
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2)
+    if (await exists(mid - 1)) {
+      low = mid
+    } else {
+      high = mid
+    }
+  }
+  return low
+}
+
+async function readArray<T>(getter: (index: number) => Promise<T>): Promise<T[]> {
+  const length = await arrayLength(getter)
+  const values: T[] = []
+  for (let i = 0; i < length; i++) {
+    values.push(await getter(i))
+  }
+  return values
+}
+
+function isIncreasing(values: BigNumber[]): boolean {
+  return values.every((value, index) => index === 0 || value.gt(values[index - 1]))
+}
+
+// Queries every contract of a deployment and checks the configuration invariants the protocol relies on
+export async function verifyDeployment(
+  manifest: DeploymentManifest,
+  provider: Provider,
+  options: VerifyOptions = {}
+): Promise<VerificationReport> {
+  const { config, contracts, deployer } = manifest
+  const parameters = deriveParameters(config)
+
+  const govToken = new GovernanceToken(contracts.GovernanceToken.address, provider)
+  const breeder = new MasterBreeder(contracts.MasterBreeder.address, provider)
+  const pit = new Pit(contracts.Pit.address, provider)
+  const pitBreeder = new PitBreeder(contracts.PitBreeder.address, provider)
+  const govVote = new GovernanceVote(contracts.GovernanceVote.address, provider)
+  const timelock = new Timelock(contracts.Timelock.address, provider)
+  const governor = new GovernorAlpha(contracts.GovernorAlpha.address, provider)
+
+  const checks: VerificationCheck[] = []
+  async function check(name: string, fn: () => Promise<CheckResult>) {
+    try {
+      const result = await fn()
+      checks.push(result === true ? { name, passed: true } : { name, passed: false, details: result })
+    } catch (error) {
+      checks.push({ name, passed: false, details: error.message })
+    }
+  }
+
+  await check('Contracts are deployed', async () => {
+    const missing: string[] = []
+    for (const name of Object.keys(contracts)) {
+      if ((await provider.getCode(contracts[name].address)) === '0x') missing.push(name)
+    }
+    return missing.length === 0 ? true : `No code at ${missing.join(', ')}`
+  })
+
+  // Ownership graph
+
+  await check('GovernanceToken is owned by MasterBreeder', async () =>
+    expectAddress('GovernanceToken.owner', await govToken.owner(), breeder.address)
+  )
+
+  await check('MasterBreeder, PitBreeder & GovernanceVote are owned by the deployer', async () =>
+    expectAll([
+      expectAddress('MasterBreeder.owner', await breeder.owner(), deployer),
+      expectAddress('PitBreeder.owner', await pitBreeder.owner(), deployer),
+      expectAddress('GovernanceVote.owner', await govVote.owner(), deployer)
+    ])
+  )
+
+  await check('Timelock admin', async () => expectAddress('Timelock.admin', await timelock.admin(), governor.address))
+
+  await check('GovernorAlpha settings', async () => {
+    const expected: [string, BigNumber, BigNumber | number][] = [
+      ['quorumVotes', await governor.quorumVotes(), parameters.quorumVotes],
+      ['proposalThreshold', await governor.proposalThreshold(), parameters.proposalThreshold],
+      ['votingDelay', await governor.votingDelay(), parameters.votingDelay],
+      ['votingPeriod', await governor.votingPeriod(), parameters.votingPeriod]
+    ]
+    return expectAll([
+      expectAddress('GovernorAlpha.guardian', await governor.guardian(), config.governorAlpha.guardian || deployer),
+      ...expected.map(([name, actual, value]) => (actual.eq(value) ? true : `${name} is ${actual}, expected ${value}`))
+    ])
+  })
+
+  await check('Contract references', async () =>
+    expectAll([
+      expectAddress('MasterBreeder.govToken', await breeder.govToken(), govToken.address),
+      expectAddress('Pit.govToken', await pit.govToken(), govToken.address),
+      expectAddress('PitBreeder.pit', await pitBreeder.pit(), pit.address),
+      expectAddress('PitBreeder.factory', await pitBreeder.factory(), config.pitBreeder.factory),
+      expectAddress('GovernanceVote.govToken', await govVote.govToken(), govToken.address),
+      expectAddress('GovernanceVote.pit', await govVote.pit(), pit.address),
+      expectAddress('GovernanceVote.masterBreeder', await govVote.masterBreeder(), breeder.address),
+      expectAddress('GovernanceVote.lpPair', await govVote.lpPair(), manifest.parameters.lpPair),
+      expectAddress('GovernorAlpha.timelock', await governor.timelock(), timelock.address),
+      expectAddress('GovernorAlpha.votingPower', await governor.votingPower(), govVote.address)
+    ])
+  )
+
+  await check('MasterBreeder fund addresses', async () =>
+    expectAll([
+      expectAddress('devaddr', await breeder.devaddr(), config.masterBreeder.funds.dev),
+      expectAddress('liquidityaddr', await breeder.liquidityaddr(), config.masterBreeder.funds.liquidity),
+      expectAddress('comfundaddr', await breeder.comfundaddr(), config.masterBreeder.funds.community),
+      expectAddress('founderaddr', await breeder.founderaddr(), config.masterBreeder.funds.founder)
+    ])
+  )
+
+  const roles = options.roles || {}
+  for (const [name, contract, contractRoles, expectedMembers] of [
+    ['GovernanceToken', govToken, GOVERNANCE_TOKEN_ROLES, roles.GovernanceToken || {}],
+    ['MasterBreeder', breeder, MASTER_BREEDER_ROLES, roles.MasterBreeder || {}]
+  ] as [string, GovernanceToken | MasterBreeder, Role[], RoleMembers][]) {
+    await check(`${name} role members`, async () => {
+      const results: CheckResult[] = []
+      for (const role of contractRoles) {
+        const members = await contract.getRoleMembers(role)
+        const expected = expectedMembers[role] || []
+        for (const member of members) {
+          if (!expected.some(address => sameAddress(address, member))) {
+            results.push(`${member} unexpectedly holds ${role}`)
+          }
+        }
+        for (const address of expected) {
+          if (!members.some(member => sameAddress(address, member))) {
+            results.push(`${address} doesn't hold ${role}`)
+          }
+        }
+      }
+      return expectAll(results)
+    })
+  }
+
+  // Rewards
+
+  await check('Reward splits & lock percentage', async () => {
+    const expected: [string, BigNumber, number][] = [
+      [
+        'PERCENT_LOCK_BONUS_REWARD',
+        await breeder.PERCENT_LOCK_BONUS_REWARD(),
+        config.masterBreeder.percentLockBonusReward
+      ],
+      ['PERCENT_FOR_COM', await breeder.PERCENT_FOR_COM(), config.masterBreeder.percentForCom],
+      ['PERCENT_FOR_DEV', await breeder.PERCENT_FOR_DEV(), config.masterBreeder.percentForDev],
+      ['PERCENT_FOR_FOUNDERS', await breeder.PERCENT_FOR_FOUNDERS(), config.masterBreeder.percentForFounders],
+      ['PERCENT_FOR_LP', await breeder.PERCENT_FOR_LP(), config.masterBreeder.percentForLP]
+    ]
+    return expectAll(
+      expected.map(([name, actual, value]) => (actual.eq(value) ? true : `${name} is ${actual}, expected ${value}`))
+    )
+  })
+
+  await check('HALVING_AT_BLOCK matches REWARD_MULTIPLIER', async () => {
+    const multipliers = await arrayLength(index => breeder.REWARD_MULTIPLIER(index))
+    const halvings = await readArray(index => breeder.HALVING_AT_BLOCK(index))
+    const startBlock = await breeder.START_BLOCK()
+    return expectAll([
+      halvings.length === multipliers
+        ? true
+        : `HALVING_AT_BLOCK has ${halvings.length} entries, REWARD_MULTIPLIER has ${multipliers}`,
+      multipliers === config.masterBreeder.rewardMultipliers.length
+        ? true
+        : `REWARD_MULTIPLIER has ${multipliers} entries, expected ${config.masterBreeder.rewardMultipliers.length}`,
+      isIncreasing(halvings) ? true : 'HALVING_AT_BLOCK is not increasing',
+      halvings.length > 0 && halvings[0].gt(startBlock) ? true : 'HALVING_AT_BLOCK starts before START_BLOCK',
+      halvings.length > 0 && halvings[halvings.length - 1].eq(MaxUint256)
+        ? true
+        : 'HALVING_AT_BLOCK does not end with uint256(-1)'
+    ])
+  })
+
+  // Withdrawal fees
+
+  await check('Fee tiers match the config', async () => {
+    const tiers = await fetchFeeTiers(breeder)
+    const expected = createFeeTiers(
+      parameters.feeTierMinBlockDeltas,
+      config.masterBreeder.feeTierUserBps,
+      config.masterBreeder.feeTierDevBps
+    )
+    if (tiers.length !== expected.length) {
+      return `MasterBreeder has ${tiers.length} fee tiers, expected ${expected.length}`
+    }
+    const format = (tier: FeeTier) => `(${tier.minBlockDelta}, ${tier.userBps}, ${tier.devBps})`
+    return expectAll(
+      tiers.map((tier, i) =>
+        format(tier) === format(expected[i])
+          ? true
+          : `fee tier ${i} is ${format(tier)}, expected ${format(expected[i])}`
+      )
+    )
+  })
+
+  // GovernanceToken
+
+  await check('Lock window ordering', async () => {
+    const lockFromBlock = await govToken.lockFromBlock()
+    const lockToBlock = await govToken.lockToBlock()
+    const startBlock = await breeder.START_BLOCK()
+    return expectAll([
+      lockFromBlock.lt(lockToBlock) ? true : `lockFromBlock ${lockFromBlock} is not before lockToBlock ${lockToBlock}`,
+      lockFromBlock.gte(startBlock) ? true : `lockFromBlock ${lockFromBlock} is before START_BLOCK ${startBlock}`
+    ])
+  })
+
+  await check('Supply within cap', async () => {
+    const cap = await govToken.cap()
+    const totalSupply = await govToken.totalSupply()
+    return totalSupply.lte(cap) ? true : `totalSupply ${totalSupply} exceeds cap ${cap}`
+  })
+
+  return { network: manifest.network, passed: checks.every(check => check.passed), checks }
+}
+
+export function formatReport(report: VerificationReport): string {
+  const lines = report.checks.map(
+    check => `${check.passed ? 'PASS' : 'FAIL'}  ${check.name}${check.details ? `: ${check.details}` : ''}`
+  )
+  const failed = report.checks.filter(check => !check.passed).length
+  lines.push('')
+  lines.push(`${report.network}: ${report.checks.length - failed} passed, ${failed} failed`)
+  return lines.join('\n')
+}
@@ -0,0 +1,240 @@
+import { AddressZero } from 'ethers/constants'
+import { bigNumberify, BigNumberish } from 'ethers/utils'
+
+import { distributeFee } from '../sdk'
+
+import { Aggregates, IndexedEvent, IndexerState, PoolAggregate, UserAggregate, UserPoolAggregate } from './types'
+
+function add(a: string, b: BigNumberish): string {
+  return bigNumberify(a)
+    .add(b)
+    .toString()
+}
+
+function sub(a: string, b: BigNumberish): string {
+  return bigNumberify(a)
+    .sub(b)
+    .toString()
+}
+
+// Same as MasterBreeder's globalAmount, which withdrawals bottom out at 0
+function flooredSub(a: string, b: BigNumberish): string {
+  const result = bigNumberify(a).sub(b)
+  return (result.lt(0) ? 0 : result).toString()
+}
+
+function pool(state: Aggregates, pid: string): PoolAggregate {
+  if (!state.pools[pid]) {
+    state.pools[pid] = {
+      pid,
+      deposited: '0',
+      withdrawn: '0',
+      emergencyWithdrawn: '0',
+      staked: '0',
+      rewards: '0',
+      lockedRewards: '0',
+      stakers: 0
+    }
+  }
+  return state.pools[pid]
+}
+
+function user(state: Aggregates, address: string): UserAggregate {
+  if (!state.users[address]) {
+    state.users[address] = {
+      address,
+      pools: {},
+      globalAmount: '0',
+      govTokenBalance: '0',
+      locked: '0',
+      votes: '0',
+      pitBalance: '0'
+    }
+  }
+  return state.users[address]
+}
+
+function userPool(state: Aggregates, address: string, pid: string): UserPoolAggregate {
+  const aggregate = user(state, address)
+  if (!aggregate.pools[pid]) {
+    aggregate.pools[pid] = {
+      deposited: '0',
+      withdrawn: '0',
+      emergencyWithdrawn: '0',
+      staked: '0',
+      rewards: '0',
+      lockedRewards: '0',
+      firstDepositBlock: 0,
+      lastDepositBlock: 0,
+      lastWithdrawBlock: 0
+    }
+  }
+  return aggregate.pools[pid]
+}
+
+// Moves a user's stake in pid to `staked`, keeping the pool's total stake & staker count in sync
+function setStake(state: Aggregates, address: string, pid: string, staked: string) {
+  const poolAggregate = pool(state, pid)
+  const userAggregate = userPool(state, address, pid)
+  const wasStaking = !bigNumberify(userAggregate.staked).isZero()
+  const isStaking = !bigNumberify(staked).isZero()
+
+  poolAggregate.staked = add(sub(poolAggregate.staked, userAggregate.staked), staked)
+  poolAggregate.stakers += (isStaking ? 1 : 0) - (wasStaking ? 1 : 0)
+  userAggregate.staked = staked
+}
+
+function applyDeposit(state: Aggregates, event: IndexedEvent) {
+  const { user: address, pid, amount } = event.args
+  const { userDepFee, devDepFee, devaddr, feeRecipients } = state.parameters
+  if (userDepFee === undefined || devDepFee === undefined || devaddr === undefined) {
+    throw new Error(
+      `Indexer: deposit in block ${event.blockNumber} precedes MasterBreeder's deposit fees, index from its deployment`
+    )
+  }
+  const value = bigNumberify(amount)
+  const aggregate = userPool(state, address, pid)
+
+  pool(state, pid).deposited = add(pool(state, pid).deposited, value)
+  aggregate.deposited = add(aggregate.deposited, value)
+  if (aggregate.firstDepositBlock === 0) {
+    aggregate.firstDepositBlock = event.blockNumber
+  }
+  aggregate.lastDepositBlock = event.blockNumber
+
+  // Same arithmetic as MasterBreeder.deposit: the fee is what devDepFee leaves of the deposit, capped at userDepFee's part,
+  // & the dev address gets staked what the fee recipients' shares leave of it
+  const userFee = value.mul(userDepFee).div(10000)
+  const devFee = value.sub(value.mul(devDepFee).div(10000))
+  const fee = devFee.lt(userFee) ? devFee : userFee
+  setStake(state, address, pid, add(aggregate.staked, value.sub(fee)))
+  const recipients = feeRecipients!.map(({ recipient, bps }) => ({ recipient, bps: bigNumberify(bps) }))
+  const { toDev } = distributeFee(recipients, fee)
+  const dev = userPool(state, devaddr, pid)
+  setStake(state, devaddr, pid, add(dev.staked, toDev))
+  user(state, address).globalAmount = add(user(state, address).globalAmount, value.mul(userDepFee).div(100))
+}
+
+function list(value: string): string[] {
+  return value === '' ? [] : value.split(',')
+}
+
+export function emptyAggregates(): Aggregates {
+  return { parameters: { feeRecipients: [] }, pools: {}, users: {}, converts: {}, bridges: {} }
+}
+
+// Applies a single event to the aggregates, events have to be applied in chain order
+export function applyEvent(state: Aggregates, event: IndexedEvent, contracts: IndexerState['contracts']) {
+  const args = event.args
+
+  switch (`${event.contract}.${event.name}`) {
+    case 'MasterBreeder.ParameterUpdated':
+      if (args.parameter === 'userDepFee' || args.parameter === 'devDepFee') {
+        state.parameters[args.parameter] = args.values
+      }
+      break
+    case 'MasterBreeder.AddressUpdated':
+      if (args.parameter === 'devaddr') {
+        state.parameters.devaddr = args.value
+      }
+      break
+    case 'MasterBreeder.FeeRecipientsUpdated': {
+      const bps = list(args.bps)
+      state.parameters.feeRecipients = list(args.recipients).map((recipient, i) => ({ recipient, bps: bps[i] }))
+      break
+    }
+    case 'MasterBreeder.Deposit':
+      applyDeposit(state, event)
+      break
+    case 'MasterBreeder.Withdraw': {
+      const aggregate = userPool(state, args.user, args.pid)
+      pool(state, args.pid).withdrawn = add(pool(state, args.pid).withdrawn, args.amount)
+      aggregate.withdrawn = add(aggregate.withdrawn, args.amount)
+      aggregate.lastWithdrawBlock = event.blockNumber
+      setStake(state, args.user, args.pid, sub(aggregate.staked, args.amount))
+      user(state, args.user).globalAmount = flooredSub(user(state, args.user).globalAmount, args.amount)
+      break
+    }
+    case 'MasterBreeder.EmergencyWithdraw': {
+      // amount is what the user received, the whole stake is gone either way
+      const aggregate = userPool(state, args.user, args.pid)
+      pool(state, args.pid).emergencyWithdrawn = add(pool(state, args.pid).emergencyWithdrawn, args.amount)
+      aggregate.emergencyWithdrawn = add(aggregate.emergencyWithdrawn, args.amount)
+      setStake(state, args.user, args.pid, '0')
+      break
+    }
+    case 'MasterBreeder.SendGovernanceTokenReward': {
+      const aggregate = userPool(state, args.user, args.pid)
+      pool(state, args.pid).rewards = add(pool(state, args.pid).rewards, args.amount)
+      pool(state, args.pid).lockedRewards = add(pool(state, args.pid).lockedRewards, args.lockAmount)
+      aggregate.rewards = add(aggregate.rewards, args.amount)
+      aggregate.lockedRewards = add(aggregate.lockedRewards, args.lockAmount)
+      break
+    }
+    case 'GovernanceToken.Transfer':
+      if (args.from !== AddressZero) {
+        user(state, args.from).govTokenBalance = sub(user(state, args.from).govTokenBalance, args.value)
+      }
+      if (args.to !== AddressZero) {
+        user(state, args.to).govTokenBalance = add(user(state, args.to).govTokenBalance, args.value)
+      }
+      // Locked tokens are held by the token contract itself & only leave it through unlock()
+      if (args.from === contracts.GovernanceToken) {
+        user(state, args.to).locked = sub(user(state, args.to).locked, args.value)
+      }
+      break
+    case 'GovernanceToken.Lock':
+      user(state, args.to).locked = add(user(state, args.to).locked, args.value)
+      break
+    // transferAll hands every lock of the sender to the recipient
+    case 'GovernanceToken.LockTransfer':
+      user(state, args.from).locked = sub(user(state, args.from).locked, args.value)
+      user(state, args.to).locked = add(user(state, args.to).locked, args.value)
+      break
+    case 'GovernanceToken.DelegateVotesChanged':
+      user(state, args.delegate).votes = args.newBalance
+      break
+    case 'Pit.Transfer':
+      if (args.from !== AddressZero) {
+        user(state, args.from).pitBalance = sub(user(state, args.from).pitBalance, args.value)
+      }
+      if (args.to !== AddressZero) {
+        user(state, args.to).pitBalance = add(user(state, args.to).pitBalance, args.value)
+      }
+      break
+    case 'PitBreeder.LogBridgeSet':
+      state.bridges[args.token] = args.bridge
+      break
+    case 'PitBreeder.LogConvert': {
+      const key = `${args.token0}-${args.token1}`
+      const aggregate = state.converts[key] || {
+        token0: args.token0,
+        token1: args.token1,
+        converts: 0,
+        amount0: '0',
+        amount1: '0',
+        amountGovToken: '0'
+      }
+      aggregate.converts += 1
+      aggregate.amount0 = add(aggregate.amount0, args.amount0)
+      aggregate.amount1 = add(aggregate.amount1, args.amount1)
+      aggregate.amountGovToken = add(aggregate.amountGovToken, args.amountGovToken)
+      state.converts[key] = aggregate
+      break
+    }
+  }
+}
+
+// Drops the events after blockNumber & replays the rest on top of the base aggregates, e.g. after a reorg
+export function rollBack(state: IndexerState, blockNumber: number) {
+  state.events = state.events.filter(event => event.blockNumber <= blockNumber)
+  Object.assign(state, JSON.parse(JSON.stringify(state.base)))
+  state.events.forEach(event => applyEvent(state, event, state.contracts))
+}
+
+// Moves the events up to blockNumber into the base aggregates, they can't be rolled back to anymore
+export function settle(state: IndexerState, blockNumber: number) {
+  const settled = state.events.filter(event => event.blockNumber <= blockNumber)
+  settled.forEach(event => applyEvent(state.base, event, state.contracts))
+  state.events = state.events.slice(settled.length)
+}
@@ -0,0 +1,62 @@
+import path from 'path'
+import { JsonRpcProvider } from 'ethers/providers'
+
+import { GovernanceToken, MasterBreeder, Pit, PitBreeder } from '../sdk'
+import { DEPLOYMENTS_DIR, readManifest } from '../deploy/manifest'
+
+import { Indexer } from './indexer'
+import { JsonFileStore } from './store'
+
+// Usage: yarn indexer --network harmony [--dir deploy/deployments] [--store indexer/data/harmony.json]
+//   [--confirmations 12] [--batch-size 2000] [--follow <seconds>]
+// Indexes the contracts of a deployment manifest from the block MasterBreeder was deployed in, --follow keeps polling
+// for new blocks. RPC_URL overrides the rpcUrl stored in the manifest's config
+
+function argument(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index === -1 ? undefined : process.argv[index + 1]
+}
+
+async function main() {
+  const network = argument('network')
+  if (!network) {
+    throw new Error('Missing --network')
+  }
+
+  const manifest = readManifest(network, argument('dir') || DEPLOYMENTS_DIR)
+  const provider = new JsonRpcProvider(process.env.RPC_URL || manifest.config.rpcUrl)
+  const { contracts } = manifest
+
+  const indexer = new Indexer(
+    {
+      breeder: new MasterBreeder(contracts.MasterBreeder.address, provider),
+      govToken: new GovernanceToken(contracts.GovernanceToken.address, provider),
+      pit: new Pit(contracts.Pit.address, provider),
+      pitBreeder: new PitBreeder(contracts.PitBreeder.address, provider)
+    },
+    new JsonFileStore(argument('store') || path.join(__dirname, 'data', `${network}.json`)),
+    {
+      fromBlock: Math.min(...Object.keys(contracts).map(name => contracts[name].blockNumber)),
+      confirmations: parseInt(argument('confirmations') || '0'),
+      batchSize: parseInt(argument('batch-size') || '2000'),
+      log: message => console.log(message)
+    }
+  )
+
+  const follow = argument('follow')
+  do {
+    const result = await indexer.sync()
+    if (result.rolledBackTo !== undefined) {
+      console.log(`Rolled back to block ${result.rolledBackTo}`)
+    }
+    console.log(`Indexed up to block ${result.toBlock}, ${result.events} new event(s)`)
+    if (follow) {
+      await new Promise(resolve => setTimeout(resolve, parseInt(follow) * 1000))
+    }
+  } while (follow)
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
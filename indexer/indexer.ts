@@ -0,0 +1,241 @@
+import { Log, Provider } from 'ethers/providers'
+import { BigNumber, Interface } from 'ethers/utils'
+
+import { decodeEvent, GovernanceToken, MasterBreeder, Pit, PitBreeder } from '../sdk'
+
+import { applyEvent, emptyAggregates, rollBack, settle } from './aggregates'
+import { IndexerStore, MemoryStore } from './store'
+import { BlockRef, IndexedContract, IndexedEvent, IndexerState, PoolAggregate, UserAggregate } from './types'
+
+const STATE_VERSION = 5
+
+export const INDEXED_EVENTS: { [name in IndexedContract]: string[] } = {
+  MasterBreeder: [
+    'ParameterUpdated',
+    'AddressUpdated',
+    'FeeRecipientsUpdated',
+    'Deposit',
+    'Withdraw',
+    'EmergencyWithdraw',
+    'SendGovernanceTokenReward'
+  ],
+  GovernanceToken: ['Transfer', 'Lock', 'LockTransfer', 'DelegateVotesChanged'],
+  Pit: ['Transfer'],
+  PitBreeder: ['LogBridgeSet', 'LogConvert']
+}
+
+export interface IndexerContracts {
+  breeder: MasterBreeder
+  govToken: GovernanceToken
+  pit?: Pit
+  pitBreeder?: PitBreeder
+}
+
+export interface IndexerOptions {
+  // First block to index, e.g. the block MasterBreeder was deployed in
+  fromBlock?: number
+  // Blocks to stay behind the chain head
+  confirmations?: number
+  // Blocks per getLogs request
+  batchSize?: number
+  // How far back a reorg can be recovered from without reindexing, events of older blocks are only kept as aggregates
+  reorgDepth?: number
+  log?: (message: string) => void
+}
+
+export interface SyncResult {
+  fromBlock: number
+  toBlock: number
+  events: number
+  // Block the index was rolled back to because the chain reorganized
+  rolledBackTo?: number
+}
+
+function serialize(value: any): string {
+  if (Array.isArray(value)) {
+    return value.map(serialize).join(',')
+  }
+  return value instanceof BigNumber ? value.toString() : String(value)
+}
+
+function serializeArgs(args: any): { [name: string]: string } {
+  const result: { [name: string]: string } = {}
+  Object.keys(args).forEach(key => (result[key] = serialize(args[key])))
+  return result
+}
+
+// Replays MasterBreeder, GovernanceToken, Pit & PitBreeder logs into per-user & per-pool aggregates.
+// The state is checkpointed to the store after every batch. It keeps the events of the last reorgDepth blocks on top of
+// the aggregates before them, so a sync that finds the last indexed blocks replaced by a reorg drops the events after
+// the last block that is still on chain & replays the rest before continuing.
+export class Indexer {
+  readonly provider: Provider
+  private readonly contracts: { [name in IndexedContract]?: { address: string; interface: Interface } }
+  private readonly options: Required<IndexerOptions>
+  private state?: IndexerState
+
+  constructor(
+    readonly sources: IndexerContracts,
+    readonly store: IndexerStore = new MemoryStore(),
+    options: IndexerOptions = {}
+  ) {
+    this.provider = sources.breeder.provider
+    this.contracts = {
+      MasterBreeder: sources.breeder,
+      GovernanceToken: sources.govToken,
+      Pit: sources.pit,
+      PitBreeder: sources.pitBreeder
+    }
+    this.options = { fromBlock: 0, confirmations: 0, batchSize: 2000, reorgDepth: 100, log: () => {}, ...options }
+    if (this.options.batchSize < 1) {
+      throw new Error('Indexer: batchSize must be greater than 0')
+    }
+  }
+
+  async load(): Promise<IndexerState> {
+    if (this.state) {
+      return this.state
+    }
+
+    const addresses: { [name in IndexedContract]?: string } = {}
+    Object.keys(this.contracts).forEach(name => {
+      const contract = this.contracts[name as IndexedContract]
+      if (contract) addresses[name as IndexedContract] = contract.address
+    })
+
+    const stored = await this.store.load()
+    if (stored) {
+      if (stored.version !== STATE_VERSION) {
+        throw new Error(`Indexer: unsupported store version ${stored.version}`)
+      }
+      if (JSON.stringify(stored.contracts) !== JSON.stringify(addresses)) {
+        throw new Error('Indexer: the store was created for other contracts')
+      }
+      this.state = stored
+    } else {
+      this.state = {
+        version: STATE_VERSION,
+        contracts: addresses,
+        recentBlocks: [],
+        events: [],
+        base: emptyAggregates(),
+        ...emptyAggregates()
+      }
+    }
+    return this.state
+  }
+
+  async checkpoint(): Promise<BlockRef | undefined> {
+    return (await this.load()).checkpoint
+  }
+
+  async pool(pid: number | string): Promise<PoolAggregate | undefined> {
+    return (await this.load()).pools[pid.toString()]
+  }
+
+  async user(address: string): Promise<UserAggregate | undefined> {
+    return (await this.load()).users[address]
+  }
+
+  // Events of the last reorgDepth indexed blocks
+  async events(filter: { contract?: IndexedContract; name?: string } = {}): Promise<IndexedEvent[]> {
+    return (await this.load()).events.filter(
+      event => (!filter.contract || event.contract === filter.contract) && (!filter.name || event.name === filter.name)
+    )
+  }
+
+  // Indexes up to toBlock, or up to the chain head minus the configured confirmations
+  async sync(toBlock?: number): Promise<SyncResult> {
+    const state = await this.load()
+    const rolledBackTo = await this.handleReorg(state)
+
+    const head = (await this.provider.getBlockNumber()) - this.options.confirmations
+    const target = toBlock === undefined ? head : Math.min(toBlock, head)
+    const fromBlock = state.checkpoint ? state.checkpoint.number + 1 : this.options.fromBlock
+    let events = 0
+
+    for (let from = fromBlock; from <= target; from += this.options.batchSize) {
+      const to = Math.min(from + this.options.batchSize - 1, target)
+      const batch = await this.fetchEvents(from, to)
+      batch.forEach(event => applyEvent(state, event, state.contracts))
+      state.events.push(...batch)
+      events += batch.length
+
+      const end = await this.provider.getBlock(to)
+      this.record(
+        state,
+        batch.map(event => ({ number: event.blockNumber, hash: event.blockHash }))
+      )
+      this.record(state, [{ number: to, hash: end.hash! }])
+      state.checkpoint = { number: to, hash: end.hash! }
+      settle(state, to - this.options.reorgDepth)
+      await this.store.save(state)
+      this.options.log(`indexed blocks ${from} - ${to}: ${batch.length} event(s)`)
+    }
+
+    return { fromBlock, toBlock: state.checkpoint ? state.checkpoint.number : fromBlock - 1, events, rolledBackTo }
+  }
+
+  private async fetchEvents(fromBlock: number, toBlock: number): Promise<IndexedEvent[]> {
+    const events: IndexedEvent[] = []
+    for (const name of Object.keys(INDEXED_EVENTS) as IndexedContract[]) {
+      const contract = this.contracts[name]
+      if (!contract) continue
+
+      const logs: Log[] = await this.provider.getLogs({ address: contract.address, fromBlock, toBlock })
+      for (const log of logs) {
+        const parsed = decodeEvent<any>(contract.interface, log)
+        if (!parsed || INDEXED_EVENTS[name].indexOf(parsed.name) === -1) continue
+        events.push({
+          contract: name,
+          name: parsed.name,
+          blockNumber: log.blockNumber!,
+          blockHash: log.blockHash!,
+          transactionHash: log.transactionHash!,
+          logIndex: log.logIndex!,
+          args: serializeArgs(parsed.args)
+        })
+      }
+    }
+    events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+    return events
+  }
+
+  private record(state: IndexerState, refs: BlockRef[]) {
+    const blocks: { [number: number]: BlockRef } = {}
+    state.recentBlocks.concat(refs).forEach(ref => (blocks[ref.number] = ref))
+    const latest = Math.max(...Object.keys(blocks).map(Number))
+    state.recentBlocks = Object.keys(blocks)
+      .map(number => blocks[Number(number)])
+      .filter(ref => ref.number > latest - this.options.reorgDepth)
+      .sort((a, b) => a.number - b.number)
+  }
+
+  // Returns the block the index was rolled back to, or undefined when the last indexed block is still on chain
+  private async handleReorg(state: IndexerState): Promise<number | undefined> {
+    if (!state.checkpoint) {
+      return undefined
+    }
+
+    for (let i = state.recentBlocks.length - 1; i >= 0; i--) {
+      const ref = state.recentBlocks[i]
+      const block = await this.provider.getBlock(ref.number)
+      if (block && block.hash === ref.hash) {
+        if (ref.number === state.checkpoint.number) {
+          return undefined
+        }
+
+        this.options.log(`reorg detected, rolling back from block ${state.checkpoint.number} to ${ref.number}`)
+        rollBack(state, ref.number)
+        state.recentBlocks = state.recentBlocks.slice(0, i + 1)
+        state.checkpoint = ref
+        await this.store.save(state)
+        return ref.number
+      }
+    }
+
+    throw new Error(
+      `Indexer: none of the last ${this.options.reorgDepth} indexed blocks are on chain anymore, reindex from scratch`
+    )
+  }
+}
@@ -0,0 +1,40 @@
+import fs from 'fs'
+import path from 'path'
+
+import { IndexerState } from './types'
+
+export interface IndexerStore {
+  load(): Promise<IndexerState | undefined>
+  save(state: IndexerState): Promise<void>
+}
+
+export class MemoryStore implements IndexerStore {
+  private state?: string
+
+  async load(): Promise<IndexerState | undefined> {
+    return this.state === undefined ? undefined : JSON.parse(this.state)
+  }
+
+  async save(state: IndexerState): Promise<void> {
+    this.state = JSON.stringify(state)
+  }
+}
+
+// Writes to a temporary file first & renames it, so that an interrupted save never leaves a truncated store behind
+export class JsonFileStore implements IndexerStore {
+  constructor(readonly file: string) {}
+
+  async load(): Promise<IndexerState | undefined> {
+    if (!fs.existsSync(this.file)) {
+      return undefined
+    }
+    return JSON.parse(fs.readFileSync(this.file, 'utf8'))
+  }
+
+  async save(state: IndexerState): Promise<void> {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true })
+    const tmp = `${this.file}.tmp`
+    fs.writeFileSync(tmp, JSON.stringify(state, null, 2) + '\n')
+    fs.renameSync(tmp, this.file)
+  }
+}
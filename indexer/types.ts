@@ -0,0 +1,98 @@
+// Everything in IndexerState is plain JSON: amounts are decimal strings & addresses are checksummed
+
+export type IndexedContract = 'MasterBreeder' | 'GovernanceToken' | 'Pit' | 'PitBreeder'
+
+export interface BlockRef {
+  number: number
+  hash: string
+}
+
+export interface IndexedEvent {
+  contract: IndexedContract
+  name: string
+  blockNumber: number
+  blockHash: string
+  transactionHash: string
+  logIndex: number
+  // Array arguments are joined with commas
+  args: { [name: string]: string }
+}
+
+// MasterBreeder's deposit fees, fee recipients & dev address. Deposit events carry the gross amount, so these are needed
+// to derive stakes
+export interface DepositParameters {
+  userDepFee: string
+  devDepFee: string
+  devaddr: string
+  feeRecipients: { recipient: string; bps: string }[]
+}
+
+export interface UserPoolAggregate {
+  deposited: string
+  withdrawn: string
+  emergencyWithdrawn: string
+  // Mirrors userInfo.amount
+  staked: string
+  rewards: string
+  lockedRewards: string
+  firstDepositBlock: number
+  lastDepositBlock: number
+  lastWithdrawBlock: number
+}
+
+export interface UserAggregate {
+  address: string
+  pools: { [pid: string]: UserPoolAggregate }
+  // Mirrors getGlobalAmount
+  globalAmount: string
+  govTokenBalance: string
+  // Mirrors lockOf
+  locked: string
+  votes: string
+  pitBalance: string
+}
+
+export interface PoolAggregate {
+  pid: string
+  deposited: string
+  withdrawn: string
+  emergencyWithdrawn: string
+  // Sum of the stakes of every user, including the dev address
+  staked: string
+  rewards: string
+  lockedRewards: string
+  stakers: number
+}
+
+export interface ConvertAggregate {
+  token0: string
+  token1: string
+  converts: number
+  amount0: string
+  amount1: string
+  amountGovToken: string
+}
+
+// Everything the events are replayed into
+export interface Aggregates {
+  // Replayed from MasterBreeder's ParameterUpdated, AddressUpdated & FeeRecipientsUpdated events, fields stay undefined
+  // until their first event
+  parameters: Partial<DepositParameters>
+  pools: { [pid: string]: PoolAggregate }
+  users: { [address: string]: UserAggregate }
+  converts: { [pair: string]: ConvertAggregate }
+  bridges: { [token: string]: string }
+}
+
+export interface IndexerState extends Aggregates {
+  version: number
+  contracts: { [name in IndexedContract]?: string }
+  // Last indexed block, undefined until the first sync
+  checkpoint?: BlockRef
+  // Hashes of recently indexed blocks, oldest first, used to find where the chain diverged after a reorg
+  recentBlocks: BlockRef[]
+  // Events of the blocks a reorg can still replace, oldest first
+  events: IndexedEvent[]
+  // The aggregates before `events`, a rollback replays the events that are still on chain on top of them
+  base: Aggregates
+}
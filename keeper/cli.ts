@@ -0,0 +1,77 @@
+import fs from 'fs'
+import path from 'path'
+import { Wallet } from 'ethers'
+import { JsonRpcProvider } from 'ethers/providers'
+import { parseEther, parseUnits } from 'ethers/utils'
+
+import { GovernanceVote, PitBreeder } from '../sdk'
+import { DEPLOYMENTS_DIR, readManifest } from '../deploy/manifest'
+
+import { Keeper } from './keeper'
+
+// Usage: PRIVATE_KEY=0x... yarn keeper --network harmony [--dir deploy/deployments] [--outcomes keeper/data/harmony.jsonl]
+//   [--gas-budget 8000000] [--gas-margin 25] [--gas-price <gwei>] [--min-profit <GovToken>] [--slippage <bps>]
+//   [--dry-run] [--interval <seconds>]
+// Converts the LP tokens PitBreeder holds once, --interval keeps converting every <seconds>. Every LogConvert of a
+// sent batch is appended to the outcomes file as a JSON line. The rates of the manifest's GovernanceVote are checkpointed
+// whenever they're due. RPC_URL overrides the rpcUrl stored in the manifest's config
+
+function argument(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index === -1 ? undefined : process.argv[index + 1]
+}
+
+async function main() {
+  const network = argument('network')
+  if (!network) {
+    throw new Error('Missing --network')
+  }
+  if (!process.env.PRIVATE_KEY) {
+    throw new Error('Missing PRIVATE_KEY')
+  }
+
+  const manifest = readManifest(network, argument('dir') || DEPLOYMENTS_DIR)
+  const provider = new JsonRpcProvider(process.env.RPC_URL || manifest.config.rpcUrl)
+  const wallet = new Wallet(process.env.PRIVATE_KEY, provider)
+  const contract = manifest.contracts.PitBreeder
+  const govVote = manifest.contracts.GovernanceVote
+
+  const gasPrice = argument('gas-price')
+  const minProfit = argument('min-profit')
+  const keeper = new Keeper(new PitBreeder(contract.address, wallet), {
+    fromBlock: contract.blockNumber,
+    gasBudget: parseInt(argument('gas-budget') || '8000000'),
+    gasMargin: parseInt(argument('gas-margin') || '25'),
+    gasPrice: gasPrice ? parseUnits(gasPrice, 'gwei') : undefined,
+    minProfit: minProfit ? parseEther(minProfit) : 0,
+    slippageBps: parseInt(argument('slippage') || '50'),
+    dryRun: process.argv.indexOf('--dry-run') !== -1,
+    governanceVote: govVote ? new GovernanceVote(govVote.address, wallet) : undefined,
+    log: message => console.log(message)
+  })
+
+  const outcomes = argument('outcomes') || path.join(__dirname, 'data', `${network}.jsonl`)
+  const interval = argument('interval')
+  do {
+    const run = await keeper.run()
+    console.log(
+      `${run.held.length} pair(s) held, ${run.skipped.length} skipped, ${run.batches.length} batch(es), ` +
+        `${run.outcomes.length} converted`
+    )
+    if (run.outcomes.length > 0) {
+      fs.mkdirSync(path.dirname(outcomes), { recursive: true })
+      fs.appendFileSync(outcomes, run.outcomes.map(outcome => JSON.stringify(outcome) + '\n').join(''))
+    }
+    if (run.error && !interval) {
+      throw new Error(run.error)
+    }
+    if (interval) {
+      await new Promise(resolve => setTimeout(resolve, parseInt(interval) * 1000))
+    }
+  } while (interval)
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,264 @@
+import { Contract } from 'ethers'
+import { AddressZero, Zero } from 'ethers/constants'
+import { BigNumber, bigNumberify, BigNumberish, getAddress, Interface } from 'ethers/utils'
+
+import { ConversionPlanner, GovernanceVote, minimumGovTokenOut, PitBreeder } from '../sdk'
+
+import {
+  ConversionBatch,
+  ConvertOutcome,
+  HeldPair,
+  KeeperPlan,
+  KeeperRun,
+  PlannedConversion,
+  SkippedPair
+} from './types'
+
+import IUniswapV2Pair from '../build/IUniswapV2Pair.json'
+
+const TRANSFER = new Interface(IUniswapV2Pair.abi).events.Transfer
+
+export interface KeeperOptions {
+  // First block to look for LP tokens sent to PitBreeder in, e.g. the block it was deployed in
+  fromBlock?: number
+  // Gas limit of a single convertMultipleWithMinimum transaction
+  gasBudget?: number
+  // Added to every gas estimate, in percent
+  gasMargin?: number
+  // Defaults to the node's gas price
+  gasPrice?: BigNumberish
+  // GovToken a conversion has to yield on top of its gas cost
+  minProfit?: BigNumberish
+  // Slippage tolerated between quoting & mining, in basis points
+  slippageBps?: number
+  // Plans the batches without sending them
+  dryRun?: boolean
+  // Checkpoints the rates of its pools whenever one of them is due, its rates only follow the pairs that often
+  governanceVote?: GovernanceVote
+  log?: (message: string) => void
+}
+
+// Converts the fee LP tokens PitBreeder holds: finds them through their Transfer events, quotes every pair on its own
+// to skip the ones that revert or don't cover their gas, then packs the rest into convertMultipleWithMinimum calls
+// under the gas budget. The PitBreeder instance has to be connected to the keeper's (EOA) signer.
+export class Keeper {
+  private readonly options: Required<Omit<KeeperOptions, 'gasPrice' | 'governanceVote'>> &
+    Pick<KeeperOptions, 'gasPrice' | 'governanceVote'>
+
+  constructor(readonly pitBreeder: PitBreeder, options: KeeperOptions = {}) {
+    this.options = {
+      fromBlock: 0,
+      gasBudget: 8000000,
+      gasMargin: 25,
+      minProfit: 0,
+      slippageBps: 50,
+      dryRun: false,
+      log: () => {},
+      ...options
+    }
+    if (this.options.slippageBps < 0 || this.options.slippageBps > 10000) {
+      throw new Error('Keeper: slippageBps must be between 0 and 10000')
+    }
+  }
+
+  // Pairs of PitBreeder's factory that PitBreeder currently holds LP tokens of
+  async heldPairs(): Promise<HeldPair[]> {
+    const provider = this.pitBreeder.provider
+    // Some nodes, e.g. ganache-core, match topics case-sensitively against the lowercase log topics, which
+    // encodeTopics pads addresses to. A null topic matches any sender
+    const logs = await provider.getLogs({
+      fromBlock: this.options.fromBlock,
+      toBlock: 'latest',
+      topics: TRANSFER.encodeTopics([null, this.pitBreeder.address])
+    })
+    const candidates = logs
+      .map(log => getAddress(log.address))
+      .filter((address, index, addresses) => addresses.indexOf(address) === index)
+
+    const factory = await this.pitBreeder.factory()
+    const held: HeldPair[] = []
+    for (const address of candidates) {
+      const pair = new Contract(address, IUniswapV2Pair.abi, provider)
+      let token0: string
+      let token1: string
+      try {
+        token0 = await pair.token0()
+        token1 = await pair.token1()
+        // Only pairs of the factory can be converted, anything else sent to PitBreeder is ignored
+        if ((await pair.factory()) !== factory) continue
+      } catch (e) {
+        continue
+      }
+      const balance: BigNumber = await pair.balanceOf(this.pitBreeder.address)
+      if (!balance.isZero()) {
+        held.push({ pair: address, token0, token1, balance })
+      }
+    }
+    return held
+  }
+
+  async plan(): Promise<KeeperPlan> {
+    const held = await this.heldPairs()
+    const planner = await ConversionPlanner.load(this.pitBreeder, { fromBlock: this.options.fromBlock })
+    const gasPrice = bigNumberify(
+      this.options.gasPrice !== undefined ? this.options.gasPrice : await this.pitBreeder.provider.getGasPrice()
+    )
+    const govTokenPerWeth = await this.govTokenPerWeth(planner)
+
+    const skipped: SkippedPair[] = []
+    const planned: PlannedConversion[] = []
+    for (const pair of held) {
+      const quote = await planner.fork().quote(pair.token0, pair.token1)
+      if (quote.error) {
+        skipped.push({ ...pair, reason: quote.error })
+        continue
+      }
+
+      const gas = await this.estimateGas(pair, minimumGovTokenOut(quote, this.options.slippageBps))
+      const gasCost = gas
+        .mul(gasPrice)
+        .mul(govTokenPerWeth[0])
+        .div(govTokenPerWeth[1])
+      if (gas.gt(this.options.gasBudget)) {
+        skipped.push({ ...pair, reason: 'over gas budget' })
+      } else if (quote.govTokenOut.sub(gasCost).lt(this.options.minProfit)) {
+        skipped.push({ ...pair, reason: 'uneconomic' })
+      } else {
+        planned.push({ ...pair, quote, gas, gasCost })
+      }
+    }
+
+    // Most valuable conversions first, so a run cut short by a failed batch converts those
+    planned.sort((a, b) => {
+      const difference = b.quote.govTokenOut.sub(a.quote.govTokenOut)
+      return difference.isZero() ? 0 : difference.gt(0) ? 1 : -1
+    })
+    const groups: PlannedConversion[][] = []
+    let gasLimit = Zero
+    for (const conversion of planned) {
+      if (groups.length === 0 || gasLimit.add(conversion.gas).gt(this.options.gasBudget)) {
+        groups.push([])
+        gasLimit = Zero
+      }
+      groups[groups.length - 1].push(conversion)
+      gasLimit = gasLimit.add(conversion.gas)
+    }
+
+    const batches: ConversionBatch[] = []
+    for (const conversions of groups) {
+      const quotes = await planner.quoteMultiple(
+        conversions.map(conversion => conversion.token0),
+        conversions.map(conversion => conversion.token1)
+      )
+      const error = quotes.map(quote => quote.error).filter(error => error !== undefined)[0]
+      if (error) {
+        conversions.forEach(conversion => skipped.push({ ...conversion, reason: error }))
+        continue
+      }
+      batches.push({
+        conversions,
+        quotes,
+        minGovTokenOut: quotes.map(quote => minimumGovTokenOut(quote, this.options.slippageBps)),
+        gasLimit: conversions.reduce((total: BigNumber, conversion) => total.add(conversion.gas), Zero)
+      })
+    }
+
+    skipped.forEach(pair => this.options.log(`skipping ${pair.pair} (${pair.token0}/${pair.token1}): ${pair.reason}`))
+    return { held, skipped, batches }
+  }
+
+  // Whether checkpointPools would record a new rate: a counted pool's pair has liquidity & its last observation is
+  // at least RATE_PERIOD old or missing
+  async ratesDue(): Promise<boolean> {
+    const govVote = this.options.governanceVote
+    if (!govVote) {
+      return false
+    }
+    const period = await govVote.RATE_PERIOD()
+    const { timestamp } = await govVote.provider.getBlock('latest')
+    for (let i = 0; i < (await govVote.poolLength()); i++) {
+      const pool = await govVote.pools(i)
+      const { reserve0, reserve1 } = await new Contract(pool.lpPair, IUniswapV2Pair.abi, govVote.provider).getReserves()
+      const observation = await govVote.observations(pool.pid)
+      if (
+        !reserve0.isZero() &&
+        !reserve1.isZero() &&
+        (observation.timestamp === 0 || timestamp - observation.timestamp >= period)
+      ) {
+        return true
+      }
+    }
+    return false
+  }
+
+  // Plans & sends the batches one after another, stopping at the first one that fails. Due GovernanceVote rates are
+  // checkpointed first, a failed checkpoint doesn't stop the conversions
+  async run(): Promise<KeeperRun> {
+    const plan = await this.plan()
+    const run: KeeperRun = { ...plan, outcomes: [] }
+    if (this.options.dryRun) {
+      return run
+    }
+
+    if (await this.ratesDue()) {
+      try {
+        const tx = await this.options.governanceVote!.checkpointPools({ gasPrice: this.options.gasPrice })
+        run.checkpoint = (await tx.wait()).transactionHash
+        this.options.log(`checkpointed the GovernanceVote rates in ${run.checkpoint}`)
+      } catch (e) {
+        this.options.log(`checkpointing the GovernanceVote rates failed: ${e.message}`)
+      }
+    }
+
+    for (const batch of plan.batches) {
+      const token0 = batch.conversions.map(conversion => conversion.token0)
+      const token1 = batch.conversions.map(conversion => conversion.token1)
+      try {
+        const tx = await this.pitBreeder.convertMultipleWithMinimum(token0, token1, batch.minGovTokenOut, {
+          gasLimit: batch.gasLimit,
+          gasPrice: this.options.gasPrice
+        })
+        const receipt = await tx.wait()
+        this.pitBreeder.parseEvents('LogConvert', receipt.logs!).forEach((event, i) =>
+          run.outcomes.push({
+            transactionHash: receipt.transactionHash!,
+            blockNumber: receipt.blockNumber!,
+            token0: event.args.token0,
+            token1: event.args.token1,
+            amount0: event.args.amount0.toString(),
+            amount1: event.args.amount1.toString(),
+            amountGovToken: event.args.amountGovToken.toString(),
+            quotedGovTokenOut: batch.quotes[i].govTokenOut.toString()
+          })
+        )
+        this.options.log(`converted ${batch.conversions.length} pair(s) in ${receipt.transactionHash}`)
+      } catch (e) {
+        run.error = e.message
+        this.options.log(`batch of ${batch.conversions.length} pair(s) failed: ${e.message}`)
+        break
+      }
+    }
+    return run
+  }
+
+  // Estimates the conversion with the minimum it's sent with, convertMultipleWithMinimum costs about the same per pair
+  private async estimateGas(pair: HeldPair, minGovTokenOut: BigNumber): Promise<BigNumber> {
+    const gas = await this.pitBreeder.provider.estimateGas({
+      from: await this.pitBreeder.signer.getAddress(),
+      to: this.pitBreeder.address,
+      data: this.pitBreeder.interface.functions.convertWithMinimum.encode([pair.token0, pair.token1, minGovTokenOut])
+    })
+    return gas.mul(100 + this.options.gasMargin).div(100)
+  }
+
+  // Spot price of the WETH/GovToken pair as [GovToken, WETH] reserves, gas is free when there's no such pair
+  private async govTokenPerWeth(planner: ConversionPlanner): Promise<[BigNumber, BigNumber]> {
+    const address: string = await planner.factory.getPair(planner.weth, planner.govToken)
+    if (address === AddressZero) {
+      return [Zero, bigNumberify(1)]
+    }
+    const pair = new Contract(address, IUniswapV2Pair.abi, this.pitBreeder.provider)
+    const { reserve0, reserve1 } = await pair.getReserves()
+    return (await pair.token0()) === planner.govToken ? [reserve0, reserve1] : [reserve1, reserve0]
+  }
+}
@@ -0,0 +1,60 @@
+import { BigNumber } from 'ethers/utils'
+
+import { ConversionQuote } from '../sdk'
+
+// LP tokens of a factory pair held by PitBreeder
+export interface HeldPair {
+  pair: string
+  token0: string
+  token1: string
+  balance: BigNumber
+}
+
+export interface PlannedConversion extends HeldPair {
+  // Quoted on its own, against the chain state the plan was made on
+  quote: ConversionQuote
+  // Gas estimate of convertWithMinimum(token0, token1, minGovTokenOut) including the margin
+  gas: BigNumber
+  // gas * gasPrice valued in GovToken at the WETH/GovToken reserves
+  gasCost: BigNumber
+}
+
+export interface SkippedPair extends HeldPair {
+  // Revert reason of the quote, 'uneconomic' or 'over gas budget'
+  reason: string
+}
+
+// One convertMultipleWithMinimum call
+export interface ConversionBatch {
+  conversions: PlannedConversion[]
+  // Quoted in order after the batches before it, so they account for the reserves moved by earlier converts
+  quotes: ConversionQuote[]
+  minGovTokenOut: BigNumber[]
+  gasLimit: BigNumber
+}
+
+export interface KeeperPlan {
+  held: HeldPair[]
+  skipped: SkippedPair[]
+  batches: ConversionBatch[]
+}
+
+// Plain JSON, so outcomes can be appended to a log file: amounts are decimal strings
+export interface ConvertOutcome {
+  transactionHash: string
+  blockNumber: number
+  token0: string
+  token1: string
+  amount0: string
+  amount1: string
+  amountGovToken: string
+  quotedGovTokenOut: string
+}
+
+export interface KeeperRun extends KeeperPlan {
+  outcomes: ConvertOutcome[]
+  // Transaction hash of the GovernanceVote.checkpointPools call, if the rates were due
+  checkpoint?: string
+  // Set when a batch failed, the batches after it aren't sent
+  error?: string
+}
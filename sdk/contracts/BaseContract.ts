@@ -0,0 +1,37 @@
+import { Contract, Signer } from 'ethers'
+import { Log, Provider } from 'ethers/providers'
+import { Interface } from 'ethers/utils'
+
+import { decodeEvents, ParsedEvent } from '../events'
+
+export type SignerOrProvider = Signer | Provider
+
+export abstract class BaseContract<TEvents> {
+  readonly contract: Contract
+
+  constructor(address: string, abi: any[], signerOrProvider: SignerOrProvider) {
+    this.contract = new Contract(address, abi, signerOrProvider)
+  }
+
+  // address, interface & provider are exposed so that SDK instances can be used with waffle's emit matcher, e.g. expect(tx).to.emit(breeder, 'Deposit')
+  // calledOnContract matchers require the underlying ethers Contract: expect(fn).to.be.calledOnContract(breeder.contract)
+  get address(): string {
+    return this.contract.address
+  }
+
+  get interface(): Interface {
+    return this.contract.interface
+  }
+
+  get provider(): Provider {
+    return this.contract.provider
+  }
+
+  get signer(): Signer {
+    return this.contract.signer
+  }
+
+  parseEvents<K extends keyof TEvents & string>(name: K, logs: Log[]): ParsedEvent<TEvents[K]>[] {
+    return decodeEvents<TEvents[K]>(this.interface, this.address, name, logs)
+  }
+}
@@ -0,0 +1,95 @@
+import { ContractTransaction } from 'ethers/contract'
+import { TransactionRequest } from 'ethers/providers'
+import { BigNumber, BigNumberish } from 'ethers/utils'
+
+import { SignerOrProvider } from './BaseContract'
+import { ERC20Contract } from './ERC20Contract'
+import { BreederVaultEvents } from '../types'
+
+import BreederVaultArtifact from '../../build/BreederVault.json'
+
+export class BreederVault extends ERC20Contract<BreederVaultEvents> {
+  constructor(address: string, signerOrProvider: SignerOrProvider) {
+    super(address, BreederVaultArtifact.abi, signerOrProvider)
+  }
+
+  connect(signerOrProvider: SignerOrProvider): BreederVault {
+    return new BreederVault(this.address, signerOrProvider)
+  }
+
+  owner(): Promise<string> {
+    return this.contract.owner()
+  }
+
+  breeder(): Promise<string> {
+    return this.contract.breeder()
+  }
+
+  async pid(): Promise<number> {
+    return (await this.contract.pid()).toNumber()
+  }
+
+  lpToken(): Promise<string> {
+    return this.contract.lpToken()
+  }
+
+  govToken(): Promise<string> {
+    return this.contract.govToken()
+  }
+
+  pairedToken(): Promise<string> {
+    return this.contract.pairedToken()
+  }
+
+  router(): Promise<string> {
+    return this.contract.router()
+  }
+
+  // Shares the first deposit mints to the vault itself, they're never burned
+  MINIMUM_SHARES(): Promise<BigNumber> {
+    return this.contract.MINIMUM_SHARES()
+  }
+
+  // LP tokens behind all shares, staked or not
+  balance(): Promise<BigNumber> {
+    return this.contract.balance()
+  }
+
+  lockedRewards(): Promise<BigNumber> {
+    return this.contract.lockedRewards()
+  }
+
+  // LP tokens behind shares, before the withdrawal fee
+  async sharesValue(shares: BigNumberish): Promise<BigNumber> {
+    const [balance, totalSupply] = await Promise.all([this.balance(), this.totalSupply()])
+    return totalSupply.isZero() ? totalSupply : balance.mul(shares).div(totalSupply)
+  }
+
+  deposit(amount: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.deposit(amount, overrides)
+  }
+
+  // minAmountOut bounds the LP tokens sent after the withdrawal fee, which is calculateWithdrawalFee of the vault's own
+  // MasterBreeder position: every holder's withdrawal resets the fee tier for all of them
+  withdraw(
+    shares: BigNumberish,
+    minAmountOut: BigNumberish = 0,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.withdraw(shares, minAmountOut, overrides)
+  }
+
+  // Keepers harvest for the vault, only the owner sets them
+  isKeeper(keeper: string): Promise<boolean> {
+    return this.contract.isKeeper(keeper)
+  }
+
+  setKeeper(keeper: string, approved: boolean, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.setKeeper(keeper, approved, overrides)
+  }
+
+  // Only the owner & the keepers can harvest, minPairedOut bounds the slippage of swapping rewards for the paired token
+  harvest(minPairedOut: BigNumberish = 0, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.harvest(minPairedOut, overrides)
+  }
+}
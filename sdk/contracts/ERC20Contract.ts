@@ -0,0 +1,48 @@
+import { ContractTransaction } from 'ethers/contract'
+import { TransactionRequest } from 'ethers/providers'
+import { BigNumber, BigNumberish } from 'ethers/utils'
+
+import { BaseContract } from './BaseContract'
+
+export abstract class ERC20Contract<TEvents> extends BaseContract<TEvents> {
+  name(): Promise<string> {
+    return this.contract.name()
+  }
+
+  symbol(): Promise<string> {
+    return this.contract.symbol()
+  }
+
+  decimals(): Promise<number> {
+    return this.contract.decimals()
+  }
+
+  totalSupply(): Promise<BigNumber> {
+    return this.contract.totalSupply()
+  }
+
+  balanceOf(account: string): Promise<BigNumber> {
+    return this.contract.balanceOf(account)
+  }
+
+  allowance(owner: string, spender: string): Promise<BigNumber> {
+    return this.contract.allowance(owner, spender)
+  }
+
+  approve(spender: string, amount: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.approve(spender, amount, overrides)
+  }
+
+  transfer(recipient: string, amount: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.transfer(recipient, amount, overrides)
+  }
+
+  transferFrom(
+    sender: string,
+    recipient: string,
+    amount: BigNumberish,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.transferFrom(sender, recipient, amount, overrides)
+  }
+}
@@ -0,0 +1,199 @@
+import { ContractTransaction } from 'ethers/contract'
+import { TransactionRequest } from 'ethers/providers'
+import { BigNumber, BigNumberish } from 'ethers/utils'
+
+import { SignerOrProvider } from './BaseContract'
+import { ERC20Contract } from './ERC20Contract'
+import { Checkpoint, GovernanceTokenEvents } from '../types'
+import { Role, ROLES } from '../roles'
+
+import GovernanceTokenArtifact from '../../build/GovernanceToken.json'
+
+export class GovernanceToken extends ERC20Contract<GovernanceTokenEvents> {
+  constructor(address: string, signerOrProvider: SignerOrProvider) {
+    super(address, GovernanceTokenArtifact.abi, signerOrProvider)
+  }
+
+  connect(signerOrProvider: SignerOrProvider): GovernanceToken {
+    return new GovernanceToken(this.address, signerOrProvider)
+  }
+
+  // Ownable & Authorizable
+
+  owner(): Promise<string> {
+    return this.contract.owner()
+  }
+
+  transferOwnership(newOwner: string, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.transferOwnership(newOwner, overrides)
+  }
+
+  renounceOwnership(overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.renounceOwnership(overrides)
+  }
+
+  hasRole(role: Role, account: string): Promise<boolean> {
+    return this.contract.hasRole(ROLES[role], account)
+  }
+
+  async getRoleMemberCount(role: Role): Promise<number> {
+    return (await this.contract.getRoleMemberCount(ROLES[role])).toNumber()
+  }
+
+  getRoleMember(role: Role, index: number): Promise<string> {
+    return this.contract.getRoleMember(ROLES[role], index)
+  }
+
+  async getRoleMembers(role: Role): Promise<string[]> {
+    const count = await this.getRoleMemberCount(role)
+    return Promise.all(Array.from({ length: count }, (_, index) => this.getRoleMember(role, index)))
+  }
+
+  grantRole(role: Role, account: string, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.grantRole(ROLES[role], account, overrides)
+  }
+
+  revokeRole(role: Role, account: string, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.revokeRole(ROLES[role], account, overrides)
+  }
+
+  renounceRole(role: Role, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.renounceRole(ROLES[role], overrides)
+  }
+
+  // Supply
+
+  cap(): Promise<BigNumber> {
+    return this.contract.cap()
+  }
+
+  capUpdate(newCap: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.capUpdate(newCap, overrides)
+  }
+
+  unlockedSupply(): Promise<BigNumber> {
+    return this.contract.unlockedSupply()
+  }
+
+  lockedSupply(): Promise<BigNumber> {
+    return this.contract.lockedSupply()
+  }
+
+  circulatingSupply(): Promise<BigNumber> {
+    return this.contract.circulatingSupply()
+  }
+
+  totalLock(): Promise<BigNumber> {
+    return this.contract.totalLock()
+  }
+
+  manualMintLimit(): Promise<BigNumber> {
+    return this.contract.manualMintLimit()
+  }
+
+  manualMinted(): Promise<BigNumber> {
+    return this.contract.manualMinted()
+  }
+
+  mint(to: string, amount: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.mint(to, amount, overrides)
+  }
+
+  manualMint(to: string, amount: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.manualMint(to, amount, overrides)
+  }
+
+  // Locks
+
+  lockFromBlock(): Promise<BigNumber> {
+    return this.contract.lockFromBlock()
+  }
+
+  lockToBlock(): Promise<BigNumber> {
+    return this.contract.lockToBlock()
+  }
+
+  lockFromUpdate(newLockFrom: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.lockFromUpdate(newLockFrom, overrides)
+  }
+
+  lockToUpdate(newLockTo: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.lockToUpdate(newLockTo, overrides)
+  }
+
+  totalBalanceOf(holder: string): Promise<BigNumber> {
+    return this.contract.totalBalanceOf(holder)
+  }
+
+  lockOf(holder: string): Promise<BigNumber> {
+    return this.contract.lockOf(holder)
+  }
+
+  lastUnlockBlock(holder: string): Promise<BigNumber> {
+    return this.contract.lastUnlockBlock(holder)
+  }
+
+  // blockNumber has to be a finalized block
+  getPriorLock(holder: string, blockNumber: BigNumberish): Promise<BigNumber> {
+    return this.contract.getPriorLock(holder, blockNumber)
+  }
+
+  canUnlockAmount(holder: string): Promise<BigNumber> {
+    return this.contract.canUnlockAmount(holder)
+  }
+
+  lock(holder: string, amount: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.lock(holder, amount, overrides)
+  }
+
+  unlock(overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.unlock(overrides)
+  }
+
+  transferAll(to: string, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.transferAll(to, overrides)
+  }
+
+  // Delegation & votes
+
+  delegates(delegator: string): Promise<string> {
+    return this.contract.delegates(delegator)
+  }
+
+  delegate(delegatee: string, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.delegate(delegatee, overrides)
+  }
+
+  delegateBySig(
+    delegatee: string,
+    nonce: BigNumberish,
+    expiry: BigNumberish,
+    v: number,
+    r: string,
+    s: string,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.delegateBySig(delegatee, nonce, expiry, v, r, s, overrides)
+  }
+
+  nonces(account: string): Promise<BigNumber> {
+    return this.contract.nonces(account)
+  }
+
+  numCheckpoints(account: string): Promise<number> {
+    return this.contract.numCheckpoints(account)
+  }
+
+  async checkpoints(account: string, index: BigNumberish): Promise<Checkpoint> {
+    const { fromBlock, votes } = await this.contract.checkpoints(account, index)
+    return { fromBlock, votes }
+  }
+
+  getCurrentVotes(account: string): Promise<BigNumber> {
+    return this.contract.getCurrentVotes(account)
+  }
+
+  getPriorVotes(account: string, blockNumber: BigNumberish): Promise<BigNumber> {
+    return this.contract.getPriorVotes(account, blockNumber)
+  }
+}
@@ -0,0 +1,171 @@
+import { ContractTransaction } from 'ethers/contract'
+import { TransactionRequest } from 'ethers/providers'
+import { BigNumber, BigNumberish } from 'ethers/utils'
+
+import { BaseContract, SignerOrProvider } from './BaseContract'
+import { GovernanceVoteEvents, RateObservation, VotingPool, VotingPowerBreakdown } from '../types'
+
+import GovernanceVoteArtifact from '../../build/GovernanceVote.json'
+
+// GovernanceVote mimics an ERC20 token for Snapshot-style voting - all transfer related functions are no-ops and aren't exposed here
+export class GovernanceVote extends BaseContract<GovernanceVoteEvents> {
+  constructor(address: string, signerOrProvider: SignerOrProvider) {
+    super(address, GovernanceVoteArtifact.abi, signerOrProvider)
+  }
+
+  connect(signerOrProvider: SignerOrProvider): GovernanceVote {
+    return new GovernanceVote(this.address, signerOrProvider)
+  }
+
+  // Ownable
+
+  owner(): Promise<string> {
+    return this.contract.owner()
+  }
+
+  transferOwnership(newOwner: string, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.transferOwnership(newOwner, overrides)
+  }
+
+  renounceOwnership(overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.renounceOwnership(overrides)
+  }
+
+  // ERC20 metadata
+
+  name(): Promise<string> {
+    return this.contract.name()
+  }
+
+  symbol(): Promise<string> {
+    return this.contract.symbol()
+  }
+
+  decimals(): Promise<number> {
+    return this.contract.decimals()
+  }
+
+  govToken(): Promise<string> {
+    return this.contract.govToken()
+  }
+
+  masterBreeder(): Promise<string> {
+    return this.contract.masterBreeder()
+  }
+
+  pit(): Promise<string> {
+    return this.contract.pit()
+  }
+
+  // Pools
+
+  async poolLength(): Promise<number> {
+    return (await this.contract.poolLength()).toNumber()
+  }
+
+  async pools(index: BigNumberish): Promise<VotingPool> {
+    const { pid, lpPair, govTokenReservePosition } = await this.contract.pools(index)
+    return { pid, lpPair, govTokenReservePosition }
+  }
+
+  countsPool(pid: BigNumberish): Promise<boolean> {
+    return this.contract.countsPool(pid)
+  }
+
+  // Pair of the first counted pool, the zero address when no pool is counted
+  lpPair(): Promise<string> {
+    return this.contract.lpPair()
+  }
+
+  addPool(pid: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.addPool(pid, overrides)
+  }
+
+  removePool(pid: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.removePool(pid, overrides)
+  }
+
+  // Records the GovToken per LP token rate of every counted pool whose observation is at least RATE_PERIOD old,
+  // anyone can call it
+  checkpointPools(overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.checkpointPools(overrides)
+  }
+
+  // In seconds
+  async RATE_PERIOD(): Promise<number> {
+    return (await this.contract.RATE_PERIOD()).toNumber()
+  }
+
+  async observations(pid: BigNumberish): Promise<RateObservation> {
+    const { priceCumulative, timestamp } = await this.contract.observations(pid)
+    return { priceCumulative, timestamp }
+  }
+
+  // Scaled by RATE_PRECISION (1e18), blockNumber has to be a finalized block
+  getPriorRate(pid: BigNumberish, blockNumber: BigNumberish): Promise<BigNumber> {
+    return this.contract.getPriorRate(pid, blockNumber)
+  }
+
+  // Weights, in basis points of WEIGHT_PRECISION
+
+  lpWeight(): Promise<BigNumber> {
+    return this.contract.lpWeight()
+  }
+
+  pitWeight(): Promise<BigNumber> {
+    return this.contract.pitWeight()
+  }
+
+  lockedWeight(): Promise<BigNumber> {
+    return this.contract.lockedWeight()
+  }
+
+  unlockedWeight(): Promise<BigNumber> {
+    return this.contract.unlockedWeight()
+  }
+
+  setWeights(
+    lpWeight: BigNumberish,
+    pitWeight: BigNumberish,
+    lockedWeight: BigNumberish,
+    unlockedWeight: BigNumberish,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.setWeights(lpWeight, pitWeight, lockedWeight, unlockedWeight, overrides)
+  }
+
+  // Voting power
+
+  govTokenReserve(): Promise<BigNumber> {
+    return this.contract.govTokenReserve()
+  }
+
+  totalSupply(): Promise<BigNumber> {
+    return this.contract.totalSupply()
+  }
+
+  balanceOf(owner: string): Promise<BigNumber> {
+    return this.contract.balanceOf(owner)
+  }
+
+  async totalSupplyBreakdown(): Promise<VotingPowerBreakdown> {
+    const { lp, pitPower, locked, unlocked } = await this.contract.totalSupplyBreakdown()
+    return { lp, pitPower, locked, unlocked }
+  }
+
+  async balanceBreakdown(owner: string): Promise<VotingPowerBreakdown> {
+    const { lp, pitPower, locked, unlocked } = await this.contract.balanceBreakdown(owner)
+    return { lp, pitPower, locked, unlocked }
+  }
+
+  // Block-pinned voting power, blockNumber has to be a finalized block
+
+  getPriorVotes(account: string, blockNumber: BigNumberish): Promise<BigNumber> {
+    return this.contract.getPriorVotes(account, blockNumber)
+  }
+
+  async priorVotesBreakdown(account: string, blockNumber: BigNumberish): Promise<VotingPowerBreakdown> {
+    const { lp, pitPower, locked, unlocked } = await this.contract.priorVotesBreakdown(account, blockNumber)
+    return { lp, pitPower, locked, unlocked }
+  }
+}
@@ -0,0 +1,213 @@
+import { ContractTransaction } from 'ethers/contract'
+import { TransactionRequest } from 'ethers/providers'
+import { BigNumber, BigNumberish } from 'ethers/utils'
+
+import { BaseContract, SignerOrProvider } from './BaseContract'
+import { GovernorAlphaEvents, Proposal, ProposalActions, ProposalState, Receipt } from '../types'
+
+import GovernorAlphaArtifact from '../../build/GovernorAlpha.json'
+
+// GovernorAlpha.ProposalState in declaration order
+const PROPOSAL_STATES: ProposalState[] = [
+  'pending',
+  'active',
+  'canceled',
+  'defeated',
+  'succeeded',
+  'queued',
+  'expired',
+  'executed'
+]
+
+export class GovernorAlpha extends BaseContract<GovernorAlphaEvents> {
+  constructor(address: string, signerOrProvider: SignerOrProvider) {
+    super(address, GovernorAlphaArtifact.abi, signerOrProvider)
+  }
+
+  connect(signerOrProvider: SignerOrProvider): GovernorAlpha {
+    return new GovernorAlpha(this.address, signerOrProvider)
+  }
+
+  // Settings
+
+  name(): Promise<string> {
+    return this.contract.name()
+  }
+
+  quorumVotes(): Promise<BigNumber> {
+    return this.contract.quorumVotes()
+  }
+
+  proposalThreshold(): Promise<BigNumber> {
+    return this.contract.proposalThreshold()
+  }
+
+  async proposalMaxOperations(): Promise<number> {
+    return (await this.contract.proposalMaxOperations()).toNumber()
+  }
+
+  votingDelay(): Promise<BigNumber> {
+    return this.contract.votingDelay()
+  }
+
+  votingPeriod(): Promise<BigNumber> {
+    return this.contract.votingPeriod()
+  }
+
+  timelock(): Promise<string> {
+    return this.contract.timelock()
+  }
+
+  votingPower(): Promise<string> {
+    return this.contract.votingPower()
+  }
+
+  guardian(): Promise<string> {
+    return this.contract.guardian()
+  }
+
+  // Only callable by the Timelock, i.e. through a proposal, see governorProposalActions
+
+  setVotingPower(votingPower: string, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.setVotingPower(votingPower, overrides)
+  }
+
+  setQuorumVotes(quorumVotes: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.setQuorumVotes(quorumVotes, overrides)
+  }
+
+  setProposalThreshold(
+    proposalThreshold: BigNumberish,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.setProposalThreshold(proposalThreshold, overrides)
+  }
+
+  // Proposals
+
+  async proposalCount(): Promise<number> {
+    return (await this.contract.proposalCount()).toNumber()
+  }
+
+  async proposals(proposalId: BigNumberish): Promise<Proposal> {
+    const {
+      id,
+      proposer,
+      eta,
+      startBlock,
+      endBlock,
+      forVotes,
+      againstVotes,
+      canceled,
+      executed,
+      quorumVotes,
+      votingPower
+    } = await this.contract.proposals(proposalId)
+    return {
+      id,
+      proposer,
+      eta,
+      startBlock,
+      endBlock,
+      forVotes,
+      againstVotes,
+      canceled,
+      executed,
+      quorumVotes,
+      votingPower
+    }
+  }
+
+  latestProposalIds(proposer: string): Promise<BigNumber> {
+    return this.contract.latestProposalIds(proposer)
+  }
+
+  async getActions(proposalId: BigNumberish): Promise<ProposalActions> {
+    const { targets, values, signatures, calldatas } = await this.contract.getActions(proposalId)
+    return { targets, values, signatures, calldatas }
+  }
+
+  async getReceipt(proposalId: BigNumberish, voter: string): Promise<Receipt> {
+    const { hasVoted, support, votes } = await this.contract.getReceipt(proposalId, voter)
+    return { hasVoted, support, votes }
+  }
+
+  async state(proposalId: BigNumberish): Promise<ProposalState> {
+    return PROPOSAL_STATES[await this.contract.state(proposalId)]
+  }
+
+  propose(
+    actions: ProposalActions,
+    description: string,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.propose(
+      actions.targets,
+      actions.values,
+      actions.signatures,
+      actions.calldatas,
+      description,
+      overrides
+    )
+  }
+
+  queue(proposalId: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.queue(proposalId, overrides)
+  }
+
+  execute(proposalId: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.execute(proposalId, overrides)
+  }
+
+  // The guardian can always cancel, anyone else only once the proposer's votes dropped below the proposal threshold
+  cancel(proposalId: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.cancel(proposalId, overrides)
+  }
+
+  // Votes
+
+  castVote(
+    proposalId: BigNumberish,
+    support: boolean,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.castVote(proposalId, support, overrides)
+  }
+
+  castVoteBySig(
+    proposalId: BigNumberish,
+    support: boolean,
+    v: number,
+    r: string,
+    s: string,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.castVoteBySig(proposalId, support, v, r, s, overrides)
+  }
+
+  // Guardian
+
+  __acceptAdmin(overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.__acceptAdmin(overrides)
+  }
+
+  __abdicate(overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.__abdicate(overrides)
+  }
+
+  __queueSetTimelockPendingAdmin(
+    newPendingAdmin: string,
+    eta: BigNumberish,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.__queueSetTimelockPendingAdmin(newPendingAdmin, eta, overrides)
+  }
+
+  __executeSetTimelockPendingAdmin(
+    newPendingAdmin: string,
+    eta: BigNumberish,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.__executeSetTimelockPendingAdmin(newPendingAdmin, eta, overrides)
+  }
+}
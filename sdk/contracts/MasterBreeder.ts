@@ -0,0 +1,528 @@
+import { ContractTransaction } from 'ethers/contract'
+import { AddressZero } from 'ethers/constants'
+import { TransactionRequest } from 'ethers/providers'
+import { BigNumber, BigNumberish } from 'ethers/utils'
+
+import { BaseContract, SignerOrProvider } from './BaseContract'
+import {
+  FeeRecipient,
+  FeeRecipientInput,
+  FeeTier,
+  FeeTierInput,
+  MasterBreederEvents,
+  PermitSignature,
+  PoolInfo,
+  PoolReward,
+  UserGlobalInfo,
+  UserInfo
+} from '../types'
+import { Role, ROLES } from '../roles'
+
+import MasterBreederArtifact from '../../build/MasterBreeder.json'
+
+export class MasterBreeder extends BaseContract<MasterBreederEvents> {
+  constructor(address: string, signerOrProvider: SignerOrProvider) {
+    super(address, MasterBreederArtifact.abi, signerOrProvider)
+  }
+
+  connect(signerOrProvider: SignerOrProvider): MasterBreeder {
+    return new MasterBreeder(this.address, signerOrProvider)
+  }
+
+  // Ownable & Authorizable
+
+  owner(): Promise<string> {
+    return this.contract.owner()
+  }
+
+  transferOwnership(newOwner: string, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.transferOwnership(newOwner, overrides)
+  }
+
+  renounceOwnership(overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.renounceOwnership(overrides)
+  }
+
+  hasRole(role: Role, account: string): Promise<boolean> {
+    return this.contract.hasRole(ROLES[role], account)
+  }
+
+  async getRoleMemberCount(role: Role): Promise<number> {
+    return (await this.contract.getRoleMemberCount(ROLES[role])).toNumber()
+  }
+
+  getRoleMember(role: Role, index: number): Promise<string> {
+    return this.contract.getRoleMember(ROLES[role], index)
+  }
+
+  async getRoleMembers(role: Role): Promise<string[]> {
+    const count = await this.getRoleMemberCount(role)
+    return Promise.all(Array.from({ length: count }, (_, index) => this.getRoleMember(role, index)))
+  }
+
+  grantRole(role: Role, account: string, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.grantRole(ROLES[role], account, overrides)
+  }
+
+  revokeRole(role: Role, account: string, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.revokeRole(ROLES[role], account, overrides)
+  }
+
+  renounceRole(role: Role, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.renounceRole(ROLES[role], overrides)
+  }
+
+  // State
+
+  govToken(): Promise<string> {
+    return this.contract.govToken()
+  }
+
+  devaddr(): Promise<string> {
+    return this.contract.devaddr()
+  }
+
+  liquidityaddr(): Promise<string> {
+    return this.contract.liquidityaddr()
+  }
+
+  comfundaddr(): Promise<string> {
+    return this.contract.comfundaddr()
+  }
+
+  founderaddr(): Promise<string> {
+    return this.contract.founderaddr()
+  }
+
+  REWARD_PER_BLOCK(): Promise<BigNumber> {
+    return this.contract.REWARD_PER_BLOCK()
+  }
+
+  REWARD_MULTIPLIER(index: BigNumberish): Promise<BigNumber> {
+    return this.contract.REWARD_MULTIPLIER(index)
+  }
+
+  HALVING_AT_BLOCK(index: BigNumberish): Promise<BigNumber> {
+    return this.contract.HALVING_AT_BLOCK(index)
+  }
+
+  FINISH_BONUS_AT_BLOCK(): Promise<BigNumber> {
+    return this.contract.FINISH_BONUS_AT_BLOCK()
+  }
+
+  userDepFee(): Promise<BigNumber> {
+    return this.contract.userDepFee()
+  }
+
+  devDepFee(): Promise<BigNumber> {
+    return this.contract.devDepFee()
+  }
+
+  START_BLOCK(): Promise<BigNumber> {
+    return this.contract.START_BLOCK()
+  }
+
+  PERCENT_LOCK_BONUS_REWARD(): Promise<BigNumber> {
+    return this.contract.PERCENT_LOCK_BONUS_REWARD()
+  }
+
+  PERCENT_FOR_DEV(): Promise<BigNumber> {
+    return this.contract.PERCENT_FOR_DEV()
+  }
+
+  PERCENT_FOR_LP(): Promise<BigNumber> {
+    return this.contract.PERCENT_FOR_LP()
+  }
+
+  PERCENT_FOR_COM(): Promise<BigNumber> {
+    return this.contract.PERCENT_FOR_COM()
+  }
+
+  PERCENT_FOR_FOUNDERS(): Promise<BigNumber> {
+    return this.contract.PERCENT_FOR_FOUNDERS()
+  }
+
+  referralBps(): Promise<BigNumber> {
+    return this.contract.referralBps()
+  }
+
+  MAX_REWARD_PER_BLOCK(): Promise<BigNumber> {
+    return this.contract.MAX_REWARD_PER_BLOCK()
+  }
+
+  MAX_DEPOSIT_FEE(): Promise<BigNumber> {
+    return this.contract.MAX_DEPOSIT_FEE()
+  }
+
+  MAX_FEE_TIERS(): Promise<BigNumber> {
+    return this.contract.MAX_FEE_TIERS()
+  }
+
+  FEE_BPS(): Promise<BigNumber> {
+    return this.contract.FEE_BPS()
+  }
+
+  MAX_FEE_RECIPIENTS(): Promise<BigNumber> {
+    return this.contract.MAX_FEE_RECIPIENTS()
+  }
+
+  MAX_REFERRAL_BPS(): Promise<BigNumber> {
+    return this.contract.MAX_REFERRAL_BPS()
+  }
+
+  totalAllocPoint(): Promise<BigNumber> {
+    return this.contract.totalAllocPoint()
+  }
+
+  // Pools
+
+  async poolLength(): Promise<number> {
+    return (await this.contract.poolLength()).toNumber()
+  }
+
+  async poolInfo(pid: BigNumberish): Promise<PoolInfo> {
+    const { lpToken, allocPoint, lastRewardBlock, accGovTokenPerShare } = await this.contract.poolInfo(pid)
+    return { lpToken, allocPoint, lastRewardBlock, accGovTokenPerShare }
+  }
+
+  // poolId1 counts from 1 - 0 means that the lp token hasn't been added as a pool
+  poolId1(lpToken: string): Promise<BigNumber> {
+    return this.contract.poolId1(lpToken)
+  }
+
+  poolExistence(lpToken: string): Promise<boolean> {
+    return this.contract.poolExistence(lpToken)
+  }
+
+  add(
+    allocPoint: BigNumberish,
+    lpToken: string,
+    withUpdate: boolean,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.add(allocPoint, lpToken, withUpdate, overrides)
+  }
+
+  set(
+    pid: BigNumberish,
+    allocPoint: BigNumberish,
+    withUpdate: boolean,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.set(pid, allocPoint, withUpdate, overrides)
+  }
+
+  massUpdatePools(overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.massUpdatePools(overrides)
+  }
+
+  updatePool(pid: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.updatePool(pid, overrides)
+  }
+
+  // Rewards
+
+  getMultiplier(from: BigNumberish, to: BigNumberish): Promise<BigNumber> {
+    return this.contract.getMultiplier(from, to)
+  }
+
+  async getPoolReward(from: BigNumberish, to: BigNumberish, allocPoint: BigNumberish): Promise<PoolReward> {
+    const { forDev, forFarmer, forLP, forCom, forFounders } = await this.contract.getPoolReward(from, to, allocPoint)
+    return { forDev, forFarmer, forLP, forCom, forFounders }
+  }
+
+  getNewRewardPerBlock(pid1: BigNumberish): Promise<BigNumber> {
+    return this.contract.getNewRewardPerBlock(pid1)
+  }
+
+  pendingReward(pid: BigNumberish, user: string): Promise<BigNumber> {
+    return this.contract.pendingReward(pid, user)
+  }
+
+  claimReward(pid: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.claimReward(pid, overrides)
+  }
+
+  // Harvests user's rewards to `to`, the signer has to be user or one of their operators
+  claimRewardTo(
+    pid: BigNumberish,
+    user: string,
+    to: string,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.claimRewardTo(pid, user, to, overrides)
+  }
+
+  claimRewards(pids: BigNumberish[], overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.claimRewards(pids, overrides)
+  }
+
+  // Withdrawal fees
+
+  async feeTierCount(): Promise<number> {
+    return (await this.contract.feeTierCount()).toNumber()
+  }
+
+  async feeTiers(index: BigNumberish): Promise<FeeTier> {
+    const { minBlockDelta, userBps, devBps } = await this.contract.feeTiers(index)
+    return { minBlockDelta, userBps, devBps }
+  }
+
+  // Index of the tier a withdrawal with the given block delta pays, unless it's in the deposit block (tier 0)
+  async feeTierOf(blockDelta: BigNumberish): Promise<number> {
+    return (await this.contract.feeTierOf(blockDelta)).toNumber()
+  }
+
+  async feeRecipientCount(): Promise<number> {
+    return (await this.contract.feeRecipientCount()).toNumber()
+  }
+
+  async feeRecipients(index: BigNumberish): Promise<FeeRecipient> {
+    const { recipient, bps } = await this.contract.feeRecipients(index)
+    return { recipient, bps }
+  }
+
+  // Users, ref only binds a referrer on the user's first deposit & is ignored by withdraw
+
+  async userInfo(pid: BigNumberish, user: string): Promise<UserInfo> {
+    const {
+      amount,
+      rewardDebt,
+      rewardDebtAtBlock,
+      lastWithdrawBlock,
+      firstDepositBlock,
+      blockdelta,
+      lastDepositBlock
+    } = await this.contract.userInfo(pid, user)
+    return { amount, rewardDebt, rewardDebtAtBlock, lastWithdrawBlock, firstDepositBlock, blockdelta, lastDepositBlock }
+  }
+
+  async userGlobalInfo(user: string): Promise<UserGlobalInfo> {
+    const {
+      globalAmount,
+      totalReferals,
+      globalRefAmount,
+      referrer,
+      hasDeposited,
+      referralReward
+    } = await this.contract.userGlobalInfo(user)
+    return { globalAmount, totalReferals, globalRefAmount, referrer, hasDeposited, referralReward }
+  }
+
+  // Uses msg.sender on chain - pass a `from` address when querying through a provider
+  userDelta(pid: BigNumberish, overrides: TransactionRequest = {}): Promise<BigNumber> {
+    return this.contract.userDelta(pid, overrides)
+  }
+
+  // blockNumber has to be a finalized block
+  getPriorStake(pid: BigNumberish, user: string, blockNumber: BigNumberish): Promise<BigNumber> {
+    return this.contract.getPriorStake(pid, user, blockNumber)
+  }
+
+  getGlobalAmount(user: string): Promise<BigNumber> {
+    return this.contract.getGlobalAmount(user)
+  }
+
+  getGlobalRefAmount(user: string): Promise<BigNumber> {
+    return this.contract.getGlobalRefAmount(user)
+  }
+
+  getTotalRefs(user: string): Promise<BigNumber> {
+    return this.contract.getTotalRefs(user)
+  }
+
+  getRefValueOf(referrer: string, user: string): Promise<BigNumber> {
+    return this.contract.getRefValueOf(referrer, user)
+  }
+
+  referrerOf(user: string): Promise<string> {
+    return this.contract.referrerOf(user)
+  }
+
+  // Only includes the rewards of referees who have harvested since the last claim
+  pendingReferralReward(referrer: string): Promise<BigNumber> {
+    return this.contract.pendingReferralReward(referrer)
+  }
+
+  claimReferralReward(overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.claimReferralReward(overrides)
+  }
+
+  deposit(
+    pid: BigNumberish,
+    amount: BigNumberish,
+    ref: string = AddressZero,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.deposit(pid, amount, ref, overrides)
+  }
+
+  // Operators can deposit for the user & withdraw or harvest the user's positions to any address
+
+  isOperator(user: string, operator: string): Promise<boolean> {
+    return this.contract.isOperator(user, operator)
+  }
+
+  setOperator(operator: string, approved: boolean, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.setOperator(operator, approved, overrides)
+  }
+
+  // Deposits the signer's LP tokens for user, who owns the stake & receives its rewards. The signer has to be one of
+  // user's operators
+  depositFor(
+    pid: BigNumberish,
+    amount: BigNumberish,
+    user: string,
+    ref: string = AddressZero,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.depositFor(pid, amount, user, ref, overrides)
+  }
+
+  // permit is the signer's EIP-2612 signature approving amount of the pool's LP tokens for MasterBreeder
+  // When the permit fails, e.g. because someone submitted it first, the deposit falls back to the allowance
+  depositWithPermit(
+    pid: BigNumberish,
+    amount: BigNumberish,
+    ref: string,
+    deadline: BigNumberish,
+    permit: PermitSignature,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.depositWithPermit(pid, amount, ref, deadline, permit.v, permit.r, permit.s, overrides)
+  }
+
+  withdraw(
+    pid: BigNumberish,
+    amount: BigNumberish,
+    ref: string = AddressZero,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.withdraw(pid, amount, ref, overrides)
+  }
+
+  // Withdraws user's LP tokens & rewards to `to`, the signer has to be user or one of their operators
+  withdrawTo(
+    pid: BigNumberish,
+    amount: BigNumberish,
+    user: string,
+    to: string,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.withdrawTo(pid, amount, user, to, overrides)
+  }
+
+  emergencyWithdraw(pid: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.emergencyWithdraw(pid, overrides)
+  }
+
+  // Role-guarded setters, each one validates its value & emits ParameterUpdated, AddressUpdated for the fund
+  // addresses & UserBlockRevised for reviseWithdraw & reviseDeposit
+
+  dev(devaddr: string, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.dev(devaddr, overrides)
+  }
+
+  bonusFinishUpdate(newFinish: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.bonusFinishUpdate(newFinish, overrides)
+  }
+
+  halvingUpdate(newHalving: BigNumberish[], overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.halvingUpdate(newHalving, overrides)
+  }
+
+  lpUpdate(newLP: string, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.lpUpdate(newLP, overrides)
+  }
+
+  comUpdate(newCom: string, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.comUpdate(newCom, overrides)
+  }
+
+  founderUpdate(newFounder: string, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.founderUpdate(newFounder, overrides)
+  }
+
+  rewardUpdate(newReward: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.rewardUpdate(newReward, overrides)
+  }
+
+  rewardMulUpdate(newMulReward: BigNumberish[], overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.rewardMulUpdate(newMulReward, overrides)
+  }
+
+  lockUpdate(newLock: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.lockUpdate(newLock, overrides)
+  }
+
+  lockdevUpdate(newDevLock: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.lockdevUpdate(newDevLock, overrides)
+  }
+
+  locklpUpdate(newLpLock: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.locklpUpdate(newLpLock, overrides)
+  }
+
+  lockcomUpdate(newComLock: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.lockcomUpdate(newComLock, overrides)
+  }
+
+  lockfounderUpdate(newFounderLock: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.lockfounderUpdate(newFounderLock, overrides)
+  }
+
+  starblockUpdate(newStartBlock: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.starblockUpdate(newStartBlock, overrides)
+  }
+
+  setReferralBps(referralBps: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.setReferralBps(referralBps, overrides)
+  }
+
+  reviseWithdraw(
+    pid: BigNumberish,
+    user: string,
+    block: BigNumberish,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.reviseWithdraw(pid, user, block, overrides)
+  }
+
+  reviseDeposit(
+    pid: BigNumberish,
+    user: string,
+    block: BigNumberish,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.reviseDeposit(pid, user, block, overrides)
+  }
+
+  setFeeTiers(tiers: FeeTierInput[], overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.setFeeTiers(
+      tiers.map(tier => tier.minBlockDelta),
+      tiers.map(tier => tier.userBps),
+      tiers.map(tier => tier.devBps),
+      overrides
+    )
+  }
+
+  setFeeRecipients(recipients: FeeRecipientInput[], overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.setFeeRecipients(
+      recipients.map(recipient => recipient.recipient),
+      recipients.map(recipient => recipient.bps),
+      overrides
+    )
+  }
+
+  setDevDepFee(devDepFee: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.setDevDepFee(devDepFee, overrides)
+  }
+
+  setUserDepFee(userDepFee: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.setUserDepFee(userDepFee, overrides)
+  }
+
+  reclaimTokenOwnership(newOwner: string, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.reclaimTokenOwnership(newOwner, overrides)
+  }
+}
@@ -0,0 +1,58 @@
+import { BigNumberish } from 'ethers/utils'
+
+import { BaseContract, SignerOrProvider } from './BaseContract'
+import { Dashboard, MasterBreederLensEvents, PoolPosition } from '../types'
+
+import MasterBreederLensArtifact from '../../build/MasterBreederLens.json'
+
+export class MasterBreederLens extends BaseContract<MasterBreederLensEvents> {
+  constructor(address: string, signerOrProvider: SignerOrProvider) {
+    super(address, MasterBreederLensArtifact.abi, signerOrProvider)
+  }
+
+  connect(signerOrProvider: SignerOrProvider): MasterBreederLens {
+    return new MasterBreederLens(this.address, signerOrProvider)
+  }
+
+  breeder(): Promise<string> {
+    return this.contract.breeder()
+  }
+
+  govToken(): Promise<string> {
+    return this.contract.govToken()
+  }
+
+  // Every pool with the user's position in it & the user's GovToken locks in a single call
+  async dashboard(user: string): Promise<Dashboard> {
+    const { blockNumber, totalAllocPoint, pools, govTokenView } = await this.contract.dashboard(user)
+    return {
+      blockNumber: blockNumber.toNumber(),
+      totalAllocPoint,
+      pools: pools.map(decodePoolView),
+      govToken: {
+        balance: govTokenView.balance,
+        lockOf: govTokenView.lockOf,
+        canUnlockAmount: govTokenView.canUnlockAmount
+      }
+    }
+  }
+
+  async poolPosition(pid: BigNumberish, user: string): Promise<PoolPosition> {
+    return decodePoolView(await this.contract.poolView(pid, user))
+  }
+}
+
+function decodePoolView(pool: any): PoolPosition {
+  const { pid, lpToken, allocPoint, totalStaked, staked, lpBalance, pendingReward, blockDelta, feeTier } = pool
+  return {
+    pid: pid.toNumber(),
+    lpToken,
+    allocPoint,
+    totalStaked,
+    staked,
+    lpBalance,
+    pendingReward,
+    blockDelta,
+    feeTier: feeTier.toNumber()
+  }
+}
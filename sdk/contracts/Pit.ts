@@ -0,0 +1,36 @@
+import { ContractTransaction } from 'ethers/contract'
+import { TransactionRequest } from 'ethers/providers'
+import { BigNumber, BigNumberish } from 'ethers/utils'
+
+import { SignerOrProvider } from './BaseContract'
+import { ERC20Contract } from './ERC20Contract'
+import { PitEvents } from '../types'
+
+import PitArtifact from '../../build/Pit.json'
+
+export class Pit extends ERC20Contract<PitEvents> {
+  constructor(address: string, signerOrProvider: SignerOrProvider) {
+    super(address, PitArtifact.abi, signerOrProvider)
+  }
+
+  connect(signerOrProvider: SignerOrProvider): Pit {
+    return new Pit(this.address, signerOrProvider)
+  }
+
+  govToken(): Promise<string> {
+    return this.contract.govToken()
+  }
+
+  enter(amount: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.enter(amount, overrides)
+  }
+
+  leave(share: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.leave(share, overrides)
+  }
+
+  // blockNumber has to be a finalized block
+  getPriorShares(account: string, blockNumber: BigNumberish): Promise<BigNumber> {
+    return this.contract.getPriorShares(account, blockNumber)
+  }
+}
@@ -0,0 +1,73 @@
+import { ContractTransaction } from 'ethers/contract'
+import { TransactionRequest } from 'ethers/providers'
+import { BigNumberish } from 'ethers/utils'
+
+import { BaseContract, SignerOrProvider } from './BaseContract'
+import { PitBreederEvents } from '../types'
+
+import PitBreederArtifact from '../../build/PitBreeder.json'
+
+export class PitBreeder extends BaseContract<PitBreederEvents> {
+  constructor(address: string, signerOrProvider: SignerOrProvider) {
+    super(address, PitBreederArtifact.abi, signerOrProvider)
+  }
+
+  connect(signerOrProvider: SignerOrProvider): PitBreeder {
+    return new PitBreeder(this.address, signerOrProvider)
+  }
+
+  owner(): Promise<string> {
+    return this.contract.owner()
+  }
+
+  transferOwnership(newOwner: string, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.transferOwnership(newOwner, overrides)
+  }
+
+  factory(): Promise<string> {
+    return this.contract.factory()
+  }
+
+  pit(): Promise<string> {
+    return this.contract.pit()
+  }
+
+  bridgeFor(token: string): Promise<string> {
+    return this.contract.bridgeFor(token)
+  }
+
+  setBridge(token: string, bridge: string, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.setBridge(token, bridge, overrides)
+  }
+
+  // Only the owner can convert without a minimum, see convertWithMinimum
+  convert(token0: string, token1: string, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.convert(token0, token1, overrides)
+  }
+
+  convertMultiple(
+    token0: string[],
+    token1: string[],
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.convertMultiple(token0, token1, overrides)
+  }
+
+  convertWithMinimum(
+    token0: string,
+    token1: string,
+    minGovTokenOut: BigNumberish,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.convertWithMinimum(token0, token1, minGovTokenOut, overrides)
+  }
+
+  convertMultipleWithMinimum(
+    token0: string[],
+    token1: string[],
+    minGovTokenOut: BigNumberish[],
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.convertMultipleWithMinimum(token0, token1, minGovTokenOut, overrides)
+  }
+}
@@ -0,0 +1,95 @@
+import { ContractTransaction } from 'ethers/contract'
+import { TransactionRequest } from 'ethers/providers'
+import { Arrayish, BigNumber, BigNumberish } from 'ethers/utils'
+
+import { BaseContract, SignerOrProvider } from './BaseContract'
+import { TimelockEvents } from '../types'
+
+import TimelockArtifact from '../../build/Timelock.json'
+
+export class Timelock extends BaseContract<TimelockEvents> {
+  constructor(address: string, signerOrProvider: SignerOrProvider) {
+    super(address, TimelockArtifact.abi, signerOrProvider)
+  }
+
+  connect(signerOrProvider: SignerOrProvider): Timelock {
+    return new Timelock(this.address, signerOrProvider)
+  }
+
+  GRACE_PERIOD(): Promise<BigNumber> {
+    return this.contract.GRACE_PERIOD()
+  }
+
+  MINIMUM_DELAY(): Promise<BigNumber> {
+    return this.contract.MINIMUM_DELAY()
+  }
+
+  MAXIMUM_DELAY(): Promise<BigNumber> {
+    return this.contract.MAXIMUM_DELAY()
+  }
+
+  admin(): Promise<string> {
+    return this.contract.admin()
+  }
+
+  pendingAdmin(): Promise<string> {
+    return this.contract.pendingAdmin()
+  }
+
+  delay(): Promise<BigNumber> {
+    return this.contract.delay()
+  }
+
+  admin_initialized(): Promise<boolean> {
+    return this.contract.admin_initialized()
+  }
+
+  queuedTransactions(txHash: string): Promise<boolean> {
+    return this.contract.queuedTransactions(txHash)
+  }
+
+  setDelay(delay: BigNumberish, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.setDelay(delay, overrides)
+  }
+
+  acceptAdmin(overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.acceptAdmin(overrides)
+  }
+
+  setPendingAdmin(pendingAdmin: string, overrides: TransactionRequest = {}): Promise<ContractTransaction> {
+    return this.contract.setPendingAdmin(pendingAdmin, overrides)
+  }
+
+  queueTransaction(
+    target: string,
+    value: BigNumberish,
+    signature: string,
+    data: Arrayish,
+    eta: BigNumberish,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.queueTransaction(target, value, signature, data, eta, overrides)
+  }
+
+  cancelTransaction(
+    target: string,
+    value: BigNumberish,
+    signature: string,
+    data: Arrayish,
+    eta: BigNumberish,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.cancelTransaction(target, value, signature, data, eta, overrides)
+  }
+
+  executeTransaction(
+    target: string,
+    value: BigNumberish,
+    signature: string,
+    data: Arrayish,
+    eta: BigNumberish,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.executeTransaction(target, value, signature, data, eta, overrides)
+  }
+}
@@ -0,0 +1,94 @@
+import { ContractTransaction } from 'ethers/contract'
+import { AddressZero } from 'ethers/constants'
+import { TransactionRequest } from 'ethers/providers'
+import { BigNumberish } from 'ethers/utils'
+
+import { BaseContract, SignerOrProvider } from './BaseContract'
+import { ZapperEvents } from '../types'
+
+import ZapperArtifact from '../../build/Zapper.json'
+
+export class Zapper extends BaseContract<ZapperEvents> {
+  constructor(address: string, signerOrProvider: SignerOrProvider) {
+    super(address, ZapperArtifact.abi, signerOrProvider)
+  }
+
+  connect(signerOrProvider: SignerOrProvider): Zapper {
+    return new Zapper(this.address, signerOrProvider)
+  }
+
+  breeder(): Promise<string> {
+    return this.contract.breeder()
+  }
+
+  router(): Promise<string> {
+    return this.contract.router()
+  }
+
+  weth(): Promise<string> {
+    return this.contract.weth()
+  }
+
+  // tokenIn has to be one of the tokens of the pool's pair, ref only binds a referrer on the caller's first deposit
+  zapIn(
+    pid: BigNumberish,
+    tokenIn: string,
+    amountIn: BigNumberish,
+    minLiquidity: BigNumberish = 0,
+    ref: string = AddressZero,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.zapIn(pid, tokenIn, amountIn, minLiquidity, ref, overrides)
+  }
+
+  // The ETH to zap is the value of the overrides
+  zapInETH(
+    pid: BigNumberish,
+    minLiquidity: BigNumberish = 0,
+    ref: string = AddressZero,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.zapInETH(pid, minLiquidity, ref, overrides)
+  }
+
+  // Zaps LP tokens out of the caller's balance, withdrawAndZapOut zaps out of their stake
+  zapOut(
+    pid: BigNumberish,
+    liquidity: BigNumberish,
+    tokenOut: string,
+    minOut: BigNumberish = 0,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.zapOut(pid, liquidity, tokenOut, minOut, overrides)
+  }
+
+  zapOutETH(
+    pid: BigNumberish,
+    liquidity: BigNumberish,
+    minOut: BigNumberish = 0,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.zapOutETH(pid, liquidity, minOut, overrides)
+  }
+
+  // Zaps out of the caller's stake through MasterBreeder.withdrawTo, amount is the stake to withdraw & the LP tokens
+  // left after the withdrawal fee are zapped out. The stake's rewards are harvested to the caller
+  withdrawAndZapOut(
+    pid: BigNumberish,
+    amount: BigNumberish,
+    tokenOut: string,
+    minOut: BigNumberish = 0,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.withdrawAndZapOut(pid, amount, tokenOut, minOut, overrides)
+  }
+
+  withdrawAndZapOutETH(
+    pid: BigNumberish,
+    amount: BigNumberish,
+    minOut: BigNumberish = 0,
+    overrides: TransactionRequest = {}
+  ): Promise<ContractTransaction> {
+    return this.contract.withdrawAndZapOutETH(pid, amount, minOut, overrides)
+  }
+}
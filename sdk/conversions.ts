@@ -0,0 +1,422 @@
+import { Contract } from 'ethers'
+import { AddressZero, One, Zero } from 'ethers/constants'
+import { BigNumber, getAddress } from 'ethers/utils'
+
+import { LogBridgeSetEvent } from './types'
+import { decodeEvent } from './events'
+import { Pit } from './contracts/Pit'
+import { PitBreeder } from './contracts/PitBreeder'
+
+import IUniswapV2Factory from '../build/IUniswapV2Factory.json'
+import IUniswapV2Pair from '../build/IUniswapV2Pair.json'
+import IERC20 from '../build/IERC20.json'
+
+// Off-chain mirror of PitBreeder.convert: the LP burn, the bridge walk in _convertStep & the 997/1000 swaps in _swap.
+// Pair reserves & balances are updated after every simulated burn & swap, so later steps of the same convert
+// (and later converts of a convertMultiple) see the same reserves as the contract does
+
+export type ConversionStep =
+  | { type: 'burn'; pair: string; liquidity: BigNumber; amount0: BigNumber; amount1: BigNumber }
+  | {
+      type: 'swap'
+      pair: string
+      fromToken: string
+      toToken: string
+      amountIn: BigNumber
+      amountOut: BigNumber
+      to: string
+    }
+  | { type: 'transfer'; token: string; amount: BigNumber; to: string }
+
+export interface ConversionQuote {
+  token0: string
+  token1: string
+  // Burned amounts in token0/token1 order, as emitted by LogConvert
+  amount0: BigNumber
+  amount1: BigNumber
+  steps: ConversionStep[]
+  // GovToken sent to the Pit, LogConvert's amountGovToken
+  govTokenOut: BigNumber
+  // Why the convert would fail, e.g. 'PitBreeder: Cannot convert' for a missing pair or 'Bridge cycle: ...'
+  error?: string
+}
+
+export interface ConversionPlannerOptions {
+  // Block to start reading LogBridgeSet events from, e.g. the block PitBreeder was deployed in
+  fromBlock?: number
+}
+
+interface PairState {
+  address: string
+  token0: string
+  token1: string
+  reserve0: BigNumber
+  reserve1: BigNumber
+  balance0: BigNumber
+  balance1: BigNumber
+  totalSupply: BigNumber
+  // LP tokens held by the pair itself, which burn() burns
+  liquidity: BigNumber
+  kLast: BigNumber
+}
+
+// Thrown while simulating a convert that would revert
+class ConversionRevert extends Error {
+  constructor(message: string) {
+    super(message)
+    // Keeps instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, ConversionRevert.prototype)
+  }
+}
+
+// Babylonian square root, same as UniswapV2's Math.sqrt
+function sqrt(y: BigNumber): BigNumber {
+  if (y.gt(3)) {
+    let z = y
+    let x = y.div(2).add(1)
+    while (x.lt(z)) {
+      z = x
+      x = y
+        .div(x)
+        .add(x)
+        .div(2)
+    }
+    return z
+  }
+  return y.isZero() ? Zero : One
+}
+
+function clonePair(pair: PairState): PairState {
+  return { ...pair }
+}
+
+// Replays LogBridgeSet events, since PitBreeder's _bridges mapping can't be enumerated
+export async function fetchBridges(pitBreeder: PitBreeder, fromBlock: number = 0): Promise<Record<string, string>> {
+  const logs = await pitBreeder.provider.getLogs({
+    address: pitBreeder.address,
+    fromBlock,
+    toBlock: 'latest',
+    topics: [pitBreeder.interface.events.LogBridgeSet.topic]
+  })
+  const bridges: Record<string, string> = {}
+  for (const log of logs) {
+    const event = decodeEvent<LogBridgeSetEvent>(pitBreeder.interface, log)!
+    bridges[event.args.token] = event.args.bridge
+  }
+  return bridges
+}
+
+export class ConversionPlanner {
+  private readonly pairAddresses: Record<string, string> = {}
+  private pairs: Record<string, PairState> = {}
+  private lpBalances: Record<string, BigNumber> = {}
+
+  constructor(
+    readonly pitBreeder: PitBreeder,
+    readonly factory: Contract,
+    readonly pit: string,
+    readonly govToken: string,
+    readonly weth: string,
+    readonly bridges: Record<string, string>,
+    private readonly feeOn: boolean
+  ) {}
+
+  // govToken & weth are private in PitBreeder: weth is what bridgeFor returns for tokens without a bridge,
+  // govToken is read from the Pit
+  static async load(pitBreeder: PitBreeder, options: ConversionPlannerOptions = {}): Promise<ConversionPlanner> {
+    const provider = pitBreeder.provider
+    const factory = new Contract(await pitBreeder.factory(), IUniswapV2Factory.abi, provider)
+    const pit = await pitBreeder.pit()
+    const govToken = await new Pit(pit, provider).govToken()
+    const weth = await pitBreeder.bridgeFor(AddressZero)
+    const bridges = await fetchBridges(pitBreeder, options.fromBlock)
+    const feeOn = (await factory.feeTo()) !== AddressZero
+    return new ConversionPlanner(pitBreeder, factory, pit, govToken, weth, bridges, feeOn)
+  }
+
+  // Copy of the simulated state, to quote converts without committing them to this planner
+  fork(): ConversionPlanner {
+    const planner = new ConversionPlanner(
+      this.pitBreeder,
+      this.factory,
+      this.pit,
+      this.govToken,
+      this.weth,
+      this.bridges,
+      this.feeOn
+    )
+    Object.assign(planner.pairAddresses, this.pairAddresses)
+    Object.keys(this.pairs).forEach(key => (planner.pairs[key] = clonePair(this.pairs[key])))
+    planner.lpBalances = { ...this.lpBalances }
+    return planner
+  }
+
+  bridgeFor(token: string): string {
+    const bridge = this.bridges[token]
+    return bridge === undefined || bridge === AddressZero ? this.weth : bridge
+  }
+
+  // Bridge chain from token until it reaches the GovToken or WETH (which _toGovToken swaps directly),
+  // flags bridges without a pair & cycles, both revert with 'PitBreeder: Cannot convert' (or run out of gas)
+  async bridgePath(token: string): Promise<{ path: string[]; error?: string }> {
+    const path = [getAddress(token)]
+    let current = path[0]
+    while (current !== this.govToken && current !== this.weth) {
+      const bridge = this.bridgeFor(current)
+      if (path.indexOf(bridge) !== -1) {
+        return { path: path.concat(bridge), error: 'Bridge cycle' }
+      }
+      path.push(bridge)
+      if ((await this.pairAddress(current, bridge)) === AddressZero) {
+        return { path, error: 'PitBreeder: Cannot convert' }
+      }
+      current = bridge
+    }
+    if (current === this.weth && (await this.pairAddress(this.weth, this.govToken)) === AddressZero) {
+      return { path: path.concat(this.govToken), error: 'PitBreeder: Cannot convert' }
+    }
+    return { path }
+  }
+
+  // Quotes convert(token0, token1) against the current chain state plus the converts quoted before it
+  // (use a fresh planner for independent quotes). Reverting converts leave the simulated state untouched
+  async quote(token0: string, token1: string): Promise<ConversionQuote> {
+    return (await this.quoteMultiple([token0], [token1]))[0]
+  }
+
+  // Quotes convertMultiple, which reverts as a whole when any of its converts reverts
+  async quoteMultiple(token0: string[], token1: string[]): Promise<ConversionQuote[]> {
+    const pairs = this.pairs
+    const lpBalances = this.lpBalances
+    this.pairs = {}
+    this.lpBalances = { ...lpBalances }
+    Object.keys(pairs).forEach(key => (this.pairs[key] = clonePair(pairs[key])))
+
+    const quotes: ConversionQuote[] = []
+    let error: string | undefined
+    for (let i = 0; i < token0.length; i++) {
+      const quote = await this.simulateConvert(getAddress(token0[i]), getAddress(token1[i]))
+      quotes.push(quote)
+      error = error || quote.error
+    }
+
+    if (error) {
+      this.pairs = pairs
+      this.lpBalances = lpBalances
+    }
+    return quotes
+  }
+
+  private async simulateConvert(token0: string, token1: string): Promise<ConversionQuote> {
+    const quote: ConversionQuote = { token0, token1, amount0: Zero, amount1: Zero, steps: [], govTokenOut: Zero }
+    try {
+      const pairAddress = await this.pairAddress(token0, token1)
+      if (pairAddress === AddressZero) {
+        throw new ConversionRevert('PitBreeder: Invalid pair')
+      }
+      const pair = await this.pair(pairAddress)
+      const liquidity = pair.liquidity.add(await this.lpBalance(pairAddress))
+      this.lpBalances[pairAddress] = Zero
+      let [amount0, amount1] = this.burn(pair, liquidity)
+      quote.steps.push({ type: 'burn', pair: pair.address, liquidity, amount0, amount1 })
+
+      if (token0 !== pair.token0) {
+        ;[amount0, amount1] = [amount1, amount0]
+      }
+      quote.amount0 = amount0
+      quote.amount1 = amount1
+      quote.govTokenOut = await this.convertStep(token0, token1, amount0, amount1, quote.steps, [])
+    } catch (e) {
+      if (!(e instanceof ConversionRevert)) {
+        throw e
+      }
+      quote.error = e.message
+      quote.govTokenOut = Zero
+    }
+    return quote
+  }
+
+  // Mirrors UniswapV2Pair.burn including the protocol fee minted by _mintFee
+  private burn(pair: PairState, liquidity: BigNumber): [BigNumber, BigNumber] {
+    if (this.feeOn && !pair.kLast.isZero()) {
+      const rootK = sqrt(pair.reserve0.mul(pair.reserve1))
+      const rootKLast = sqrt(pair.kLast)
+      if (rootK.gt(rootKLast)) {
+        const minted = pair.totalSupply.mul(rootK.sub(rootKLast)).div(rootK.mul(2).add(rootKLast))
+        pair.totalSupply = pair.totalSupply.add(minted)
+      }
+    }
+
+    const amount0 = liquidity.mul(pair.balance0).div(pair.totalSupply)
+    const amount1 = liquidity.mul(pair.balance1).div(pair.totalSupply)
+    if (amount0.isZero() || amount1.isZero()) {
+      throw new ConversionRevert('UniswapV2: INSUFFICIENT_LIQUIDITY_BURNED')
+    }
+
+    pair.totalSupply = pair.totalSupply.sub(liquidity)
+    pair.liquidity = Zero
+    pair.balance0 = pair.balance0.sub(amount0)
+    pair.balance1 = pair.balance1.sub(amount1)
+    pair.reserve0 = pair.balance0
+    pair.reserve1 = pair.balance1
+    pair.kLast = this.feeOn ? pair.reserve0.mul(pair.reserve1) : Zero
+    return [amount0, amount1]
+  }
+
+  private async swap(
+    fromToken: string,
+    toToken: string,
+    amountIn: BigNumber,
+    to: string,
+    steps: ConversionStep[]
+  ): Promise<BigNumber> {
+    const pairAddress = await this.pairAddress(fromToken, toToken)
+    if (pairAddress === AddressZero) {
+      throw new ConversionRevert('PitBreeder: Cannot convert')
+    }
+
+    const pair = await this.pair(pairAddress)
+    const zeroForOne = fromToken === pair.token0
+    const [reserveIn, reserveOut] = zeroForOne ? [pair.reserve0, pair.reserve1] : [pair.reserve1, pair.reserve0]
+    const amountOut = amountIn
+      .mul(997)
+      .mul(reserveOut)
+      .div(reserveIn.mul(1000).add(amountIn.mul(997)))
+    if (amountOut.isZero()) {
+      throw new ConversionRevert('UniswapV2: INSUFFICIENT_OUTPUT_AMOUNT')
+    }
+    if (amountOut.gte(reserveOut)) {
+      throw new ConversionRevert('UniswapV2: INSUFFICIENT_LIQUIDITY')
+    }
+
+    if (zeroForOne) {
+      pair.balance0 = pair.balance0.add(amountIn)
+      pair.balance1 = pair.balance1.sub(amountOut)
+    } else {
+      pair.balance0 = pair.balance0.sub(amountOut)
+      pair.balance1 = pair.balance1.add(amountIn)
+    }
+    pair.reserve0 = pair.balance0
+    pair.reserve1 = pair.balance1
+
+    steps.push({ type: 'swap', pair: pair.address, fromToken, toToken, amountIn, amountOut, to })
+    return amountOut
+  }
+
+  private toGovToken(token: string, amountIn: BigNumber, steps: ConversionStep[]): Promise<BigNumber> {
+    return this.swap(token, this.govToken, amountIn, this.pit, steps)
+  }
+
+  private transferToPit(amount: BigNumber, steps: ConversionStep[]) {
+    steps.push({ type: 'transfer', token: this.govToken, amount, to: this.pit })
+  }
+
+  // Same branches as PitBreeder._convertStep. `visited` holds the token pairs of the enclosing calls: the next step
+  // only depends on the tokens, so running into the same pair again means the contract recurses until it runs out of gas
+  private async convertStep(
+    token0: string,
+    token1: string,
+    amount0: BigNumber,
+    amount1: BigNumber,
+    steps: ConversionStep[],
+    visited: string[]
+  ): Promise<BigNumber> {
+    const key = `${token0}/${token1}`
+    if (visited.indexOf(key) !== -1) {
+      throw new ConversionRevert(`Bridge cycle: ${visited.concat(key).join(' -> ')}`)
+    }
+    visited = visited.concat(key)
+
+    const pitBreeder = this.pitBreeder.address
+    const { govToken, weth } = this
+
+    if (token0 === token1) {
+      const amount = amount0.add(amount1)
+      if (token0 === govToken) {
+        this.transferToPit(amount, steps)
+        return amount
+      } else if (token0 === weth) {
+        return this.toGovToken(weth, amount, steps)
+      }
+      const bridge = this.bridgeFor(token0)
+      const swapped = await this.swap(token0, bridge, amount, pitBreeder, steps)
+      return this.convertStep(bridge, bridge, swapped, Zero, steps, visited)
+    } else if (token0 === govToken) {
+      this.transferToPit(amount0, steps)
+      return (await this.toGovToken(token1, amount1, steps)).add(amount0)
+    } else if (token1 === govToken) {
+      this.transferToPit(amount1, steps)
+      return (await this.toGovToken(token0, amount0, steps)).add(amount1)
+    } else if (token0 === weth) {
+      const swapped = await this.swap(token1, weth, amount1, pitBreeder, steps)
+      return this.toGovToken(weth, swapped.add(amount0), steps)
+    } else if (token1 === weth) {
+      const swapped = await this.swap(token0, weth, amount0, pitBreeder, steps)
+      return this.toGovToken(weth, swapped.add(amount1), steps)
+    }
+
+    const bridge0 = this.bridgeFor(token0)
+    const bridge1 = this.bridgeFor(token1)
+    if (bridge0 === token1) {
+      const swapped = await this.swap(token0, bridge0, amount0, pitBreeder, steps)
+      return this.convertStep(bridge0, token1, swapped, amount1, steps, visited)
+    } else if (bridge1 === token0) {
+      const swapped = await this.swap(token1, bridge1, amount1, pitBreeder, steps)
+      return this.convertStep(token0, bridge1, amount0, swapped, steps, visited)
+    }
+    const swapped0 = await this.swap(token0, bridge0, amount0, pitBreeder, steps)
+    const swapped1 = await this.swap(token1, bridge1, amount1, pitBreeder, steps)
+    return this.convertStep(bridge0, bridge1, swapped0, swapped1, steps, visited)
+  }
+
+  private async pairAddress(tokenA: string, tokenB: string): Promise<string> {
+    const key = tokenA.toLowerCase() < tokenB.toLowerCase() ? `${tokenA}/${tokenB}` : `${tokenB}/${tokenA}`
+    if (this.pairAddresses[key] === undefined) {
+      this.pairAddresses[key] = await this.factory.getPair(tokenA, tokenB)
+    }
+    return this.pairAddresses[key]
+  }
+
+  private async lpBalance(pairAddress: string): Promise<BigNumber> {
+    if (this.lpBalances[pairAddress] === undefined) {
+      const pair = new Contract(pairAddress, IUniswapV2Pair.abi, this.factory.provider)
+      this.lpBalances[pairAddress] = await pair.balanceOf(this.pitBreeder.address)
+    }
+    return this.lpBalances[pairAddress]
+  }
+
+  private async pair(address: string): Promise<PairState> {
+    if (!this.pairs[address]) {
+      const provider = this.factory.provider
+      const pair = new Contract(address, IUniswapV2Pair.abi, provider)
+      const token0: string = await pair.token0()
+      const token1: string = await pair.token1()
+      const { reserve0, reserve1 } = await pair.getReserves()
+      this.pairs[address] = {
+        address,
+        token0,
+        token1,
+        reserve0,
+        reserve1,
+        balance0: await new Contract(token0, IERC20.abi, provider).balanceOf(address),
+        balance1: await new Contract(token1, IERC20.abi, provider).balanceOf(address),
+        totalSupply: await pair.totalSupply(),
+        liquidity: await pair.balanceOf(address),
+        kLast: await pair.kLast()
+      }
+    }
+    return this.pairs[address]
+  }
+}
+
+export function totalGovTokenOut(quotes: ConversionQuote[]): BigNumber {
+  return quotes.reduce((total: BigNumber, quote) => total.add(quote.govTokenOut), Zero)
+}
+
+// minGovTokenOut for convertWithMinimum: the quoted GovToken out less the tolerated slippage in basis points
+export function minimumGovTokenOut(quote: ConversionQuote, slippageBps: number): BigNumber {
+  if (slippageBps < 0 || slippageBps > 10000) {
+    throw new Error(`Invalid slippage: ${slippageBps}`)
+  }
+  return quote.govTokenOut.mul(10000 - slippageBps).div(10000)
+}
@@ -0,0 +1,361 @@
+import { Contract } from 'ethers'
+import { BigNumber, bigNumberify, BigNumberish } from 'ethers/utils'
+import { MaxUint256, Zero } from 'ethers/constants'
+
+import { PoolReward } from './types'
+import { MasterBreeder } from './contracts/MasterBreeder'
+import { GovernanceToken } from './contracts/GovernanceToken'
+
+import ERC20Artifact from '../build/ERC20.json'
+
+// Off-chain mirror of MasterBreeder's emission math (getMultiplier, getPoolReward & the minting done by updatePool)
+// Every function reproduces the contract's integer math step by step, so results match the chain bit-for-bit
+
+export interface EmissionScheduleConfig {
+  rewardPerBlock: BigNumberish
+  startBlock: BigNumberish
+  halvingAfterBlock: BigNumberish
+  rewardMultipliers: BigNumberish[]
+  percentForDev: BigNumberish
+  percentForLP: BigNumberish
+  percentForCom: BigNumberish
+  percentForFounders: BigNumberish
+}
+
+export interface EmissionSchedule {
+  rewardPerBlock: BigNumber
+  startBlock: BigNumber
+  rewardMultipliers: BigNumber[]
+  halvingAtBlocks: BigNumber[]
+  finishBonusAtBlock: BigNumber
+  percentForDev: BigNumber
+  percentForLP: BigNumber
+  percentForCom: BigNumber
+  percentForFounders: BigNumber
+}
+
+export interface EmissionPool {
+  allocPoint: BigNumber
+  lastRewardBlock: BigNumber
+  // updatePool only mints when the pool holds LP tokens
+  staked: boolean
+}
+
+export interface EmissionProjection {
+  fromBlock: number
+  toBlock: number
+  minted: BigNumber
+  totalSupply: BigNumber
+  total: PoolReward
+  pools: PoolReward[]
+}
+
+export function emptyPoolReward(): PoolReward {
+  return { forDev: Zero, forFarmer: Zero, forLP: Zero, forCom: Zero, forFounders: Zero }
+}
+
+export function addPoolRewards(a: PoolReward, b: PoolReward): PoolReward {
+  return {
+    forDev: a.forDev.add(b.forDev),
+    forFarmer: a.forFarmer.add(b.forFarmer),
+    forLP: a.forLP.add(b.forLP),
+    forCom: a.forCom.add(b.forCom),
+    forFounders: a.forFounders.add(b.forFounders)
+  }
+}
+
+// The amount of tokens minted for a pool reward - forFarmer is minted to MasterBreeder, the rest to the fund addresses
+export function poolRewardTotal(reward: PoolReward): BigNumber {
+  return reward.forFarmer
+    .add(reward.forDev)
+    .add(reward.forLP)
+    .add(reward.forCom)
+    .add(reward.forFounders)
+}
+
+// Mirrors the MasterBreeder constructor's HALVING_AT_BLOCK & FINISH_BONUS_AT_BLOCK calculations
+export function createEmissionSchedule(config: EmissionScheduleConfig): EmissionSchedule {
+  const startBlock = bigNumberify(config.startBlock)
+  const halvingAfterBlock = bigNumberify(config.halvingAfterBlock)
+  const rewardMultipliers = config.rewardMultipliers.map(multiplier => bigNumberify(multiplier))
+
+  const halvingAtBlocks: BigNumber[] = []
+  for (let i = 0; i < rewardMultipliers.length - 1; i++) {
+    halvingAtBlocks.push(
+      halvingAfterBlock
+        .mul(i + 1)
+        .add(startBlock)
+        .add(1)
+    )
+  }
+  halvingAtBlocks.push(MaxUint256)
+
+  return {
+    rewardPerBlock: bigNumberify(config.rewardPerBlock),
+    startBlock,
+    rewardMultipliers,
+    halvingAtBlocks,
+    finishBonusAtBlock: halvingAfterBlock.mul(rewardMultipliers.length - 1).add(startBlock),
+    percentForDev: bigNumberify(config.percentForDev),
+    percentForLP: bigNumberify(config.percentForLP),
+    percentForCom: bigNumberify(config.percentForCom),
+    percentForFounders: bigNumberify(config.percentForFounders)
+  }
+}
+
+// Reads the schedule of a deployed MasterBreeder
+// The contract doesn't expose the length of REWARD_MULTIPLIER / HALVING_AT_BLOCK, so the number of periods has to be supplied
+export async function fetchEmissionSchedule(breeder: MasterBreeder, periods: number): Promise<EmissionSchedule> {
+  const rewardMultipliers: BigNumber[] = []
+  const halvingAtBlocks: BigNumber[] = []
+  for (let i = 0; i < periods; i++) {
+    rewardMultipliers.push(await breeder.REWARD_MULTIPLIER(i))
+    halvingAtBlocks.push(await breeder.HALVING_AT_BLOCK(i))
+  }
+
+  return {
+    rewardPerBlock: await breeder.REWARD_PER_BLOCK(),
+    startBlock: await breeder.START_BLOCK(),
+    rewardMultipliers,
+    halvingAtBlocks,
+    finishBonusAtBlock: await breeder.FINISH_BONUS_AT_BLOCK(),
+    percentForDev: await breeder.PERCENT_FOR_DEV(),
+    percentForLP: await breeder.PERCENT_FOR_LP(),
+    percentForCom: await breeder.PERCENT_FOR_COM(),
+    percentForFounders: await breeder.PERCENT_FOR_FOUNDERS()
+  }
+}
+
+function sub(a: BigNumber, b: BigNumber, label: string): BigNumber {
+  if (a.lt(b)) {
+    throw new Error(`${label}: SafeMath: subtraction overflow`)
+  }
+  return a.sub(b)
+}
+
+// Mirrors MasterBreeder.getMultiplier
+export function getMultiplier(schedule: EmissionSchedule, from: BigNumberish, to: BigNumberish): BigNumber {
+  let _from = bigNumberify(from)
+  const _to = bigNumberify(to)
+  let result = Zero
+  if (_from.lt(schedule.startBlock)) return Zero
+
+  for (let i = 0; i < schedule.halvingAtBlocks.length; i++) {
+    const endBlock = schedule.halvingAtBlocks[i]
+    if (i > schedule.rewardMultipliers.length - 1) return Zero
+
+    if (_to.lte(endBlock)) {
+      const m = sub(_to, _from, 'getMultiplier').mul(schedule.rewardMultipliers[i])
+      return result.add(m)
+    }
+
+    if (_from.lt(endBlock)) {
+      const m = endBlock.sub(_from).mul(schedule.rewardMultipliers[i])
+      _from = endBlock
+      result = result.add(m)
+    }
+  }
+
+  return result
+}
+
+// Mirrors MasterBreeder.getPoolReward - cap & totalSupply are the GovernanceToken's values at the time of the call
+export function getPoolReward(
+  schedule: EmissionSchedule,
+  from: BigNumberish,
+  to: BigNumberish,
+  allocPoint: BigNumberish,
+  totalAllocPoint: BigNumberish,
+  cap: BigNumberish,
+  totalSupply: BigNumberish
+): PoolReward {
+  const multiplier = getMultiplier(schedule, from, to)
+  const totalAlloc = bigNumberify(totalAllocPoint)
+  if (totalAlloc.isZero()) {
+    throw new Error('getPoolReward: SafeMath: division by zero')
+  }
+  const amount = multiplier
+    .mul(schedule.rewardPerBlock)
+    .mul(allocPoint)
+    .div(totalAlloc)
+  const canMint = sub(bigNumberify(cap), bigNumberify(totalSupply), 'getPoolReward')
+
+  if (canMint.lt(amount)) {
+    return { forDev: Zero, forFarmer: canMint, forLP: Zero, forCom: Zero, forFounders: Zero }
+  }
+
+  return {
+    forDev: amount.mul(schedule.percentForDev).div(100),
+    forFarmer: amount,
+    forLP: amount.mul(schedule.percentForLP).div(100),
+    forCom: amount.mul(schedule.percentForCom).div(100),
+    forFounders: amount.mul(schedule.percentForFounders).div(100)
+  }
+}
+
+// Stateful replay of MasterBreeder's pool bookkeeping & the GovernanceToken supply it mints
+// Rewards depend on when pools are updated (every update floors the reward & moves lastRewardBlock), so actions have to be replayed in the same blocks as on-chain
+export class EmissionSimulator {
+  readonly schedule: EmissionSchedule
+  readonly pools: EmissionPool[] = []
+  cap: BigNumber
+  totalSupply: BigNumber
+  totalAllocPoint: BigNumber = Zero
+  // Accumulated rewards per pool, indexed by pid
+  readonly rewards: PoolReward[] = []
+
+  constructor(schedule: EmissionSchedule, cap: BigNumberish, totalSupply: BigNumberish = 0) {
+    this.schedule = schedule
+    this.cap = bigNumberify(cap)
+    this.totalSupply = bigNumberify(totalSupply)
+  }
+
+  static async fromChain(
+    breeder: MasterBreeder,
+    govToken: GovernanceToken,
+    periods: number
+  ): Promise<EmissionSimulator> {
+    const schedule = await fetchEmissionSchedule(breeder, periods)
+    const simulator = new EmissionSimulator(schedule, await govToken.cap(), await govToken.totalSupply())
+
+    const poolLength = await breeder.poolLength()
+    for (let pid = 0; pid < poolLength; pid++) {
+      const pool = await breeder.poolInfo(pid)
+      const lpSupply: BigNumber = await new Contract(pool.lpToken, ERC20Artifact.abi, breeder.provider).balanceOf(
+        breeder.address
+      )
+      simulator.pools.push({
+        allocPoint: pool.allocPoint,
+        lastRewardBlock: pool.lastRewardBlock,
+        staked: lpSupply.gt(0)
+      })
+      simulator.rewards.push(emptyPoolReward())
+      simulator.totalAllocPoint = simulator.totalAllocPoint.add(pool.allocPoint)
+    }
+
+    return simulator
+  }
+
+  // Mirrors MasterBreeder.add, executed in blockNumber. Returns the new pid
+  add(blockNumber: BigNumberish, allocPoint: BigNumberish, withUpdate: boolean = false): number {
+    if (withUpdate) {
+      this.massUpdatePools(blockNumber)
+    }
+    const block = bigNumberify(blockNumber)
+    this.totalAllocPoint = this.totalAllocPoint.add(allocPoint)
+    this.pools.push({
+      allocPoint: bigNumberify(allocPoint),
+      lastRewardBlock: block.gt(this.schedule.startBlock) ? block : this.schedule.startBlock,
+      staked: false
+    })
+    this.rewards.push(emptyPoolReward())
+    return this.pools.length - 1
+  }
+
+  // Mirrors MasterBreeder.set, executed in blockNumber
+  set(blockNumber: BigNumberish, pid: number, allocPoint: BigNumberish, withUpdate: boolean = false) {
+    if (withUpdate) {
+      this.massUpdatePools(blockNumber)
+    }
+    const pool = this.pool(pid)
+    this.totalAllocPoint = this.totalAllocPoint.sub(pool.allocPoint).add(allocPoint)
+    pool.allocPoint = bigNumberify(allocPoint)
+  }
+
+  // Marks whether a pool holds LP tokens. Deposits & withdrawals update the pool first, so call this after updatePool for the same block
+  setStaked(pid: number, staked: boolean) {
+    this.pool(pid).staked = staked
+  }
+
+  // Mirrors MasterBreeder.updatePool executed in blockNumber and returns the minted reward
+  updatePool(pid: number, blockNumber: BigNumberish): PoolReward {
+    const pool = this.pool(pid)
+    const block = bigNumberify(blockNumber)
+    if (block.lte(pool.lastRewardBlock)) {
+      return emptyPoolReward()
+    }
+    if (!pool.staked) {
+      pool.lastRewardBlock = block
+      return emptyPoolReward()
+    }
+
+    const reward = getPoolReward(
+      this.schedule,
+      pool.lastRewardBlock,
+      block,
+      pool.allocPoint,
+      this.totalAllocPoint,
+      this.cap,
+      this.totalSupply
+    )
+
+    // updatePool mints every share separately and GovernanceToken checks the cap on each mint,
+    // so the whole transaction reverts when the splits on top of forFarmer exceed the remaining cap
+    const minted = poolRewardTotal(reward)
+    if (this.totalSupply.add(minted).gt(this.cap)) {
+      throw new Error('updatePool: ERC20Capped: cap exceeded')
+    }
+
+    this.totalSupply = this.totalSupply.add(minted)
+    pool.lastRewardBlock = block
+    this.rewards[pid] = addPoolRewards(this.rewards[pid], reward)
+    return reward
+  }
+
+  // Mirrors MasterBreeder.massUpdatePools executed in blockNumber
+  massUpdatePools(blockNumber: BigNumberish): PoolReward {
+    let total = emptyPoolReward()
+    for (let pid = 0; pid < this.pools.length; pid++) {
+      total = addPoolRewards(total, this.updatePool(pid, blockNumber))
+    }
+    return total
+  }
+
+  // Projects emissions from fromBlock to toBlock by running massUpdatePools every `interval` blocks (and at toBlock)
+  // Pools keep their current staked state for the whole range and the simulator state is advanced to toBlock
+  project(fromBlock: number, toBlock: number, interval: number = toBlock - fromBlock): EmissionProjection {
+    if (toBlock < fromBlock) {
+      throw new Error('project: toBlock must be greater than or equal to fromBlock')
+    }
+    if (interval <= 0) {
+      interval = 1
+    }
+
+    const supplyBefore = this.totalSupply
+    const rewardsBefore = this.rewards.map(reward => reward)
+    this.massUpdatePools(fromBlock)
+
+    for (let block = fromBlock + interval; block < toBlock; block += interval) {
+      this.massUpdatePools(block)
+    }
+    this.massUpdatePools(toBlock)
+
+    const pools = this.rewards.map((reward, pid) => {
+      const before = rewardsBefore[pid] || emptyPoolReward()
+      return {
+        forDev: reward.forDev.sub(before.forDev),
+        forFarmer: reward.forFarmer.sub(before.forFarmer),
+        forLP: reward.forLP.sub(before.forLP),
+        forCom: reward.forCom.sub(before.forCom),
+        forFounders: reward.forFounders.sub(before.forFounders)
+      }
+    })
+
+    return {
+      fromBlock,
+      toBlock,
+      minted: this.totalSupply.sub(supplyBefore),
+      totalSupply: this.totalSupply,
+      total: pools.reduce(addPoolRewards, emptyPoolReward()),
+      pools
+    }
+  }
+
+  private pool(pid: number): EmissionPool {
+    const pool = this.pools[pid]
+    if (!pool) {
+      throw new Error(`Unknown pool: ${pid}`)
+    }
+    return pool
+  }
+}
@@ -0,0 +1,37 @@
+import { Interface } from 'ethers/utils'
+import { Log } from 'ethers/providers'
+
+export interface ParsedEvent<T> {
+  name: string
+  args: T
+  log: Log
+}
+
+// Decodes a single log using the given contract interface
+// Returns undefined when the log wasn't emitted by an event known to the interface
+export function decodeEvent<T>(iface: Interface, log: Log): ParsedEvent<T> | undefined {
+  const description = iface.parseLog(log)
+  if (!description) {
+    return undefined
+  }
+
+  const args: any = {}
+  iface.events[description.name].inputs.forEach((input, index) => {
+    args[input.name || index] = description.values[index]
+  })
+
+  return { name: description.name, args: args as T, log }
+}
+
+// Decodes every log named `name` that was emitted by `address`, e.g. all Deposit events in a transaction receipt
+export function decodeEvents<T>(iface: Interface, address: string, name: string, logs: Log[]): ParsedEvent<T>[] {
+  const event = iface.events[name]
+  if (event === undefined) {
+    throw new Error(`Unknown event: ${name}`)
+  }
+
+  return logs
+    .filter(log => log.address && log.address.toLowerCase() === address.toLowerCase())
+    .filter(log => log.topics.length > 0 && log.topics[0] === event.topic)
+    .map(log => decodeEvent<T>(iface, log) as ParsedEvent<T>)
+}
@@ -0,0 +1,168 @@
+import { BigNumber, bigNumberify, BigNumberish } from 'ethers/utils'
+
+import { FeeRecipient, FeeTier, UserInfo } from './types'
+import { MasterBreeder } from './contracts/MasterBreeder'
+
+// Off-chain mirror of the tiered LP withdrawal fees in MasterBreeder.withdraw & emergencyWithdraw
+
+// userBps & devBps of every tier add up to FEE_BPS
+export const FEE_BPS = 10000
+export const MAX_FEE_TIERS = 16
+
+const UINT256_MODULUS = bigNumberify(2).pow(256)
+
+export type WithdrawalUserInfo = Pick<UserInfo, 'firstDepositBlock' | 'lastWithdrawBlock' | 'lastDepositBlock'>
+
+export interface WithdrawalFee {
+  // Index of the fee tier the withdrawal pays
+  tier: number
+  blockDelta: BigNumber
+  toUser: BigNumber
+  // The whole fee, devaddr only keeps part of it when fee recipients are set - see distributeFee
+  toDev: BigNumber
+}
+
+export interface FeeDistribution {
+  shares: { recipient: string; amount: BigNumber }[]
+  toDev: BigNumber
+}
+
+export async function fetchFeeRecipients(breeder: MasterBreeder): Promise<FeeRecipient[]> {
+  const recipients: FeeRecipient[] = []
+  const count = await breeder.feeRecipientCount()
+  for (let i = 0; i < count; i++) {
+    recipients.push(await breeder.feeRecipients(i))
+  }
+  return recipients
+}
+
+export async function fetchFeeTiers(breeder: MasterBreeder): Promise<FeeTier[]> {
+  const tiers: FeeTier[] = []
+  const count = await breeder.feeTierCount()
+  for (let i = 0; i < count; i++) {
+    tiers.push(await breeder.feeTiers(i))
+  }
+  return tiers
+}
+
+// Builds tiers from the same parallel arrays MasterBreeder's constructor & setFeeTiers take
+export function createFeeTiers(
+  minBlockDeltas: BigNumberish[],
+  userBps: BigNumberish[],
+  devBps: BigNumberish[]
+): FeeTier[] {
+  return minBlockDeltas.map((minBlockDelta, i) => ({
+    minBlockDelta: bigNumberify(minBlockDelta),
+    userBps: bigNumberify(userBps[i]),
+    devBps: bigNumberify(devBps[i])
+  }))
+}
+
+// Returns the reasons MasterBreeder would reject the tiers, empty when setFeeTiers accepts them
+export function validateFeeTiers(tiers: FeeTier[]): string[] {
+  const errors: string[] = []
+  if (tiers.length === 0 || tiers.length > MAX_FEE_TIERS) {
+    errors.push(`needs 1 to ${MAX_FEE_TIERS} fee tiers, got ${tiers.length}`)
+  }
+  if (tiers.length > 0 && !tiers[0].minBlockDelta.eq(0)) {
+    errors.push('the first fee tier has to start at block delta 0')
+  }
+  tiers.forEach((tier, i) => {
+    if (i > 0 && tier.minBlockDelta.lte(tiers[i - 1].minBlockDelta)) {
+      errors.push(`fee tier ${i} doesn't start after fee tier ${i - 1}`)
+    }
+    if (!tier.userBps.add(tier.devBps).eq(FEE_BPS)) {
+      errors.push(`fee tier ${i} pays out ${tier.userBps.add(tier.devBps)} of ${FEE_BPS} bps`)
+    }
+  })
+  return errors
+}
+
+// Mirrors user.blockdelta in MasterBreeder.withdraw - the subtraction is unchecked, so it wraps like uint256 does
+export function withdrawalBlockDelta(user: WithdrawalUserInfo, blockNumber: BigNumberish): BigNumber {
+  const from = user.lastWithdrawBlock.gt(0) ? user.lastWithdrawBlock : user.firstDepositBlock
+  const delta = bigNumberify(blockNumber).sub(from)
+  return delta.lt(0) ? delta.add(UINT256_MODULUS) : delta
+}
+
+// Mirrors MasterBreeder.feeTierOf, except that withdrawals in the deposit block always pay the first tier
+export function getFeeTier(tiers: FeeTier[], blockDelta: BigNumberish, sameBlockAsDeposit: boolean): number {
+  if (sameBlockAsDeposit) {
+    return 0
+  }
+  const delta = bigNumberify(blockDelta)
+  let tier = 0
+  while (tier + 1 < tiers.length && tiers[tier + 1].minBlockDelta.lte(delta)) {
+    tier++
+  }
+  return tier
+}
+
+function splitWithdrawal(
+  tiers: FeeTier[],
+  tier: number,
+  amount: BigNumberish
+): Pick<WithdrawalFee, 'toUser' | 'toDev'> {
+  const _amount = bigNumberify(amount)
+  // The user gets the rounding remainder, so that toUser + toDev is always the withdrawn amount
+  const toDev = _amount.mul(tiers[tier].devBps).div(FEE_BPS)
+  return { toUser: _amount.sub(toDev), toDev }
+}
+
+// Calculates the LP tokens sent to the user & devaddr by MasterBreeder.withdraw(amount) mined in blockNumber
+export function calculateWithdrawalFee(
+  tiers: FeeTier[],
+  user: WithdrawalUserInfo,
+  amount: BigNumberish,
+  blockNumber: BigNumberish
+): WithdrawalFee {
+  const blockDelta = withdrawalBlockDelta(user, blockNumber)
+  const tier = getFeeTier(tiers, blockDelta, user.lastDepositBlock.eq(blockNumber))
+  return { tier, blockDelta, ...splitWithdrawal(tiers, tier, amount) }
+}
+
+// Calculates the LP tokens sent to the user & devaddr by MasterBreeder.emergencyWithdraw, which pays the first tier
+export function calculateEmergencyWithdrawalFee(
+  tiers: FeeTier[],
+  amount: BigNumberish
+): Pick<WithdrawalFee, 'toUser' | 'toDev'> {
+  return splitWithdrawal(tiers, 0, amount)
+}
+
+// Mirrors how MasterBreeder splits a withdrawal or deposit fee, every recipient gets its bps of the fee & devaddr the rest.
+// The shares of a withdrawal fee are sent to the recipients, the dev's remainder of a deposit fee is staked for devaddr.
+export function distributeFee(recipients: FeeRecipient[], fee: BigNumberish): FeeDistribution {
+  const _fee = bigNumberify(fee)
+  const shares = recipients
+    .map(({ recipient, bps }) => ({ recipient, amount: _fee.mul(bps).div(FEE_BPS) }))
+    .filter(share => share.amount.gt(0))
+  return { shares, toDev: shares.reduce((rest, share) => rest.sub(share.amount), _fee) }
+}
+
+// Returns the first block after blockNumber in which a withdrawal pays the user a larger share than in blockNumber,
+// or undefined when withdrawing won't get any cheaper without another deposit or withdrawal
+export function nextFeeDropBlock(
+  tiers: FeeTier[],
+  user: WithdrawalUserInfo,
+  blockNumber: BigNumberish
+): BigNumber | undefined {
+  const block = bigNumberify(blockNumber)
+  const from = user.lastWithdrawBlock.gt(0) ? user.lastWithdrawBlock : user.firstDepositBlock
+  const current = getFeeTier(tiers, withdrawalBlockDelta(user, block), user.lastDepositBlock.eq(block))
+
+  // The tier can only change where a tier starts, where the block delta wraps around & around the deposit block
+  const candidates = tiers
+    .map(tier => from.add(tier.minBlockDelta))
+    .concat([from, user.lastDepositBlock, user.lastDepositBlock.add(1)])
+    .filter(candidate => candidate.gt(block))
+    .sort((a, b) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0))
+
+  for (const candidate of candidates) {
+    const tier = getFeeTier(tiers, withdrawalBlockDelta(user, candidate), user.lastDepositBlock.eq(candidate))
+    if (tiers[tier].userBps.gt(tiers[current].userBps)) {
+      return candidate
+    }
+  }
+
+  return undefined
+}
@@ -0,0 +1,22 @@
+export * from './types'
+export * from './events'
+export * from './emissions'
+export * from './fees'
+export * from './vesting'
+export * from './proposals'
+export * from './conversions'
+export * from './roles'
+export * from './linking'
+
+export { BaseContract, SignerOrProvider } from './contracts/BaseContract'
+export { ERC20Contract } from './contracts/ERC20Contract'
+export { MasterBreeder } from './contracts/MasterBreeder'
+export { MasterBreederLens } from './contracts/MasterBreederLens'
+export { GovernanceToken } from './contracts/GovernanceToken'
+export { Pit } from './contracts/Pit'
+export { PitBreeder } from './contracts/PitBreeder'
+export { BreederVault } from './contracts/BreederVault'
+export { Zapper } from './contracts/Zapper'
+export { GovernanceVote } from './contracts/GovernanceVote'
+export { Timelock } from './contracts/Timelock'
+export { GovernorAlpha } from './contracts/GovernorAlpha'
@@ -0,0 +1,30 @@
+import FeeScheduleArtifact from '../build/FeeSchedule.json'
+import RewardScheduleArtifact from '../build/RewardSchedule.json'
+import ReferralsArtifact from '../build/Referrals.json'
+
+// build/MasterBreeder.json can't be deployed as is: MasterBreeder is linked against these libraries, which keep it
+// below the contract size limit. Deploy them first (in any order, they have no constructor arguments) & deploy the
+// artifact returned by linkLibraries(MasterBreederArtifact, { FeeSchedule: '0x...', ... })
+export const MASTER_BREEDER_LIBRARIES: { [name: string]: any } = {
+  FeeSchedule: FeeScheduleArtifact,
+  RewardSchedule: RewardScheduleArtifact,
+  Referrals: ReferralsArtifact
+}
+
+// Fills the addresses of the libraries an artifact is linked against, by library name, into a copy of the artifact
+export function linkLibraries(artifact: any, libraries: { [name: string]: string }): any {
+  let bytecode: string = artifact.evm.bytecode.object
+  const references = artifact.evm.bytecode.linkReferences || {}
+  for (const file of Object.keys(references)) {
+    for (const name of Object.keys(references[file])) {
+      const address = libraries[name]
+      if (!address) {
+        throw new Error(`Missing address of library ${name}`)
+      }
+      for (const { start, length } of references[file][name]) {
+        bytecode = bytecode.slice(0, start * 2) + address.slice(2).toLowerCase() + bytecode.slice((start + length) * 2)
+      }
+    }
+  }
+  return { ...artifact, bytecode, evm: { ...artifact.evm, bytecode: { ...artifact.evm.bytecode, object: bytecode } } }
+}
@@ -0,0 +1,288 @@
+import { ContractTransaction } from 'ethers/contract'
+import { TransactionRequest } from 'ethers/providers'
+import { BigNumber, bigNumberify, BigNumberish, defaultAbiCoder, Interface, keccak256 } from 'ethers/utils'
+
+import { decodeEvent } from './events'
+import { FeeRecipientInput, FeeTierInput, ProposalActions, TimelockTransactionEvent } from './types'
+import { Timelock } from './contracts/Timelock'
+
+// Builds Timelock queue/execute/cancel calls & GovernorAlpha proposals from typed actions on MasterBreeder, the Timelock
+// & the governor itself
+
+// Actions on MasterBreeder, the Timelock has to own it since the owner implicitly holds every role
+export type MasterBreederAction =
+  | { type: 'addPool'; allocPoint: BigNumberish; lpToken: string; withUpdate?: boolean }
+  | { type: 'setAllocPoint'; pid: BigNumberish; allocPoint: BigNumberish; withUpdate?: boolean }
+  | { type: 'rewardUpdate'; rewardPerBlock: BigNumberish }
+  | { type: 'rewardMulUpdate'; multipliers: BigNumberish[] }
+  | { type: 'halvingUpdate'; halvingAtBlocks: BigNumberish[] }
+  | { type: 'starblockUpdate'; startBlock: BigNumberish }
+  | { type: 'bonusFinishUpdate'; finishBonusAtBlock: BigNumberish }
+  | { type: 'lockUpdate'; percent: BigNumberish }
+  | { type: 'lockdevUpdate'; percent: BigNumberish }
+  | { type: 'locklpUpdate'; percent: BigNumberish }
+  | { type: 'lockcomUpdate'; percent: BigNumberish }
+  | { type: 'lockfounderUpdate'; percent: BigNumberish }
+  | { type: 'setReferralBps'; referralBps: BigNumberish }
+  | { type: 'setFeeTiers'; tiers: FeeTierInput[] }
+  | { type: 'setFeeRecipients'; recipients: FeeRecipientInput[] }
+  | { type: 'setUserDepFee'; fee: BigNumberish }
+  | { type: 'setDevDepFee'; fee: BigNumberish }
+
+// Actions on the Timelock itself, which only accepts them from its own executeTransaction
+export type TimelockAction =
+  | { type: 'setDelay'; delay: BigNumberish }
+  | { type: 'setPendingAdmin'; pendingAdmin: string }
+
+// Actions on GovernorAlpha, which only accepts them from the Timelock
+export type GovernorAction =
+  | { type: 'setVotingPower'; votingPower: string }
+  | { type: 'setQuorumVotes'; quorumVotes: BigNumberish }
+  | { type: 'setProposalThreshold'; proposalThreshold: BigNumberish }
+
+export type ProposalAction = MasterBreederAction | TimelockAction | GovernorAction
+
+export interface ProposalTargets {
+  breeder?: { address: string; interface: Interface }
+  governor?: { address: string; interface: Interface }
+}
+
+export interface TimelockCall {
+  target: string
+  value: BigNumber
+  signature: string
+  data: string
+  eta: BigNumber
+  // keccak256(abi.encode(target, value, signature, data, eta)), the key of Timelock.queuedTransactions
+  txHash: string
+}
+
+export type ProposalCallState = 'pending' | 'queued' | 'ready' | 'stale' | 'executed' | 'cancelled'
+
+// Function name & arguments of the MasterBreeder function behind an action
+function breederCall(action: MasterBreederAction): [string, any[]] {
+  switch (action.type) {
+    case 'addPool':
+      return ['add', [action.allocPoint, action.lpToken, action.withUpdate !== false]]
+    case 'setAllocPoint':
+      return ['set', [action.pid, action.allocPoint, action.withUpdate !== false]]
+    case 'rewardUpdate':
+      return ['rewardUpdate', [action.rewardPerBlock]]
+    case 'rewardMulUpdate':
+      return ['rewardMulUpdate', [action.multipliers]]
+    case 'halvingUpdate':
+      return ['halvingUpdate', [action.halvingAtBlocks]]
+    case 'starblockUpdate':
+      return ['starblockUpdate', [action.startBlock]]
+    case 'bonusFinishUpdate':
+      return ['bonusFinishUpdate', [action.finishBonusAtBlock]]
+    case 'lockUpdate':
+    case 'lockdevUpdate':
+    case 'locklpUpdate':
+    case 'lockcomUpdate':
+    case 'lockfounderUpdate':
+      return [action.type, [action.percent]]
+    case 'setReferralBps':
+      return ['setReferralBps', [action.referralBps]]
+    case 'setFeeTiers':
+      return [
+        'setFeeTiers',
+        [
+          action.tiers.map(tier => tier.minBlockDelta),
+          action.tiers.map(tier => tier.userBps),
+          action.tiers.map(tier => tier.devBps)
+        ]
+      ]
+    case 'setFeeRecipients':
+      return [
+        'setFeeRecipients',
+        [action.recipients.map(recipient => recipient.recipient), action.recipients.map(recipient => recipient.bps)]
+      ]
+    case 'setUserDepFee':
+    case 'setDevDepFee':
+      return [action.type, [action.fee]]
+  }
+}
+
+export function timelockTxHash(
+  target: string,
+  value: BigNumberish,
+  signature: string,
+  data: string,
+  eta: BigNumberish
+): string {
+  return keccak256(
+    defaultAbiCoder.encode(['address', 'uint256', 'string', 'bytes', 'uint256'], [target, value, signature, data, eta])
+  )
+}
+
+// Encodes a call the way executeTransaction rebuilds it: the selector of `signature` followed by `data`
+export function encodeTimelockCall(
+  target: string,
+  iface: Interface,
+  name: string,
+  args: any[],
+  eta: BigNumberish,
+  value: BigNumberish = 0
+): TimelockCall {
+  const fn = iface.functions[name]
+  if (fn === undefined) {
+    throw new Error(`Unknown function: ${name}`)
+  }
+  const data = '0x' + fn.encode(args).slice(10)
+  return {
+    target,
+    value: bigNumberify(value),
+    signature: fn.signature,
+    data,
+    eta: bigNumberify(eta),
+    txHash: timelockTxHash(target, value, fn.signature, data, eta)
+  }
+}
+
+function encodeAction(
+  timelock: Timelock,
+  action: ProposalAction,
+  eta: BigNumberish,
+  targets: ProposalTargets
+): TimelockCall {
+  switch (action.type) {
+    case 'setDelay':
+      return encodeTimelockCall(timelock.address, timelock.interface, 'setDelay', [action.delay], eta)
+    case 'setPendingAdmin':
+      return encodeTimelockCall(timelock.address, timelock.interface, 'setPendingAdmin', [action.pendingAdmin], eta)
+    case 'setVotingPower':
+    case 'setQuorumVotes':
+    case 'setProposalThreshold': {
+      if (!targets.governor) {
+        throw new Error(`TimelockProposal: ${action.type} requires a GovernorAlpha target`)
+      }
+      const args =
+        action.type === 'setVotingPower'
+          ? [action.votingPower]
+          : action.type === 'setQuorumVotes'
+          ? [action.quorumVotes]
+          : [action.proposalThreshold]
+      return encodeTimelockCall(targets.governor.address, targets.governor.interface, action.type, args, eta)
+    }
+    default: {
+      if (!targets.breeder) {
+        throw new Error(`TimelockProposal: ${action.type} requires a MasterBreeder target`)
+      }
+      const [name, args] = breederCall(action)
+      return encodeTimelockCall(targets.breeder.address, targets.breeder.interface, name, args, eta)
+    }
+  }
+}
+
+// Arguments of GovernorAlpha.propose, the governor queues the calls with an ETA once the vote succeeded
+export function governorProposalActions(
+  timelock: Timelock,
+  actions: ProposalAction[],
+  targets: ProposalTargets = {}
+): ProposalActions {
+  const calls = actions.map(action => encodeAction(timelock, action, 0, targets))
+  return {
+    targets: calls.map(call => call.target),
+    values: calls.map(call => call.value),
+    signatures: calls.map(call => call.signature),
+    calldatas: calls.map(call => call.data)
+  }
+}
+
+// Earliest ETA queueTransaction accepts when mined after the latest block, plus a margin for the time it takes to get mined
+export async function earliestEta(timelock: Timelock, margin: number = 600): Promise<BigNumber> {
+  const latest = await timelock.provider.getBlock('latest')
+  return (await timelock.delay()).add(latest.timestamp).add(margin)
+}
+
+export class TimelockProposal {
+  readonly calls: TimelockCall[]
+
+  constructor(
+    readonly timelock: Timelock,
+    actions: ProposalAction[],
+    readonly eta: BigNumber,
+    targets: ProposalTargets = {}
+  ) {
+    this.calls = actions.map(action => encodeAction(timelock, action, eta, targets))
+
+    const hashes = this.calls.map(call => call.txHash)
+    if (hashes.some((hash, index) => hashes.indexOf(hash) !== index)) {
+      throw new Error('TimelockProposal: duplicate calls share the same txHash')
+    }
+  }
+
+  // Transactions are sent one after another, every call of a proposal needs its own transaction
+  async queue(overrides: TransactionRequest = {}): Promise<ContractTransaction[]> {
+    return this.send(
+      (call, o) => this.timelock.queueTransaction(call.target, call.value, call.signature, call.data, call.eta, o),
+      overrides
+    )
+  }
+
+  async execute(overrides: TransactionRequest = {}): Promise<ContractTransaction[]> {
+    return this.send(
+      (call, o) => this.timelock.executeTransaction(call.target, call.value, call.signature, call.data, call.eta, o),
+      overrides
+    )
+  }
+
+  async cancel(overrides: TransactionRequest = {}): Promise<ContractTransaction[]> {
+    return this.send(
+      (call, o) => this.timelock.cancelTransaction(call.target, call.value, call.signature, call.data, call.eta, o),
+      overrides
+    )
+  }
+
+  // State of every call, derived from the Timelock's events since the same txHash can be queued again after a cancel
+  async states(): Promise<ProposalCallState[]> {
+    const latest = await this.timelock.provider.getBlock('latest')
+    const gracePeriod = await this.timelock.GRACE_PERIOD()
+    const topics = ['QueueTransaction', 'ExecuteTransaction', 'CancelTransaction'].map(
+      name => this.timelock.interface.events[name].topic
+    )
+
+    const states: ProposalCallState[] = []
+    for (const call of this.calls) {
+      const logs = await this.timelock.provider.getLogs({
+        address: this.timelock.address,
+        fromBlock: 0,
+        toBlock: 'latest',
+        topics: [topics, call.txHash]
+      })
+      const last =
+        logs.length > 0
+          ? decodeEvent<TimelockTransactionEvent>(this.timelock.interface, logs[logs.length - 1])
+          : undefined
+
+      if (!last) {
+        states.push('pending')
+      } else if (last.name === 'ExecuteTransaction') {
+        states.push('executed')
+      } else if (last.name === 'CancelTransaction') {
+        states.push('cancelled')
+      } else if (call.eta.gt(latest.timestamp)) {
+        states.push('queued')
+      } else if (call.eta.add(gracePeriod).lt(latest.timestamp)) {
+        states.push('stale')
+      } else {
+        states.push('ready')
+      }
+    }
+    return states
+  }
+
+  private async send(
+    fn: (call: TimelockCall, overrides: TransactionRequest) => Promise<ContractTransaction>,
+    overrides: TransactionRequest
+  ): Promise<ContractTransaction[]> {
+    const txs: ContractTransaction[] = []
+    for (const call of this.calls) {
+      const tx = await fn(call, overrides)
+      await tx.wait()
+      txs.push(tx)
+    }
+    return txs
+  }
+}
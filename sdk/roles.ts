@@ -0,0 +1,22 @@
+import { id } from 'ethers/utils'
+
+// Roles of Authorizable, the owner of a contract implicitly holds all of them
+
+export type Role = 'feeManager' | 'emissionsManager' | 'poolManager' | 'treasuryManager'
+
+// Role ids as stored on-chain, i.e. keccak256 of the Solidity constant's name
+export const ROLES: Record<Role, string> = {
+  feeManager: id('FEE_MANAGER_ROLE'),
+  emissionsManager: id('EMISSIONS_MANAGER_ROLE'),
+  poolManager: id('POOL_MANAGER_ROLE'),
+  treasuryManager: id('TREASURY_MANAGER_ROLE')
+}
+
+// Roles guarding at least one function of each contract, GovernanceToken has no fees or pools
+export const MASTER_BREEDER_ROLES: Role[] = ['feeManager', 'emissionsManager', 'poolManager', 'treasuryManager']
+export const GOVERNANCE_TOKEN_ROLES: Role[] = ['emissionsManager', 'treasuryManager']
+
+// Reverse lookup for RoleGranted & RoleRevoked events, undefined for ids that aren't a known role
+export function roleName(roleId: string): Role | undefined {
+  return (Object.keys(ROLES) as Role[]).find(role => ROLES[role] === roleId.toLowerCase())
+}
@@ -0,0 +1,524 @@
+import { BigNumber, BigNumberish } from 'ethers/utils'
+
+// MasterBreeder structs
+
+export interface UserInfo {
+  amount: BigNumber
+  rewardDebt: BigNumber
+  rewardDebtAtBlock: BigNumber
+  lastWithdrawBlock: BigNumber
+  firstDepositBlock: BigNumber
+  blockdelta: BigNumber
+  lastDepositBlock: BigNumber
+}
+
+// The public getter for UserGlobalInfo skips the nested referrals mapping - use getRefValueOf for those values
+export interface UserGlobalInfo {
+  globalAmount: BigNumber
+  totalReferals: BigNumber
+  globalRefAmount: BigNumber
+  // AddressZero unless the user's first deposit named a referrer
+  referrer: string
+  hasDeposited: boolean
+  // Accrued from the referees' harvests, minted by claimReferralReward
+  referralReward: BigNumber
+}
+
+export interface PoolInfo {
+  lpToken: string
+  allocPoint: BigNumber
+  lastRewardBlock: BigNumber
+  accGovTokenPerShare: BigNumber
+}
+
+// A withdrawal fee tier, userBps & devBps are shares of the withdrawn LP tokens in basis points that add up to 10000
+export interface FeeTier {
+  minBlockDelta: BigNumber
+  userBps: BigNumber
+  devBps: BigNumber
+}
+
+export type FeeTierInput = { [K in keyof FeeTier]: BigNumberish }
+
+// bps is the recipient's share of every withdrawal & deposit fee, devaddr keeps the rest
+export interface FeeRecipient {
+  recipient: string
+  bps: BigNumber
+}
+
+export type FeeRecipientInput = { recipient: string; bps: BigNumberish }
+
+export interface PoolReward {
+  forDev: BigNumber
+  forFarmer: BigNumber
+  forLP: BigNumber
+  forCom: BigNumber
+  forFounders: BigNumber
+}
+
+// MasterBreederLens structs
+
+// A pool with a user's position in it, totalStaked is the pool's TVL in LP tokens & lpBalance the user's unstaked LP tokens
+export interface PoolPosition {
+  pid: number
+  lpToken: string
+  allocPoint: BigNumber
+  totalStaked: BigNumber
+  staked: BigNumber
+  lpBalance: BigNumber
+  pendingReward: BigNumber
+  blockDelta: BigNumber
+  // The withdrawal fee tier of a withdrawal in blockNumber
+  feeTier: number
+}
+
+export interface GovTokenLocks {
+  balance: BigNumber
+  lockOf: BigNumber
+  canUnlockAmount: BigNumber
+}
+
+export interface Dashboard {
+  blockNumber: number
+  totalAllocPoint: BigNumber
+  pools: PoolPosition[]
+  govToken: GovTokenLocks
+}
+
+// GovernanceVote structs
+
+export interface VotingPool {
+  pid: BigNumber
+  lpPair: string
+  govTokenReservePosition: number
+}
+
+// Cumulative price of a pool's pair the next rate averages from, timestamp is 0 before the first observation
+export interface RateObservation {
+  priceCumulative: BigNumber
+  timestamp: number
+}
+
+// Weighted voting power per component, balanceOf/totalSupply are the sums
+export interface VotingPowerBreakdown {
+  lp: BigNumber
+  pitPower: BigNumber
+  locked: BigNumber
+  unlocked: BigNumber
+}
+
+// GovernorAlpha structs
+
+export type ProposalState =
+  | 'pending'
+  | 'active'
+  | 'canceled'
+  | 'defeated'
+  | 'succeeded'
+  | 'queued'
+  | 'expired'
+  | 'executed'
+
+// The public getter for proposals skips the actions - use getActions for those
+export interface Proposal {
+  id: BigNumber
+  proposer: string
+  eta: BigNumber
+  startBlock: BigNumber
+  endBlock: BigNumber
+  forVotes: BigNumber
+  againstVotes: BigNumber
+  canceled: boolean
+  executed: boolean
+  // GovernorAlpha's quorumVotes & votingPower when the proposal was created, which the proposal is decided with
+  quorumVotes: BigNumber
+  votingPower: string
+}
+
+// Calls of a proposal, in the order GovernorAlpha.propose takes them
+export interface ProposalActions {
+  targets: string[]
+  values: BigNumber[]
+  signatures: string[]
+  calldatas: string[]
+}
+
+export interface Receipt {
+  hasVoted: boolean
+  support: boolean
+  votes: BigNumber
+}
+
+// GovernanceToken structs
+
+export interface Checkpoint {
+  fromBlock: number
+  votes: BigNumber
+}
+
+// EIP-2612 permits, e.g. of UniswapV2Pair LP tokens
+
+export interface PermitSignature {
+  v: number
+  r: string
+  s: string
+}
+
+// Events
+
+export interface OwnershipTransferredEvent {
+  previousOwner: string
+  newOwner: string
+}
+
+export interface RoleGrantedEvent {
+  role: string // role id, see roleName
+  account: string
+  sender: string
+}
+
+export interface RoleRevokedEvent {
+  role: string
+  account: string
+  sender: string
+}
+
+export interface TransferEvent {
+  from: string
+  to: string
+  value: BigNumber
+}
+
+export interface ApprovalEvent {
+  owner: string
+  spender: string
+  value: BigNumber
+}
+
+export interface DepositEvent {
+  user: string
+  pid: BigNumber
+  amount: BigNumber
+}
+
+export interface WithdrawEvent {
+  user: string
+  pid: BigNumber
+  amount: BigNumber
+}
+
+export interface EmergencyWithdrawEvent {
+  user: string
+  pid: BigNumber
+  amount: BigNumber
+}
+
+export interface SendGovernanceTokenRewardEvent {
+  user: string
+  pid: BigNumber
+  amount: BigNumber
+  lockAmount: BigNumber
+}
+
+// parameter is the name of the updated MasterBreeder state variable, values has a single entry for scalar parameters
+// and flattened (minBlockDelta, userBps, devBps) triples for feeTiers
+export interface ParameterUpdatedEvent {
+  parameter: string
+  values: BigNumber[]
+}
+
+// parameter is the name of the updated fund address: devaddr, liquidityaddr, comfundaddr or founderaddr
+export interface AddressUpdatedEvent {
+  parameter: string
+  value: string
+}
+
+// parameter is the revised UserInfo field, lastWithdrawBlock or firstDepositBlock
+export interface UserBlockRevisedEvent {
+  pid: BigNumber
+  user: string
+  parameter: string
+  blockNumber: BigNumber
+}
+
+export interface FeeRecipientsUpdatedEvent {
+  recipients: string[]
+  bps: BigNumber[]
+}
+
+export interface FeeDistributedEvent {
+  recipient: string
+  pid: BigNumber
+  amount: BigNumber
+}
+
+export interface ReferrerBoundEvent {
+  user: string
+  referrer: string
+}
+
+export interface ReferralRewardAccruedEvent {
+  referrer: string
+  user: string
+  amount: BigNumber
+}
+
+export interface ReferralRewardClaimedEvent {
+  referrer: string
+  amount: BigNumber
+  lockAmount: BigNumber
+}
+
+export interface OperatorSetEvent {
+  user: string
+  operator: string
+  approved: boolean
+}
+
+export interface LockEvent {
+  to: string
+  value: BigNumber
+}
+
+export interface LockTransferEvent {
+  from: string
+  to: string
+  value: BigNumber
+}
+
+export interface DelegateChangedEvent {
+  delegator: string
+  fromDelegate: string
+  toDelegate: string
+}
+
+export interface DelegateVotesChangedEvent {
+  delegate: string
+  previousBalance: BigNumber
+  newBalance: BigNumber
+}
+
+export interface LogBridgeSetEvent {
+  token: string
+  bridge: string
+}
+
+export interface LogConvertEvent {
+  server: string
+  token0: string
+  token1: string
+  amount0: BigNumber
+  amount1: BigNumber
+  amountGovToken: BigNumber
+}
+
+export interface PoolAddedEvent {
+  pid: BigNumber
+  lpPair: string
+}
+
+export interface PoolRemovedEvent {
+  pid: BigNumber
+  lpPair: string
+}
+
+export interface WeightsUpdatedEvent {
+  lpWeight: BigNumber
+  pitWeight: BigNumber
+  lockedWeight: BigNumber
+  unlockedWeight: BigNumber
+}
+
+export interface NewAdminEvent {
+  newAdmin: string
+}
+
+export interface NewPendingAdminEvent {
+  newPendingAdmin: string
+}
+
+export interface NewDelayEvent {
+  newDelay: BigNumber
+}
+
+export interface TimelockTransactionEvent {
+  txHash: string
+  target: string
+  value: BigNumber
+  signature: string
+  data: string
+  eta: BigNumber
+}
+
+export interface ProposalCreatedEvent {
+  id: BigNumber
+  proposer: string
+  targets: string[]
+  values: BigNumber[]
+  signatures: string[]
+  calldatas: string[]
+  startBlock: BigNumber
+  endBlock: BigNumber
+  description: string
+}
+
+export interface VoteCastEvent {
+  voter: string
+  proposalId: BigNumber
+  support: boolean
+  votes: BigNumber
+}
+
+export interface ProposalCanceledEvent {
+  id: BigNumber
+}
+
+export interface ProposalQueuedEvent {
+  id: BigNumber
+  eta: BigNumber
+}
+
+export interface ProposalExecutedEvent {
+  id: BigNumber
+}
+
+export interface NewVotingPowerEvent {
+  votingPower: string
+}
+
+export interface NewQuorumVotesEvent {
+  quorumVotes: BigNumber
+}
+
+export interface NewProposalThresholdEvent {
+  proposalThreshold: BigNumber
+}
+
+// amount is the LP tokens the user sent, shares are minted for what's left of them after the deposit fee
+export interface DepositedEvent {
+  user: string
+  amount: BigNumber
+  shares: BigNumber
+}
+
+// amount is the LP tokens the user received, after the withdrawal fee
+export interface WithdrawnEvent {
+  user: string
+  amount: BigNumber
+  shares: BigNumber
+}
+
+export interface HarvestEvent {
+  caller: string
+  rewards: BigNumber
+  liquidity: BigNumber
+}
+
+export interface KeeperSetEvent {
+  keeper: string
+  approved: boolean
+}
+
+// amountIn is the token the user sent, liquidity the LP tokens deposited for them before the deposit fee
+export interface ZapInEvent {
+  user: string
+  pid: BigNumber
+  tokenIn: string
+  amountIn: BigNumber
+  liquidity: BigNumber
+}
+
+export interface ZapOutEvent {
+  user: string
+  pid: BigNumber
+  tokenOut: string
+  liquidity: BigNumber
+  amountOut: BigNumber
+}
+
+export interface MasterBreederEvents {
+  OwnershipTransferred: OwnershipTransferredEvent
+  RoleGranted: RoleGrantedEvent
+  RoleRevoked: RoleRevokedEvent
+  Deposit: DepositEvent
+  Withdraw: WithdrawEvent
+  EmergencyWithdraw: EmergencyWithdrawEvent
+  SendGovernanceTokenReward: SendGovernanceTokenRewardEvent
+  ParameterUpdated: ParameterUpdatedEvent
+  AddressUpdated: AddressUpdatedEvent
+  UserBlockRevised: UserBlockRevisedEvent
+  FeeRecipientsUpdated: FeeRecipientsUpdatedEvent
+  FeeDistributed: FeeDistributedEvent
+  ReferrerBound: ReferrerBoundEvent
+  ReferralRewardAccrued: ReferralRewardAccruedEvent
+  ReferralRewardClaimed: ReferralRewardClaimedEvent
+  OperatorSet: OperatorSetEvent
+}
+
+export interface GovernanceTokenEvents {
+  OwnershipTransferred: OwnershipTransferredEvent
+  RoleGranted: RoleGrantedEvent
+  RoleRevoked: RoleRevokedEvent
+  Transfer: TransferEvent
+  Approval: ApprovalEvent
+  Lock: LockEvent
+  LockTransfer: LockTransferEvent
+  DelegateChanged: DelegateChangedEvent
+  DelegateVotesChanged: DelegateVotesChangedEvent
+}
+
+export interface PitEvents {
+  Transfer: TransferEvent
+  Approval: ApprovalEvent
+}
+
+export interface PitBreederEvents {
+  OwnershipTransferred: OwnershipTransferredEvent
+  LogBridgeSet: LogBridgeSetEvent
+  LogConvert: LogConvertEvent
+}
+
+export interface GovernanceVoteEvents {
+  OwnershipTransferred: OwnershipTransferredEvent
+  PoolAdded: PoolAddedEvent
+  PoolRemoved: PoolRemovedEvent
+  WeightsUpdated: WeightsUpdatedEvent
+}
+
+export interface BreederVaultEvents {
+  OwnershipTransferred: OwnershipTransferredEvent
+  Transfer: TransferEvent
+  Approval: ApprovalEvent
+  Deposited: DepositedEvent
+  Withdrawn: WithdrawnEvent
+  Harvest: HarvestEvent
+  KeeperSet: KeeperSetEvent
+}
+
+// The lens is read-only & emits nothing
+export interface MasterBreederLensEvents {}
+
+export interface ZapperEvents {
+  ZapIn: ZapInEvent
+  ZapOut: ZapOutEvent
+}
+
+export interface TimelockEvents {
+  NewAdmin: NewAdminEvent
+  NewPendingAdmin: NewPendingAdminEvent
+  NewDelay: NewDelayEvent
+  CancelTransaction: TimelockTransactionEvent
+  ExecuteTransaction: TimelockTransactionEvent
+  QueueTransaction: TimelockTransactionEvent
+}
+
+export interface GovernorAlphaEvents {
+  ProposalCreated: ProposalCreatedEvent
+  VoteCast: VoteCastEvent
+  ProposalCanceled: ProposalCanceledEvent
+  ProposalQueued: ProposalQueuedEvent
+  ProposalExecuted: ProposalExecutedEvent
+  NewVotingPower: NewVotingPowerEvent
+  NewQuorumVotes: NewQuorumVotesEvent
+  NewProposalThreshold: NewProposalThresholdEvent
+}
@@ -0,0 +1,104 @@
+import { BigNumber, bigNumberify, BigNumberish } from 'ethers/utils'
+import { Zero } from 'ethers/constants'
+
+import { GovernanceToken } from './contracts/GovernanceToken'
+
+// Off-chain mirror of GovernanceToken's locked reward vesting (canUnlockAmount & unlock)
+// Locked tokens vest linearly from a holder's last unlock block until lockToBlock, and unlock() restarts the line
+// from the block it was mined in, so every projection starts from the holder's current LockState
+
+export interface LockState {
+  locked: BigNumber
+  lastUnlockBlock: BigNumber
+  lockFromBlock: BigNumber
+  lockToBlock: BigNumber
+}
+
+export interface UnlockPoint {
+  block: BigNumber
+  claimable: BigNumber
+}
+
+export interface UnlockProjection {
+  block: BigNumber
+  amount: BigNumber
+  // State after unlock() has been mined in block
+  state: LockState
+}
+
+export async function fetchLockState(govToken: GovernanceToken, holder: string): Promise<LockState> {
+  return {
+    locked: await govToken.lockOf(holder),
+    lastUnlockBlock: await govToken.lastUnlockBlock(holder),
+    lockFromBlock: await govToken.lockFromBlock(),
+    lockToBlock: await govToken.lockToBlock()
+  }
+}
+
+// Mirrors canUnlockAmount when evaluated in blockNumber
+export function claimableAt(state: LockState, blockNumber: BigNumberish): BigNumber {
+  const block = bigNumberify(blockNumber)
+  if (block.lt(state.lockFromBlock)) {
+    return Zero
+  }
+  if (block.gte(state.lockToBlock)) {
+    return state.locked
+  }
+  if (block.lt(state.lastUnlockBlock)) {
+    throw new Error('SafeMath: subtraction overflow')
+  }
+  const releaseBlock = block.sub(state.lastUnlockBlock)
+  const numberLockBlock = state.lockToBlock.sub(state.lastUnlockBlock)
+  return state.locked.mul(releaseBlock).div(numberLockBlock)
+}
+
+// Mirrors unlock() mined in blockNumber. The contract also caps the amount at its own token balance,
+// which only matters if locked tokens were moved out of the token contract
+export function unlockAt(state: LockState, blockNumber: BigNumberish): UnlockProjection {
+  if (state.locked.eq(0)) {
+    throw new Error('ERC20: cannot unlock')
+  }
+  const block = bigNumberify(blockNumber)
+  const amount = claimableAt(state, block)
+  return {
+    block,
+    amount,
+    state: { ...state, locked: state.locked.sub(amount), lastUnlockBlock: block }
+  }
+}
+
+// Projects unlocking in each of the given blocks in turn, e.g. to compare unlocking now & again later vs once later
+export function projectUnlocks(state: LockState, blocks: BigNumberish[]): UnlockProjection[] {
+  const projections: UnlockProjection[] = []
+  let current = state
+  for (const block of blocks.map(block => bigNumberify(block)).sort((a, b) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0))) {
+    const projection = unlockAt(current, block)
+    projections.push(projection)
+    current = projection.state
+  }
+  return projections
+}
+
+// Claimable amount from fromBlock until everything has vested, sampled every interval blocks.
+// The lock window boundaries (lockFromBlock & lockToBlock) are always part of the curve when they're in range
+export function unlockCurve(state: LockState, fromBlock: BigNumberish, interval: BigNumberish): UnlockPoint[] {
+  const step = bigNumberify(interval)
+  if (step.lte(0)) {
+    throw new Error('unlockCurve: interval must be greater than 0')
+  }
+
+  const from = bigNumberify(fromBlock)
+  const blocks: BigNumber[] = []
+  for (let block = from; block.lt(state.lockToBlock); block = block.add(step)) {
+    blocks.push(block)
+  }
+  if (state.lockFromBlock.gt(from) && state.lockFromBlock.lt(state.lockToBlock)) {
+    blocks.push(state.lockFromBlock)
+  }
+  blocks.push(from.gt(state.lockToBlock) ? from : state.lockToBlock)
+
+  return blocks
+    .sort((a, b) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0))
+    .filter((block, index, sorted) => index === 0 || !block.eq(sorted[index - 1]))
+    .map(block => ({ block, claimable: claimableAt(state, block) }))
+}
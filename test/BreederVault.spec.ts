@@ -0,0 +1,296 @@
+import chai, { expect } from 'chai'
+import { Contract, Wallet } from 'ethers'
+import { MaxUint256 } from 'ethers/constants'
+import { BigNumber } from 'ethers/utils'
+import { solidity, MockProvider, createFixtureLoader, deployContract } from 'ethereum-waffle'
+
+import { expandTo18Decimals } from './shared/utilities'
+import { mineBlocks, mineTo } from './shared/time'
+import { protocolFixture, ProtocolFixture } from './shared/fixtures'
+
+import { BreederVault, calculateWithdrawalFee, fetchFeeTiers, GovernanceToken, MasterBreeder } from '../sdk'
+
+import BreederVaultArtifact from '../build/BreederVault.json'
+import ERC20Mock from '../build/ERC20Mock.json'
+import UniswapV2Factory from '@venomswap/core/build/UniswapV2Factory.json'
+
+chai.use(solidity)
+
+const START_BLOCK = 100
+const LOCK_FROM_BLOCK = 400
+const LOCK_TO_BLOCK = 500
+
+// ganache underestimates the gas of harvest's swap & addLiquidity
+const overrides = { gasLimit: 9999999 }
+
+describe('BreederVault', () => {
+  const provider = new MockProvider({
+    hardfork: 'istanbul',
+    mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
+    gasLimit: 19999999
+  })
+  const wallets = provider.getWallets()
+  const [alice, bob, carol] = wallets
+  const loadFixture = createFixtureLoader(provider, wallets)
+
+  // Pool 0 stakes the VIPER/WETH pair, 95% of the rewards are locked until they unlock between blocks 400 & 500
+  const protocol = protocolFixture({
+    startBlock: START_BLOCK,
+    lockFromBlock: LOCK_FROM_BLOCK,
+    lockToBlock: LOCK_TO_BLOCK,
+    pools: [{ allocPoint: 100, pair: 'WETH' }],
+    router: true
+  })
+
+  async function fixture(
+    provider: MockProvider,
+    wallets: Wallet[]
+  ): Promise<ProtocolFixture & { vault: BreederVault }> {
+    const base = await protocol(provider, wallets)
+    const vault = await deployContract(wallets[0], BreederVaultArtifact, [
+      'Compounding VIPER/WETH',
+      'cVIPER-WETH',
+      base.breeder.address,
+      0,
+      base.router!.address
+    ])
+    return { ...base, vault: new BreederVault(vault.address, wallets[0]) }
+  }
+
+  let govToken: GovernanceToken
+  let breeder: MasterBreeder
+  let lp: Contract
+  let weth: Contract
+  let router: Contract
+  let vault: BreederVault
+
+  beforeEach(async () => {
+    let fixtureRouter: Contract | undefined
+    ;({
+      govToken,
+      breeder,
+      lpTokens: [lp],
+      pairedTokens: { WETH: weth },
+      router: fixtureRouter,
+      vault
+    } = await loadFixture(fixture))
+    router = fixtureRouter!
+    for (const wallet of [bob, carol]) {
+      await lp.connect(wallet).approve(vault.address, MaxUint256)
+    }
+  })
+
+  it('should compound the pool of a GovToken pair', async () => {
+    expect(await vault.breeder()).to.eq(breeder.address)
+    expect(await vault.pid()).to.eq(0)
+    expect(await vault.lpToken()).to.eq(lp.address)
+    expect(await vault.govToken()).to.eq(govToken.address)
+    expect(await vault.pairedToken()).to.eq(weth.address)
+    expect(await vault.router()).to.eq(router.address)
+
+    const busd = await deployContract(alice, ERC20Mock, ['BUSD', 'BUSD', expandTo18Decimals(1000)])
+    const factory = new Contract(await router.factory(), UniswapV2Factory.abi, alice)
+    await factory.createPair(busd.address, weth.address)
+    await breeder.add(100, await factory.getPair(busd.address, weth.address), false)
+    await expect(
+      deployContract(alice, BreederVaultArtifact, [
+        'Compounding BUSD/WETH',
+        'cBUSD-WETH',
+        breeder.address,
+        1,
+        router.address
+      ])
+    ).to.be.revertedWith('BreederVault: pool without govToken')
+  })
+
+  it('should mint shares for the LP tokens staked after the deposit fee', async () => {
+    await expect(vault.connect(bob).deposit(0)).to.be.revertedWith(
+      'BreederVault::deposit: amount must be greater than 0'
+    )
+
+    // The fixture's 0.75% deposit fee, the first deposit's shares also pay for the vault's minimum shares
+    const staked = expandTo18Decimals(100)
+      .mul(9925)
+      .div(10000)
+    const minimum = await vault.MINIMUM_SHARES()
+    await expect(vault.connect(bob).deposit(expandTo18Decimals(100)))
+      .to.emit(vault.contract, 'Deposited')
+      .withArgs(bob.address, expandTo18Decimals(100), staked.sub(minimum))
+    expect(await vault.balanceOf(bob.address)).to.eq(staked.sub(minimum))
+    expect(await vault.balanceOf(vault.address)).to.eq(minimum)
+    expect(await vault.totalSupply()).to.eq(staked)
+    expect(await vault.balance()).to.eq(staked)
+    expect((await breeder.userInfo(0, vault.address)).amount).to.eq(staked)
+
+    await vault.connect(carol).deposit(expandTo18Decimals(50))
+    expect(await vault.balanceOf(carol.address)).to.eq(staked.div(2))
+    expect(await vault.sharesValue(await vault.balanceOf(carol.address))).to.eq(staked.div(2))
+    expect(await lp.balanceOf(vault.address)).to.eq(0)
+  })
+
+  it("should send the withdrawn LP tokens minus the vault's withdrawal fee", async () => {
+    await vault.connect(bob).deposit(expandTo18Decimals(100))
+    await vault.connect(carol).deposit(expandTo18Decimals(100))
+    await mineBlocks(provider, 5)
+
+    await expect(vault.connect(bob).withdraw(0)).to.be.revertedWith(
+      'BreederVault::withdraw: shares must be greater than 0'
+    )
+    const shares = await vault.balanceOf(bob.address)
+    await expect(vault.connect(bob).withdraw(shares.add(1))).to.be.revertedWith('ERC20: burn amount exceeds balance')
+    // The fee leaves less than the shares' value
+    await expect(vault.connect(bob).withdraw(shares, await vault.sharesValue(shares))).to.be.revertedWith(
+      'BreederVault::withdraw: insufficient output amount'
+    )
+
+    const amount = await vault.sharesValue(shares)
+    const fee = calculateWithdrawalFee(
+      await fetchFeeTiers(breeder),
+      await breeder.userInfo(0, vault.address),
+      amount,
+      (await provider.getBlockNumber()) + 1
+    )
+    expect(fee.toDev).to.be.gt(0)
+    const carolValue = await vault.sharesValue(await vault.balanceOf(carol.address))
+    const before: BigNumber = await lp.balanceOf(bob.address)
+
+    await expect(vault.connect(bob).withdraw(shares, fee.toUser))
+      .to.emit(vault.contract, 'Withdrawn')
+      .withArgs(bob.address, fee.toUser, shares)
+    expect((await lp.balanceOf(bob.address)).sub(before)).to.eq(fee.toUser)
+    // Bob paid the whole fee
+    expect(await vault.sharesValue(await vault.balanceOf(carol.address))).to.be.gte(carolValue)
+  })
+
+  it("should share the vault's withdrawal fee clock between all holders", async () => {
+    await vault.connect(bob).deposit(expandTo18Decimals(100))
+    await vault.connect(carol).deposit(expandTo18Decimals(100))
+    const tiers = await fetchFeeTiers(breeder)
+
+    // 275 blocks after the first deposit, withdrawals pay the 4% tier
+    await mineBlocks(provider, 275)
+    const carolShares = (await vault.balanceOf(carol.address)).div(10)
+    const carolFee = calculateWithdrawalFee(
+      tiers,
+      await breeder.userInfo(0, vault.address),
+      await vault.sharesValue(carolShares),
+      (await provider.getBlockNumber()) + 1
+    )
+    expect(carolFee.tier).to.eq(2)
+    await vault.connect(carol).withdraw(carolShares, carolFee.toUser)
+
+    // Carol's withdrawal reset the clock for Bob too, his withdrawal in the next block pays the 8% tier
+    const bobShares = await vault.balanceOf(bob.address)
+    const bobFee = calculateWithdrawalFee(
+      tiers,
+      await breeder.userInfo(0, vault.address),
+      await vault.sharesValue(bobShares),
+      (await provider.getBlockNumber()) + 1
+    )
+    expect(bobFee.tier).to.eq(1)
+    const before: BigNumber = await lp.balanceOf(bob.address)
+    await vault.connect(bob).withdraw(bobShares, bobFee.toUser)
+    expect((await lp.balanceOf(bob.address)).sub(before)).to.eq(bobFee.toUser)
+  })
+
+  it('should reject harvests without rewards or above the slippage bound', async () => {
+    await vault.connect(bob).deposit(expandTo18Decimals(100))
+    await expect(vault.harvest(0, overrides)).to.be.revertedWith('BreederVault::harvest: nothing to compound')
+
+    await mineTo(provider, START_BLOCK + 10)
+    await expect(vault.harvest(MaxUint256, overrides)).to.be.revertedWith('UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT')
+  })
+
+  it('should only let the owner & its keepers harvest', async () => {
+    await vault.connect(bob).deposit(expandTo18Decimals(100))
+    await mineTo(provider, START_BLOCK + 10)
+
+    // Anyone else could harvest without a minimum inside their own sandwich
+    await expect(vault.connect(bob).harvest(0, overrides)).to.be.revertedWith('BreederVault: caller is not a keeper')
+    await expect(vault.connect(bob).setKeeper(bob.address, true)).to.be.revertedWith('Ownable: caller is not the owner')
+    expect(await vault.owner()).to.eq(alice.address)
+
+    await expect(vault.setKeeper(carol.address, true))
+      .to.emit(vault.contract, 'KeeperSet')
+      .withArgs(carol.address, true)
+    expect(await vault.isKeeper(carol.address)).to.eq(true)
+    await expect(vault.connect(carol).harvest(0, overrides)).to.emit(vault.contract, 'Harvest')
+    // Both tokens were added to the pair but for rounding dust
+    expect(await govToken.balanceOf(vault.address)).to.be.lt(expandTo18Decimals(1).div(1000))
+    expect(await weth.balanceOf(vault.address)).to.be.lt(expandTo18Decimals(1).div(1000))
+
+    await vault.setKeeper(carol.address, false)
+    await mineBlocks(provider, 5)
+    await expect(vault.connect(carol).harvest(0, overrides)).to.be.revertedWith('BreederVault: caller is not a keeper')
+  })
+
+  it('should compound the rewards & the unlocked part of the locked rewards over many harvests', async function() {
+    this.timeout(0)
+    await vault.connect(bob).deposit(expandTo18Decimals(100))
+    await vault.connect(carol).deposit(expandTo18Decimals(50))
+    const bobShares = await vault.balanceOf(bob.address)
+    const carolShares = await vault.balanceOf(carol.address)
+    const bobStake = await vault.sharesValue(bobShares)
+    await mineTo(provider, START_BLOCK)
+
+    // Only the unlocked 5% of the rewards is compounded before the lock window starts
+    let previous = await vault.balance()
+    let locked = await vault.lockedRewards()
+    for (let i = 0; i < 10; i++) {
+      await mineBlocks(provider, 10)
+      const receipt = await (await vault.harvest(0, overrides)).wait()
+      const [harvest] = vault.parseEvents('Harvest', receipt.logs!)
+      const [reward] = breeder.parseEvents('SendGovernanceTokenReward', receipt.logs!)
+      expect(harvest.args.rewards).to.be.gte(reward.args.amount.sub(reward.args.lockAmount))
+      expect(harvest.args.liquidity).to.be.gt(0)
+
+      const current = await vault.balance()
+      expect(current).to.be.gt(previous)
+      expect(await lp.balanceOf(vault.address)).to.eq(0)
+      expect(await vault.lockedRewards()).to.be.gt(locked)
+      previous = current
+      locked = await vault.lockedRewards()
+    }
+    expect(await vault.sharesValue(bobShares)).to.be.gt(bobStake)
+
+    // Once the lock window is over the locked rewards are compounded as well
+    await mineTo(provider, LOCK_TO_BLOCK)
+    const receipt = await (await vault.harvest(0, overrides)).wait()
+    const [harvest] = vault.parseEvents('Harvest', receipt.logs!)
+    expect(harvest.args.rewards).to.be.gt(locked)
+    expect(await vault.lockedRewards()).to.eq(0)
+    expect(await vault.balance()).to.be.gt(previous)
+
+    // Shares keep their proportions, both withdraw more LP tokens than they staked despite the withdrawal fee
+    const bobBefore: BigNumber = await lp.balanceOf(bob.address)
+    await vault.connect(bob).withdraw(bobShares)
+    expect((await lp.balanceOf(bob.address)).sub(bobBefore)).to.be.gt(bobStake)
+    const carolBefore: BigNumber = await lp.balanceOf(carol.address)
+    await vault.connect(carol).withdraw(carolShares)
+    expect((await lp.balanceOf(carol.address)).sub(carolBefore)).to.be.gt(bobStake.div(2))
+    // Only the minimum shares are left, along with their LP tokens
+    expect(await vault.totalSupply()).to.eq(await vault.MINIMUM_SHARES())
+    expect(await vault.sharesValue(await vault.MINIMUM_SHARES())).to.eq(await vault.balance())
+  })
+
+  it("shouldn't let LP tokens sent to an almost empty vault round later deposits down", async () => {
+    const minimum = await vault.MINIMUM_SHARES()
+    await expect(vault.connect(bob).deposit(minimum)).to.be.revertedWith(
+      'BreederVault::deposit: first deposit too small'
+    )
+
+    // Bob owns a single share & inflates its value by sending LP tokens to the vault. minimum + 8 LP tokens stake
+    // minimum + 1 after the deposit fee
+    await vault.connect(bob).deposit(minimum.add(8))
+    expect(await vault.balanceOf(bob.address)).to.eq(1)
+    await lp.connect(bob).transfer(vault.address, expandTo18Decimals(10))
+
+    // Carol's deposit still mints shares worth about what she staked, the minimum shares own most of Bob's LP tokens
+    await vault.connect(carol).deposit(expandTo18Decimals(10))
+    const carolShares = await vault.balanceOf(carol.address)
+    expect(carolShares).to.be.gt(0)
+    const carolValue = await vault.sharesValue(carolShares)
+    expect(carolValue).to.be.gt(expandTo18Decimals(98).div(10))
+    expect(await vault.sharesValue(1)).to.be.lt(expandTo18Decimals(1).div(10))
+  })
+})
@@ -2,7 +2,9 @@ import chai, { expect } from 'chai'
 import { Contract } from 'ethers'
 import { solidity, MockProvider, deployContract } from 'ethereum-waffle'
 
-import { expandTo18Decimals, advanceBlockTo, latestBlock } from './shared/utilities'
+import { expandTo18Decimals, advanceBlock, advanceBlockTo, latestBlock } from './shared/utilities'
+
+import { ROLES } from '../sdk'
 
 import GovernanceToken from '../build/GovernanceToken.json'
 
@@ -25,7 +27,7 @@ describe('GovernanceToken', () => {
     mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
     gasLimit: 9999999
   })
-  const [alice, bob] = provider.getWallets()
+  const [alice, bob, carol] = provider.getWallets()
 
   let token: Contract
   beforeEach(async () => {
@@ -102,27 +104,40 @@ describe('GovernanceToken', () => {
     expect(await token.totalLock()).to.eq(0)
   })
 
-  it('should be able to addAuthorized for own address', async () => {
-    await token.addAuthorized(alice.address)
-    expect(await token.authorized(alice.address)).to.eq(true)
-  })
+  it('should grant roles & enumerate their members', async () => {
+    await expect(token.grantRole(ROLES.emissionsManager, bob.address))
+      .to.emit(token, 'RoleGranted')
+      .withArgs(ROLES.emissionsManager, bob.address, alice.address)
+    await token.grantRole(ROLES.emissionsManager, carol.address)
+    expect(await token.hasRole(ROLES.emissionsManager, bob.address)).to.eq(true)
+    expect(await token.hasRole(ROLES.treasuryManager, bob.address)).to.eq(false)
+    expect(await token.getRoleMemberCount(ROLES.emissionsManager)).to.eq(2)
+    expect(await token.getRoleMember(ROLES.emissionsManager, 0)).to.eq(bob.address)
+    expect(await token.getRoleMember(ROLES.emissionsManager, 1)).to.eq(carol.address)
 
-  it('should be able to addAuthorized for anbob address', async () => {
-    await token.addAuthorized(bob.address)
-    expect(await token.authorized(bob.address)).to.eq(true)
+    // Granting a role twice is a no-op
+    await expect(token.grantRole(ROLES.emissionsManager, bob.address)).to.not.emit(token, 'RoleGranted')
+    expect(await token.getRoleMemberCount(ROLES.emissionsManager)).to.eq(2)
   })
 
-  it('should fail to remove authorization for the same address requesting removeAuthorized', async () => {
-    await token.addAuthorized(alice.address)
-    expect(await token.authorized(alice.address)).to.eq(true)
-    await expect(token.removeAuthorized(alice.address)).to.be.reverted
+  it('should only let the owner grant & revoke roles', async () => {
+    await expect(token.connect(bob).grantRole(ROLES.emissionsManager, bob.address)).to.be.revertedWith('Ownable: caller is not the owner')
+    await token.grantRole(ROLES.emissionsManager, bob.address)
+    await expect(token.connect(bob).revokeRole(ROLES.emissionsManager, bob.address)).to.be.revertedWith('Ownable: caller is not the owner')
   })
 
-  it('should succeed to remove authorization for anbob address', async () => {
-    await token.addAuthorized(bob.address)
-    expect(await token.authorized(bob.address)).to.eq(true)
-    await token.removeAuthorized(bob.address)
-    expect(await token.authorized(bob.address)).to.eq(false)
+  it('should revoke & renounce roles', async () => {
+    await token.grantRole(ROLES.emissionsManager, bob.address)
+    await token.grantRole(ROLES.treasuryManager, bob.address)
+    await expect(token.revokeRole(ROLES.emissionsManager, bob.address))
+      .to.emit(token, 'RoleRevoked')
+      .withArgs(ROLES.emissionsManager, bob.address, alice.address)
+    expect(await token.hasRole(ROLES.emissionsManager, bob.address)).to.eq(false)
+
+    await expect(token.connect(bob).renounceRole(ROLES.treasuryManager))
+      .to.emit(token, 'RoleRevoked')
+      .withArgs(ROLES.treasuryManager, bob.address, bob.address)
+    expect(await token.getRoleMemberCount(ROLES.treasuryManager)).to.eq(0)
   })
 
   it('should be able to approve an address + balance', async () => {
@@ -211,4 +226,22 @@ describe('GovernanceToken', () => {
     expect(await token.totalBalanceOf(alice.address)).to.eq(TOTAL_SUPPLY)
   })
 
+  it('should checkpoint locks by block', async () => {
+    const lockBlock = (await (await token.lock(alice.address, TEST_AMOUNT)).wait()).blockNumber
+    const relockBlock = (await (await token.lock(alice.address, TEST_AMOUNT)).wait()).blockNumber
+    // transferAll hands the locks to bob
+    const transferBlock = (await (await token.transferAll(bob.address)).wait()).blockNumber
+    await advanceBlock(provider)
+
+    expect(await token.getPriorLock(alice.address, lockBlock - 1)).to.eq(0)
+    expect(await token.getPriorLock(alice.address, lockBlock)).to.eq(TEST_AMOUNT)
+    expect(await token.getPriorLock(alice.address, relockBlock)).to.eq(TEST_AMOUNT.mul(2))
+    expect(await token.getPriorLock(alice.address, transferBlock)).to.eq(0)
+    expect(await token.getPriorLock(bob.address, transferBlock - 1)).to.eq(0)
+    expect(await token.getPriorLock(bob.address, transferBlock)).to.eq(TEST_AMOUNT.mul(2))
+
+    const block = await latestBlock(provider)
+    await expect(token.getPriorLock(alice.address, block.number)).to.be.revertedWith("GovernanceToken::getPriorLock: not yet determined")
+  })
+
 })
@@ -3,17 +3,21 @@ import { Contract, ContractFactory, utils } from 'ethers'
 import { BigNumber } from 'ethers/utils'
 import { solidity, MockProvider, deployContract } from 'ethereum-waffle'
 
-import { expandTo18Decimals, advanceBlockWith, humanBalance } from './shared/utilities'
+import { expandTo18Decimals, advanceBlock, advanceBlockWith, humanBalance, latestBlock } from './shared/utilities'
+import { increaseTime } from './shared/time'
 
 import { deployGovernanceToken, deployMasterBreeder } from './shared/deploy'
 
 import { createLpToken } from './shared/lp'
 
-import Pit from '../build/Pit.json'
+import { GovernanceToken, GovernanceVote, MasterBreeder, Pit } from '../sdk'
+
+import PitArtifact from '../build/Pit.json'
 import ERC20Mock from '../build/ERC20Mock.json'
 import UniswapV2Factory from '@venomswap/core/build/UniswapV2Factory.json'
 import UniswapV2Pair from '@venomswap/core/build/UniswapV2Pair.json'
-import GovernanceVote from '../build/GovernanceVote.json'
+import GovernanceVoteArtifact from '../build/GovernanceVote.json'
+import GovernanceVoteExploitMock from '../build/GovernanceVoteExploitMock.json'
 
 chai.use(solidity)
 
@@ -36,17 +40,17 @@ describe('GovernanceVote', () => {
   const provider = new MockProvider({
     hardfork: 'istanbul',
     mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
-    gasLimit: 9999999
+    gasLimit: 19999999
   })
   const wallets = provider.getWallets()
   const [alice, bob, carol, minter, dev, liquidityFund, communityFund, founderFund] = wallets
 
-  let breeder: Contract
-  let pit: Contract
-  let govVote: Contract
+  let breeder: MasterBreeder
+  let pit: Pit
+  let govVote: GovernanceVote
   let factory: Contract
   let pairFactory: ContractFactory
-  let govToken: Contract
+  let govToken: GovernanceToken
   let govTokenBalance: BigNumber
   let weth: Contract
   let wethTokenBalance: BigNumber
@@ -62,7 +66,7 @@ describe('GovernanceVote', () => {
     await weth.transfer(alice.address, STARTING_BALANCE)
     wethTokenBalance = expandTo18Decimals(500)
 
-    pit = await deployContract(alice, Pit, ["ViperPit", "xVIPER", govToken.address])
+    pit = new Pit((await deployContract(alice, PitArtifact, ["ViperPit", "xVIPER", govToken.address])).address, alice)
 
     breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(1000), REWARDS_START_BLOCK, HALVING_AFTER_BLOCK_COUNT)
 
@@ -74,9 +78,9 @@ describe('GovernanceVote', () => {
     const token0 = await lpPair.token0()
     govTokenReservePosition = (token0 === govToken.address) ? 0 : 1
 
-    govVote = await deployContract(
+    const govVoteContract = await deployContract(
       alice,
-      GovernanceVote,
+      GovernanceVoteArtifact,
       [
         "ViperVote",
         "ViperVote",
@@ -90,6 +94,7 @@ describe('GovernanceVote', () => {
         MULTIPLIERS.singleStaking
       ]
     )
+    govVote = new GovernanceVote(govVoteContract.address, alice)
   })
 
   it('should have correct values for: name, symbol, decimals, govToken, masterBreeder, lpPair, pit', async () => {
@@ -191,7 +196,7 @@ describe('GovernanceVote', () => {
     const govTokenReserve = await govVote.govTokenReserve()
     if (debugMessages) console.log(`govVote -> govTokenReserve: ${utils.formatEther(govTokenReserve.toString())}`)
 
-    const [ userLpTokenAmountInPool ] = await breeder.userInfo(POOL_ID, alice.address)
+    const { amount: userLpTokenAmountInPool } = await breeder.userInfo(POOL_ID, alice.address)
     if (debugMessages) console.log(`masterBreeder -> userInfo(0) -> amount: ${utils.formatEther(userLpTokenAmountInPool.toString())}`)
 
     const lpPairTotalSupply = await lpPair.totalSupply()
@@ -241,4 +246,322 @@ describe('GovernanceVote', () => {
     expect(votingPower).to.gte(expandTo18Decimals(6460))
   })
 
+  describe('multiple pools', () => {
+    const BUSD_POOL_ID = 1
+    const NON_GOV_TOKEN_POOL_ID = 2
+
+    let busd: Contract
+    let busdPair: Contract
+    let wethBusdPair: Contract
+
+    // GovToken underlying the LP tokens user staked in pool pid
+    async function lpUnderlying(pid: number, pair: Contract, user: string): Promise<BigNumber> {
+      const { amount } = await breeder.userInfo(pid, user)
+      const [ reserve0, reserve1 ] = await pair.getReserves()
+      const reserve = (await pair.token0()) === govToken.address ? reserve0 : reserve1
+      return amount.mul(reserve).div(await pair.totalSupply())
+    }
+
+    beforeEach(async () => {
+      busd = await deployContract(alice, ERC20Mock, ["BUSD", "BUSD", expandTo18Decimals(10000000)])
+      busdPair = await createLpToken(alice, factory, pairFactory, govToken, busd, govTokenBalance, expandTo18Decimals(2000))
+      wethBusdPair = await createLpToken(alice, factory, pairFactory, weth, busd, expandTo18Decimals(1000), expandTo18Decimals(1000))
+
+      await govToken.transferOwnership(breeder.address)
+      await breeder.add(REWARDS_PER_BLOCK, lpPair.address, true)
+      await breeder.add(REWARDS_PER_BLOCK, busdPair.address, true)
+      await breeder.add(REWARDS_PER_BLOCK, wethBusdPair.address, true)
+    })
+
+    it('should count the constructor pool with the default weights', async () => {
+      expect(await govVote.owner()).to.eq(alice.address)
+      expect(await govVote.poolLength()).to.eq(1)
+      expect(await govVote.countsPool(POOL_ID)).to.eq(true)
+
+      const pool = await govVote.pools(0)
+      expect(pool.pid).to.eq(POOL_ID)
+      expect(pool.lpPair).to.eq(lpPair.address)
+      expect(pool.govTokenReservePosition).to.eq(govTokenReservePosition)
+
+      expect(await govVote.lpWeight()).to.eq(MULTIPLIERS.lpStaking * 10000)
+      expect(await govVote.pitWeight()).to.eq(MULTIPLIERS.singleStaking * 10000)
+      expect(await govVote.lockedWeight()).to.eq(3300)
+      expect(await govVote.unlockedWeight()).to.eq(2500)
+    })
+
+    it('should add pools that contain govToken', async () => {
+      await expect(govVote.addPool(BUSD_POOL_ID))
+        .to.emit(govVote, 'PoolAdded')
+        .withArgs(BUSD_POOL_ID, busdPair.address)
+
+      expect(await govVote.poolLength()).to.eq(2)
+      expect(await govVote.countsPool(BUSD_POOL_ID)).to.eq(true)
+      const pool = await govVote.pools(1)
+      expect(pool.pid).to.eq(BUSD_POOL_ID)
+      expect(pool.lpPair).to.eq(busdPair.address)
+      expect(pool.govTokenReservePosition).to.eq((await busdPair.token0()) === govToken.address ? 0 : 1)
+
+      // lpPair stays the first counted pool, the reserve covers both pairs
+      expect(await govVote.lpPair()).to.eq(lpPair.address)
+      expect(await govVote.govTokenReserve()).to.eq(govTokenBalance.mul(2))
+    })
+
+    it('should not add pools twice or pools without govToken', async () => {
+      await expect(govVote.addPool(POOL_ID)).to.be.revertedWith("GovernanceVote: pool already counted")
+      await expect(govVote.addPool(NON_GOV_TOKEN_POOL_ID)).to.be.revertedWith("GovernanceVote: pool without govToken")
+      await expect(govVote.connect(bob).addPool(BUSD_POOL_ID)).to.be.revertedWith("Ownable: caller is not the owner")
+    })
+
+    it('should remove pools', async () => {
+      await govVote.addPool(BUSD_POOL_ID)
+
+      await expect(govVote.connect(bob).removePool(POOL_ID)).to.be.revertedWith("Ownable: caller is not the owner")
+      await expect(govVote.removePool(NON_GOV_TOKEN_POOL_ID)).to.be.revertedWith("GovernanceVote: pool not counted")
+
+      await expect(govVote.removePool(POOL_ID))
+        .to.emit(govVote, 'PoolRemoved')
+        .withArgs(POOL_ID, lpPair.address)
+
+      // The last pool takes the removed pool's place
+      expect(await govVote.poolLength()).to.eq(1)
+      expect(await govVote.countsPool(POOL_ID)).to.eq(false)
+      expect((await govVote.pools(0)).pid).to.eq(BUSD_POOL_ID)
+      expect(await govVote.lpPair()).to.eq(busdPair.address)
+      expect(await govVote.govTokenReserve()).to.eq(govTokenBalance)
+
+      await govVote.removePool(BUSD_POOL_ID)
+      expect(await govVote.poolLength()).to.eq(0)
+      expect(await govVote.lpPair()).to.eq(ZERO_ADDRESS)
+      expect(await govVote.govTokenReserve()).to.eq(0)
+
+      // Removed pools can be added again
+      await govVote.addPool(POOL_ID)
+      expect(await govVote.lpPair()).to.eq(lpPair.address)
+    })
+
+    it('should count LP stakes across all counted pools', async () => {
+      await govVote.addPool(BUSD_POOL_ID)
+
+      await lpPair.approve(breeder.address, await lpPair.balanceOf(alice.address))
+      await breeder.deposit(POOL_ID, await lpPair.balanceOf(alice.address), ZERO_ADDRESS)
+      await busdPair.approve(breeder.address, await busdPair.balanceOf(alice.address))
+      await breeder.deposit(BUSD_POOL_ID, await busdPair.balanceOf(alice.address), ZERO_ADDRESS)
+      // Stakes in pools that aren't counted don't add voting power
+      await wethBusdPair.approve(breeder.address, await wethBusdPair.balanceOf(alice.address))
+      await breeder.deposit(NON_GOV_TOKEN_POOL_ID, await wethBusdPair.balanceOf(alice.address), ZERO_ADDRESS)
+
+      const underlying = (await lpUnderlying(POOL_ID, lpPair, alice.address))
+        .add(await lpUnderlying(BUSD_POOL_ID, busdPair, alice.address))
+      if (debugMessages) console.log(`Underlying gov tokens in both pools: ${utils.formatEther(underlying.toString())}`)
+
+      const breakdown = await govVote.balanceBreakdown(alice.address)
+      expect(breakdown.lp).to.eq(underlying.mul(MULTIPLIERS.lpStaking))
+      expect(breakdown.pitPower).to.eq(0)
+      expect(breakdown.locked).to.eq(0)
+      expect(breakdown.unlocked).to.eq((await govToken.balanceOf(alice.address)).mul(25).div(100))
+      expect(await govVote.balanceOf(alice.address)).to.eq(
+        breakdown.lp.add(breakdown.pitPower).add(breakdown.locked).add(breakdown.unlocked)
+      )
+
+      // alice staked all of her liquidity in both pairs, less the deposit fee & the liquidity the pairs lock
+      // lp = (1000 + 1000) * 4 * ~99.25% ~= 7940
+      expect(breakdown.lp).to.gte(expandTo18Decimals(7900))
+
+      await govVote.removePool(BUSD_POOL_ID)
+      expect((await govVote.balanceBreakdown(alice.address)).lp).to.eq(
+        (await lpUnderlying(POOL_ID, lpPair, alice.address)).mul(MULTIPLIERS.lpStaking)
+      )
+    })
+
+    it('should apply the weights set by the owner', async () => {
+      await govVote.addPool(BUSD_POOL_ID)
+      await govToken.approve(pit.address, PIT_BALANCE)
+      await pit.enter(PIT_BALANCE)
+
+      await expect(govVote.connect(bob).setWeights(10000, 10000, 10000, 10000)).to.be.revertedWith("Ownable: caller is not the owner")
+      await expect(govVote.setWeights(1000001, 0, 0, 0)).to.be.revertedWith("GovernanceVote: weight too high")
+
+      await expect(govVote.setWeights(15000, 10000, 5000, 0))
+        .to.emit(govVote, 'WeightsUpdated')
+        .withArgs(15000, 10000, 5000, 0)
+
+      expect(await govVote.lpWeight()).to.eq(15000)
+      expect(await govVote.pitWeight()).to.eq(10000)
+      expect(await govVote.lockedWeight()).to.eq(5000)
+      expect(await govVote.unlockedWeight()).to.eq(0)
+
+      const totalSupplyBreakdown = await govVote.totalSupplyBreakdown()
+      expect(totalSupplyBreakdown.lp).to.eq(govTokenBalance.mul(2).mul(15).div(10))
+      expect(totalSupplyBreakdown.pitPower).to.eq(PIT_BALANCE)
+      expect(totalSupplyBreakdown.locked).to.eq((await govToken.totalLock()).div(2))
+      expect(totalSupplyBreakdown.unlocked).to.eq(0)
+      expect(await govVote.totalSupply()).to.eq(
+        totalSupplyBreakdown.lp.add(totalSupplyBreakdown.pitPower).add(totalSupplyBreakdown.locked)
+      )
+
+      const breakdown = await govVote.balanceBreakdown(alice.address)
+      expect(breakdown.pitPower).to.eq(PIT_BALANCE)
+      expect(breakdown.unlocked).to.eq(0)
+    })
+  })
+
+  describe('block-pinned voting power', () => {
+    const LOCK_AMOUNT = expandTo18Decimals(950)
+    const RATE_PRECISION = expandTo18Decimals(1)
+    const RATE_PERIOD = 30 * 60
+
+    let depositBlock: number
+    let snapshotBlock: number
+
+    // Sells amountIn govToken into lpPair, which raises the govToken reserve every LP token is backed by
+    async function sellGovToken(from: typeof alice, amountIn: BigNumber) {
+      const [ reserve0, reserve1 ] = await lpPair.getReserves()
+      const [ reserveIn, reserveOut ] = govTokenReservePosition === 0 ? [reserve0, reserve1] : [reserve1, reserve0]
+      const amountOut = amountIn.mul(997).mul(reserveOut).div(reserveIn.mul(1000).add(amountIn.mul(997)))
+      await govToken.connect(from).transfer(lpPair.address, amountIn)
+      const [ amount0Out, amount1Out ] = govTokenReservePosition === 0 ? [0, amountOut] : [amountOut, 0]
+      await lpPair.connect(from).swap(amount0Out, amount1Out, from.address, "0x")
+    }
+
+    beforeEach(async () => {
+      // Unlocked GovToken counts through delegated votes
+      await govToken.delegate(alice.address)
+      await govToken.approve(pit.address, PIT_BALANCE)
+      await pit.enter(PIT_BALANCE)
+      await govToken.lock(alice.address, LOCK_AMOUNT)
+      await govToken.transfer(bob.address, expandTo18Decimals(1000))
+
+      await govToken.transferOwnership(breeder.address)
+      await breeder.add(REWARDS_PER_BLOCK, lpPair.address, true)
+      // The constructor observed the pair, the first rate averages its price over the period since
+      await increaseTime(provider, RATE_PERIOD)
+      await govVote.checkpointPools()
+      const lpBalance = await lpPair.balanceOf(alice.address)
+      await lpPair.approve(breeder.address, lpBalance)
+      depositBlock = (await (await breeder.deposit(POOL_ID, lpBalance.div(2), ZERO_ADDRESS)).wait()).blockNumber!
+
+      snapshotBlock = (await latestBlock(provider)).number
+      // Calls run against the latest block, so the snapshot block is finalized once another block is mined
+      await advanceBlock(provider)
+    })
+
+    it('should read voting power as of a past block', async () => {
+      // Without swaps the average price is the spot price, so the rate is the pair's reserve per LP token up to the
+      // fixed point precision
+      const [ reserve0, reserve1 ] = await lpPair.getReserves()
+      const reserve = govTokenReservePosition === 0 ? reserve0 : reserve1
+      const spotRate = reserve.mul(RATE_PRECISION).div(await lpPair.totalSupply())
+      const rate = await govVote.getPriorRate(POOL_ID, snapshotBlock)
+      expect(rate).to.lte(spotRate)
+      expect(rate).to.gt(spotRate.sub(spotRate.div(1e12)))
+
+      const { amount: staked } = await breeder.userInfo(POOL_ID, alice.address)
+      expect(await breeder.getPriorStake(POOL_ID, alice.address, snapshotBlock)).to.eq(staked)
+
+      const breakdown = await govVote.priorVotesBreakdown(alice.address, snapshotBlock)
+      expect(breakdown.lp).to.eq(staked.mul(rate).div(RATE_PRECISION).mul(MULTIPLIERS.lpStaking))
+      expect(breakdown.pitPower).to.eq(PIT_BALANCE.mul(MULTIPLIERS.singleStaking))
+      expect(breakdown.locked).to.eq(LOCK_AMOUNT.mul(33).div(100))
+      expect(breakdown.unlocked).to.eq((await govToken.balanceOf(alice.address)).mul(25).div(100))
+      expect(await govVote.getPriorVotes(alice.address, snapshotBlock)).to.eq(
+        breakdown.lp.add(breakdown.pitPower).add(breakdown.locked).add(breakdown.unlocked)
+      )
+
+      // Before the deposit only the other components count
+      const beforeDeposit = await govVote.priorVotesBreakdown(alice.address, depositBlock - 1)
+      expect(beforeDeposit.lp).to.eq(0)
+      expect(beforeDeposit.pitPower).to.eq(breakdown.pitPower)
+
+      const block = await latestBlock(provider)
+      await expect(govVote.getPriorVotes(alice.address, block.number)).to.be.revertedWith("GovernanceVote: not yet determined")
+    })
+
+    it('should ignore stakes, Pit shares & delegations added after the snapshot', async () => {
+      const priorVotes = await govVote.getPriorVotes(alice.address, snapshotBlock)
+      const liveVotes = await govVote.balanceOf(alice.address)
+
+      // Stake the rest of the LP tokens, move Pit shares around & borrow bob's votes within the window
+      await breeder.deposit(POOL_ID, await lpPair.balanceOf(alice.address), ZERO_ADDRESS)
+      await pit.transfer(bob.address, PIT_BALANCE.div(2))
+      await govToken.connect(bob).approve(pit.address, expandTo18Decimals(500))
+      await pit.connect(bob).enter(expandTo18Decimals(500))
+      await govToken.connect(bob).delegate(alice.address)
+      await advanceBlock(provider)
+
+      expect(await govVote.balanceOf(alice.address)).to.gt(liveVotes)
+      expect(await govVote.balanceOf(bob.address)).to.gt(0)
+
+      expect(await govVote.getPriorVotes(alice.address, snapshotBlock)).to.eq(priorVotes)
+      expect(await govVote.getPriorVotes(bob.address, snapshotBlock)).to.eq(0)
+    })
+
+    it('should not follow swaps of the pair after the snapshot', async () => {
+      const prior = await govVote.priorVotesBreakdown(alice.address, snapshotBlock)
+      const live = await govVote.balanceBreakdown(alice.address)
+
+      // Doubling the pair's govToken reserve roughly doubles the live LP component
+      await sellGovToken(bob, expandTo18Decimals(1000))
+      expect((await govVote.balanceBreakdown(alice.address)).lp).to.gt(live.lp.mul(19).div(10))
+
+      // Rates only follow the pair once the period passed, & a rate that did only affects later blocks
+      await govVote.checkpointPools()
+      const earlyBlock = (await latestBlock(provider)).number
+      await increaseTime(provider, RATE_PERIOD)
+      await govVote.checkpointPools()
+      const checkpointBlock = (await latestBlock(provider)).number
+      await advanceBlock(provider)
+
+      expect((await govVote.priorVotesBreakdown(alice.address, snapshotBlock)).lp).to.eq(prior.lp)
+      expect(await govVote.getPriorRate(POOL_ID, earlyBlock)).to.eq(await govVote.getPriorRate(POOL_ID, snapshotBlock))
+      expect(await govVote.getPriorRate(POOL_ID, checkpointBlock)).to.gt(await govVote.getPriorRate(POOL_ID, snapshotBlock))
+      expect((await govVote.priorVotesBreakdown(alice.address, checkpointBlock)).lp).to.gt(prior.lp)
+    })
+
+    it('should not follow a pair pumped within the checkpointing transaction', async () => {
+      const prior = await govVote.priorVotesBreakdown(alice.address, snapshotBlock)
+      const exploit = await deployContract(alice, GovernanceVoteExploitMock, [govVote.address])
+      await govToken.connect(bob).transfer(exploit.address, expandTo18Decimals(1000))
+      await increaseTime(provider, RATE_PERIOD)
+
+      // Selling 1000 govToken into the pair doubles its govToken reserve for the duration of the checkpoint
+      await exploit.checkpointPumped(lpPair.address, govToken.address, expandTo18Decimals(1000), { gasLimit: 9999999 })
+      const checkpointBlock = (await latestBlock(provider)).number
+      expect((await govVote.observations(POOL_ID)).timestamp).to.eq((await latestBlock(provider)).timestamp)
+      await advanceBlock(provider)
+
+      // The votes only grow by the swap fees the round trip paid into the pair
+      const rate = await govVote.getPriorRate(POOL_ID, snapshotBlock)
+      const pumpedRate = await govVote.getPriorRate(POOL_ID, checkpointBlock)
+      expect(pumpedRate).to.gte(rate)
+      expect(pumpedRate).to.lt(rate.mul(1005).div(1000))
+      const pumped = await govVote.priorVotesBreakdown(alice.address, checkpointBlock)
+      expect(pumped.lp).to.gte(prior.lp)
+      expect(pumped.lp).to.lt(prior.lp.mul(1005).div(1000))
+      expect((await govVote.priorVotesBreakdown(alice.address, snapshotBlock)).lp).to.eq(prior.lp)
+    })
+
+    it('should pin the counted pools & weights to the snapshot block', async () => {
+      const prior = await govVote.priorVotesBreakdown(alice.address, snapshotBlock)
+      expect(prior.lp).to.gt(0)
+
+      await govVote.setWeights(0, 0, 0, 0)
+      await govVote.removePool(POOL_ID)
+      const removedBlock = (await latestBlock(provider)).number
+      await advanceBlock(provider)
+
+      expect(await govVote.priorVotesBreakdown(alice.address, snapshotBlock)).to.deep.eq(prior)
+      const removed = await govVote.priorVotesBreakdown(alice.address, removedBlock)
+      for (const component of [removed.lp, removed.pitPower, removed.locked, removed.unlocked]) {
+        expect(component).to.eq(0)
+      }
+
+      // A counted pool again counts from the block it was added back in
+      await govVote.setWeights(10000, 0, 0, 0)
+      await govVote.addPool(POOL_ID)
+      const addedBlock = (await latestBlock(provider)).number
+      await advanceBlock(provider)
+      expect((await govVote.priorVotesBreakdown(alice.address, removedBlock)).lp).to.eq(0)
+      expect((await govVote.priorVotesBreakdown(alice.address, addedBlock)).lp).to.eq(prior.lp.div(MULTIPLIERS.lpStaking))
+    })
+  })
 })
@@ -0,0 +1,365 @@
+import chai, { expect } from 'chai'
+import { Wallet } from 'ethers'
+import { BigNumber, bigNumberify, defaultAbiCoder, keccak256, solidityPack, toUtf8Bytes } from 'ethers/utils'
+import { solidity, MockProvider, createFixtureLoader, deployContract } from 'ethereum-waffle'
+import { ecsign } from 'ethereumjs-util'
+
+import { expandTo18Decimals } from './shared/utilities'
+import { increaseTime, mineTo } from './shared/time'
+import { Fixture, protocolFixture } from './shared/fixtures'
+
+import {
+  GovernanceToken,
+  GovernanceVote,
+  GovernorAlpha,
+  governorProposalActions,
+  MasterBreeder,
+  ProposalAction,
+  Timelock
+} from '../sdk'
+
+import TimelockArtifact from '../build/Timelock.json'
+import GovernorAlphaArtifact from '../build/GovernorAlpha.json'
+
+chai.use(solidity)
+
+const DELAY = 2 * 24 * 60 * 60
+const QUORUM_VOTES = expandTo18Decimals(2500)
+const PROPOSAL_THRESHOLD = expandTo18Decimals(1000)
+const VOTING_DELAY = 1
+const VOTING_PERIOD = 10
+const NEW_REWARD_PER_BLOCK = expandTo18Decimals(3)
+
+interface GovernanceFixture {
+  govToken: GovernanceToken
+  breeder: MasterBreeder
+  govVote: GovernanceVote
+  timelock: Timelock
+  governor: GovernorAlpha
+}
+
+// Protocol owned by a Timelock whose admin is a GovernorAlpha reading delegated governance token votes,
+// bob holds 3000 votes, carol exactly the proposal threshold & alice everything she kept from the fixture plus 6000
+const governanceFixture: Fixture<GovernanceFixture> = async (provider, wallets) => {
+  const [alice, bob, carol] = wallets
+  const { govToken, breeder, govVote } = await protocolFixture({
+    pools: [{ allocPoint: 100, pair: 'WETH' }],
+    governanceVote: true,
+    transferOwnership: false
+  })(provider, wallets)
+
+  await govToken.mint(alice.address, expandTo18Decimals(6000))
+  await govToken.mint(bob.address, expandTo18Decimals(3000))
+  await govToken.mint(carol.address, PROPOSAL_THRESHOLD)
+  await govToken.transferOwnership(breeder.address)
+  for (const wallet of [alice, bob, carol]) {
+    await govToken.connect(wallet).delegate(wallet.address)
+  }
+
+  const timelock = new Timelock((await deployContract(alice, TimelockArtifact, [alice.address, DELAY])).address, alice)
+  const governor = new GovernorAlpha(
+    (
+      await deployContract(
+        alice,
+        GovernorAlphaArtifact,
+        [
+          timelock.address,
+          govToken.address,
+          alice.address,
+          QUORUM_VOTES,
+          PROPOSAL_THRESHOLD,
+          VOTING_DELAY,
+          VOTING_PERIOD
+        ],
+        { gasLimit: 9999999 }
+      )
+    ).address,
+    alice
+  )
+  await timelock.setPendingAdmin(governor.address)
+  await governor.__acceptAdmin()
+  await breeder.transferOwnership(timelock.address)
+
+  return { govToken, breeder, govVote: govVote!, timelock, governor }
+}
+
+describe('GovernorAlpha', () => {
+  const provider = new MockProvider({
+    hardfork: 'istanbul',
+    mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
+    gasLimit: 19999999
+  })
+  const wallets = provider.getWallets()
+  const [alice, bob, carol] = wallets
+  const loadFixture = createFixtureLoader(provider, wallets)
+
+  let govToken: GovernanceToken
+  let breeder: MasterBreeder
+  let govVote: GovernanceVote
+  let timelock: Timelock
+  let governor: GovernorAlpha
+
+  async function propose(
+    proposer: Wallet,
+    actions: ProposalAction[] = [{ type: 'rewardUpdate', rewardPerBlock: NEW_REWARD_PER_BLOCK }]
+  ): Promise<BigNumber> {
+    await governor
+      .connect(proposer)
+      .propose(governorProposalActions(timelock, actions, { breeder, governor }), 'Proposal', { gasLimit: 9999999 })
+    return governor.latestProposalIds(proposer.address)
+  }
+
+  // Mines up to the proposal's start block, casts the votes & mines past the end of the voting period
+  async function vote(proposalId: BigNumber, votes: [Wallet, boolean][]): Promise<void> {
+    const { startBlock, endBlock } = await governor.proposals(proposalId)
+    await mineTo(provider, startBlock)
+    for (const [voter, support] of votes) {
+      await governor.connect(voter).castVote(proposalId, support)
+    }
+    await mineTo(provider, endBlock.add(1))
+  }
+
+  async function queueAndExecute(proposalId: BigNumber): Promise<void> {
+    await governor.queue(proposalId, { gasLimit: 9999999 })
+    await increaseTime(provider, DELAY)
+    await governor.execute(proposalId, { gasLimit: 9999999 })
+  }
+
+  beforeEach(async function() {
+    this.timeout(0)
+    ;({ govToken, breeder, govVote, timelock, governor } = await loadFixture(governanceFixture))
+  })
+
+  it('should be the admin of the Timelock that owns MasterBreeder', async () => {
+    expect(await timelock.admin()).to.eq(governor.address)
+    expect(await breeder.owner()).to.eq(timelock.address)
+    expect(await governor.timelock()).to.eq(timelock.address)
+    expect(await governor.votingPower()).to.eq(govToken.address)
+    expect(await governor.guardian()).to.eq(alice.address)
+    expect(await governor.quorumVotes()).to.eq(QUORUM_VOTES)
+    expect(await governor.proposalThreshold()).to.eq(PROPOSAL_THRESHOLD)
+  })
+
+  it('should update the MasterBreeder reward through propose, vote, queue & execute', async function() {
+    this.timeout(0)
+    const proposalId = await propose(bob)
+    expect(await governor.state(proposalId)).to.eq('pending')
+    const actions = await governor.getActions(proposalId)
+    expect(actions.targets).to.deep.eq([breeder.address])
+    expect(actions.signatures).to.deep.eq(['rewardUpdate(uint256)'])
+
+    // Calls run against the latest block, the proposal becomes active once the chain is past its start block
+    const { startBlock } = await governor.proposals(proposalId)
+    await mineTo(provider, startBlock.add(1))
+    expect(await governor.state(proposalId)).to.eq('active')
+    await governor.connect(bob).castVote(proposalId, true)
+    await governor.connect(carol).castVote(proposalId, false)
+    const receipt = await governor.getReceipt(proposalId, bob.address)
+    expect(receipt.hasVoted).to.be.true
+    expect(receipt.support).to.be.true
+    expect(receipt.votes).to.eq(expandTo18Decimals(3000))
+
+    await mineTo(provider, (await governor.proposals(proposalId)).endBlock.add(1))
+    expect(await governor.state(proposalId)).to.eq('succeeded')
+    await expect(governor.execute(proposalId, { gasLimit: 9999999 })).to.be.revertedWith(
+      'GovernorAlpha::execute: proposal can only be executed if it is queued'
+    )
+
+    await governor.queue(proposalId, { gasLimit: 9999999 })
+    expect(await governor.state(proposalId)).to.eq('queued')
+    await expect(governor.execute(proposalId, { gasLimit: 9999999 })).to.be.revertedWith(
+      "Timelock::executeTransaction: Transaction hasn't surpassed time lock."
+    )
+
+    await increaseTime(provider, DELAY)
+    await governor.execute(proposalId, { gasLimit: 9999999 })
+    expect(await governor.state(proposalId)).to.eq('executed')
+    expect(await breeder.REWARD_PER_BLOCK()).to.eq(NEW_REWARD_PER_BLOCK)
+  })
+
+  it('should defeat proposals below the quorum or without a majority', async function() {
+    this.timeout(0)
+    const belowQuorum = await propose(bob)
+    await vote(belowQuorum, [[carol, true]])
+    expect(await governor.state(belowQuorum)).to.eq('defeated')
+
+    // Another proposal of bob's is allowed once the previous one isn't pending or active anymore
+    const withoutMajority = await propose(bob)
+    await vote(withoutMajority, [
+      [bob, true],
+      [alice, false]
+    ])
+    expect(await governor.state(withoutMajority)).to.eq('defeated')
+    await expect(governor.queue(withoutMajority)).to.be.revertedWith(
+      'GovernorAlpha::queue: proposal can only be queued if it is succeeded'
+    )
+  })
+
+  it('should only accept proposals from accounts above the threshold, one at a time', async () => {
+    await expect(propose(carol)).to.be.revertedWith('GovernorAlpha::propose: proposer votes below proposal threshold')
+    await expect(
+      governor.connect(bob).propose({ targets: [], values: [], signatures: [], calldatas: [] }, 'Empty')
+    ).to.be.revertedWith('GovernorAlpha::propose: must provide actions')
+    await expect(
+      governor
+        .connect(bob)
+        .propose({ targets: [breeder.address], values: [], signatures: [], calldatas: [] }, 'Mismatch')
+    ).to.be.revertedWith('GovernorAlpha::propose: proposal function information arity mismatch')
+
+    await propose(bob)
+    await expect(propose(bob)).to.be.revertedWith(
+      'GovernorAlpha::propose: one live proposal per proposer, found an already pending proposal'
+    )
+  })
+
+  it('should count votes as of the start block & only once', async function() {
+    this.timeout(0)
+    const proposalId = await propose(bob)
+    await expect(governor.connect(bob).castVote(proposalId, true)).to.be.revertedWith(
+      'GovernorAlpha::_castVote: voting is closed'
+    )
+
+    const { startBlock, endBlock } = await governor.proposals(proposalId)
+    await mineTo(provider, startBlock)
+    // Votes received after the start block don't count
+    await govToken.connect(bob).transfer(carol.address, expandTo18Decimals(3000))
+    await governor.connect(carol).castVote(proposalId, true)
+    expect((await governor.getReceipt(proposalId, carol.address)).votes).to.eq(PROPOSAL_THRESHOLD)
+    await expect(governor.connect(carol).castVote(proposalId, false)).to.be.revertedWith(
+      'GovernorAlpha::_castVote: voter already voted'
+    )
+
+    await mineTo(provider, endBlock.add(1))
+    await expect(governor.connect(bob).castVote(proposalId, true)).to.be.revertedWith(
+      'GovernorAlpha::_castVote: voting is closed'
+    )
+  })
+
+  it('should accept votes signed by the voter', async function() {
+    this.timeout(0)
+    const proposalId = await propose(bob)
+    await mineTo(provider, (await governor.proposals(proposalId)).startBlock)
+
+    // ganache-core's CHAINID opcode returns 1 whatever the provider's network id is
+    const chainId = 1
+    const domainSeparator = keccak256(
+      defaultAbiCoder.encode(
+        ['bytes32', 'bytes32', 'uint256', 'address'],
+        [
+          keccak256(toUtf8Bytes('EIP712Domain(string name,uint256 chainId,address verifyingContract)')),
+          keccak256(toUtf8Bytes(await governor.name())),
+          chainId,
+          governor.address
+        ]
+      )
+    )
+    const structHash = keccak256(
+      defaultAbiCoder.encode(
+        ['bytes32', 'uint256', 'bool'],
+        [keccak256(toUtf8Bytes('Ballot(uint256 proposalId,bool support)')), proposalId, true]
+      )
+    )
+    const digest = keccak256(solidityPack(['bytes2', 'bytes32', 'bytes32'], ['0x1901', domainSeparator, structHash]))
+    const { v, r, s } = ecsign(Buffer.from(digest.slice(2), 'hex'), Buffer.from(bob.privateKey.slice(2), 'hex'))
+
+    // Anyone can relay the signed vote, it's counted for the signer
+    await governor
+      .connect(carol)
+      .castVoteBySig(proposalId, true, v, '0x' + r.toString('hex'), '0x' + s.toString('hex'), { gasLimit: 9999999 })
+    const receipt = await governor.getReceipt(proposalId, bob.address)
+    expect(receipt.hasVoted).to.be.true
+    expect(receipt.votes).to.eq(expandTo18Decimals(3000))
+    expect((await governor.getReceipt(proposalId, carol.address)).hasVoted).to.be.false
+  })
+
+  it('should let the guardian cancel any proposal & anyone cancel proposers below the threshold', async function() {
+    this.timeout(0)
+    const queued = await propose(bob)
+    await vote(queued, [
+      [bob, true],
+      [alice, true]
+    ])
+    await governor.queue(queued, { gasLimit: 9999999 })
+    await expect(governor.connect(carol).cancel(queued)).to.be.revertedWith(
+      'GovernorAlpha::cancel: proposer above threshold'
+    )
+    await governor.cancel(queued, { gasLimit: 9999999 })
+    expect(await governor.state(queued)).to.eq('canceled')
+    await increaseTime(provider, DELAY)
+    await expect(governor.execute(queued)).to.be.revertedWith(
+      'GovernorAlpha::execute: proposal can only be executed if it is queued'
+    )
+
+    const pending = await propose(bob)
+    await govToken.connect(bob).transfer(alice.address, expandTo18Decimals(2500))
+    await governor.connect(carol).cancel(pending, { gasLimit: 9999999 })
+    expect(await governor.state(pending)).to.eq('canceled')
+    expect(await breeder.REWARD_PER_BLOCK()).to.not.eq(NEW_REWARD_PER_BLOCK)
+  })
+
+  it('should only change its settings through the Timelock', async () => {
+    await expect(governor.setVotingPower(govVote.address)).to.be.revertedWith(
+      'GovernorAlpha::setVotingPower: Call must come from Timelock.'
+    )
+    await expect(governor.setQuorumVotes(0)).to.be.revertedWith(
+      'GovernorAlpha::setQuorumVotes: Call must come from Timelock.'
+    )
+    await expect(governor.setProposalThreshold(0)).to.be.revertedWith(
+      'GovernorAlpha::setProposalThreshold: Call must come from Timelock.'
+    )
+  })
+
+  it('should switch its voting power to GovernanceVote through governance', async function() {
+    this.timeout(0)
+    const proposalId = await propose(bob, [
+      { type: 'setVotingPower', votingPower: govVote.address },
+      { type: 'setQuorumVotes', quorumVotes: expandTo18Decimals(1000) }
+    ])
+    await vote(proposalId, [
+      [bob, true],
+      [alice, true]
+    ])
+    await queueAndExecute(proposalId)
+    expect(await governor.votingPower()).to.eq(govVote.address)
+    expect(await governor.quorumVotes()).to.eq(expandTo18Decimals(1000))
+
+    // GovernanceVote only counts a quarter of bob's delegated votes, which is below the proposal threshold
+    await expect(propose(bob)).to.be.revertedWith('GovernorAlpha::propose: proposer votes below proposal threshold')
+
+    const nextId = await propose(alice)
+    const { startBlock } = await governor.proposals(nextId)
+    await mineTo(provider, startBlock)
+    await governor.castVote(nextId, true)
+    const votes = await govVote.getPriorVotes(alice.address, startBlock)
+    expect(votes).to.be.gt(0)
+    expect((await governor.getReceipt(nextId, alice.address)).votes).to.eq(votes)
+    expect(votes).to.eq(
+      (await govToken.getPriorVotes(alice.address, startBlock)).mul(await govVote.unlockedWeight()).div(10000)
+    )
+    expect(bigNumberify(await governor.proposalCount())).to.eq(nextId)
+  })
+
+  it('should decide proposals with the quorum & voting power they were created with', async function() {
+    this.timeout(0)
+    const proposalId = await propose(bob, [
+      { type: 'setVotingPower', votingPower: govVote.address },
+      { type: 'setQuorumVotes', quorumVotes: expandTo18Decimals(1000) }
+    ])
+    await vote(proposalId, [
+      [bob, true],
+      [alice, true]
+    ])
+
+    // Carol's votes reach the new quorum but not the one alice's proposal was created with
+    const inFlight = await propose(alice)
+    await vote(inFlight, [[carol, true]])
+    await queueAndExecute(proposalId)
+    expect(await governor.quorumVotes()).to.eq(expandTo18Decimals(1000))
+    expect(await governor.state(inFlight)).to.eq('defeated')
+
+    const { quorumVotes, votingPower } = await governor.proposals(inFlight)
+    expect(quorumVotes).to.eq(QUORUM_VOTES)
+    expect(votingPower).to.eq(govToken.address)
+    expect((await governor.getReceipt(inFlight, carol.address)).votes).to.eq(PROPOSAL_THRESHOLD)
+  })
+})
@@ -1,33 +1,95 @@
 import chai, { expect } from 'chai'
 import { Contract } from 'ethers'
+import { ContractTransaction } from 'ethers/contract'
 import { solidity, MockProvider, deployContract } from 'ethereum-waffle'
 
 import { expandTo18Decimals } from '../shared/utilities'
 
 import { deployMasterBreeder, deployGovernanceToken } from '../shared/deploy'
 
+import { GOVERNANCE_TOKEN_ROLES, GovernanceToken, MASTER_BREEDER_ROLES, MasterBreeder, Role, ROLES } from '../../sdk'
+
+import ERC20Mock from '../../build/ERC20Mock.json'
+
 chai.use(solidity)
 
 const REWARDS_PER_BLOCK = expandTo18Decimals(1000)
 const REWARDS_START_BLOCK = 0
 const HALVING_AFTER_BLOCK_COUNT = 45360
 
+const MISSING_ROLE = 'Authorizable: caller is missing role'
+
+type RoleCall<T> = [string, (contract: T) => Promise<ContractTransaction>]
+
 describe('MasterBreeder::Authorization', () => {
   const provider = new MockProvider({
     hardfork: 'istanbul',
     mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
-    gasLimit: 9999999
+    gasLimit: 19999999
   })
   const wallets = provider.getWallets()
   const [alice, bob, carol, minter, dev, liquidityFund, communityFund, founderFund] = wallets
 
-  let govToken: Contract
-  let breeder: Contract
-  
+  let govToken: GovernanceToken
+  let breeder: MasterBreeder
+  let lpToken: Contract
+
+  // Every role-guarded function, each call is made at most once per test
+  const breederCalls: Record<Role, RoleCall<MasterBreeder>[]> = {
+    feeManager: [
+      ['setFeeTiers', breeder => breeder.setFeeTiers([{ minBlockDelta: 0, userBps: 9000, devBps: 1000 }])],
+      ['setUserDepFee', breeder => breeder.setUserDepFee(100)],
+      ['setDevDepFee', breeder => breeder.setDevDepFee(9900)],
+      ['reviseWithdraw', breeder => breeder.reviseWithdraw(0, carol.address, 1)],
+      ['reviseDeposit', breeder => breeder.reviseDeposit(0, carol.address, 1)]
+    ],
+    emissionsManager: [
+      ['bonusFinishUpdate', breeder => breeder.bonusFinishUpdate(1000)],
+      ['rewardMulUpdate', breeder => breeder.rewardMulUpdate([8, 4, 2, 1])],
+      ['halvingUpdate', breeder => breeder.halvingUpdate([1000, 2000, 3000, 4000])],
+      ['rewardUpdate', breeder => breeder.rewardUpdate(expandTo18Decimals(500))],
+      ['lockUpdate', breeder => breeder.lockUpdate(80)],
+      ['lockdevUpdate', breeder => breeder.lockdevUpdate(5)],
+      ['locklpUpdate', breeder => breeder.locklpUpdate(5)],
+      ['lockcomUpdate', breeder => breeder.lockcomUpdate(5)],
+      ['lockfounderUpdate', breeder => breeder.lockfounderUpdate(5)],
+      ['starblockUpdate', breeder => breeder.starblockUpdate(10)],
+      ['setReferralBps', breeder => breeder.setReferralBps(500)]
+    ],
+    poolManager: [
+      ['add', breeder => breeder.add(100, lpToken.address, false)],
+      ['set', breeder => breeder.set(0, 200, false)]
+    ],
+    treasuryManager: [
+      ['dev', breeder => breeder.dev(carol.address)],
+      ['lpUpdate', breeder => breeder.lpUpdate(carol.address)],
+      ['comUpdate', breeder => breeder.comUpdate(carol.address)],
+      ['founderUpdate', breeder => breeder.founderUpdate(carol.address)],
+      ['setFeeRecipients', breeder => breeder.setFeeRecipients([{ recipient: carol.address, bps: 1000 }])]
+    ]
+  }
+
+  const tokenCalls: Record<Role, RoleCall<GovernanceToken>[]> = {
+    feeManager: [],
+    emissionsManager: [
+      ['capUpdate', token => token.capUpdate(expandTo18Decimals(1000000))],
+      ['lockFromUpdate', token => token.lockFromUpdate(10)],
+      ['lockToUpdate', token => token.lockToUpdate(20)]
+    ],
+    poolManager: [],
+    treasuryManager: [['manualMint', token => token.manualMint(carol.address, 1)]]
+  }
+
   beforeEach(async () => {
     govToken = await deployGovernanceToken(alice)
     // 1000 VIPER per block, rewards start at block 0, rewards are halved after every 45360 blocks
     breeder = await deployMasterBreeder(wallets, govToken, REWARDS_PER_BLOCK, REWARDS_START_BLOCK, HALVING_AFTER_BLOCK_COUNT)
+    const lpTokens = []
+    for (let i = 0; i < 2; i++) {
+      lpTokens.push(await deployContract(minter, ERC20Mock, ['LPToken', 'LP', expandTo18Decimals(1000000)]))
+    }
+    await breeder.add(100, lpTokens[0].address, true)
+    lpToken = lpTokens[1]
   })
 
   it("should allow the owner to reclaim ownership of the Viper token", async function () {
@@ -38,86 +100,128 @@ describe('MasterBreeder::Authorization', () => {
     await expect(breeder.reclaimTokenOwnership(alice.address))
       .to.emit(govToken, 'OwnershipTransferred')
       .withArgs(breeder.address, alice.address)
-    
+
     expect(await govToken.owner()).to.be.equal(alice.address)
   })
 
-  it("should allow authorized users to reclaim ownership of the Viper token", async function () {
-    await breeder.addAuthorized(bob.address)
-
+  it("role members shouldn't be able to reclaim ownership of the token back from MasterChef", async function () {
     expect(await govToken.transferOwnership(breeder.address))
-
     expect(await govToken.owner()).to.be.equal(breeder.address)
 
-    await expect(breeder.connect(bob).reclaimTokenOwnership(bob.address))
-      .to.emit(govToken, 'OwnershipTransferred')
-      .withArgs(breeder.address, bob.address)
-    
-    expect(await govToken.owner()).to.be.equal(bob.address)
-  })
-
-  it("unauthorized users shouldn't be able to reclaim ownership of the token back from MasterChef", async function () {
-    expect(await govToken.transferOwnership(breeder.address))
-    expect(await govToken.owner()).to.be.equal(breeder.address)
+    await expect(breeder.connect(bob).reclaimTokenOwnership(bob.address)).to.be.revertedWith('Ownable: caller is not the owner')
+    for (const role of MASTER_BREEDER_ROLES) {
+      await breeder.grantRole(role, bob.address)
+    }
+    await expect(breeder.connect(bob).reclaimTokenOwnership(bob.address)).to.be.revertedWith('Ownable: caller is not the owner')
 
-    await expect(breeder.connect(bob).reclaimTokenOwnership(bob.address)).to.be.reverted
-    
     expect(await govToken.owner()).to.be.equal(breeder.address)
   })
 
-  it("should allow only authorized users to update the developer rewards address", async function () {
+  it("should allow only treasury managers to update the developer rewards address", async function () {
     expect(await breeder.devaddr()).to.equal(dev.address)
 
-    await expect(breeder.connect(bob).dev(bob.address)).to.be.reverted
+    await expect(breeder.connect(bob).dev(bob.address)).to.be.revertedWith(MISSING_ROLE)
 
-    await breeder.addAuthorized(dev.address)
+    await breeder.grantRole('treasuryManager', dev.address)
     await breeder.connect(dev).dev(bob.address)
     expect(await breeder.devaddr()).to.equal(bob.address)
 
-    await breeder.addAuthorized(bob.address)
+    await breeder.grantRole('treasuryManager', bob.address)
     await breeder.connect(bob).dev(alice.address)
     expect(await breeder.devaddr()).to.equal(alice.address)
   })
 
-  it("should allow only authorized users to update the liquidity provider rewards address", async function () {
+  it("should allow only treasury managers to update the fund addresses", async function () {
     expect(await breeder.liquidityaddr()).to.equal(liquidityFund.address)
-
-    await expect(breeder.connect(bob).lpUpdate(bob.address)).to.be.reverted
-
-    await breeder.addAuthorized(liquidityFund.address)
-    await breeder.connect(liquidityFund).lpUpdate(bob.address)
-    expect(await breeder.liquidityaddr()).to.equal(bob.address)
-
-    await breeder.addAuthorized(bob.address)
-    await breeder.connect(bob).lpUpdate(alice.address)
-    expect(await breeder.liquidityaddr()).to.equal(alice.address)
-  })
-
-  it("should allow only authorized users to update the community fund rewards address", async function () {
     expect(await breeder.comfundaddr()).to.equal(communityFund.address)
+    expect(await breeder.founderaddr()).to.equal(founderFund.address)
 
-    await expect(breeder.connect(bob).comUpdate(bob.address)).to.be.reverted
-
-    await breeder.addAuthorized(communityFund.address)
-    await breeder.connect(communityFund).comUpdate(bob.address)
-    expect(await breeder.comfundaddr()).to.equal(bob.address)
+    await expect(breeder.connect(bob).lpUpdate(bob.address)).to.be.revertedWith(MISSING_ROLE)
+    await expect(breeder.connect(bob).comUpdate(bob.address)).to.be.revertedWith(MISSING_ROLE)
+    await expect(breeder.connect(bob).founderUpdate(bob.address)).to.be.revertedWith(MISSING_ROLE)
 
-    await breeder.addAuthorized(bob.address)
+    await breeder.grantRole('treasuryManager', bob.address)
+    await breeder.connect(bob).lpUpdate(alice.address)
     await breeder.connect(bob).comUpdate(alice.address)
+    await breeder.connect(bob).founderUpdate(alice.address)
+    expect(await breeder.liquidityaddr()).to.equal(alice.address)
     expect(await breeder.comfundaddr()).to.equal(alice.address)
+    expect(await breeder.founderaddr()).to.equal(alice.address)
   })
 
-  it("should allow only authorized users to update the founder rewards address", async function () {
-    expect(await breeder.founderaddr()).to.equal(founderFund.address)
-
-    await expect(breeder.connect(bob).founderUpdate(bob.address)).to.be.reverted
+  it("should let the owner call every role's functions", async function () {
+    for (const role of MASTER_BREEDER_ROLES) {
+      for (const [, call] of breederCalls[role]) {
+        await call(breeder)
+      }
+    }
+    for (const role of GOVERNANCE_TOKEN_ROLES) {
+      for (const [, call] of tokenCalls[role]) {
+        await call(govToken)
+      }
+    }
+  })
 
-    await breeder.addAuthorized(founderFund.address)
-    await breeder.connect(founderFund).founderUpdate(bob.address)
-    expect(await breeder.founderaddr()).to.equal(bob.address)
+  for (const role of MASTER_BREEDER_ROLES) {
+    it(`should only let a ${role} call the MasterBreeder functions of its role`, async function () {
+      await expect(breeder.grantRole(role, bob.address))
+        .to.emit(breeder, 'RoleGranted')
+        .withArgs(ROLES[role], bob.address, alice.address)
+      expect(await breeder.getRoleMembers(role)).to.deep.eq([bob.address])
+
+      for (const otherRole of MASTER_BREEDER_ROLES.filter(other => other !== role)) {
+        for (const [name, call] of breederCalls[otherRole]) {
+          await expect(call(breeder.connect(bob)), `${name} (${otherRole})`).to.be.revertedWith(MISSING_ROLE)
+        }
+      }
+      for (const [name, call] of breederCalls[role]) {
+        await expect(call(breeder.connect(carol)), `${name} without a role`).to.be.revertedWith(MISSING_ROLE)
+        await call(breeder.connect(bob))
+      }
+
+      // Roles are scoped to the contract that granted them
+      for (const [name, call] of tokenCalls[role]) {
+        await expect(call(govToken.connect(bob)), `GovernanceToken.${name}`).to.be.revertedWith(MISSING_ROLE)
+      }
+    })
+  }
+
+  for (const role of GOVERNANCE_TOKEN_ROLES) {
+    it(`should only let a ${role} call the GovernanceToken functions of its role`, async function () {
+      await govToken.grantRole(role, bob.address)
+
+      for (const otherRole of GOVERNANCE_TOKEN_ROLES.filter(other => other !== role)) {
+        for (const [name, call] of tokenCalls[otherRole]) {
+          await expect(call(govToken.connect(bob)), `${name} (${otherRole})`).to.be.revertedWith(MISSING_ROLE)
+        }
+      }
+      for (const [name, call] of tokenCalls[role]) {
+        await expect(call(govToken.connect(carol)), `${name} without a role`).to.be.revertedWith(MISSING_ROLE)
+        await call(govToken.connect(bob))
+      }
+    })
+  }
+
+  it("should take away a role's functions once it's revoked or renounced", async function () {
+    await breeder.grantRole('emissionsManager', bob.address)
+    await breeder.grantRole('feeManager', bob.address)
+    await breeder.connect(bob).rewardUpdate(expandTo18Decimals(500))
+
+    await expect(breeder.revokeRole('emissionsManager', bob.address))
+      .to.emit(breeder, 'RoleRevoked')
+      .withArgs(ROLES.emissionsManager, bob.address, alice.address)
+    await expect(breeder.connect(bob).rewardUpdate(expandTo18Decimals(400))).to.be.revertedWith(MISSING_ROLE)
+
+    await expect(breeder.connect(bob).renounceRole('feeManager'))
+      .to.emit(breeder, 'RoleRevoked')
+      .withArgs(ROLES.feeManager, bob.address, bob.address)
+    await expect(breeder.connect(bob).setUserDepFee(100)).to.be.revertedWith(MISSING_ROLE)
+    expect(await breeder.getRoleMembers('feeManager')).to.deep.eq([])
+  })
 
-    await breeder.addAuthorized(bob.address)
-    await breeder.connect(bob).founderUpdate(alice.address)
-    expect(await breeder.founderaddr()).to.equal(alice.address)
+  it("should only let the owner grant & revoke roles", async function () {
+    await breeder.grantRole('poolManager', bob.address)
+    await expect(breeder.connect(bob).grantRole('poolManager', carol.address)).to.be.revertedWith('Ownable: caller is not the owner')
+    await expect(breeder.connect(bob).revokeRole('poolManager', bob.address)).to.be.revertedWith('Ownable: caller is not the owner')
   })
 })
@@ -1,12 +1,12 @@
 import chai, { expect } from 'chai'
 import { utils, Contract } from 'ethers'
-import { solidity, MockProvider, deployContract } from 'ethereum-waffle'
+import { solidity, MockProvider, createFixtureLoader } from 'ethereum-waffle'
 
 import { expandTo18Decimals, advanceBlockTo, humanBalance } from '../shared/utilities'
 
-import { deployMasterBreeder, deployGovernanceToken } from '../shared/deploy'
+import { protocolFixture } from '../shared/fixtures'
 
-import ERC20Mock from '../../build/ERC20Mock.json'
+import { GovernanceToken, MasterBreeder } from '../../sdk'
 
 const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000"
 const debugMessages = false
@@ -19,53 +19,44 @@ describe('MasterBreeder::Fees', () => {
   const provider = new MockProvider({
     hardfork: 'istanbul',
     mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
-    gasLimit: 9999999
+    gasLimit: 19999999
   })
   const wallets = provider.getWallets()
   const [alice, bob, carol, minter, dev, liquidityFund, communityFund, founderFund] = wallets
+  const loadFixture = createFixtureLoader(provider, wallets)
+
+  // 1 VIPER per block farming rate starting at block 100 with the first halvening block starting 1000 blocks after the start block
+  const rewardsPerBlock = 1
+  const rewardsStartAtBlock = 100
+  const fixture = protocolFixture({
+    rewardPerBlock: rewardsPerBlock,
+    startBlock: rewardsStartAtBlock,
+    halvingAfterBlock: 1000,
+    lpTokens: 2,
+    lpBalance: mintAmount
+  })
 
-  let govToken: Contract
+  let govToken: GovernanceToken
+  let breeder: MasterBreeder
   let lp: Contract
   let lp2: Contract
   
   beforeEach(async () => {
-    govToken = await deployGovernanceToken(alice)
-
-    lp = await deployContract(minter, ERC20Mock, ["LPToken", "LP", expandTo18Decimals(1000000)])
-    await lp.transfer(alice.address, mintAmount)
-    await lp.transfer(bob.address, mintAmount)
-    await lp.transfer(carol.address, mintAmount)
-
-    lp2 = await deployContract(minter, ERC20Mock, ["LPToken2", "LP2", expandTo18Decimals(1000000)])
-    await lp2.transfer(alice.address, mintAmount)
-    await lp2.transfer(bob.address, mintAmount)
-    await lp2.transfer(carol.address, mintAmount)
+    ;({ govToken, breeder, lpTokens: [lp, lp2] } = await loadFixture(fixture))
   })
 
   it("should be able to set deposit fees to zero", async function () {
-    // 1 VIPER per block farming rate starting at block 100 with the first halvening block starting 1000 blocks after the start block
-    const rewardsPerBlock = 1
-    const rewardsStartAtBlock = 100
-    const breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(rewardsPerBlock), rewardsStartAtBlock, 1000)
-    await govToken.transferOwnership(breeder.address)
-
     expect(await breeder.userDepFee()).to.equal(75)
     expect(await breeder.devDepFee()).to.equal(9925)
 
-    await breeder.setUserDepFee(0)
     await breeder.setDevDepFee(10000)
+    await breeder.setUserDepFee(0)
 
     expect(await breeder.userDepFee()).to.equal(0)
     expect(await breeder.devDepFee()).to.equal(10000)
   })
 
   it("should charge a deposit fee when deposit fees are set to default values", async function () {
-    // 1 VIPER per block farming rate starting at block 100 with the first halvening block starting 1000 blocks after the start block
-    const rewardsPerBlock = 1
-    const rewardsStartAtBlock = 100
-    const breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(rewardsPerBlock), rewardsStartAtBlock, 1000)
-    await govToken.transferOwnership(breeder.address)
-
     expect(await breeder.userDepFee()).to.equal(75)
     expect(await breeder.devDepFee()).to.equal(9925)
 
@@ -94,17 +85,11 @@ describe('MasterBreeder::Fees', () => {
   })
 
   it("shouldn't charge a deposit fee when deposit fees have been set to zero", async function () {
-    // 1 VIPER per block farming rate starting at block 100 with the first halvening block starting 1000 blocks after the start block
-    const rewardsPerBlock = 1
-    const rewardsStartAtBlock = 100
-    const breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(rewardsPerBlock), rewardsStartAtBlock, 1000)
-    await govToken.transferOwnership(breeder.address)
-
     expect(await breeder.userDepFee()).to.equal(75)
     expect(await breeder.devDepFee()).to.equal(9925)
 
-    await breeder.setUserDepFee(0)
     await breeder.setDevDepFee(10000)
+    await breeder.setUserDepFee(0)
 
     expect(await breeder.userDepFee()).to.equal(0)
     expect(await breeder.devDepFee()).to.equal(10000)
@@ -166,4 +151,19 @@ describe('MasterBreeder::Fees', () => {
     expect(lpBalance).to.eq(mintAmount.sub(expandTo18Decimals(16)))
   })
 
+  it("should account for the whole deposit when the dev's part is below the user's deposit fee", async function () {
+    // The dev gets 0.5% of a deposit, the user's 0.75% fee is capped at it
+    await breeder.setDevDepFee(9950)
+    await breeder.add(rewardsPerBlock, lp.address, true)
+    await lp.connect(bob).approve(breeder.address, mintAmount)
+    await breeder.connect(bob).deposit(0, depositAmount, ZERO_ADDRESS)
+
+    const { amount: staked } = await breeder.userInfo(0, bob.address)
+    const { amount: devStaked } = await breeder.userInfo(0, await breeder.devaddr())
+    expect(devStaked).to.eq(depositAmount.mul(50).div(10000))
+    expect(staked).to.eq(depositAmount.sub(devStaked))
+    // Every LP token MasterBreeder holds is staked for someone
+    expect(staked.add(devStaked)).to.eq(await lp.balanceOf(breeder.address))
+  })
+
 })
@@ -0,0 +1,210 @@
+import chai, { expect } from 'chai'
+import { Contract } from 'ethers'
+import { AddressZero, MaxUint256 } from 'ethers/constants'
+import { BigNumber } from 'ethers/utils'
+import { solidity, MockProvider, createFixtureLoader } from 'ethereum-waffle'
+
+import { expandTo18Decimals, signPermit } from '../shared/utilities'
+import { mineTo } from '../shared/time'
+
+import { protocolFixture } from '../shared/fixtures'
+
+import { calculateWithdrawalFee, fetchFeeTiers, GovernanceToken, MasterBreeder } from '../../sdk'
+
+chai.use(solidity)
+
+const NOT_OPERATOR = 'MasterBreeder: caller is not an operator'
+const PERMIT_FAILED = 'MasterBreeder::depositWithPermit: permit failed'
+
+// Users approve operators to deposit for them & to withdraw or harvest their positions to any address
+describe('MasterBreeder::Operators', () => {
+  const provider = new MockProvider({
+    hardfork: 'istanbul',
+    mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
+    gasLimit: 19999999
+  })
+  const wallets = provider.getWallets()
+  const [alice, bob, carol] = wallets
+  const loadFixture = createFixtureLoader(provider, wallets)
+
+  // Pool 0 stakes the VIPER/WETH pair, whose LP token supports permits. Farming starts at block 100
+  const fixture = protocolFixture({ startBlock: 100, pools: [{ allocPoint: 100, pair: 'WETH' }] })
+
+  let govToken: GovernanceToken
+  let breeder: MasterBreeder
+  let lp: Contract
+
+  beforeEach(async () => {
+    ;({
+      govToken,
+      breeder,
+      lpTokens: [lp]
+    } = await loadFixture(fixture))
+    for (const wallet of [alice, bob]) {
+      await lp.connect(wallet).approve(breeder.address, MaxUint256)
+    }
+  })
+
+  it('should only let operators deposit for a user', async () => {
+    await expect(breeder.depositFor(0, expandTo18Decimals(10), bob.address, alice.address)).to.be.revertedWith(
+      NOT_OPERATOR
+    )
+    await expect(breeder.depositFor(0, expandTo18Decimals(10), AddressZero, AddressZero)).to.be.revertedWith(
+      NOT_OPERATOR
+    )
+
+    await expect(breeder.connect(bob).setOperator(alice.address, true))
+      .to.emit(breeder.contract, 'OperatorSet')
+      .withArgs(bob.address, alice.address, true)
+    expect(await breeder.isOperator(bob.address, alice.address)).to.be.true
+    expect(await breeder.isOperator(alice.address, bob.address)).to.be.false
+
+    // Alice pays, Bob owns the stake & binds his referrer
+    await expect(breeder.depositFor(0, expandTo18Decimals(10), bob.address, bob.address)).to.be.revertedWith(
+      "MasterBreeder::deposit: can't refer yourself"
+    )
+    await expect(breeder.depositFor(0, expandTo18Decimals(100), bob.address, carol.address))
+      .to.emit(breeder.contract, 'Deposit')
+      .withArgs(bob.address, 0, expandTo18Decimals(100))
+      .and.to.emit(breeder.contract, 'ReferrerBound')
+      .withArgs(bob.address, carol.address)
+    expect((await breeder.userInfo(0, bob.address)).amount).to.eq(
+      expandTo18Decimals(100)
+        .mul(9925)
+        .div(10000)
+    )
+    expect((await breeder.userInfo(0, alice.address)).amount).to.eq(0)
+    expect(await breeder.referrerOf(alice.address)).to.eq(AddressZero)
+
+    await breeder.connect(bob).setOperator(alice.address, false)
+    await expect(breeder.depositFor(0, expandTo18Decimals(10), bob.address, AddressZero)).to.be.revertedWith(
+      NOT_OPERATOR
+    )
+  })
+
+  it("should let operators withdraw a user's LP tokens & rewards to any address", async () => {
+    await breeder.connect(bob).deposit(0, expandTo18Decimals(100), AddressZero)
+    await mineTo(provider, 110)
+
+    await expect(breeder.withdrawTo(0, expandTo18Decimals(10), bob.address, alice.address)).to.be.revertedWith(
+      NOT_OPERATOR
+    )
+    await breeder.connect(bob).setOperator(alice.address, true)
+    await expect(breeder.withdrawTo(0, expandTo18Decimals(10), bob.address, AddressZero)).to.be.revertedWith(
+      'MasterBreeder: zero address'
+    )
+
+    // The withdrawal pays the fee of Bob's stake, Carol receives the LP tokens & the rewards
+    const amount = expandTo18Decimals(10)
+    const fee = calculateWithdrawalFee(
+      await fetchFeeTiers(breeder),
+      await breeder.userInfo(0, bob.address),
+      amount,
+      (await provider.getBlockNumber()) + 1
+    )
+    const bobBefore: BigNumber = await lp.balanceOf(bob.address)
+    const receipt = await (await breeder.withdrawTo(0, amount, bob.address, carol.address)).wait()
+    const [withdrawal] = breeder.parseEvents('Withdraw', receipt.logs!)
+    const [reward] = breeder.parseEvents('SendGovernanceTokenReward', receipt.logs!)
+    expect(withdrawal.args.user).to.eq(bob.address)
+    expect(reward.args.user).to.eq(bob.address)
+
+    expect((await breeder.userInfo(0, bob.address)).amount).to.eq(
+      expandTo18Decimals(100)
+        .mul(9925)
+        .div(10000)
+        .sub(amount)
+    )
+    expect(await lp.balanceOf(carol.address)).to.eq(expandTo18Decimals(1000).add(fee.toUser))
+    expect(await lp.balanceOf(bob.address)).to.eq(bobBefore)
+    expect(await govToken.balanceOf(carol.address)).to.eq(reward.args.amount.sub(reward.args.lockAmount))
+    expect(await govToken.lockOf(carol.address)).to.eq(reward.args.lockAmount)
+    expect(await govToken.balanceOf(bob.address)).to.eq(0)
+
+    // Users can withdraw to another address themselves
+    const aliceBefore: BigNumber = await lp.balanceOf(alice.address)
+    await breeder.connect(bob).withdrawTo(0, amount, bob.address, alice.address)
+    expect(await lp.balanceOf(alice.address)).to.be.gt(aliceBefore)
+    expect(await lp.balanceOf(bob.address)).to.eq(bobBefore)
+  })
+
+  it("should let operators harvest a user's rewards to any address", async () => {
+    await breeder.connect(bob).deposit(0, expandTo18Decimals(100), AddressZero)
+    await mineTo(provider, 110)
+
+    await expect(breeder.connect(carol).claimRewardTo(0, bob.address, carol.address)).to.be.revertedWith(NOT_OPERATOR)
+    await breeder.connect(bob).setOperator(carol.address, true)
+    await expect(breeder.connect(carol).claimRewardTo(0, bob.address, AddressZero)).to.be.revertedWith(
+      'MasterBreeder: zero address'
+    )
+
+    const receipt = await (await breeder.connect(carol).claimRewardTo(0, bob.address, carol.address)).wait()
+    const [reward] = breeder.parseEvents('SendGovernanceTokenReward', receipt.logs!)
+    expect(reward.args.user).to.eq(bob.address)
+    expect(reward.args.amount).to.be.gt(0)
+    expect(await govToken.balanceOf(carol.address)).to.eq(reward.args.amount.sub(reward.args.lockAmount))
+    expect(await govToken.lockOf(carol.address)).to.eq(reward.args.lockAmount)
+    expect(await breeder.pendingReward(0, bob.address)).to.eq(0)
+  })
+
+  it('should deposit with a permit instead of an approval', async () => {
+    const amount = expandTo18Decimals(100)
+    const deadline = MaxUint256
+    expect(await lp.allowance(carol.address, breeder.address)).to.eq(0)
+
+    // Bob's signature doesn't permit Carol's tokens
+    const bobPermit = await signPermit(bob, lp, breeder.address, amount, deadline)
+    await expect(
+      breeder.connect(carol).depositWithPermit(0, amount, AddressZero, deadline, bobPermit)
+    ).to.be.revertedWith(PERMIT_FAILED)
+    const expired = (await provider.getBlock('latest')).timestamp - 1
+    await expect(
+      breeder
+        .connect(carol)
+        .depositWithPermit(
+          0,
+          amount,
+          AddressZero,
+          expired,
+          await signPermit(carol, lp, breeder.address, amount, expired)
+        )
+    ).to.be.revertedWith(PERMIT_FAILED)
+
+    await expect(
+      breeder
+        .connect(carol)
+        .depositWithPermit(
+          0,
+          amount,
+          alice.address,
+          deadline,
+          await signPermit(carol, lp, breeder.address, amount, deadline)
+        )
+    )
+      .to.emit(breeder.contract, 'Deposit')
+      .withArgs(carol.address, 0, amount)
+    expect((await breeder.userInfo(0, carol.address)).amount).to.eq(amount.mul(9925).div(10000))
+    expect(await breeder.referrerOf(carol.address)).to.eq(alice.address)
+    expect(await lp.allowance(carol.address, breeder.address)).to.eq(0)
+    expect(await lp.nonces(carol.address)).to.eq(1)
+  })
+  it('should deposit when the permit was front-run', async () => {
+    const amount = expandTo18Decimals(100)
+    const deadline = MaxUint256
+    const permit = await signPermit(carol, lp, breeder.address, amount, deadline)
+
+    // Bob submits Carol's permit from the mempool first, which uses up its nonce
+    await lp.connect(bob).permit(carol.address, breeder.address, amount, deadline, permit.v, permit.r, permit.s)
+    expect(await lp.allowance(carol.address, breeder.address)).to.eq(amount)
+
+    await expect(breeder.connect(carol).depositWithPermit(0, amount, AddressZero, deadline, permit))
+      .to.emit(breeder.contract, 'Deposit')
+      .withArgs(carol.address, 0, amount)
+    expect(await lp.nonces(carol.address)).to.eq(1)
+
+    // A replayed permit doesn't cover another deposit once the allowance is used up
+    await expect(breeder.connect(carol).depositWithPermit(0, amount, AddressZero, deadline, permit)).to.be.revertedWith(
+      PERMIT_FAILED
+    )
+  })
+})
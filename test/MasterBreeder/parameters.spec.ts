@@ -0,0 +1,244 @@
+import chai, { expect } from 'chai'
+import { ContractTransaction } from 'ethers/contract'
+import { AddressZero, MaxUint256 } from 'ethers/constants'
+import { solidity, MockProvider, createFixtureLoader } from 'ethereum-waffle'
+
+import { expandTo18Decimals } from '../shared/utilities'
+
+import { protocolFixture } from '../shared/fixtures'
+
+import { MasterBreeder } from '../../sdk'
+import { arrayLength } from '../../deploy/verify'
+
+chai.use(solidity)
+
+const TIERS = [
+  { minBlockDelta: 0, userBps: 7500, devBps: 2500 },
+  { minBlockDelta: 10, userBps: 9500, devBps: 500 },
+  { minBlockDelta: 100, userBps: 10000, devBps: 0 }
+]
+
+describe('MasterBreeder::Parameters', () => {
+  const provider = new MockProvider({
+    hardfork: 'istanbul',
+    mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
+    gasLimit: 19999999
+  })
+  const wallets = provider.getWallets()
+  const [, bob, carol] = wallets
+  const loadFixture = createFixtureLoader(provider, wallets)
+
+  const fixture = protocolFixture()
+
+  let breeder: MasterBreeder
+
+  // [parameter, values] of every ParameterUpdated event emitted by the transaction
+  async function updates(tx: Promise<ContractTransaction>): Promise<[string, string[]][]> {
+    const receipt = await (await tx).wait()
+    return breeder
+      .parseEvents('ParameterUpdated', receipt.logs!)
+      .map(({ args }) => [args.parameter, args.values.map(String)] as [string, string[]])
+  }
+
+  // [parameter, value] of every AddressUpdated event emitted by the transaction
+  async function addressUpdates(tx: Promise<ContractTransaction>): Promise<[string, string][]> {
+    const receipt = await (await tx).wait()
+    return breeder
+      .parseEvents('AddressUpdated', receipt.logs!)
+      .map(({ args }) => [args.parameter, args.value] as [string, string])
+  }
+
+  beforeEach(async () => {
+    ;({ breeder } = await loadFixture(fixture))
+  })
+
+  it('should emit ParameterUpdated with the new values on every change', async function() {
+    this.timeout(0)
+    const halvings = [2000, 3000, 4000]
+    const changes: [() => Promise<ContractTransaction>, string, number[]][] = [
+      [() => breeder.rewardUpdate(5), 'REWARD_PER_BLOCK', [5]],
+      [() => breeder.rewardMulUpdate([4, 2, 1]), 'REWARD_MULTIPLIER', [4, 2, 1]],
+      [() => breeder.halvingUpdate(halvings), 'HALVING_AT_BLOCK', halvings],
+      [() => breeder.bonusFinishUpdate(1500), 'FINISH_BONUS_AT_BLOCK', [1500]],
+      [() => breeder.starblockUpdate(150), 'START_BLOCK', [150]],
+      [() => breeder.lockUpdate(80), 'PERCENT_LOCK_BONUS_REWARD', [80]],
+      [() => breeder.lockdevUpdate(7), 'PERCENT_FOR_DEV', [7]],
+      [() => breeder.locklpUpdate(5), 'PERCENT_FOR_LP', [5]],
+      [() => breeder.lockcomUpdate(5), 'PERCENT_FOR_COM', [5]],
+      [() => breeder.lockfounderUpdate(3), 'PERCENT_FOR_FOUNDERS', [3]],
+      [() => breeder.setReferralBps(250), 'referralBps', [250]],
+      [() => breeder.setFeeTiers(TIERS), 'feeTiers', [0, 7500, 2500, 10, 9500, 500, 100, 10000, 0]],
+      [() => breeder.setDevDepFee(9950), 'devDepFee', [9950]],
+      [() => breeder.setUserDepFee(50), 'userDepFee', [50]]
+    ]
+    for (const [tx, parameter, values] of changes) {
+      expect(await updates(tx())).to.deep.eq([[parameter, values.map(String)]])
+    }
+
+    expect(await breeder.REWARD_PER_BLOCK()).to.eq(5)
+    expect(await breeder.HALVING_AT_BLOCK(2)).to.eq(4000)
+    expect(await breeder.START_BLOCK()).to.eq(150)
+    expect(await breeder.feeTierCount()).to.eq(3)
+    expect(await breeder.devDepFee()).to.eq(9950)
+  })
+
+  it('should emit the deposit fees & dev address it was deployed with', async function() {
+    const logs = await provider.getLogs({ address: breeder.address, fromBlock: 0, toBlock: 'latest' })
+    const deployment = logs.filter(log => log.transactionHash === logs[0].transactionHash)
+    expect(
+      breeder.parseEvents('ParameterUpdated', deployment).map(({ args }) => [args.parameter, args.values.map(String)])
+    ).to.deep.eq([
+      ['userDepFee', [(await breeder.userDepFee()).toString()]],
+      ['devDepFee', [(await breeder.devDepFee()).toString()]]
+    ])
+    expect(
+      breeder.parseEvents('AddressUpdated', deployment).map(({ args }) => [args.parameter, args.value])
+    ).to.deep.eq([['devaddr', await breeder.devaddr()]])
+  })
+
+  it('should emit AddressUpdated & reject the zero address for the fund addresses', async function() {
+    this.timeout(0)
+    const changes: [(address: string) => Promise<ContractTransaction>, string, () => Promise<string>][] = [
+      [address => breeder.dev(address), 'devaddr', () => breeder.devaddr()],
+      [address => breeder.lpUpdate(address), 'liquidityaddr', () => breeder.liquidityaddr()],
+      [address => breeder.comUpdate(address), 'comfundaddr', () => breeder.comfundaddr()],
+      [address => breeder.founderUpdate(address), 'founderaddr', () => breeder.founderaddr()]
+    ]
+    for (const [update, parameter, read] of changes) {
+      await expect(update(AddressZero)).to.be.revertedWith('MasterBreeder: zero address')
+      expect(await addressUpdates(update(carol.address))).to.deep.eq([[parameter, carol.address]])
+      expect(await read()).to.eq(carol.address)
+    }
+  })
+
+  it('should emit UserBlockRevised & reject future blocks when revising withdrawal & deposit blocks', async () => {
+    const next = (await provider.getBlockNumber()) + 1
+    await expect(breeder.reviseWithdraw(0, bob.address, next + 1)).to.be.revertedWith(
+      'MasterBreeder: revised block in the future'
+    )
+    await expect(breeder.reviseDeposit(0, bob.address, next + 2)).to.be.revertedWith(
+      'MasterBreeder: revised block in the future'
+    )
+
+    const current = (await provider.getBlockNumber()) + 1
+    await expect(breeder.reviseWithdraw(0, bob.address, current))
+      .to.emit(breeder.contract, 'UserBlockRevised')
+      .withArgs(0, bob.address, 'lastWithdrawBlock', current)
+    await expect(breeder.reviseDeposit(0, bob.address, 1))
+      .to.emit(breeder.contract, 'UserBlockRevised')
+      .withArgs(0, bob.address, 'firstDepositBlock', 1)
+    const user = await breeder.userInfo(0, bob.address)
+    expect(user.lastWithdrawBlock).to.eq(current)
+    expect(user.firstDepositBlock).to.eq(1)
+  })
+
+  it('should cap the reward per block', async () => {
+    const max = await breeder.MAX_REWARD_PER_BLOCK()
+    expect(max).to.eq(expandTo18Decimals(10000))
+    await expect(breeder.rewardUpdate(max.add(1))).to.be.revertedWith('MasterBreeder::rewardUpdate: reward too high')
+    await breeder.rewardUpdate(max)
+    expect(await breeder.REWARD_PER_BLOCK()).to.eq(max)
+    await breeder.rewardUpdate(0)
+  })
+
+  it('should keep lock & fund percentages within 100%', async () => {
+    await expect(breeder.lockUpdate(101)).to.be.revertedWith('MasterBreeder::lockUpdate: lock above 100%')
+    await breeder.lockUpdate(100)
+
+    // The fixture splits 6% to dev, 4% to LP, 6% to the community & 4% to founders
+    await expect(breeder.lockdevUpdate(87)).to.be.revertedWith('MasterBreeder: fund percentages above 100%')
+    await expect(breeder.locklpUpdate(200)).to.be.revertedWith('MasterBreeder: fund percentages above 100%')
+    await breeder.lockdevUpdate(86)
+    await expect(breeder.lockcomUpdate(7)).to.be.revertedWith('MasterBreeder: fund percentages above 100%')
+    await breeder.lockcomUpdate(0)
+    await breeder.lockfounderUpdate(10)
+    expect(await breeder.PERCENT_FOR_FOUNDERS()).to.eq(10)
+  })
+
+  it('should reject fee tiers that leave block deltas uncovered or LP tokens behind', async () => {
+    const invalid: [typeof TIERS, string][] = [
+      [[], 'MasterBreeder: needs 1 to 16 fee tiers'],
+      [
+        Array(17)
+          .fill(TIERS[0])
+          .map((tier, i) => ({ ...tier, minBlockDelta: i })),
+        'MasterBreeder: needs 1 to 16 fee tiers'
+      ],
+      [TIERS.slice(1), 'MasterBreeder: fee tiers must start at 0 & increase'],
+      [[TIERS[0], TIERS[2], TIERS[1]], 'MasterBreeder: fee tiers must start at 0 & increase'],
+      [[TIERS[0], { ...TIERS[1], minBlockDelta: 0 }], 'MasterBreeder: fee tiers must start at 0 & increase'],
+      [[TIERS[0], { ...TIERS[1], devBps: 499 }], "MasterBreeder: fee tier doesn't add up to 100%"],
+      [[{ ...TIERS[0], userBps: 7501 }], "MasterBreeder: fee tier doesn't add up to 100%"]
+    ]
+    for (const [tiers, message] of invalid) {
+      await expect(breeder.setFeeTiers(tiers)).to.be.revertedWith(message)
+    }
+    await expect(breeder.contract.setFeeTiers([0, 10], [7500, 9500], [2500])).to.be.revertedWith(
+      'MasterBreeder: needs 1 to 16 fee tiers'
+    )
+
+    await breeder.setFeeTiers([{ minBlockDelta: 0, userBps: 10000, devBps: 0 }])
+    expect(await breeder.feeTierOf(1000000)).to.eq(0)
+  })
+
+  it('should cap deposit fees', async () => {
+    expect(await breeder.MAX_DEPOSIT_FEE()).to.eq(1000)
+    await expect(breeder.setUserDepFee(1001)).to.be.revertedWith('MasterBreeder::setUserDepFee: fee too high')
+    await breeder.setUserDepFee(1000)
+
+    // devDepFee is the part of a deposit that isn't credited to the dev
+    await expect(breeder.setDevDepFee(8999)).to.be.revertedWith('MasterBreeder::setDevDepFee: fee out of bounds')
+    await expect(breeder.setDevDepFee(10001)).to.be.revertedWith('MasterBreeder::setDevDepFee: fee out of bounds')
+    await breeder.setDevDepFee(9000)
+    await breeder.setDevDepFee(10000)
+  })
+
+  it("should keep the dev's share of a deposit within the user's deposit fee", async () => {
+    // The fixture charges 0.75% & credits all of it to the dev
+    await expect(breeder.setUserDepFee(74)).to.be.revertedWith('MasterBreeder: dev deposit fee above user deposit fee')
+    await expect(breeder.setDevDepFee(9924)).to.be.revertedWith('MasterBreeder: dev deposit fee above user deposit fee')
+
+    // No deposit fee while crediting the dev 10% of every deposit
+    await breeder.setDevDepFee(10000)
+    await breeder.setUserDepFee(0)
+    await expect(breeder.setDevDepFee(9000)).to.be.revertedWith('MasterBreeder: dev deposit fee above user deposit fee')
+
+    await breeder.setUserDepFee(1000)
+    await breeder.setDevDepFee(9000)
+    await expect(breeder.setUserDepFee(0)).to.be.revertedWith('MasterBreeder: dev deposit fee above user deposit fee')
+    expect(await breeder.userDepFee()).to.eq(1000)
+    expect(await breeder.devDepFee()).to.eq(9000)
+  })
+
+  it('should keep the emission schedule ordered', async () => {
+    await expect(breeder.halvingUpdate([])).to.be.revertedWith('MasterBreeder::halvingUpdate: halvings not increasing')
+    await expect(breeder.halvingUpdate([2000, 2000])).to.be.revertedWith(
+      'MasterBreeder::halvingUpdate: halvings not increasing'
+    )
+    await expect(breeder.rewardMulUpdate([])).to.be.revertedWith('MasterBreeder::rewardMulUpdate: no multipliers')
+
+    // There's one halving per reward multiplier, the last one being uint256(-1)
+    const multipliers = await arrayLength(index => breeder.REWARD_MULTIPLIER(index))
+    const halvings = await Promise.all(Array.from(Array(multipliers), (_, index) => breeder.HALVING_AT_BLOCK(index)))
+    await expect(breeder.halvingUpdate(halvings.slice(1))).to.be.revertedWith(
+      'MasterBreeder::halvingUpdate: one halving per multiplier'
+    )
+    await expect(breeder.halvingUpdate([...halvings.slice(0, -1), MaxUint256.sub(1), MaxUint256])).to.be.revertedWith(
+      'MasterBreeder::halvingUpdate: one halving per multiplier'
+    )
+    expect(halvings[multipliers - 1]).to.eq(MaxUint256)
+    await breeder.halvingUpdate(halvings)
+
+    const startBlock = await breeder.START_BLOCK()
+    await expect(breeder.bonusFinishUpdate(startBlock.sub(1))).to.be.revertedWith(
+      'MasterBreeder::bonusFinishUpdate: finish before start'
+    )
+    await breeder.bonusFinishUpdate(startBlock)
+
+    const firstHalving = await breeder.HALVING_AT_BLOCK(0)
+    await expect(breeder.starblockUpdate(firstHalving)).to.be.revertedWith(
+      'MasterBreeder::starblockUpdate: start after first halving'
+    )
+    await breeder.starblockUpdate(firstHalving.sub(1))
+  })
+})
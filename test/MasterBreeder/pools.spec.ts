@@ -1,12 +1,10 @@
 import chai, { expect } from 'chai'
 import { Contract } from 'ethers'
-import { solidity, MockProvider, deployContract } from 'ethereum-waffle'
+import { solidity, MockProvider, createFixtureLoader } from 'ethereum-waffle'
 
-import { expandTo18Decimals } from '../shared/utilities'
+import { protocolFixture } from '../shared/fixtures'
 
-import { deployMasterBreeder, deployGovernanceToken } from '../shared/deploy'
-
-import ERC20Mock from '../../build/ERC20Mock.json'
+import { GovernanceToken, MasterBreeder } from '../../sdk'
 
 chai.use(solidity)
 
@@ -14,118 +12,114 @@ describe('MasterBreeder::Pools', () => {
   const provider = new MockProvider({
     hardfork: 'istanbul',
     mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
-    gasLimit: 9999999
+    gasLimit: 19999999
   })
   const wallets = provider.getWallets()
   const [alice, bob, carol, minter, dev, liquidityFund, communityFund, founderFund] = wallets
+  const loadFixture = createFixtureLoader(provider, wallets)
 
-  let govToken: Contract
-  let lp: Contract
-  let lp2: Contract
-  
-  beforeEach(async () => {
-    govToken = await deployGovernanceToken(alice)
-
-    lp = await deployContract(minter, ERC20Mock, ["LPToken", "LP", expandTo18Decimals(1000000)])
-    await lp.transfer(alice.address, expandTo18Decimals(1000))
-    await lp.transfer(bob.address, expandTo18Decimals(1000))
-    await lp.transfer(carol.address, expandTo18Decimals(1000))
-
-    lp2 = await deployContract(minter, ERC20Mock, ["LPToken2", "LP2", expandTo18Decimals(1000000)])
-    await lp2.transfer(alice.address, expandTo18Decimals(1000))
-    await lp2.transfer(bob.address, expandTo18Decimals(1000))
-    await lp2.transfer(carol.address, expandTo18Decimals(1000))
-  })
-
-  it("should be able to add a pool", async function () {
-    // 1 VIPER per block farming rate starting at block 100 with the first halvening block starting 1000 blocks after the start block
-    const rewardsPerBlock = 1
-    const rewardsStartAtBlock = 100
-    const breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(rewardsPerBlock), rewardsStartAtBlock, 1000)
-
-    await govToken.transferOwnership(breeder.address)
-
-    await breeder.add(rewardsPerBlock, lp.address, true)
-
-    expect(await breeder.poolLength()).to.equal(1)
-    expect(await breeder.poolExistence(lp.address)).to.equal(true)
-  })
-
-  it("should not be able to add the same pool twice", async function () {
-    // 1 VIPER per block farming rate starting at block 100 with the first halvening block starting 1000 blocks after the start block
-    const rewardsPerBlock = 1
-    const rewardsStartAtBlock = 100
-    const breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(rewardsPerBlock), rewardsStartAtBlock, 1000)
-
-    await govToken.transferOwnership(breeder.address)
-
-    await breeder.add(rewardsPerBlock, lp.address, true)
-
-    expect(await breeder.poolLength()).to.equal(1)
-    expect(await breeder.poolExistence(lp.address)).to.equal(true)
-
-    await expect(breeder.add(rewardsPerBlock, lp.address, true)).to.be.revertedWith("MasterBreeder::nonDuplicated: duplicated")
-  })
-
-  it("should not be able to add a pool as an unauthorized user", async function () {
-    // 1 VIPER per block farming rate starting at block 100 with the first halvening block starting 1000 blocks after the start block
-    const rewardsPerBlock = 1
-    const rewardsStartAtBlock = 100
-    const breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(rewardsPerBlock), rewardsStartAtBlock, 1000)
-
-    await govToken.transferOwnership(breeder.address)
-
-    await expect(breeder.connect(bob).add(rewardsPerBlock, lp.address, true)).to.be.revertedWith("Ownable: caller is not the owner")
-    expect(await breeder.poolLength()).to.equal(0)
-    expect(await breeder.poolExistence(lp.address)).to.equal(false)
-  })
-
-  it("should be able to add multiple pools", async function () {
-    // 1 VIPER per block farming rate starting at block 100 with the first halvening block starting 1000 blocks after the start block
-    const rewardsPerBlock = 1
-    const rewardsStartAtBlock = 100
-    const breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(rewardsPerBlock), rewardsStartAtBlock, 1000)
-
-    await govToken.transferOwnership(breeder.address)
-
-    await breeder.add(rewardsPerBlock, lp.address, true)
-    expect(await breeder.poolLength()).to.equal(1)
-    expect(await breeder.poolExistence(lp.address)).to.equal(true)
-
-    await breeder.add(rewardsPerBlock, lp2.address, true)
-    expect(await breeder.poolLength()).to.equal(2)
-    expect(await breeder.poolExistence(lp2.address)).to.equal(true)
-  })
-
-  it("should be able to change the allocation points for a given pool", async function () {
+  context("Adding & updating pools", function () {
     // 1 VIPER per block farming rate starting at block 100 with the first halvening block starting 1000 blocks after the start block
     const rewardsPerBlock = 1
-    const rewardsStartAtBlock = 100
-    const breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(rewardsPerBlock), rewardsStartAtBlock, 1000)
-
-    await govToken.transferOwnership(breeder.address)
+    const fixture = protocolFixture({ rewardPerBlock: rewardsPerBlock, startBlock: 100, halvingAfterBlock: 1000, lpTokens: 2 })
 
-    await breeder.add(rewardsPerBlock, lp.address, true)
-    expect(await breeder.poolLength()).to.equal(1)
-    expect(await breeder.poolExistence(lp.address)).to.equal(true)
-
-    await breeder.set(0, rewardsPerBlock * 10, true)
-    const [_lpToken, allocPoint, _lastRewardBlock, _accViperPerShare] = await breeder.poolInfo(0)
-    expect(allocPoint).to.equal(rewardsPerBlock * 10)
+    let govToken: GovernanceToken
+    let breeder: MasterBreeder
+    let lp: Contract
+    let lp2: Contract
+  
+    beforeEach(async () => {
+      ;({ govToken, breeder, lpTokens: [lp, lp2] } = await loadFixture(fixture))
+    })
+
+    it("should be able to add a pool", async function () {
+      await breeder.add(rewardsPerBlock, lp.address, true)
+
+      expect(await breeder.poolLength()).to.equal(1)
+      expect(await breeder.poolExistence(lp.address)).to.equal(true)
+    })
+
+    it("should not be able to add the same pool twice", async function () {
+      await breeder.add(rewardsPerBlock, lp.address, true)
+
+      expect(await breeder.poolLength()).to.equal(1)
+      expect(await breeder.poolExistence(lp.address)).to.equal(true)
+
+      await expect(breeder.add(rewardsPerBlock, lp.address, true)).to.be.revertedWith("MasterBreeder::nonDuplicated: duplicated")
+    })
+
+    it("should not be able to add a pool as an unauthorized user", async function () {
+      await expect(breeder.connect(bob).add(rewardsPerBlock, lp.address, true)).to.be.revertedWith("Authorizable: caller is missing role")
+      expect(await breeder.poolLength()).to.equal(0)
+      expect(await breeder.poolExistence(lp.address)).to.equal(false)
+    })
+
+    it("should be able to add multiple pools", async function () {
+      await breeder.add(rewardsPerBlock, lp.address, true)
+      expect(await breeder.poolLength()).to.equal(1)
+      expect(await breeder.poolExistence(lp.address)).to.equal(true)
+
+      await breeder.add(rewardsPerBlock, lp2.address, true)
+      expect(await breeder.poolLength()).to.equal(2)
+      expect(await breeder.poolExistence(lp2.address)).to.equal(true)
+    })
+
+    it("should be able to change the allocation points for a given pool", async function () {
+      await breeder.add(rewardsPerBlock, lp.address, true)
+      expect(await breeder.poolLength()).to.equal(1)
+      expect(await breeder.poolExistence(lp.address)).to.equal(true)
+
+      await breeder.set(0, rewardsPerBlock * 10, true)
+      const { allocPoint } = await breeder.poolInfo(0)
+      expect(allocPoint).to.equal(rewardsPerBlock * 10)
+    })
+
+    it("should not be able to change the allocation points for a given pool as an unauthorized user", async function () {
+      await breeder.add(rewardsPerBlock, lp.address, true)
+      expect(await breeder.poolLength()).to.equal(1)
+      expect(await breeder.poolExistence(lp.address)).to.equal(true)
+
+      await expect(breeder.connect(bob).set(0, rewardsPerBlock * 10, true)).to.be.revertedWith("Authorizable: caller is missing role")
+    })
   })
 
-  it("should not be able to change the allocation points for a given pool as an unauthorized user", async function () {
-    // 1 VIPER per block farming rate starting at block 100 with the first halvening block starting 1000 blocks after the start block
-    const rewardsPerBlock = 1
-    const rewardsStartAtBlock = 100
-    const breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(rewardsPerBlock), rewardsStartAtBlock, 1000)
-
-    await govToken.transferOwnership(breeder.address)
-
-    await breeder.add(rewardsPerBlock, lp.address, true)
-    expect(await breeder.poolLength()).to.equal(1)
-    expect(await breeder.poolExistence(lp.address)).to.equal(true)
-
-    await expect(breeder.connect(bob).set(0, rewardsPerBlock * 10, true)).to.be.revertedWith("Ownable: caller is not the owner")
+  context("Declarative pools", function () {
+    const multiPoolFixture = protocolFixture({
+      pools: [{ allocPoint: 1 }, { allocPoint: 2, pair: 'WETH' }, { allocPoint: 3, pair: 'BUSD' }],
+      lpTokens: 1,
+      governanceVote: true
+    })
+
+    it("should add the declared pools in order", async function () {
+      const { breeder, govToken, lpTokens, pairedTokens, govVote } = await loadFixture(multiPoolFixture)
+
+      expect(await breeder.poolLength()).to.equal(3)
+      expect(lpTokens.length).to.equal(4)
+      for (let i = 0; i < 3; i++) {
+        const { lpToken, allocPoint } = await breeder.poolInfo(i)
+        expect(lpToken).to.equal(lpTokens[i].address)
+        expect(allocPoint).to.equal(i + 1)
+      }
+      expect(await breeder.poolExistence(lpTokens[3].address)).to.equal(false)
+      expect(await breeder.totalAllocPoint()).to.equal(6)
+
+      const pairTokens = [await lpTokens[2].token0(), await lpTokens[2].token1()]
+      expect(pairTokens).to.include.members([govToken.address, pairedTokens.BUSD.address])
+      expect(await lpTokens[1].balanceOf(bob.address)).to.equal(await lpTokens[0].balanceOf(bob.address))
+
+      expect(await govVote!.lpPair()).to.equal(lpTokens[1].address)
+      expect(await govToken.owner()).to.equal(breeder.address)
+    })
+
+    it("should restore the fixture snapshot between tests", async function () {
+      const { breeder, lpTokens } = await loadFixture(multiPoolFixture)
+      await lpTokens[0].connect(bob).approve(breeder.address, 1000)
+      await breeder.connect(bob).deposit(0, 1000, alice.address)
+      expect((await breeder.userInfo(0, bob.address)).amount).to.be.gt(0)
+
+      const reloaded = await loadFixture(multiPoolFixture)
+      expect(reloaded.breeder.address).to.equal(breeder.address)
+      expect((await breeder.userInfo(0, bob.address)).amount).to.equal(0)
+    })
   })
 })
@@ -0,0 +1,206 @@
+import chai, { expect } from 'chai'
+import { Contract } from 'ethers'
+import { AddressZero } from 'ethers/constants'
+import { BigNumber, bigNumberify } from 'ethers/utils'
+import { solidity, MockProvider, createFixtureLoader } from 'ethereum-waffle'
+
+import { expandTo18Decimals } from '../shared/utilities'
+
+import { protocolFixture } from '../shared/fixtures'
+
+import {
+  calculateEmergencyWithdrawalFee,
+  calculateWithdrawalFee,
+  distributeFee,
+  fetchFeeRecipients,
+  fetchFeeTiers,
+  GovernanceToken,
+  MasterBreeder,
+  Pit,
+  PitBreeder
+} from '../../sdk'
+
+chai.use(solidity)
+
+const MISSING_ROLE = 'Authorizable: caller is missing role'
+
+describe('MasterBreeder::FeeRecipients', () => {
+  const provider = new MockProvider({
+    hardfork: 'istanbul',
+    mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
+    gasLimit: 19999999
+  })
+  const wallets = provider.getWallets()
+  const [alice, bob, carol, minter, dev, liquidityFund, communityFund] = wallets
+  const loadFixture = createFixtureLoader(provider, wallets)
+
+  // Pool 0 stakes the VIPER/WETH pair, so that PitBreeder can convert the LP tokens it receives as fees
+  const fixture = protocolFixture({ pools: [{ allocPoint: 100, pair: 'WETH' }], pit: true })
+
+  let govToken: GovernanceToken
+  let breeder: MasterBreeder
+  let pit: Pit
+  let pitBreeder: PitBreeder
+  let weth: Contract
+  let lp: Contract
+
+  // 50% of every fee to PitBreeder, 20% to the community fund & the remaining 30% to dev
+  async function routeFees() {
+    await breeder.setFeeRecipients([
+      { recipient: pitBreeder.address, bps: 5000 },
+      { recipient: communityFund.address, bps: 2000 }
+    ])
+  }
+
+  async function balances(): Promise<BigNumber[]> {
+    return Promise.all([bob, pitBreeder, communityFund, dev].map(({ address }) => lp.balanceOf(address)))
+  }
+
+  beforeEach(async () => {
+    let fixturePit: Pit | undefined
+    let fixturePitBreeder: PitBreeder | undefined
+    ;({
+      govToken,
+      breeder,
+      pit: fixturePit,
+      pitBreeder: fixturePitBreeder,
+      pairedTokens: { WETH: weth },
+      lpTokens: [lp]
+    } = await loadFixture(fixture))
+    pit = fixturePit!
+    pitBreeder = fixturePitBreeder!
+    await lp.connect(bob).approve(breeder.address, expandTo18Decimals(1000))
+  })
+
+  it('should only let treasury managers set valid fee recipients', async () => {
+    await expect(breeder.connect(bob).setFeeRecipients([])).to.be.revertedWith(MISSING_ROLE)
+    await expect(
+      breeder.setFeeRecipients(Array(9).fill({ recipient: communityFund.address, bps: 1 }))
+    ).to.be.revertedWith('MasterBreeder::setFeeRecipients: too many recipients')
+    await expect(breeder.contract.setFeeRecipients([communityFund.address], [1, 2])).to.be.revertedWith(
+      'MasterBreeder::setFeeRecipients: too many recipients'
+    )
+    await expect(breeder.setFeeRecipients([{ recipient: AddressZero, bps: 1 }])).to.be.revertedWith(
+      'MasterBreeder::setFeeRecipients: zero address'
+    )
+    await expect(
+      breeder.setFeeRecipients([
+        { recipient: pitBreeder.address, bps: 5000 },
+        { recipient: communityFund.address, bps: 5001 }
+      ])
+    ).to.be.revertedWith('MasterBreeder::setFeeRecipients: shares above 100%')
+
+    await breeder.grantRole('treasuryManager', bob.address)
+    await expect(breeder.connect(bob).setFeeRecipients([{ recipient: communityFund.address, bps: 10000 }]))
+      .to.emit(breeder.contract, 'FeeRecipientsUpdated')
+      .withArgs([communityFund.address], [10000])
+    await routeFees()
+    expect(await fetchFeeRecipients(breeder)).to.deep.eq([
+      { recipient: pitBreeder.address, bps: bigNumberify(5000) },
+      { recipient: communityFund.address, bps: bigNumberify(2000) }
+    ])
+
+    await breeder.setFeeRecipients([])
+    expect(await breeder.feeRecipientCount()).to.eq(0)
+  })
+
+  it('should send every fee to dev without fee recipients', async () => {
+    await breeder.connect(bob).deposit(0, expandTo18Decimals(100), AddressZero)
+    const [, , , devBefore] = await balances()
+
+    const tiers = await fetchFeeTiers(breeder)
+    const user = await breeder.userInfo(0, bob.address)
+    const fee = calculateWithdrawalFee(tiers, user, expandTo18Decimals(10), (await provider.getBlockNumber()) + 1)
+    await breeder.connect(bob).withdraw(0, expandTo18Decimals(10), AddressZero)
+
+    expect((await lp.balanceOf(dev.address)).sub(devBefore)).to.eq(fee.toDev)
+    expect(await lp.balanceOf(pitBreeder.address)).to.eq(0)
+  })
+
+  it('should split the deposit fee between the fee recipients & the stake of devaddr', async () => {
+    await routeFees()
+    const amount = expandTo18Decimals(100)
+    // devDepFee of 9925 leaves a 0.75% deposit fee
+    const fee = amount.sub(amount.mul(await breeder.devDepFee()).div(10000))
+    const { shares, toDev } = distributeFee(await fetchFeeRecipients(breeder), fee)
+    expect(shares.map(share => share.amount)).to.deep.eq([fee.div(2), fee.div(5)])
+
+    await expect(breeder.connect(bob).deposit(0, amount, AddressZero))
+      .to.emit(breeder.contract, 'FeeDistributed')
+      .withArgs(pitBreeder.address, 0, shares[0].amount)
+      .and.to.emit(breeder.contract, 'FeeDistributed')
+      .withArgs(communityFund.address, 0, shares[1].amount)
+
+    expect(await lp.balanceOf(pitBreeder.address)).to.eq(shares[0].amount)
+    expect(await lp.balanceOf(communityFund.address)).to.eq(shares[1].amount)
+    expect((await breeder.userInfo(0, dev.address)).amount).to.eq(toDev)
+    expect(await lp.balanceOf(breeder.address)).to.eq(amount.sub(fee).add(toDev))
+  })
+
+  it('should cap the deposit fee of devaddr & the fee recipients at the fee the user paid', async () => {
+    await routeFees()
+    // 0.75% of 1000 wei rounds down to a 7 wei fee, while devDepFee would leave 8 wei for devaddr & the recipients
+    const amount = bigNumberify(1000)
+    const fee = amount.mul(await breeder.userDepFee()).div(10000)
+    expect(fee).to.eq(7)
+    expect(amount.sub(amount.mul(await breeder.devDepFee()).div(10000))).to.eq(8)
+
+    const { shares, toDev } = distributeFee(await fetchFeeRecipients(breeder), fee)
+    await breeder.connect(bob).deposit(0, amount, AddressZero)
+
+    expect(await lp.balanceOf(pitBreeder.address)).to.eq(shares[0].amount)
+    expect(await lp.balanceOf(communityFund.address)).to.eq(shares[1].amount)
+    const stakes = [(await breeder.userInfo(0, bob.address)).amount, (await breeder.userInfo(0, dev.address)).amount]
+    expect(stakes).to.deep.eq([amount.sub(fee), toDev])
+    // Every staked LP token is held by MasterBreeder
+    expect(await lp.balanceOf(breeder.address)).to.eq(stakes[0].add(stakes[1]))
+  })
+
+  it('should split withdrawal & emergency withdrawal fees between the fee recipients & devaddr', async () => {
+    await breeder.connect(bob).deposit(0, expandTo18Decimals(100), AddressZero)
+    await routeFees()
+    const recipients = await fetchFeeRecipients(breeder)
+    const tiers = await fetchFeeTiers(breeder)
+
+    const amount = expandTo18Decimals(10)
+    const user = await breeder.userInfo(0, bob.address)
+    const fee = calculateWithdrawalFee(tiers, user, amount, (await provider.getBlockNumber()) + 1)
+    const distribution = distributeFee(recipients, fee.toDev)
+    const before = await balances()
+    await breeder.connect(bob).withdraw(0, amount, AddressZero)
+    const after = await balances()
+
+    const received = after.map((balance, i) => balance.sub(before[i]))
+    expect(received).to.deep.eq([fee.toUser, ...distribution.shares.map(share => share.amount), distribution.toDev])
+    expect(received.reduce((sum, value) => sum.add(value))).to.eq(amount)
+
+    const { amount: staked } = await breeder.userInfo(0, bob.address)
+    const emergency = calculateEmergencyWithdrawalFee(tiers, staked)
+    const emergencyDistribution = distributeFee(recipients, emergency.toDev)
+    await breeder.connect(bob).emergencyWithdraw(0)
+    const final = await balances()
+
+    expect(final.map((balance, i) => balance.sub(after[i]))).to.deep.eq([
+      emergency.toUser,
+      ...emergencyDistribution.shares.map(share => share.amount),
+      emergencyDistribution.toDev
+    ])
+  })
+
+  it('should let PitBreeder convert its share of the fees for Pit stakers', async function() {
+    this.timeout(0)
+    await routeFees()
+    await breeder.connect(bob).deposit(0, expandTo18Decimals(500), AddressZero)
+    await breeder.connect(bob).withdraw(0, expandTo18Decimals(400), AddressZero)
+
+    const lpFees: BigNumber = await lp.balanceOf(pitBreeder.address)
+    expect(lpFees).to.be.gt(0)
+    const pitBefore: BigNumber = await govToken.balanceOf(pit.address)
+
+    await pitBreeder.convert(govToken.address, weth.address, { gasLimit: 9999999 })
+
+    expect(await lp.balanceOf(pitBreeder.address)).to.eq(0)
+    // Burning the LP tokens returns about as much VIPER as WETH, which PitBreeder swaps to VIPER as well
+    expect((await govToken.balanceOf(pit.address)).sub(pitBefore)).to.be.gt(lpFees)
+  })
+})
@@ -1,53 +1,55 @@
 import chai, { expect } from 'chai'
 import { Contract } from 'ethers'
-import { solidity, MockProvider, deployContract } from 'ethereum-waffle'
+import { AddressZero } from 'ethers/constants'
+import { BigNumber } from 'ethers/utils'
+import { solidity, MockProvider, createFixtureLoader } from 'ethereum-waffle'
 
 import { expandTo18Decimals } from '../shared/utilities'
+import { mineBlocks, mineTo } from '../shared/time'
 
-import { deployMasterBreeder, deployGovernanceToken } from '../shared/deploy'
+import { protocolFixture } from '../shared/fixtures'
 
-import ERC20Mock from '../../build/ERC20Mock.json'
+import { GovernanceToken, MasterBreeder } from '../../sdk'
 
 chai.use(solidity)
 
-// Referrals aren't actively used by the MasterBreeder contract - no automatic payouts will be handed out to the referrer on deposits & withdrawals
-// The referral tracking system can be used for a later stage airdrop (e.g. airdropping funds from the community funds address to referrers) or other initiatives 
+// A user's referrer is bound by their first deposit. Referrers are credited with their referees' deposits &
+// get referralBps of every reward their referees harvest minted on top of it once they claim it
 describe('MasterBreeder::Referrals', () => {
   const provider = new MockProvider({
     hardfork: 'istanbul',
     mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
-    gasLimit: 9999999
+    gasLimit: 19999999
   })
   const wallets = provider.getWallets()
   const [alice, bob, carol, minter, dev, liquidityFund, communityFund, founderFund] = wallets
+  const loadFixture = createFixtureLoader(provider, wallets)
+
+  // 1 VIPER per block farming rate starting at block 100 with the first halvening block starting 1000 blocks after the start block
+  const fixture = protocolFixture({
+    rewardPerBlock: 1,
+    startBlock: 100,
+    halvingAfterBlock: 1000,
+    pools: [{ allocPoint: 1 }]
+  })
 
-  let govToken: Contract
   let lp: Contract
-  let breeder: Contract
-  
-  beforeEach(async () => {
-    govToken = await deployGovernanceToken(alice)
-    
-    lp = await deployContract(minter, ERC20Mock, ["LPToken", "LP", expandTo18Decimals(1000000)])
-    await lp.transfer(alice.address, expandTo18Decimals(1000))
-    await lp.transfer(bob.address, expandTo18Decimals(1000))
-    await lp.transfer(carol.address, expandTo18Decimals(1000))
-
-    // 1 VIPER per block farming rate starting at block 100 with the first halvening block starting 1000 blocks after the start block
-    const rewardsPerBlock = 1
-    const rewardsStartAtBlock = 100
-    breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(rewardsPerBlock), rewardsStartAtBlock, 1000)
-
-    await govToken.transferOwnership(breeder.address)
+  let govToken: GovernanceToken
+  let breeder: MasterBreeder
 
-    expect(await govToken.totalSupply()).to.equal(0)
-
-    await breeder.add(rewardsPerBlock, lp.address, true)
+  beforeEach(async () => {
+    ;({
+      govToken,
+      breeder,
+      lpTokens: [lp]
+    } = await loadFixture(fixture))
+    for (const wallet of [alice, bob, carol]) {
+      await lp.connect(wallet).approve(breeder.address, expandTo18Decimals(1000))
+    }
   })
 
-  it("should properly track referrals", async function () {    
+  it('should properly track referrals', async function() {
     // Alice refers Bob who deposits
-    await lp.connect(bob).approve(breeder.address, expandTo18Decimals(1000))
     await breeder.connect(bob).deposit(0, expandTo18Decimals(100), alice.address)
 
     // The contract should now keep track of Alice's referral
@@ -58,9 +60,8 @@ describe('MasterBreeder::Referrals', () => {
     expect(await breeder.getTotalRefs(alice.address)).to.eq(1)
 
     // Alice now also refers Carol
-    await lp.connect(carol).approve(breeder.address, expandTo18Decimals(1000))
     await breeder.connect(carol).deposit(0, expandTo18Decimals(100), alice.address)
-    
+
     refValue = await breeder.getRefValueOf(alice.address, carol.address)
     globalRefValue = await breeder.getGlobalRefAmount(alice.address)
     expect(refValue).to.eq(expandTo18Decimals(100))
@@ -69,7 +70,11 @@ describe('MasterBreeder::Referrals', () => {
 
     // calculate the user's deposit
     let userDepositFee = await breeder.userDepFee()
-    let likelyDeposit = expandTo18Decimals(10).sub(expandTo18Decimals(10).mul(userDepositFee).div(10000))
+    let likelyDeposit = expandTo18Decimals(10).sub(
+      expandTo18Decimals(10)
+        .mul(userDepositFee)
+        .div(10000)
+    )
     await breeder.connect(bob).withdraw(0, likelyDeposit, alice.address)
 
     // Bob withdraws from the pool and Alice's referral value/score should be lowered as a consequence
@@ -79,4 +84,165 @@ describe('MasterBreeder::Referrals', () => {
     // Total referrals should still remain intact
     expect(await breeder.getTotalRefs(alice.address)).to.eq(2)
   })
+
+  it('should bind the referrer on the first deposit only', async () => {
+    await expect(breeder.connect(bob).deposit(0, expandTo18Decimals(10), bob.address)).to.be.revertedWith(
+      "MasterBreeder::deposit: can't refer yourself"
+    )
+
+    await expect(breeder.connect(bob).deposit(0, expandTo18Decimals(10), alice.address))
+      .to.emit(breeder.contract, 'ReferrerBound')
+      .withArgs(bob.address, alice.address)
+    // Later deposits are credited to Alice, whatever they pass as the referrer
+    await breeder.connect(bob).deposit(0, expandTo18Decimals(20), carol.address)
+    await breeder.connect(bob).deposit(0, expandTo18Decimals(30), AddressZero)
+
+    expect(await breeder.referrerOf(bob.address)).to.eq(alice.address)
+    expect(await breeder.getRefValueOf(alice.address, bob.address)).to.eq(expandTo18Decimals(60))
+    expect(await breeder.getTotalRefs(alice.address)).to.eq(1)
+    expect(await breeder.getRefValueOf(carol.address, bob.address)).to.eq(0)
+    expect(await breeder.getTotalRefs(carol.address)).to.eq(0)
+
+    // A first deposit without a referrer binds no one, so Carol can't be referred afterwards
+    await expect(breeder.connect(carol).deposit(0, expandTo18Decimals(10), AddressZero)).to.not.emit(
+      breeder.contract,
+      'ReferrerBound'
+    )
+    await breeder.connect(carol).deposit(0, expandTo18Decimals(10), alice.address)
+    expect(await breeder.referrerOf(carol.address)).to.eq(AddressZero)
+    expect(await breeder.getGlobalRefAmount(alice.address)).to.eq(expandTo18Decimals(60))
+    expect((await breeder.userGlobalInfo(carol.address)).hasDeposited).to.be.true
+  })
+
+  it("shouldn't underflow the referral counters on withdrawals", async () => {
+    await breeder.connect(bob).deposit(0, expandTo18Decimals(100), alice.address)
+    await breeder.connect(carol).deposit(0, expandTo18Decimals(100), bob.address)
+
+    // Passing a referrer that was never credited used to wrap its counters around
+    const { amount: bobStake } = await breeder.userInfo(0, bob.address)
+    await breeder.connect(bob).withdraw(0, bobStake.div(2), carol.address)
+    expect(await breeder.getRefValueOf(carol.address, bob.address)).to.eq(0)
+    expect(await breeder.getGlobalRefAmount(carol.address)).to.eq(0)
+    expect(await breeder.getRefValueOf(alice.address, bob.address)).to.eq(expandTo18Decimals(100).sub(bobStake.div(2)))
+
+    // Alice refers Bob but not Carol, so Carol's withdrawals don't touch Alice's counters
+    const { amount: carolStake } = await breeder.userInfo(0, carol.address)
+    await breeder.connect(carol).withdraw(0, carolStake, alice.address)
+    expect(await breeder.getGlobalRefAmount(alice.address)).to.eq(expandTo18Decimals(100).sub(bobStake.div(2)))
+    // The deposit fee stays credited, the referral values are based on the gross deposits
+    expect(await breeder.getRefValueOf(bob.address, carol.address)).to.eq(expandTo18Decimals(100).sub(carolStake))
+
+    // Emergency withdrawals are debited as well
+    await breeder.connect(bob).emergencyWithdraw(0)
+    expect(await breeder.getRefValueOf(alice.address, bob.address)).to.eq(expandTo18Decimals(100).sub(bobStake))
+    expect(await breeder.getGlobalRefAmount(alice.address)).to.eq(expandTo18Decimals(100).sub(bobStake))
+    expect(await breeder.getTotalRefs(alice.address)).to.eq(1)
+  })
+
+  it('should cap the referral share', async () => {
+    expect(await breeder.referralBps()).to.eq(0)
+    const max = await breeder.MAX_REFERRAL_BPS()
+    await expect(breeder.setReferralBps(max.add(1))).to.be.revertedWith('MasterBreeder::setReferralBps: share too high')
+    await expect(breeder.setReferralBps(max))
+      .to.emit(breeder.contract, 'ParameterUpdated')
+      .withArgs('referralBps', [max])
+  })
+
+  it('should only reward the direct referrer of a harvesting referee', async function() {
+    this.timeout(0)
+    // Alice refers Bob, who refers Carol
+    await breeder.connect(bob).deposit(0, expandTo18Decimals(100), alice.address)
+    await breeder.connect(carol).deposit(0, expandTo18Decimals(100), bob.address)
+    // Farming starts at block 100
+    await mineTo(provider, 110)
+
+    // Without a referral share harvests don't accrue anything
+    await expect(breeder.connect(carol).claimReward(0)).to.not.emit(breeder.contract, 'ReferralRewardAccrued')
+
+    await breeder.setReferralBps(1000)
+    await mineBlocks(provider, 10)
+
+    // Carol's harvest only accrues to Bob, it doesn't cascade to Alice
+    const carolReceipt = await (await breeder.connect(carol).claimReward(0)).wait()
+    const [carolHarvest] = breeder.parseEvents('SendGovernanceTokenReward', carolReceipt.logs!)
+    const [carolReferral] = breeder.parseEvents('ReferralRewardAccrued', carolReceipt.logs!)
+    expect(carolReferral.args.referrer).to.eq(bob.address)
+    expect(carolReferral.args.user).to.eq(carol.address)
+    expect(carolReferral.args.amount).to.eq(carolHarvest.args.amount.div(10))
+    expect(await breeder.pendingReferralReward(bob.address)).to.eq(carolReferral.args.amount)
+    expect(await breeder.pendingReferralReward(alice.address)).to.eq(0)
+
+    // Bob's harvest accrues to Alice
+    const bobReceipt = await (await breeder.connect(bob).claimReward(0)).wait()
+    const [bobHarvest] = breeder.parseEvents('SendGovernanceTokenReward', bobReceipt.logs!)
+    expect(await breeder.pendingReferralReward(alice.address)).to.eq(bobHarvest.args.amount.div(10))
+    expect(await breeder.pendingReferralReward(bob.address)).to.eq(carolReferral.args.amount)
+
+    // Claiming mints the reward, locking the same share as harvests during the bonus period
+    const reward: BigNumber = carolReferral.args.amount
+    const lockAmount = reward.mul(await breeder.PERCENT_LOCK_BONUS_REWARD()).div(100)
+    const balanceBefore = await govToken.balanceOf(bob.address)
+    const lockedBefore = await govToken.lockOf(bob.address)
+    const supplyBefore = await govToken.totalSupply()
+    await expect(breeder.connect(bob).claimReferralReward())
+      .to.emit(breeder.contract, 'ReferralRewardClaimed')
+      .withArgs(bob.address, reward, lockAmount)
+    expect(await govToken.totalSupply()).to.eq(supplyBefore.add(reward))
+    expect((await govToken.balanceOf(bob.address)).sub(balanceBefore)).to.eq(reward.sub(lockAmount))
+    expect((await govToken.lockOf(bob.address)).sub(lockedBefore)).to.eq(lockAmount)
+
+    expect(await breeder.pendingReferralReward(bob.address)).to.eq(0)
+    await expect(breeder.connect(bob).claimReferralReward()).to.be.revertedWith(
+      'MasterBreeder::claimReferralReward: nothing to claim'
+    )
+    await expect(breeder.connect(carol).claimReferralReward()).to.be.revertedWith(
+      'MasterBreeder::claimReferralReward: nothing to claim'
+    )
+  })
+
+  it("should only mint referral rewards up to the token's cap", async function() {
+    this.timeout(0)
+    await breeder.setReferralBps(1000)
+    await breeder.connect(bob).deposit(0, expandTo18Decimals(100), alice.address)
+    await mineTo(provider, 110)
+    await breeder.connect(bob).claimReward(0)
+    const reward = await breeder.pendingReferralReward(alice.address)
+    expect(reward).to.be.gt(0)
+
+    // Leave a third of the reward under the cap, the token's owner & emissions managers can lower it
+    await breeder.reclaimTokenOwnership(alice.address)
+    const supply = await govToken.totalSupply()
+    await govToken.capUpdate(supply.add(reward.div(3)))
+    await govToken.transferOwnership(breeder.address)
+
+    await expect(breeder.connect(alice).claimReferralReward())
+      .to.emit(breeder.contract, 'ReferralRewardClaimed')
+      .withArgs(alice.address, reward.div(3), reward.div(3).mul(await breeder.PERCENT_LOCK_BONUS_REWARD()).div(100))
+    expect(await govToken.totalSupply()).to.eq(await govToken.cap())
+    expect(await breeder.pendingReferralReward(alice.address)).to.eq(reward.sub(reward.div(3)))
+    // The rest is still owed while the cap is exhausted
+    await expect(breeder.connect(alice).claimReferralReward()).to.be.revertedWith(
+      'MasterBreeder::claimReferralReward: cap reached'
+    )
+    expect(await breeder.pendingReferralReward(alice.address)).to.eq(reward.sub(reward.div(3)))
+
+    // The rest is minted once the cap leaves room for it
+    await breeder.reclaimTokenOwnership(alice.address)
+    await govToken.capUpdate(supply.add(reward))
+    await govToken.transferOwnership(breeder.address)
+    await expect(breeder.connect(alice).claimReferralReward())
+      .to.emit(breeder.contract, 'ReferralRewardClaimed')
+      .withArgs(
+        alice.address,
+        reward.sub(reward.div(3)),
+        reward
+          .sub(reward.div(3))
+          .mul(await breeder.PERCENT_LOCK_BONUS_REWARD())
+          .div(100)
+      )
+    expect(await breeder.pendingReferralReward(alice.address)).to.eq(0)
+    await expect(breeder.connect(alice).claimReferralReward()).to.be.revertedWith(
+      'MasterBreeder::claimReferralReward: nothing to claim'
+    )
+  })
 })
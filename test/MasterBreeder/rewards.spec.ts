@@ -1,12 +1,10 @@
 import chai, { expect } from 'chai'
 import { Contract, utils } from 'ethers'
-import { solidity, MockProvider, deployContract } from 'ethereum-waffle'
+import { solidity, MockProvider, createFixtureLoader } from 'ethereum-waffle'
 
 import { expandTo18Decimals, advanceBlockTo, advanceBlockWith, latestBlock, humanBalance } from '../shared/utilities'
 
-import { deployMasterBreeder, deployGovernanceToken, TOKEN_NAME, TOKEN_SYMBOL, TOTAL_CAP, MANUAL_MINT_LIMIT } from '../shared/deploy'
-
-import ERC20Mock from '../../build/ERC20Mock.json'
+import { Fixture, protocolFixture, ProtocolFixture } from '../shared/fixtures'
 
 chai.use(solidity)
 
@@ -28,40 +26,30 @@ describe('MasterBreeder::Rewards', () => {
   const provider = new MockProvider({
     hardfork: 'istanbul',
     mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
-    gasLimit: 9999999
+    gasLimit: 19999999
   })
   const wallets = provider.getWallets()
   const [alice, bob, carol, minter, dev, liquidityFund, communityFund, founderFund] = wallets
-
-  let govToken: Contract
-  
-  beforeEach(async () => {
-    govToken = await deployGovernanceToken(alice, TOKEN_NAME, TOKEN_SYMBOL, TOTAL_CAP, MANUAL_MINT_LIMIT, LOCK_FROM_BLOCK, LOCK_TO_BLOCK)
-  })
+  const loadFixture = createFixtureLoader(provider, wallets)
 
   context("Entering & withdrawing from pools + claiming rewards", function () {
-    let lp: Contract
-    let lp2: Contract
-
-    beforeEach(async function () {
-      lp = await deployContract(minter, ERC20Mock, ["LPToken", "LP", expandTo18Decimals(1000000)])
-      await lp.transfer(alice.address, expandTo18Decimals(1000))
-      await lp.transfer(bob.address, expandTo18Decimals(1000))
-      await lp.transfer(carol.address, expandTo18Decimals(1000))
-
-      lp2 = await deployContract(minter, ERC20Mock, ["LPToken2", "LP2", expandTo18Decimals(1000000)])
-      await lp2.transfer(alice.address, expandTo18Decimals(1000))
-      await lp2.transfer(bob.address, expandTo18Decimals(1000))
-      await lp2.transfer(carol.address, expandTo18Decimals(1000))
-    })
+    // One fixture per rewards start block, each one is only built once
+    const fixtures: Record<number, Fixture<ProtocolFixture>> = {}
+    function loadProtocol(startBlock: number): Promise<ProtocolFixture> {
+      fixtures[startBlock] = fixtures[startBlock] || protocolFixture({
+        startBlock,
+        lockFromBlock: LOCK_FROM_BLOCK,
+        lockToBlock: LOCK_TO_BLOCK,
+        lpTokens: 2
+      })
+      return loadFixture(fixtures[startBlock])
+    }
 
     it("should not pay out VIPER rewards before farming has started", async function () {
       // 1 VIPER per block farming rate starting at block 100 with the first halvening block starting 1000 blocks after the start block
       const rewardsPerBlock = 1
       const rewardsStartAtBlock = 100
-      const breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(rewardsPerBlock), rewardsStartAtBlock, 1000)
-
-      await govToken.transferOwnership(breeder.address)
+      const { govToken, breeder, lpTokens: [lp, lp2] } = await loadProtocol(rewardsStartAtBlock)
 
       expect(await govToken.totalSupply()).to.equal(0)
 
@@ -91,9 +79,7 @@ describe('MasterBreeder::Rewards', () => {
       const rewardsPerBlock = 1
       const rewardsStartAtBlock = 100
       const rewardsMultiplierForSecondPool = 5
-      const breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(rewardsPerBlock), rewardsStartAtBlock, 1000)
-
-      await govToken.transferOwnership(breeder.address)
+      const { govToken, breeder, lpTokens: [lp, lp2] } = await loadProtocol(rewardsStartAtBlock)
 
       expect(await govToken.totalSupply()).to.equal(0)
 
@@ -167,23 +153,23 @@ describe('MasterBreeder::Rewards', () => {
       await breeder.connect(bob).deposit(1, expandTo18Decimals(100), ZERO_ADDRESS)
 
       // Advance 10 blocks, then claim rewards from all pools
-      advanceBlockWith(provider, 10)
+      await advanceBlockWith(provider, 10)
       await breeder.connect(bob).claimRewards([0, 1])
 
-      expect('claimReward').to.be.calledOnContractWith(breeder, [0]);
-      expect('claimReward').to.be.calledOnContractWith(breeder, [1]);
+      expect('claimReward').to.be.calledOnContractWith(breeder.contract, [0]);
+      expect('claimReward').to.be.calledOnContractWith(breeder.contract, [1]);
 
       if (debugMessages) humanBalance(provider, govToken, 'balanceOf', bob.address, 'bob.address')
       bobBalanceOf = await govToken.balanceOf(bob.address)
-      expect(bobBalanceOf).to.equal('50815999999995037500')
+      expect(bobBalanceOf).to.equal('117511999999995037500')
 
       if (debugMessages) humanBalance(provider, govToken, 'lockOf', bob.address, 'bob.address')
       bobLockOf = await govToken.lockOf(bob.address)
-      expect(bobLockOf).to.eq('965503999999905712500')
+      expect(bobLockOf).to.eq('2232727999999905712500')
 
       if (debugMessages) humanBalance(provider, govToken, 'totalBalanceOf', bob.address, 'bob.address')
       bobTotalBalanceOf = await govToken.totalBalanceOf(bob.address)
-      expect(bobTotalBalanceOf).to.equal('1016319999999900750000')
+      expect(bobTotalBalanceOf).to.equal('2350239999999900750000')
     })
 
     it("should allow the user to claim & unlock rewards according to the rewards unlocking schedule", async function () {
@@ -193,9 +179,7 @@ describe('MasterBreeder::Rewards', () => {
       // 1 VIPER per block farming rate starting at block 100 with the first halvening block starting 1000 blocks after the start block
       const rewardsPerBlock = 1
       const rewardsStartAtBlock = 150
-      const breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(rewardsPerBlock), rewardsStartAtBlock, 1000)
-
-      await govToken.transferOwnership(breeder.address)
+      const { govToken, breeder, lpTokens: [lp, lp2] } = await loadProtocol(rewardsStartAtBlock)
 
       expect(await govToken.totalSupply()).to.equal(0)
 
@@ -308,8 +292,7 @@ describe('MasterBreeder::Rewards', () => {
       const debugMessages = false
       // 1 per block farming rate starting at block 600 with the first halvening block starting 1000 blocks after the start block
       const rewardsPerBlock = 1
-      const breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(rewardsPerBlock), 600, 1000)
-      await govToken.transferOwnership(breeder.address)
+      const { govToken, breeder, lpTokens: [lp, lp2] } = await loadProtocol(600)
       await breeder.add(rewardsPerBlock, lp.address, true)
       await lp.connect(bob).approve(breeder.address, expandTo18Decimals(1000))
 
@@ -361,9 +344,7 @@ describe('MasterBreeder::Rewards', () => {
     it("should distribute VIPERs properly for each staker"), async () => {
       // 1 per block farming rate starting at block 300 with the first halvening block starting 1000 blocks after the start block
       const rewardsPerBlock = 1
-      const breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(rewardsPerBlock), 300, 1000)
-
-      await govToken.transferOwnership(breeder.address)
+      const { govToken, breeder, lpTokens: [lp, lp2] } = await loadProtocol(300)
       await breeder.add(rewardsPerBlock, lp.address, true)
       await lp.connect(alice).approve(breeder.address, expandTo18Decimals(1000))
       await lp.connect(bob).approve(breeder.address, expandTo18Decimals(1000))
@@ -424,9 +405,7 @@ describe('MasterBreeder::Rewards', () => {
     it("should give proper VIPERs allocation to each pool"), async () => {
       // 100 per block farming rate starting at block 400 with the first halvening block starting 1000 blocks after the start block
       const rewardsPerBlock = 1
-      const breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(rewardsPerBlock), 400, 1000)
-
-      await govToken.transferOwnership(breeder.address)
+      const { govToken, breeder, lpTokens: [lp, lp2] } = await loadProtocol(400)
       await lp.connect(alice).approve(breeder.address, expandTo18Decimals(1000))
       await lp2.connect(bob).approve(breeder.address, expandTo18Decimals(1000))
       // Add first LP to the pool with allocation 1
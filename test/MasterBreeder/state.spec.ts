@@ -1,14 +1,11 @@
 import chai, { expect } from 'chai'
-import { Contract } from 'ethers'
 import { MaxUint256 } from 'ethers/constants'
-import { solidity, MockProvider, deployContract } from 'ethereum-waffle'
+import { solidity, MockProvider, createFixtureLoader } from 'ethereum-waffle'
 import { BigNumber, bigNumberify, BigNumberish } from 'ethers/utils'
 
-import { expandTo18Decimals } from '../shared/utilities'
+import { protocolFixture } from '../shared/fixtures'
 
-import { deployMasterBreeder } from '../shared/deploy'
-
-import GovernanceToken from '../../build/GovernanceToken.json'
+import { GovernanceToken, MasterBreeder } from '../../sdk'
 
 chai.use(solidity)
 
@@ -16,16 +13,14 @@ describe('MasterBreeder::State', () => {
   const provider = new MockProvider({
     hardfork: 'istanbul',
     mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
-    gasLimit: 9999999
+    gasLimit: 19999999
   })
   const wallets = provider.getWallets()
   const [alice, bob, carol, minter, dev, liquidityFund, communityFund, founderFund] = wallets
+  const loadFixture = createFixtureLoader(provider, wallets)
 
-  const TOTAL_CAP = expandTo18Decimals(500000000) // 500m
-  const MANUAL_MINT_LIMIT = expandTo18Decimals(50000) // 50k
-
-  let govToken: Contract
-  let breeder: Contract
+  let govToken: GovernanceToken
+  let breeder: MasterBreeder
 
   context("Ethereum", function () {
     // Original Bao values - used as control variables
@@ -41,10 +36,16 @@ describe('MasterBreeder::State', () => {
     const rewardMultipliers = [256,128,64,32,32,16,16,8,8,8,8,8,8,8,8,8,8,8,8,8,8,4,4,4,4,4,4,2,2,2,2,2,1,1,1,1,1,1,2,2,2,2,2,4,4,4,8,8,8,8,8,16,16,16,16,16,16,16,16,16,16,8,8,8,8,8,8,4,4,2,2,1,1,1,1,1,1,2,2,4,4,4,4,8,8,8,8,8,16,16,32,32,32,32,16,8,4,2,1,1,1,1,2,2];
     const halvingAtBlocks: BigNumber[] = []
 
+    const fixture = protocolFixture({
+      rewardPerBlock: 1000,
+      startBlock: rewardsStartBlock,
+      halvingAfterBlock: halvingAfterBlockCount,
+      lockFromBlock,
+      lockToBlock
+    })
+
     beforeEach(async () => {
-      govToken = await deployContract(alice, GovernanceToken, ["Viper", "VIPER", TOTAL_CAP, MANUAL_MINT_LIMIT, lockFromBlock, lockToBlock])
-      breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(1000), rewardsStartBlock, halvingAfterBlockCount)
-      await govToken.transferOwnership(breeder.address)
+      ;({ govToken, breeder } = await loadFixture(fixture))
     })
 
     it("should set correct state variables", async function () {
@@ -150,10 +151,16 @@ describe('MasterBreeder::State', () => {
     const rewardMultipliers = [256,128,64,32,32,16,16,8,8,8,8,8,8,8,8,8,8,8,8,8,8,4,4,4,4,4,4,2,2,2,2,2,1,1,1,1,1,1,2,2,2,2,2,4,4,4,8,8,8,8,8,16,16,16,16,16,16,16,16,16,16,8,8,8,8,8,8,4,4,2,2,1,1,1,1,1,1,2,2,4,4,4,4,8,8,8,8,8,16,16,32,32,32,32,16,8,4,2,1,1,1,1,2,2]
     const halvingAtBlocks: BigNumber[] = []
 
+    const fixture = protocolFixture({
+      rewardPerBlock: 1000,
+      startBlock: rewardsStartBlock,
+      halvingAfterBlock: halvingAfterBlockCount,
+      lockFromBlock,
+      lockToBlock
+    })
+
     beforeEach(async () => {
-      govToken = await deployContract(alice, GovernanceToken, ["Viper", "VIPER", TOTAL_CAP, MANUAL_MINT_LIMIT, lockFromBlock, lockToBlock])
-      breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(1000), rewardsStartBlock, halvingAfterBlockCount)
-      await govToken.transferOwnership(breeder.address)
+      ;({ govToken, breeder } = await loadFixture(fixture))
     })
 
     it("should set correct state variables", async function () {
@@ -1,12 +1,12 @@
 import chai, { expect } from 'chai'
 import { Contract } from 'ethers'
-import { solidity, MockProvider, deployContract } from 'ethereum-waffle'
+import { solidity, MockProvider, createFixtureLoader } from 'ethereum-waffle'
 
-import { expandTo18Decimals } from '../shared/utilities'
+import { expandTo18Decimals, advanceBlock, latestBlock } from '../shared/utilities'
 
-import { deployMasterBreeder, deployGovernanceToken, TOKEN_NAME, TOKEN_SYMBOL, TOTAL_CAP, MANUAL_MINT_LIMIT } from '../shared/deploy'
+import { protocolFixture } from '../shared/fixtures'
 
-import ERC20Mock from '../../build/ERC20Mock.json'
+import { MasterBreeder } from '../../sdk'
 
 chai.use(solidity)
 
@@ -20,38 +20,33 @@ describe('MasterBreeder::Rewards', () => {
   const provider = new MockProvider({
     hardfork: 'istanbul',
     mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
-    gasLimit: 9999999
+    gasLimit: 19999999
   })
   const wallets = provider.getWallets()
   const [alice, bob, carol, minter, dev, liquidityFund, communityFund, founderFund] = wallets
-
-  let govToken: Contract
-  
-  beforeEach(async () => {
-    govToken = await deployGovernanceToken(alice, TOKEN_NAME, TOKEN_SYMBOL, TOTAL_CAP, MANUAL_MINT_LIMIT, LOCK_FROM_BLOCK, LOCK_TO_BLOCK)
-  })
+  const loadFixture = createFixtureLoader(provider, wallets)
 
   context("Entering & withdrawing from pools + claiming rewards", function () {
+    // 1 per block farming rate starting at block 100 with the first halvening block starting 1000 blocks after the start block
+    const fixture = protocolFixture({
+      startBlock: 100,
+      lockFromBlock: LOCK_FROM_BLOCK,
+      lockToBlock: LOCK_TO_BLOCK,
+      lpTokens: 2,
+      transferOwnership: false
+    })
+
+    let breeder: MasterBreeder
     let lp: Contract
     let lp2: Contract
 
     beforeEach(async function () {
-      lp = await deployContract(minter, ERC20Mock, ["LPToken", "LP", expandTo18Decimals(1000000)])
-      await lp.transfer(alice.address, expandTo18Decimals(1000))
-      await lp.transfer(bob.address, expandTo18Decimals(1000))
-      await lp.transfer(carol.address, expandTo18Decimals(1000))
-
-      lp2 = await deployContract(minter, ERC20Mock, ["LPToken2", "LP2", expandTo18Decimals(1000000)])
-      await lp2.transfer(alice.address, expandTo18Decimals(1000))
-      await lp2.transfer(bob.address, expandTo18Decimals(1000))
-      await lp2.transfer(carol.address, expandTo18Decimals(1000))
+      ;({ breeder, lpTokens: [lp, lp2] } = await loadFixture(fixture))
     })
 
     it("should allow emergency withdraw", async function () {
       this.timeout(0)
-      // 1 per block farming rate starting at block 100 with the first halvening block starting 1000 blocks after the start block
       const rewardsPerBlock = 1
-      const breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(rewardsPerBlock), 100, 1000)
 
       await breeder.add(rewardsPerBlock, lp.address, true)
 
@@ -69,5 +64,45 @@ describe('MasterBreeder::Rewards', () => {
       expect(await lp.balanceOf(bob.address)).to.equal('974437500000000000000')
       expect(await lp.balanceOf(dev.address)).to.equal('24812500000000000000')
     })
+
+    it("should checkpoint stakes by block", async function () {
+      this.timeout(0)
+      await breeder.add(1, lp.address, true)
+      await lp.connect(bob).approve(breeder.address, expandTo18Decimals(1000))
+
+      const depositBlock = (await (await breeder.connect(bob).deposit(0, expandTo18Decimals(100), ZERO_ADDRESS)).wait()).blockNumber!
+      const { amount: staked } = await breeder.userInfo(0, bob.address)
+      const { amount: devStaked } = await breeder.userInfo(0, dev.address)
+      const withdrawBlock = (await (await breeder.connect(bob).withdraw(0, expandTo18Decimals(10), ZERO_ADDRESS)).wait()).blockNumber!
+      const emergencyBlock = (await (await breeder.connect(bob).emergencyWithdraw(0)).wait()).blockNumber!
+      await advanceBlock(provider)
+
+      expect(await breeder.getPriorStake(0, bob.address, depositBlock - 1)).to.equal(0)
+      expect(await breeder.getPriorStake(0, bob.address, depositBlock)).to.equal(staked)
+      expect(await breeder.getPriorStake(0, bob.address, withdrawBlock)).to.equal(staked.sub(expandTo18Decimals(10)))
+      expect(await breeder.getPriorStake(0, bob.address, emergencyBlock)).to.equal(0)
+      // Deposits credit the dev address too
+      expect(await breeder.getPriorStake(0, dev.address, emergencyBlock)).to.equal(devStaked)
+
+      const block = await latestBlock(provider)
+      await expect(breeder.getPriorStake(0, bob.address, block.number)).to.be.revertedWith("MasterBreeder::getPriorStake: not yet determined")
+    })
+
+    it("should bottom the global amount out at 0", async function () {
+      this.timeout(0)
+      await breeder.add(1, lp.address, true)
+      await lp.connect(bob).approve(breeder.address, expandTo18Decimals(1000))
+
+      // globalAmount grows by userDepFee% of the deposit, i.e. 75 for 100 LP tokens
+      await breeder.connect(bob).deposit(0, expandTo18Decimals(100), ZERO_ADDRESS)
+      expect(await breeder.getGlobalAmount(bob.address)).to.equal(expandTo18Decimals(75))
+      await breeder.connect(bob).withdraw(0, expandTo18Decimals(50), ZERO_ADDRESS)
+      expect(await breeder.getGlobalAmount(bob.address)).to.equal(expandTo18Decimals(25))
+
+      // Withdrawing more than what's left of it used to wrap around
+      const { amount: staked } = await breeder.userInfo(0, bob.address)
+      await breeder.connect(bob).withdraw(0, staked, ZERO_ADDRESS)
+      expect(await breeder.getGlobalAmount(bob.address)).to.equal(0)
+    })
   })
 })
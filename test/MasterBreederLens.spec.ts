@@ -0,0 +1,136 @@
+import chai, { expect } from 'chai'
+import { Contract, Wallet } from 'ethers'
+import { AddressZero, MaxUint256 } from 'ethers/constants'
+import { solidity, MockProvider, createFixtureLoader, deployContract } from 'ethereum-waffle'
+
+import { expandTo18Decimals } from './shared/utilities'
+import { mineBlocks, mineTo } from './shared/time'
+import { protocolFixture, ProtocolFixture } from './shared/fixtures'
+
+import {
+  fetchFeeTiers,
+  getFeeTier,
+  GovernanceToken,
+  MasterBreeder,
+  MasterBreederLens,
+  withdrawalBlockDelta
+} from '../sdk'
+
+import MasterBreederLensArtifact from '../build/MasterBreederLens.json'
+
+chai.use(solidity)
+
+describe('MasterBreederLens', () => {
+  const provider = new MockProvider({
+    hardfork: 'istanbul',
+    mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
+    gasLimit: 19999999
+  })
+  const wallets = provider.getWallets()
+  const [alice, bob, carol] = wallets
+  const loadFixture = createFixtureLoader(provider, wallets)
+
+  // Pools 0 & 2 stake ERC20Mock LP tokens, pool 1 the VIPER/WETH pair. Farming starts at block 100, when the locks
+  // start to unlock
+  const protocol = protocolFixture({
+    startBlock: 100,
+    pools: [{ allocPoint: 100 }, { allocPoint: 200, pair: 'WETH' }, { allocPoint: 50 }]
+  })
+
+  async function fixture(
+    provider: MockProvider,
+    wallets: Wallet[]
+  ): Promise<ProtocolFixture & { lens: MasterBreederLens }> {
+    const base = await protocol(provider, wallets)
+    const lens = await deployContract(wallets[0], MasterBreederLensArtifact, [base.breeder.address])
+    return { ...base, lens: new MasterBreederLens(lens.address, wallets[0]) }
+  }
+
+  let govToken: GovernanceToken
+  let breeder: MasterBreeder
+  let lpTokens: Contract[]
+  let lens: MasterBreederLens
+
+  beforeEach(async () => {
+    ;({ govToken, breeder, lpTokens, lens } = await loadFixture(fixture))
+    for (const wallet of [bob, carol]) {
+      for (const lp of lpTokens) {
+        await lp.connect(wallet).approve(breeder.address, MaxUint256)
+      }
+    }
+  })
+
+  it('should return the MasterBreeder it reads', async () => {
+    expect(await lens.breeder()).to.eq(breeder.address)
+    expect(await lens.govToken()).to.eq(govToken.address)
+  })
+
+  it("should return every pool with the user's position & GovToken locks in one call", async function() {
+    this.timeout(0)
+    await breeder.connect(bob).deposit(0, expandTo18Decimals(100), AddressZero)
+    await breeder.connect(bob).deposit(1, expandTo18Decimals(50), AddressZero)
+    await breeder.connect(carol).deposit(2, expandTo18Decimals(10), AddressZero)
+    await mineTo(provider, 110)
+    await breeder.connect(bob).withdraw(0, expandTo18Decimals(10), AddressZero)
+    await breeder.connect(bob).claimReward(1)
+    await mineBlocks(provider, 5)
+
+    const dashboard = await lens.dashboard(bob.address)
+    expect(dashboard.blockNumber).to.eq(await provider.getBlockNumber())
+    expect(dashboard.totalAllocPoint).to.eq(350)
+    expect(dashboard.pools.length).to.eq(await breeder.poolLength())
+
+    // Every field matches the calls the lens replaces
+    const tiers = await fetchFeeTiers(breeder)
+    for (let pid = 0; pid < dashboard.pools.length; pid++) {
+      const pool = dashboard.pools[pid]
+      const lp = lpTokens[pid]
+      const user = await breeder.userInfo(pid, bob.address)
+      const blockDelta = withdrawalBlockDelta(user, dashboard.blockNumber)
+      expect(pool.pid).to.eq(pid)
+      expect(pool.lpToken).to.eq(lp.address)
+      expect(pool.allocPoint).to.eq((await breeder.poolInfo(pid)).allocPoint)
+      expect(pool.totalStaked).to.eq(await lp.balanceOf(breeder.address))
+      expect(pool.staked).to.eq(user.amount)
+      expect(pool.lpBalance).to.eq(await lp.balanceOf(bob.address))
+      expect(pool.pendingReward).to.eq(await breeder.pendingReward(pid, bob.address))
+      expect(pool.blockDelta).to.eq(blockDelta)
+      expect(pool.blockDelta).to.eq(await breeder.userDelta(pid, { from: bob.address }))
+      expect(pool.feeTier).to.eq(getFeeTier(tiers, blockDelta, user.lastDepositBlock.eq(dashboard.blockNumber)))
+      expect(await lens.poolPosition(pid, bob.address)).to.deep.eq(pool)
+    }
+    expect(dashboard.pools[0].staked).to.eq(
+      expandTo18Decimals(100)
+        .mul(9925)
+        .div(10000)
+        .sub(expandTo18Decimals(10))
+    )
+    expect(dashboard.pools[0].pendingReward).to.be.gt(0)
+    expect(dashboard.pools[2].staked).to.eq(0)
+    expect(dashboard.pools[2].totalStaked).to.eq(
+      expandTo18Decimals(10)
+        .mul(9925)
+        .div(10000)
+        .add((await breeder.userInfo(2, await breeder.devaddr())).amount)
+    )
+
+    // The harvests locked most of Bob's rewards, part of which the lock window already released
+    expect(dashboard.govToken.balance).to.eq(await govToken.balanceOf(bob.address))
+    expect(dashboard.govToken.lockOf).to.eq(await govToken.lockOf(bob.address))
+    expect(dashboard.govToken.canUnlockAmount).to.eq(await govToken.canUnlockAmount(bob.address))
+    expect(dashboard.govToken.lockOf).to.be.gt(dashboard.govToken.balance)
+    expect(dashboard.govToken.canUnlockAmount).to.be.gt(0)
+  })
+
+  it('should return empty positions for users without deposits', async () => {
+    const dashboard = await lens.dashboard(alice.address)
+    expect(dashboard.pools.map(pool => pool.pid)).to.deep.eq([0, 1, 2])
+    for (const pool of dashboard.pools) {
+      expect(pool.staked).to.eq(0)
+      expect(pool.pendingReward).to.eq(0)
+      expect(pool.lpBalance).to.eq(await lpTokens[pool.pid].balanceOf(alice.address))
+    }
+    expect(dashboard.govToken.lockOf).to.eq(0)
+    expect(dashboard.govToken.canUnlockAmount).to.eq(0)
+  })
+})
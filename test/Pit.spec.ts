@@ -3,8 +3,11 @@ import { Contract } from 'ethers'
 import { solidity, MockProvider, deployContract } from 'ethereum-waffle'
 
 import { deployGovernanceToken } from './shared/deploy'
+import { advanceBlock, latestBlock } from './shared/utilities'
 
-import Pit from '../build/Pit.json'
+import { GovernanceToken, Pit } from '../sdk'
+
+import PitArtifact from '../build/Pit.json'
 
 chai.use(solidity)
 
@@ -16,8 +19,8 @@ describe('Pit', () => {
   })
   const [alice, bob, carol] = provider.getWallets()
 
-  let govToken: Contract
-  let pit: Contract
+  let govToken: GovernanceToken
+  let pit: Pit
 
   beforeEach(async () => {
     govToken = await deployGovernanceToken(alice)
@@ -26,7 +29,8 @@ describe('Pit', () => {
     await govToken.mint(bob.address, "100")
     await govToken.mint(carol.address, "100")
 
-    pit = await deployContract(alice, Pit, ["ViperPit", "xVIPER", govToken.address])
+    const pitContract = await deployContract(alice, PitArtifact, ["ViperPit", "xVIPER", govToken.address])
+    pit = new Pit(pitContract.address, alice)
   })
 
   it('should have correct values for: name, symbol, decimals, totalSupply, balanceOf', async () => {
@@ -77,4 +81,22 @@ describe('Pit', () => {
     expect(await govToken.balanceOf(bob.address)).to.equal("98")
   })
 
+  it("should checkpoint shares by block", async function () {
+    await govToken.approve(pit.address, "100")
+    const enterBlock = (await (await pit.enter("20")).wait()).blockNumber!
+    const transferBlock = (await (await pit.transfer(bob.address, "5")).wait()).blockNumber!
+    const leaveBlock = (await (await pit.leave("15")).wait()).blockNumber!
+    await advanceBlock(provider)
+
+    expect(await pit.getPriorShares(alice.address, enterBlock - 1)).to.equal(0)
+    expect(await pit.getPriorShares(alice.address, enterBlock)).to.equal("20")
+    expect(await pit.getPriorShares(alice.address, transferBlock)).to.equal("15")
+    expect(await pit.getPriorShares(bob.address, transferBlock - 1)).to.equal(0)
+    expect(await pit.getPriorShares(bob.address, transferBlock)).to.equal("5")
+    expect(await pit.getPriorShares(alice.address, leaveBlock)).to.equal(0)
+
+    const block = await latestBlock(provider)
+    await expect(pit.getPriorShares(alice.address, block.number)).to.be.revertedWith("Pit::getPriorShares: not yet determined")
+  })
+
 })
@@ -1,13 +1,16 @@
 import chai, { expect } from 'chai'
 import { Contract, ContractFactory, utils } from 'ethers'
+import { BigNumber } from 'ethers/utils'
 import { solidity, MockProvider, deployContract } from 'ethereum-waffle'
 
 import { expandTo18Decimals } from './shared/utilities'
 import { deployGovernanceToken } from './shared/deploy'
 import { createLpToken } from './shared/lp'
 
-import Pit from '../build/Pit.json'
-import PitBreeder from '../build/PitBreeder.json'
+import { ConversionPlanner, GovernanceToken, minimumGovTokenOut, Pit, PitBreeder } from '../sdk'
+
+import PitArtifact from '../build/Pit.json'
+import PitBreederArtifact from '../build/PitBreeder.json'
 import ERC20Mock from '../build/ERC20Mock.json'
 import UniswapV2Factory from '@venomswap/core/build/UniswapV2Factory.json'
 import UniswapV2Pair from '@venomswap/core/build/UniswapV2Pair.json'
@@ -22,16 +25,16 @@ describe('PitBreeder', () => {
     gasLimit: 9999999
   })
   const wallets = provider.getWallets()
-  const [alice] = wallets
+  const [alice, bob] = wallets
 
-  let pit: Contract
+  let pit: Pit
   let factory: Contract
   let pairFactory: ContractFactory
-  let pitBreeder: Contract
+  let pitBreeder: PitBreeder
   let exploiter: Contract
   
   // Tokens
-  let govToken: Contract
+  let govToken: GovernanceToken
   let weth: Contract
   let dai: Contract
   let busd: Contract
@@ -48,10 +51,10 @@ describe('PitBreeder', () => {
     weth = await deployContract(alice, ERC20Mock, ["WETH", "ETH", expandTo18Decimals(10000000)])
     await weth.transfer(alice.address, expandTo18Decimals(100000))
 
-    pit = await deployContract(alice, Pit, ["ViperPit", "xVIPER", govToken.address])
+    pit = new Pit((await deployContract(alice, PitArtifact, ["ViperPit", "xVIPER", govToken.address])).address, alice)
     factory = await deployContract(alice, UniswapV2Factory, [alice.address])
     pairFactory = new ContractFactory(UniswapV2Pair.abi, UniswapV2Pair.bytecode, alice)
-    pitBreeder = await deployContract(alice, PitBreeder, [factory.address, pit.address, govToken.address, weth.address])
+    pitBreeder = new PitBreeder((await deployContract(alice, PitBreederArtifact, [factory.address, pit.address, govToken.address, weth.address])).address, alice)
     exploiter = await deployContract(alice, PitBreederExploitMock, [pitBreeder.address])
     
     busd = await deployContract(alice, ERC20Mock, ["Binance USD", "BUSD", expandTo18Decimals(10000000)])
@@ -207,4 +210,104 @@ describe('PitBreeder', () => {
     }).retries(10)
   })
 
+  describe("convertWithMinimum", function () {
+    it("should convert when the pit gets at least the minimum", async function () {
+      await pairs['viper/weth'].transfer(pitBreeder.address, expandTo18Decimals(100))
+      await pitBreeder.convertWithMinimum(govToken.address, weth.address, "189756927078123437031")
+
+      expect(await pairs['viper/weth'].balanceOf(pitBreeder.address)).to.equal(0)
+      expect(await govToken.balanceOf(pit.address)).to.equal("189756927078123437031")
+    })
+
+    it("reverts when the pit would get less than the minimum", async function () {
+      await pairs['viper/weth'].transfer(pitBreeder.address, expandTo18Decimals(100))
+      await expect(pitBreeder.convertWithMinimum(govToken.address, weth.address, "189756927078123437032")).to.be.revertedWith("PitBreeder: Insufficient GovernanceToken out")
+
+      expect(await pairs['viper/weth'].balanceOf(pitBreeder.address)).to.equal(expandTo18Decimals(100))
+      expect(await govToken.balanceOf(pit.address)).to.equal(0)
+    })
+
+    it("reverts if caller is not EOA", async function () {
+      await expect(exploiter.convertWithMinimum(govToken.address, weth.address, 0)).to.be.revertedWith("PitBreeder: must use EOA")
+    })
+  })
+
+  describe("convertMultipleWithMinimum", function () {
+    it("should check the minimum of every conversion", async function () {
+      this.timeout(0)
+      await pairs['dai/weth'].transfer(pitBreeder.address, expandTo18Decimals(100))
+      await pairs['viper/weth'].transfer(pitBreeder.address, expandTo18Decimals(100))
+
+      const planner = await ConversionPlanner.load(pitBreeder)
+      const quotes = await planner.quoteMultiple([dai.address, govToken.address], [weth.address, weth.address])
+      const minimums = quotes.map(quote => quote.govTokenOut)
+
+      await expect(pitBreeder.convertMultipleWithMinimum([dai.address, govToken.address], [weth.address, weth.address], [minimums[0], minimums[1].add(1)])).to.be.revertedWith("PitBreeder: Insufficient GovernanceToken out")
+      // ganache underestimates the gas of multiple converts right after a reverted one
+      await pitBreeder.convertMultipleWithMinimum([dai.address, govToken.address], [weth.address, weth.address], minimums, { gasLimit: 9999999 })
+
+      expect(await pairs['dai/weth'].balanceOf(pitBreeder.address)).to.equal(0)
+      expect(await govToken.balanceOf(pit.address)).to.equal("318658355868778309848")
+    })
+
+    it("reverts if the arrays differ in length", async function () {
+      await expect(pitBreeder.convertMultipleWithMinimum([dai.address, govToken.address], [weth.address, weth.address], [0])).to.be.revertedWith("PitBreeder: Length mismatch")
+    })
+  })
+
+  describe("sandwich protection", function () {
+    // Swaps like the router would, bob uses it to front & back run conversions
+    // ganache underestimates the gas of swaps & converts right after a swap through the same pairs, hence the explicit gasLimits
+    async function swap(pair: Contract, tokenIn: string, amountIn: BigNumber): Promise<BigNumber> {
+      const [reserve0, reserve1] = await pair.getReserves()
+      const zeroForOne = (await pair.token0()) === tokenIn
+      const [reserveIn, reserveOut] = zeroForOne ? [reserve0, reserve1] : [reserve1, reserve0]
+      const amountOut = amountIn.mul(997).mul(reserveOut).div(reserveIn.mul(1000).add(amountIn.mul(997)))
+      await new Contract(tokenIn, ERC20Mock.abi, bob).transfer(pair.address, amountIn)
+      await pair.connect(bob).swap(zeroForOne ? 0 : amountOut, zeroForOne ? amountOut : 0, bob.address, "0x", { gasLimit: 9999999 })
+      return amountOut
+    }
+
+    let minGovTokenOut: BigNumber
+
+    beforeEach(async function () {
+      this.timeout(0)
+      await weth.transfer(bob.address, expandTo18Decimals(100))
+      await pairs['busd/weth'].transfer(pitBreeder.address, expandTo18Decimals(100))
+
+      // Quoted before bob's front run, allowing 1% of slippage
+      const quote = await (await ConversionPlanner.load(pitBreeder)).quote(busd.address, weth.address)
+      expect(quote.govTokenOut).to.equal("159089825138293427601")
+      minGovTokenOut = minimumGovTokenOut(quote, 100)
+    })
+
+    it("doesn't let anyone but the owner convert without a minimum", async function () {
+      this.timeout(0)
+      const govTokenBought = await swap(pairs['viper/weth'], weth.address, expandTo18Decimals(100))
+      await expect(pitBreeder.connect(bob).convert(busd.address, weth.address, { gasLimit: 9999999 })).to.be.revertedWith("Ownable: caller is not the owner")
+      await expect(pitBreeder.connect(bob).convertMultiple([busd.address], [weth.address], { gasLimit: 9999999 })).to.be.revertedWith("Ownable: caller is not the owner")
+      await swap(pairs['viper/weth'], govToken.address, govTokenBought)
+
+      expect(await pairs['busd/weth'].balanceOf(pitBreeder.address)).to.equal(expandTo18Decimals(100))
+      expect(await govToken.balanceOf(pit.address)).to.equal(0)
+    })
+
+    it("reverts a sandwiched convertWithMinimum", async function () {
+      this.timeout(0)
+      await swap(pairs['viper/weth'], weth.address, expandTo18Decimals(100))
+      await expect(pitBreeder.convertWithMinimum(busd.address, weth.address, minGovTokenOut)).to.be.revertedWith("PitBreeder: Insufficient GovernanceToken out")
+
+      expect(await pairs['busd/weth'].balanceOf(pitBreeder.address)).to.equal(expandTo18Decimals(100))
+      expect(await govToken.balanceOf(pit.address)).to.equal(0)
+    })
+
+    it("converts within the tolerated slippage", async function () {
+      this.timeout(0)
+      await swap(pairs['viper/weth'], weth.address, expandTo18Decimals(1))
+      await pitBreeder.convertWithMinimum(busd.address, weth.address, minGovTokenOut, { gasLimit: 9999999 })
+
+      expect(await govToken.balanceOf(pit.address)).to.be.gte(minGovTokenOut)
+    })
+  })
+
 })
@@ -0,0 +1,244 @@
+import chai, { expect } from 'chai'
+import { Contract, Wallet } from 'ethers'
+import { AddressZero, MaxUint256 } from 'ethers/constants'
+import { BigNumber } from 'ethers/utils'
+import { solidity, MockProvider, createFixtureLoader, deployContract } from 'ethereum-waffle'
+
+import { expandTo18Decimals } from './shared/utilities'
+import { mineTo } from './shared/time'
+import { protocolFixture, ProtocolFixture } from './shared/fixtures'
+
+import { GovernanceToken, MasterBreeder, Zapper } from '../sdk'
+
+import ZapperArtifact from '../build/Zapper.json'
+
+chai.use(solidity)
+
+const START_BLOCK = 100
+
+// ganache underestimates the gas of the zaps' swaps & liquidity changes
+const overrides = { gasLimit: 9999999 }
+
+// What's staked of the zapped LP tokens after the fixture's 0.75% deposit fee
+function staked(liquidity: BigNumber): BigNumber {
+  return liquidity.sub(liquidity.mul(75).div(10000))
+}
+
+describe('Zapper', () => {
+  const provider = new MockProvider({
+    hardfork: 'istanbul',
+    mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
+    gasLimit: 19999999
+  })
+  const wallets = provider.getWallets()
+  const [alice, bob, carol] = wallets
+  const loadFixture = createFixtureLoader(provider, wallets)
+
+  // Pool 0 stakes the VIPER/WETH pair & pool 1 the VIPER/BUSD pair
+  const protocol = protocolFixture({
+    startBlock: START_BLOCK,
+    pools: [
+      { allocPoint: 100, pair: 'WETH' },
+      { allocPoint: 100, pair: 'BUSD' }
+    ],
+    router: true
+  })
+
+  async function fixture(provider: MockProvider, wallets: Wallet[]): Promise<ProtocolFixture & { zapper: Zapper }> {
+    const base = await protocol(provider, wallets)
+    const zapper = await deployContract(wallets[0], ZapperArtifact, [base.breeder.address, base.router!.address])
+    return { ...base, zapper: new Zapper(zapper.address, wallets[0]) }
+  }
+
+  let govToken: GovernanceToken
+  let breeder: MasterBreeder
+  let wethLp: Contract
+  let busdLp: Contract
+  let weth: Contract
+  let busd: Contract
+  let zapper: Zapper
+
+  beforeEach(async () => {
+    ;({
+      govToken,
+      breeder,
+      lpTokens: [wethLp, busdLp],
+      pairedTokens: { WETH: weth, BUSD: busd },
+      zapper
+    } = await loadFixture(fixture))
+    await busd.transfer(bob.address, expandTo18Decimals(1000))
+    for (const token of [busd, govToken.contract, wethLp, busdLp]) {
+      await token.connect(bob).approve(zapper.address, MaxUint256)
+    }
+    await breeder.connect(bob).setOperator(zapper.address, true)
+  })
+
+  it('should zap an ERC20 into the pool of its pair', async () => {
+    const amount = expandTo18Decimals(100)
+    await expect(zapper.connect(bob).zapIn(1, busd.address, 0, 0, AddressZero, overrides)).to.be.revertedWith(
+      'Zapper::zapIn: amount must be greater than 0'
+    )
+    await weth.transfer(bob.address, amount)
+    await weth.connect(bob).approve(zapper.address, MaxUint256)
+    await expect(zapper.connect(bob).zapIn(1, weth.address, amount, 0, AddressZero, overrides)).to.be.revertedWith(
+      'Zapper: token not in pair'
+    )
+    await expect(
+      zapper.connect(bob).zapIn(1, busd.address, amount, expandTo18Decimals(50), AddressZero, overrides)
+    ).to.be.revertedWith('Zapper::zapIn: insufficient liquidity')
+    // The Zapper deposits for its callers as their operator
+    await busd.transfer(carol.address, amount)
+    await busd.connect(carol).approve(zapper.address, MaxUint256)
+    await expect(zapper.connect(carol).zapIn(1, busd.address, amount, 0, AddressZero, overrides)).to.be.revertedWith(
+      'MasterBreeder: caller is not an operator'
+    )
+
+    const before: BigNumber = await busd.balanceOf(bob.address)
+    const receipt = await (await zapper.connect(bob).zapIn(1, busd.address, amount, 0, carol.address, overrides)).wait()
+    const [zap] = zapper.parseEvents('ZapIn', receipt.logs!)
+    expect(zap.args.user).to.eq(bob.address)
+    expect(zap.args.pid).to.eq(1)
+    expect(zap.args.tokenIn).to.eq(busd.address)
+    expect(zap.args.amountIn).to.eq(amount)
+    // Half of the BUSD is worth about 1:1 VIPER in the 10000/10000 pair, the LP tokens are about half of the BUSD
+    expect(zap.args.liquidity).to.be.gt(amount.mul(49).div(100))
+
+    expect((await breeder.userInfo(1, bob.address)).amount).to.eq(staked(zap.args.liquidity))
+    expect(await breeder.referrerOf(bob.address)).to.eq(carol.address)
+    // Only rounding dust of the optimal swap is sent back
+    const spent = before.sub(await busd.balanceOf(bob.address))
+    expect(spent).to.be.lte(amount)
+    expect(spent).to.be.gt(amount.sub(amount.div(1000000)))
+    for (const token of [busd, govToken.contract, busdLp]) {
+      expect(await token.balanceOf(zapper.address)).to.eq(0)
+    }
+  })
+
+  it('should zap ETH into & out of a WETH pair', async () => {
+    const value = expandTo18Decimals(10)
+    await expect(zapper.connect(bob).zapInETH(1, 0, AddressZero, { ...overrides, value })).to.be.revertedWith(
+      'Zapper: token not in pair'
+    )
+    await expect(bob.sendTransaction({ to: zapper.address, value })).to.be.revertedWith('Zapper: ETH not from WETH')
+
+    const receipt = await (await zapper.connect(bob).zapInETH(0, 0, AddressZero, { ...overrides, value })).wait()
+    const [zap] = zapper.parseEvents('ZapIn', receipt.logs!)
+    expect(zap.args.tokenIn).to.eq(weth.address)
+    expect(zap.args.amountIn).to.eq(value)
+    const stake = staked(zap.args.liquidity)
+    expect((await breeder.userInfo(0, bob.address)).amount).to.eq(stake)
+    expect(await weth.balanceOf(zapper.address)).to.eq(0)
+    expect(await provider.getBalance(zapper.address)).to.eq(0)
+
+    // Bob withdraws the LP tokens, paying the withdrawal fee, before zapping out of them
+    const lpBefore: BigNumber = await wethLp.balanceOf(bob.address)
+    await breeder.connect(bob).withdraw(0, stake, AddressZero)
+    const liquidity = (await wethLp.balanceOf(bob.address)).sub(lpBefore)
+    await expect(zapper.connect(bob).zapOutETH(0, liquidity, value, overrides)).to.be.revertedWith(
+      'Zapper::zapOut: insufficient output amount'
+    )
+
+    const ethBefore = await provider.getBalance(bob.address)
+    const tx = await zapper.connect(bob).zapOutETH(0, liquidity, 0, overrides)
+    const outReceipt = await tx.wait()
+    const [out] = zapper.parseEvents('ZapOut', outReceipt.logs!)
+    expect(out.args.user).to.eq(bob.address)
+    expect(out.args.tokenOut).to.eq(weth.address)
+    expect(out.args.liquidity).to.eq(liquidity)
+    // Bob gets the ETH behind the LP tokens left after MasterBreeder's fees, minus the swap fees of both zaps
+    const behind = value.mul(liquidity).div(zap.args.liquidity)
+    expect(out.args.amountOut).to.be.lt(behind)
+    expect(out.args.amountOut).to.be.gt(behind.mul(99).div(100))
+    const gasCost = outReceipt.gasUsed!.mul(tx.gasPrice)
+    expect((await provider.getBalance(bob.address)).sub(ethBefore)).to.eq(out.args.amountOut.sub(gasCost))
+    expect(await wethLp.balanceOf(bob.address)).to.eq(lpBefore)
+  })
+
+  it('should zap out of a stake through withdrawTo', async function() {
+    this.timeout(0)
+    const receipt = await (
+      await zapper.connect(bob).zapIn(1, busd.address, expandTo18Decimals(100), 0, AddressZero, overrides)
+    ).wait()
+    const [zap] = zapper.parseEvents('ZapIn', receipt.logs!)
+    const stake = staked(zap.args.liquidity)
+    await zapper.connect(bob).zapInETH(0, 0, AddressZero, { ...overrides, value: expandTo18Decimals(10) })
+    await mineTo(provider, START_BLOCK + 20)
+
+    await expect(zapper.connect(bob).withdrawAndZapOut(1, 0, busd.address, 0, overrides)).to.be.revertedWith(
+      'Zapper::zapOut: amount must be greater than 0'
+    )
+    // The Zapper withdraws for its callers as their operator
+    await expect(zapper.connect(carol).withdrawAndZapOut(1, stake, busd.address, 0, overrides)).to.be.revertedWith(
+      'MasterBreeder: caller is not an operator'
+    )
+    await expect(
+      zapper.connect(bob).withdrawAndZapOut(1, stake, busd.address, expandTo18Decimals(100), overrides)
+    ).to.be.revertedWith('Zapper::zapOut: insufficient output amount')
+
+    const busdBefore: BigNumber = await busd.balanceOf(bob.address)
+    const outReceipt = await (await zapper.connect(bob).withdrawAndZapOut(1, stake, busd.address, 0, overrides)).wait()
+    const [out] = zapper.parseEvents('ZapOut', outReceipt.logs!)
+    expect(out.args.user).to.eq(bob.address)
+    expect(out.args.tokenOut).to.eq(busd.address)
+    // Only the LP tokens left after the withdrawal fee are zapped out
+    expect(out.args.liquidity).to.be.lt(stake)
+    expect(out.args.liquidity).to.be.gt(stake.mul(9).div(10))
+    expect((await busd.balanceOf(bob.address)).sub(busdBefore)).to.eq(out.args.amountOut)
+    expect((await breeder.userInfo(1, bob.address)).amount).to.eq(0)
+    // The rewards are harvested to Bob rather than to the Zapper
+    expect(await govToken.balanceOf(bob.address)).to.be.gt(0)
+
+    const ethStake = (await breeder.userInfo(0, bob.address)).amount
+    const ethBefore = await provider.getBalance(bob.address)
+    const tx = await zapper.connect(bob).withdrawAndZapOutETH(0, ethStake, 0, overrides)
+    const ethReceipt = await tx.wait()
+    const [ethOut] = zapper.parseEvents('ZapOut', ethReceipt.logs!)
+    expect(ethOut.args.tokenOut).to.eq(weth.address)
+    const gasCost = ethReceipt.gasUsed!.mul(tx.gasPrice)
+    expect((await provider.getBalance(bob.address)).sub(ethBefore)).to.eq(ethOut.args.amountOut.sub(gasCost))
+    expect((await breeder.userInfo(0, bob.address)).amount).to.eq(0)
+
+    for (const token of [busd, weth, govToken.contract, wethLp, busdLp]) {
+      expect(await token.balanceOf(zapper.address)).to.eq(0)
+    }
+    expect(await provider.getBalance(zapper.address)).to.eq(0)
+  })
+
+  it('should zap harvested GovToken into & out of its pair', async function() {
+    this.timeout(0)
+    await zapper.connect(bob).zapIn(1, busd.address, expandTo18Decimals(100), 0, AddressZero, overrides)
+    await mineTo(provider, START_BLOCK + 20)
+    await breeder.connect(bob).claimReward(1)
+
+    // The unlocked part of the rewards is zapped into the VIPER/WETH pool
+    const rewards: BigNumber = await govToken.balanceOf(bob.address)
+    expect(rewards).to.be.gt(0)
+    const receipt = await (
+      await zapper.connect(bob).zapIn(0, govToken.address, rewards, 0, AddressZero, overrides)
+    ).wait()
+    const [zap] = zapper.parseEvents('ZapIn', receipt.logs!)
+    expect(zap.args.liquidity).to.be.gt(0)
+    expect((await breeder.userInfo(0, bob.address)).amount).to.eq(staked(zap.args.liquidity))
+    expect(await govToken.balanceOf(bob.address)).to.be.lt(rewards.div(1000))
+
+    // VIPER/BUSD LP tokens held outside of MasterBreeder zap out to VIPER
+    const liquidity = expandTo18Decimals(10)
+    await expect(zapper.connect(bob).zapOut(1, 0, govToken.address, 0, overrides)).to.be.revertedWith(
+      'Zapper::zapOut: amount must be greater than 0'
+    )
+    await expect(zapper.connect(bob).zapOut(1, liquidity, weth.address, 0, overrides)).to.be.revertedWith(
+      'Zapper: token not in pair'
+    )
+    const before = await govToken.balanceOf(bob.address)
+    await expect(zapper.connect(bob).zapOut(1, liquidity, govToken.address, 0, overrides)).to.emit(
+      zapper.contract,
+      'ZapOut'
+    )
+    // 10 LP tokens of the 1:1 pair are worth about 20 VIPER
+    const received = (await govToken.balanceOf(bob.address)).sub(before)
+    expect(received).to.be.gt(expandTo18Decimals(19))
+    expect(received).to.be.lt(expandTo18Decimals(20))
+    expect(await busd.balanceOf(zapper.address)).to.eq(0)
+    expect(await govToken.balanceOf(zapper.address)).to.eq(0)
+  })
+})
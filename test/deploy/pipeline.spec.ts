@@ -0,0 +1,192 @@
+import chai, { expect } from 'chai'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { Contract } from 'ethers'
+import { bigNumberify } from 'ethers/utils'
+import { solidity, MockProvider, deployContract } from 'ethereum-waffle'
+
+import { expandTo18Decimals } from '../shared/utilities'
+
+import {
+  blocksFor,
+  deriveParameters,
+  loadNetworkConfig,
+  NetworkConfig,
+  validateNetworkConfig
+} from '../../deploy/config'
+import { readManifest, writeManifest } from '../../deploy/manifest'
+import { deployProtocol, Deployment } from '../../deploy/pipeline'
+
+import UniswapV2Factory from '@venomswap/core/build/UniswapV2Factory.json'
+import WETH9Mock from '../../build/WETH9Mock.json'
+
+chai.use(solidity)
+
+describe('Deploy', () => {
+  const provider = new MockProvider({
+    hardfork: 'istanbul',
+    mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
+    gasLimit: 19999999
+  })
+  const wallets = provider.getWallets()
+  const [alice, bob, carol, minter, dev, liquidityFund, communityFund, founderFund] = wallets
+
+  context('Config', function() {
+    it('should derive the halving cadence from the block time', async function() {
+      // Ethereum ~13.33s, BSC 3s, Harmony 2s blocks - one week per halving period
+      expect(deriveParameters(loadNetworkConfig('ethereum')).halvingAfterBlock).to.eq(45361)
+      expect(deriveParameters(loadNetworkConfig('bsc')).halvingAfterBlock).to.eq(201600)
+      expect(deriveParameters(loadNetworkConfig('harmony')).halvingAfterBlock).to.eq(302400)
+    })
+
+    it('should derive fee tiers & lock blocks from durations', async function() {
+      const config = loadNetworkConfig('harmony', { startBlock: 1000 })
+      const parameters = deriveParameters(config)
+
+      expect(parameters.feeTierMinBlockDeltas).to.deep.eq([0, 1, 1801, 43201, 129601, 216001, 604801, 1209601])
+      expect(parameters.lockFromBlock).to.eq(1000 + blocksFor(config.governanceToken.lockFromDelay, 2))
+      expect(parameters.lockToBlock).to.eq(parameters.lockFromBlock + blocksFor(config.governanceToken.lockDuration, 2))
+      expect(parameters.rewardPerBlock).to.eq(expandTo18Decimals(150))
+      expect(parameters.cap).to.eq(expandTo18Decimals(500000000))
+    })
+
+    it('should apply overrides on top of the network & default config', async function() {
+      const config = loadNetworkConfig('bsc', { masterBreeder: { percentForDev: 10 }, pit: { symbol: 'xTEST' } })
+      expect(config.masterBreeder.percentForDev).to.eq(10)
+      expect(config.masterBreeder.percentForCom).to.eq(6)
+      expect(config.masterBreeder.rewardPerBlock).to.eq('225')
+      expect(config.pit).to.deep.eq({ name: 'ViperPit', symbol: 'xTEST' })
+    })
+
+    it('should reject unknown networks & incomplete configs', async function() {
+      expect(() => loadNetworkConfig('unknown')).to.throw('Unknown network: unknown')
+      expect(() => validateNetworkConfig(loadNetworkConfig('harmony'))).to.throw(
+        'Invalid network config harmony: startBlock must be set, masterBreeder.funds.dev must be an address'
+      )
+    })
+
+    it('should reject fee tiers that MasterBreeder would reject', async function() {
+      const config = loadNetworkConfig('harmony', {
+        masterBreeder: { feeTierUserBps: [7500, 9100, 9600, 9800, 9900, 9950, 9975, 9999] }
+      })
+      expect(() => validateNetworkConfig(config)).to.throw('masterBreeder: fee tier 1 pays out 9900 of 10000 bps')
+
+      config.masterBreeder.feeTierDurations = [0, 3600]
+      expect(() => validateNetworkConfig(config)).to.throw(
+        'masterBreeder.feeTierDurations needs one entry less than feeTierUserBps & feeTierDevBps'
+      )
+    })
+  })
+
+  context('Pipeline', function() {
+    let factory: Contract
+    let weth: Contract
+    let config: NetworkConfig
+    let deployment: Deployment
+
+    beforeEach(async function() {
+      this.timeout(0)
+      factory = await deployContract(alice, UniswapV2Factory, [alice.address])
+      weth = await deployContract(alice, WETH9Mock, [])
+
+      config = loadNetworkConfig('localhost', {
+        startBlock: (await provider.getBlockNumber()) + 100,
+        masterBreeder: {
+          funds: {
+            dev: dev.address,
+            liquidity: liquidityFund.address,
+            community: communityFund.address,
+            founder: founderFund.address
+          }
+        },
+        pitBreeder: { factory: factory.address, weth: weth.address }
+      })
+      deployment = await deployProtocol(alice, config)
+    })
+
+    it('should deploy the contracts in order', async function() {
+      const { contracts } = deployment.manifest
+      const order = [
+        'GovernanceToken',
+        'FeeSchedule',
+        'RewardSchedule',
+        'Referrals',
+        'MasterBreeder',
+        'Pit',
+        'PitBreeder',
+        'GovernanceVote',
+        'Timelock',
+        'GovernorAlpha'
+      ]
+
+      expect(Object.keys(contracts)).to.deep.eq(order)
+      for (let i = 1; i < order.length; i++) {
+        expect(contracts[order[i]].blockNumber).to.be.gt(contracts[order[i - 1]].blockNumber)
+      }
+      expect(contracts.MasterBreeder.address).to.eq(deployment.breeder.address)
+      expect(contracts.Timelock.address).to.eq(deployment.timelock.address)
+      expect(contracts.GovernorAlpha.address).to.eq(deployment.governor.address)
+    })
+
+    it('should transfer the token ownership to MasterBreeder', async function() {
+      expect(await deployment.govToken.owner()).to.eq(deployment.breeder.address)
+      expect(await deployment.breeder.owner()).to.eq(alice.address)
+    })
+
+    it('should configure MasterBreeder with the derived parameters', async function() {
+      const { breeder, govToken } = deployment
+      const parameters = deriveParameters(config)
+
+      expect(await breeder.govToken()).to.eq(govToken.address)
+      expect(await breeder.devaddr()).to.eq(dev.address)
+      expect(await breeder.founderaddr()).to.eq(founderFund.address)
+      expect(await breeder.START_BLOCK()).to.eq(config.startBlock)
+      expect(await breeder.REWARD_PER_BLOCK()).to.eq(expandTo18Decimals(1000))
+      expect(await breeder.HALVING_AT_BLOCK(0)).to.eq(config.startBlock + parameters.halvingAfterBlock + 1)
+      expect(await breeder.feeTierCount()).to.eq(8)
+      expect(await breeder.feeTiers(7)).to.deep.eq({
+        minBlockDelta: bigNumberify(parameters.feeTierMinBlockDeltas[7]),
+        userBps: bigNumberify(9999),
+        devBps: bigNumberify(1)
+      })
+      expect(await breeder.PERCENT_LOCK_BONUS_REWARD()).to.eq(95)
+      expect(await breeder.PERCENT_FOR_DEV()).to.eq(6)
+      expect(await breeder.PERCENT_FOR_LP()).to.eq(4)
+      expect(await govToken.lockFromBlock()).to.eq(parameters.lockFromBlock)
+      expect(await govToken.lockToBlock()).to.eq(parameters.lockToBlock)
+    })
+
+    it('should wire Pit, PitBreeder, GovernanceVote, Timelock & GovernorAlpha', async function() {
+      const { breeder, govToken, pit, pitBreeder, govVote, timelock, governor } = deployment
+      const parameters = deriveParameters(config)
+      const pair = await factory.getPair(govToken.address, weth.address)
+
+      expect(await pit.govToken()).to.eq(govToken.address)
+      expect(await pitBreeder.factory()).to.eq(factory.address)
+      expect(await pitBreeder.pit()).to.eq(pit.address)
+      expect((await breeder.poolInfo(0)).lpToken).to.eq(pair)
+      expect(await govVote.lpPair()).to.eq(pair)
+      expect(await govVote.masterBreeder()).to.eq(breeder.address)
+      expect(await govVote.pit()).to.eq(pit.address)
+      expect(await timelock.admin()).to.eq(governor.address)
+      expect(await timelock.delay()).to.eq(config.timelock.delay)
+      expect(await governor.timelock()).to.eq(timelock.address)
+      expect(await governor.votingPower()).to.eq(govVote.address)
+      expect(await governor.guardian()).to.eq(alice.address)
+      expect(await governor.quorumVotes()).to.eq(expandTo18Decimals(20000000))
+      expect(await governor.votingPeriod()).to.eq(parameters.votingPeriod)
+    })
+
+    it('should write & read the deployment manifest', async function() {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'deployments-'))
+      const file = writeManifest(deployment.manifest, dir)
+
+      expect(file).to.eq(path.join(dir, 'localhost.json'))
+      const manifest = readManifest('localhost', dir)
+      expect(manifest).to.deep.eq(deployment.manifest)
+      expect(manifest.parameters.rewardPerBlock).to.eq(expandTo18Decimals(1000).toString())
+      expect(manifest.contracts.GovernanceToken.args[0]).to.eq('Viper')
+    })
+  })
+})
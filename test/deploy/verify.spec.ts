@@ -0,0 +1,154 @@
+import chai, { expect } from 'chai'
+import { Contract } from 'ethers'
+import { solidity, MockProvider, deployContract } from 'ethereum-waffle'
+
+import { loadNetworkConfig } from '../../deploy/config'
+import { deployProtocol, Deployment } from '../../deploy/pipeline'
+import { arrayLength, formatReport, verifyDeployment, VerificationReport } from '../../deploy/verify'
+import { fetchFeeTiers } from '../../sdk'
+
+import UniswapV2Factory from '@venomswap/core/build/UniswapV2Factory.json'
+import WETH9Mock from '../../build/WETH9Mock.json'
+
+chai.use(solidity)
+
+function failedChecks(report: VerificationReport): string[] {
+  return report.checks.filter(check => !check.passed).map(check => check.name)
+}
+
+describe('VerifyDeployment', () => {
+  const provider = new MockProvider({
+    hardfork: 'istanbul',
+    mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
+    gasLimit: 19999999
+  })
+  const wallets = provider.getWallets()
+  const [alice, bob, carol, minter, dev, liquidityFund, communityFund, founderFund] = wallets
+
+  let factory: Contract
+  let deployment: Deployment
+
+  beforeEach(async function() {
+    this.timeout(0)
+    factory = await deployContract(alice, UniswapV2Factory, [alice.address])
+    const weth = await deployContract(alice, WETH9Mock, [])
+
+    const config = loadNetworkConfig('localhost', {
+      startBlock: (await provider.getBlockNumber()) + 100,
+      masterBreeder: {
+        funds: {
+          dev: dev.address,
+          liquidity: liquidityFund.address,
+          community: communityFund.address,
+          founder: founderFund.address
+        }
+      },
+      pitBreeder: { factory: factory.address, weth: weth.address }
+    })
+    deployment = await deployProtocol(alice, config)
+  })
+
+  it('should find the length of public arrays', async function() {
+    const values = [10, 20, 30, 40, 50]
+    for (let length = 0; length <= values.length; length++) {
+      const getter = async (index: number) => {
+        if (index >= length) throw new Error('invalid opcode')
+        return values[index]
+      }
+      expect(await arrayLength(getter)).to.eq(length)
+    }
+    expect(await arrayLength(index => deployment.breeder.REWARD_MULTIPLIER(index))).to.eq(
+      deployment.manifest.config.masterBreeder.rewardMultipliers.length
+    )
+  })
+
+  it('should pass every check for a fresh deployment', async function() {
+    const report = await verifyDeployment(deployment.manifest, provider)
+
+    expect(failedChecks(report)).to.deep.eq([])
+    expect(report.passed).to.be.true
+    expect(report.network).to.eq('localhost')
+    expect(formatReport(report)).to.contain('PASS  GovernanceToken is owned by MasterBreeder')
+    expect(formatReport(report)).to.contain(`localhost: ${report.checks.length} passed, 0 failed`)
+  })
+
+  it('should report unexpected & missing role members', async function() {
+    await deployment.breeder.grantRole('feeManager', bob.address)
+
+    let report = await verifyDeployment(deployment.manifest, provider, {
+      roles: { MasterBreeder: { feeManager: [bob.address] } }
+    })
+    expect(report.passed).to.be.true
+
+    // Every member of every role is enumerated, not just known accounts
+    await deployment.breeder.grantRole('treasuryManager', carol.address)
+    report = await verifyDeployment(deployment.manifest, provider, {
+      roles: { MasterBreeder: { feeManager: [bob.address] } }
+    })
+    expect(failedChecks(report)).to.deep.eq(['MasterBreeder role members'])
+    expect(formatReport(report)).to.contain(
+      `FAIL  MasterBreeder role members: ${carol.address} unexpectedly holds treasuryManager`
+    )
+
+    report = await verifyDeployment(deployment.manifest, provider, {
+      roles: {
+        GovernanceToken: { emissionsManager: [bob.address] },
+        MasterBreeder: { feeManager: [bob.address, dev.address], treasuryManager: [carol.address] }
+      }
+    })
+    expect(failedChecks(report)).to.deep.eq(['GovernanceToken role members', 'MasterBreeder role members'])
+    expect(formatReport(report)).to.contain(
+      `FAIL  GovernanceToken role members: ${bob.address} doesn't hold emissionsManager`
+    )
+    expect(formatReport(report)).to.contain(`FAIL  MasterBreeder role members: ${dev.address} doesn't hold feeManager`)
+  })
+
+  it('should report changed reward splits & halving schedules', async function() {
+    await deployment.breeder.lockcomUpdate(10)
+    await deployment.breeder.rewardMulUpdate([2, 1])
+    await deployment.breeder.halvingUpdate([1000, 2000])
+
+    const report = await verifyDeployment(deployment.manifest, provider)
+    expect(failedChecks(report)).to.deep.eq([
+      'Reward splits & lock percentage',
+      'HALVING_AT_BLOCK matches REWARD_MULTIPLIER'
+    ])
+    const details = report.checks.find(check => check.name === 'HALVING_AT_BLOCK matches REWARD_MULTIPLIER')!.details
+    expect(details).to.contain('REWARD_MULTIPLIER has 2 entries')
+    expect(details).to.contain('HALVING_AT_BLOCK does not end with uint256(-1)')
+  })
+
+  it('should report fee tiers that differ from the config', async function() {
+    const tiers = await fetchFeeTiers(deployment.breeder)
+    const [first, second] = tiers
+    await deployment.breeder.setFeeTiers([first, { ...second, minBlockDelta: second.minBlockDelta.add(10) }])
+
+    const report = await verifyDeployment(deployment.manifest, provider)
+    expect(failedChecks(report)).to.deep.eq(['Fee tiers match the config'])
+    expect(report.checks.find(check => check.name === 'Fee tiers match the config')!.details).to.eq(
+      `MasterBreeder has 2 fee tiers, expected ${tiers.length}`
+    )
+
+    await deployment.breeder.setFeeTiers(tiers.map((tier, i) => (i === 2 ? { ...tier, minBlockDelta: 10 } : tier)))
+    const details = (await verifyDeployment(deployment.manifest, provider)).checks.find(
+      check => check.name === 'Fee tiers match the config'
+    )!.details
+    expect(details).to.eq(
+      `fee tier 2 is (10, ${tiers[2].userBps}, ${tiers[2].devBps}), expected (${tiers[2].minBlockDelta}, ${tiers[2].userBps}, ${tiers[2].devBps})`
+    )
+  })
+
+  it('should report a broken ownership graph', async function() {
+    const manifest = JSON.parse(JSON.stringify(deployment.manifest))
+    manifest.deployer = bob.address
+    manifest.contracts.Pit.address = factory.address
+
+    const report = await verifyDeployment(manifest, provider)
+    expect(failedChecks(report)).to.include.members([
+      'MasterBreeder, PitBreeder & GovernanceVote are owned by the deployer',
+      'GovernorAlpha settings',
+      'Contract references'
+    ])
+    expect(failedChecks(report)).to.not.include.members(['GovernanceToken is owned by MasterBreeder', 'Timelock admin'])
+  })
+})
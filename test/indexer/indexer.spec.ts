@@ -0,0 +1,345 @@
+import chai, { expect } from 'chai'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { AddressZero } from 'ethers/constants'
+import { solidity, MockProvider, createFixtureLoader, deployContract } from 'ethereum-waffle'
+
+import { expandTo18Decimals } from '../shared/utilities'
+import { mineBlocks, mineTo, revert, snapshot } from '../shared/time'
+import { protocolFixture, ProtocolFixture } from '../shared/fixtures'
+
+import { Indexer, IndexerOptions } from '../../indexer/indexer'
+import { JsonFileStore, MemoryStore } from '../../indexer/store'
+import { UserPoolAggregate } from '../../indexer/types'
+
+import ERC20Mock from '../../build/ERC20Mock.json'
+
+chai.use(solidity)
+
+const START_BLOCK = 100
+
+describe('Indexer', () => {
+  const provider = new MockProvider({
+    hardfork: 'istanbul',
+    mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
+    gasLimit: 19999999
+  })
+  const wallets = provider.getWallets()
+  const [alice, bob, carol, , dev] = wallets
+  const loadFixture = createFixtureLoader(provider, wallets)
+
+  const fixture = protocolFixture({
+    startBlock: START_BLOCK,
+    pools: [{ allocPoint: 100, pair: 'WETH' }, { allocPoint: 50 }],
+    pit: true
+  })
+
+  let protocol: ProtocolFixture
+
+  function createIndexer(store = new MemoryStore(), options: IndexerOptions = {}): Indexer {
+    const { breeder, govToken, pit, pitBreeder } = protocol
+    return new Indexer({ breeder, govToken, pit, pitBreeder }, store, options)
+  }
+
+  // Farming, locking, unlocking, delegating, staking in the Pit & converting fees
+  async function populate() {
+    const { breeder, govToken, lpTokens, pit, pitBreeder, pairedTokens } = protocol
+    const [pair, lp] = lpTokens
+
+    await pair.connect(bob).approve(breeder.address, expandTo18Decimals(1000))
+    await lp.connect(carol).approve(breeder.address, expandTo18Decimals(1000))
+    await breeder.connect(bob).deposit(0, expandTo18Decimals(100), AddressZero)
+    await breeder.connect(carol).deposit(1, expandTo18Decimals(200), bob.address)
+
+    await mineTo(provider, START_BLOCK + 10)
+    await breeder.connect(bob).deposit(0, expandTo18Decimals(50), AddressZero)
+    await breeder.connect(carol).withdraw(1, expandTo18Decimals(50), AddressZero)
+    await breeder.connect(bob).claimReward(0)
+    await breeder.connect(carol).emergencyWithdraw(1)
+
+    await govToken.connect(bob).unlock()
+    await govToken.connect(bob).delegate(carol.address)
+
+    await govToken.connect(bob).approve(pit!.address, expandTo18Decimals(1000))
+    await pit!.connect(bob).enter(await govToken.balanceOf(bob.address))
+    await pit!.connect(bob).leave((await pit!.balanceOf(bob.address)).div(2))
+
+    const dai = await deployContract(alice, ERC20Mock, ['Dai', 'DAI', expandTo18Decimals(1000)])
+    await pitBreeder!.setBridge(dai.address, pairedTokens.WETH.address)
+    await pair.transfer(pitBreeder!.address, expandTo18Decimals(10))
+    await pitBreeder!.convert(govToken.address, pairedTokens.WETH.address)
+  }
+
+  // Accounts & pools without any indexed event are expected to be empty on chain as well
+  async function expectMatchesChain(indexer: Indexer) {
+    const { breeder, govToken, lpTokens, pit } = protocol
+
+    for (let pid = 0; pid < lpTokens.length; pid++) {
+      const pool = await indexer.pool(pid)
+      expect(pool ? pool.staked : '0').to.eq((await lpTokens[pid].balanceOf(breeder.address)).toString())
+    }
+    for (const wallet of [alice, bob, carol, dev]) {
+      const user = (await indexer.user(wallet.address)) || {
+        pools: {} as { [pid: string]: UserPoolAggregate },
+        globalAmount: '0',
+        govTokenBalance: '0',
+        locked: '0',
+        votes: '0',
+        pitBalance: '0'
+      }
+      for (let pid = 0; pid < lpTokens.length; pid++) {
+        const staked = user.pools[pid] ? user.pools[pid].staked : '0'
+        expect(staked).to.eq((await breeder.userInfo(pid, wallet.address)).amount.toString())
+      }
+      expect(user.globalAmount).to.eq((await breeder.getGlobalAmount(wallet.address)).toString())
+      expect(user.govTokenBalance).to.eq((await govToken.balanceOf(wallet.address)).toString())
+      expect(user.locked).to.eq((await govToken.lockOf(wallet.address)).toString())
+      expect(user.votes).to.eq((await govToken.getCurrentVotes(wallet.address)).toString())
+      expect(user.pitBalance).to.eq((await pit!.balanceOf(wallet.address)).toString())
+    }
+  }
+
+  beforeEach(async function() {
+    this.timeout(0)
+    protocol = await loadFixture(fixture)
+  })
+
+  it('should aggregate events into per-user & per-pool state matching the contracts', async function() {
+    this.timeout(0)
+    await populate()
+    const indexer = createIndexer()
+    const result = await indexer.sync()
+
+    expect(result.toBlock).to.eq(await provider.getBlockNumber())
+    expect(result.events).to.be.gt((await indexer.events()).length)
+    expect((await indexer.events())[0].blockNumber).to.be.gt(result.toBlock - 100)
+    expect(result.rolledBackTo).to.be.undefined
+    await expectMatchesChain(indexer)
+
+    const { govToken, pitBreeder, pairedTokens, pit } = protocol
+    const pool = (await indexer.pool(0))!
+    expect(pool.deposited).to.eq(expandTo18Decimals(150).toString())
+    expect(pool.stakers).to.eq(2) // bob & the dev address
+    expect((await indexer.pool(1))!.stakers).to.eq(1)
+    expect(
+      (await indexer.events({ contract: 'MasterBreeder', name: 'SendGovernanceTokenReward' })).map(
+        event => event.args.user
+      )
+    ).to.deep.eq([bob.address, carol.address, bob.address])
+    expect((await indexer.user(bob.address))!.pools[0].rewards).to.not.eq('0')
+
+    const [convert] = (await indexer.events({ contract: 'PitBreeder', name: 'LogConvert' })).map(event => event.args)
+    const aggregate = Object.values((await indexer.load()).converts)[0]
+    expect(aggregate.converts).to.eq(1)
+    expect(aggregate.amountGovToken).to.eq(convert.amountGovToken)
+    expect(await govToken.balanceOf(pit!.address)).to.be.gte(convert.amountGovToken)
+    expect(Object.values((await indexer.load()).bridges)).to.deep.eq([pairedTokens.WETH.address])
+    expect((await indexer.load()).contracts.PitBreeder).to.eq(pitBreeder!.address)
+  })
+
+  it("should apply the deposit fees & dev address of each deposit's block", async function() {
+    this.timeout(0)
+    const { breeder, lpTokens } = protocol
+    const lp = lpTokens[1]
+    await lp.connect(bob).approve(breeder.address, expandTo18Decimals(1000))
+    await breeder.connect(bob).deposit(1, expandTo18Decimals(100), AddressZero)
+    const indexer = createIndexer()
+    await indexer.sync()
+
+    // Bob's second deposit pays a 1% fee, staked for carol as the new dev address
+    await breeder.setUserDepFee(100)
+    await breeder.setDevDepFee(9900)
+    await breeder.dev(carol.address)
+    await breeder.connect(bob).deposit(1, expandTo18Decimals(100), AddressZero)
+    await indexer.sync()
+    await expectMatchesChain(indexer)
+    expect((await indexer.user(dev.address))!.pools[1].staked).to.eq(
+      expandTo18Decimals(100)
+        .mul(75)
+        .div(10000)
+        .toString()
+    )
+    expect((await indexer.user(carol.address))!.pools[1].staked).to.eq(expandTo18Decimals(1).toString())
+
+    // A fresh index replays the first deposit with the fees of its block, not the current ones
+    const fresh = createIndexer()
+    await fresh.sync()
+    await expectMatchesChain(fresh)
+    expect((await fresh.load()).users).to.deep.eq((await indexer.load()).users)
+  })
+
+  it("should leave the fee recipients' shares of deposit fees out of the dev address' stake", async function() {
+    this.timeout(0)
+    const { breeder, lpTokens } = protocol
+    const lp = lpTokens[1]
+    await lp.connect(bob).approve(breeder.address, expandTo18Decimals(1000))
+    await breeder.setFeeRecipients([{ recipient: carol.address, bps: 2000 }])
+    await breeder.connect(bob).deposit(1, expandTo18Decimals(100), AddressZero)
+    // Recipients changed between deposits apply from the next deposit on
+    await breeder.setFeeRecipients([{ recipient: carol.address, bps: 5000 }])
+    await breeder.connect(bob).deposit(1, 1000, AddressZero)
+
+    const indexer = createIndexer()
+    await indexer.sync()
+    await expectMatchesChain(indexer)
+    // 20% of the 0.75% fee of the first deposit & 50% of the 7 wei fee of the second one are sent to carol as LP tokens
+    const fee = expandTo18Decimals(100)
+      .mul(75)
+      .div(10000)
+    expect((await indexer.user(dev.address))!.pools[1].staked).to.eq(
+      fee
+        .sub(fee.div(5))
+        .add(4)
+        .toString()
+    )
+    expect(await indexer.user(carol.address)).to.be.undefined
+  })
+
+  it('should move the locks handed over by transferAll', async function() {
+    this.timeout(0)
+    await populate()
+    const { govToken } = protocol
+    const locked = await govToken.lockOf(carol.address)
+    expect(locked).to.be.gt(0)
+    await govToken.connect(carol).transferAll(alice.address)
+
+    const indexer = createIndexer()
+    await indexer.sync()
+    expect((await indexer.user(carol.address))!.locked).to.eq('0')
+    expect((await indexer.user(alice.address))!.locked).to.eq(locked.toString())
+    await expectMatchesChain(indexer)
+  })
+
+  it('should resume from a checkpointed JSON store', async function() {
+    this.timeout(0)
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'indexer-')), 'localhost.json')
+
+    const first = await createIndexer(new JsonFileStore(file), { batchSize: 7 }).sync(START_BLOCK - 20)
+    expect((await new JsonFileStore(file).load())!.checkpoint!.number).to.eq(first.toBlock)
+
+    await populate()
+    const resumed = createIndexer(new JsonFileStore(file), { batchSize: 7 })
+    const result = await resumed.sync()
+    expect(result.fromBlock).to.eq(first.toBlock + 1)
+    await expectMatchesChain(resumed)
+
+    const fresh = createIndexer()
+    await fresh.sync()
+    const [resumedState, freshState] = [await resumed.load(), await fresh.load()]
+    expect(resumedState.events).to.deep.eq(freshState.events)
+    expect(resumedState.base).to.deep.eq(freshState.base)
+    expect(resumedState.users).to.deep.eq(freshState.users)
+    expect(resumedState.pools).to.deep.eq(freshState.pools)
+  })
+
+  it('should only keep the events of the last reorgDepth blocks', async function() {
+    this.timeout(0)
+    await populate()
+    const indexer = createIndexer(new MemoryStore(), { reorgDepth: 5 })
+    await indexer.sync()
+    await mineBlocks(provider, 5)
+    await indexer.sync()
+
+    const state = await indexer.load()
+    expect(state.events).to.deep.eq([])
+    expect(state.base.users).to.deep.eq(state.users)
+    await expectMatchesChain(indexer)
+  })
+
+  it('should refuse deposits indexed without the deposit fees they paid', async function() {
+    this.timeout(0)
+    const { breeder, lpTokens } = protocol
+    await lpTokens[1].connect(bob).approve(breeder.address, expandTo18Decimals(1000))
+    await breeder.connect(bob).deposit(1, expandTo18Decimals(100), AddressZero)
+    const blockNumber = await provider.getBlockNumber()
+
+    let error: Error | undefined
+    try {
+      await createIndexer(new MemoryStore(), { fromBlock: blockNumber }).sync()
+    } catch (e) {
+      error = e
+    }
+    expect(error!.message).to.eq(
+      `Indexer: deposit in block ${blockNumber} precedes MasterBreeder's deposit fees, index from its deployment`
+    )
+  })
+
+  it('should stay behind the chain head by the configured confirmations', async function() {
+    const indexer = createIndexer(new MemoryStore(), { confirmations: 5 })
+    const result = await indexer.sync()
+    expect(result.toBlock).to.eq((await provider.getBlockNumber()) - 5)
+    expect((await indexer.checkpoint())!.number).to.eq(result.toBlock)
+
+    await mineBlocks(provider, 3)
+    expect((await indexer.sync()).events).to.eq(0)
+    expect((await indexer.checkpoint())!.number).to.eq(result.toBlock + 3)
+  })
+
+  it('should roll back & replay after a reorg', async function() {
+    this.timeout(0)
+    const { breeder, lpTokens } = protocol
+    const indexer = createIndexer()
+    const before = await indexer.sync()
+
+    const id = await snapshot(provider)
+    await populate()
+    await indexer.sync()
+    expect(await indexer.user(carol.address)).to.not.be.undefined
+
+    // Replace the populated blocks with a different history
+    await revert(provider, id)
+    await lpTokens[1].connect(bob).approve(breeder.address, expandTo18Decimals(1000))
+    await breeder.connect(bob).deposit(1, expandTo18Decimals(300), AddressZero)
+    await mineBlocks(provider, 40)
+
+    const result = await indexer.sync()
+    expect(result.rolledBackTo).to.eq(before.toBlock)
+    // Farming hasn't started yet, so bob's deposit is the only event of the new history
+    expect(
+      (await indexer.events()).filter(event => event.blockNumber > before.toBlock).map(event => event.name)
+    ).to.deep.eq(['Deposit'])
+    expect((await indexer.user(bob.address))!.pools[1].staked).to.eq(
+      (await breeder.userInfo(1, bob.address)).amount.toString()
+    )
+    expect(await indexer.pool(0)).to.be.undefined
+    await expectMatchesChain(indexer)
+  })
+
+  it('should refuse to continue after a reorg deeper than reorgDepth', async function() {
+    this.timeout(0)
+    const indexer = createIndexer(new MemoryStore(), { reorgDepth: 1 })
+    await indexer.sync()
+
+    const id = await snapshot(provider)
+    await mineBlocks(provider, 2)
+    await indexer.sync()
+    await revert(provider, id)
+    await protocol.lpTokens[1].connect(bob).transfer(carol.address, 1)
+    await mineBlocks(provider, 2)
+
+    let error: Error | undefined
+    try {
+      await indexer.sync()
+    } catch (e) {
+      error = e
+    }
+    expect(error!.message).to.eq(
+      'Indexer: none of the last 1 indexed blocks are on chain anymore, reindex from scratch'
+    )
+  })
+
+  it('should reject a store created for other contracts', async function() {
+    const store = new MemoryStore()
+    await createIndexer(store).sync()
+
+    const { breeder, govToken } = protocol
+    let error: Error | undefined
+    try {
+      await new Indexer({ breeder, govToken }, store).load()
+    } catch (e) {
+      error = e
+    }
+    expect(error!.message).to.eq('Indexer: the store was created for other contracts')
+  })
+})
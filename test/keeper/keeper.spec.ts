@@ -0,0 +1,162 @@
+import chai, { expect } from 'chai'
+import { Contract } from 'ethers'
+import { parseUnits } from 'ethers/utils'
+import { solidity, MockProvider, createFixtureLoader } from 'ethereum-waffle'
+
+import { expandTo18Decimals } from '../shared/utilities'
+import { increaseTime } from '../shared/time'
+import { conversionFixture, protocolFixture } from '../shared/fixtures'
+
+import { GovernanceToken, Pit, PitBreeder } from '../../sdk'
+import { Keeper, KeeperOptions } from '../../keeper/keeper'
+
+chai.use(solidity)
+
+describe('Keeper', () => {
+  const provider = new MockProvider({
+    hardfork: 'istanbul',
+    mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
+    gasLimit: 19999999
+  })
+  const wallets = provider.getWallets()
+  const loadFixture = createFixtureLoader(provider, wallets)
+
+  let govToken: GovernanceToken
+  let pit: Pit
+  let pitBreeder: PitBreeder
+  let tokens: Record<string, Contract>
+  let pairs: Record<string, Contract>
+
+  function keeper(options: KeeperOptions = {}): Keeper {
+    return new Keeper(pitBreeder, { gasPrice: parseUnits('1', 'gwei'), ...options })
+  }
+
+  beforeEach(async function() {
+    this.timeout(0)
+    ;({ govToken, pit, pitBreeder, tokens, pairs } = await loadFixture(conversionFixture))
+
+    await pairs['VIPER/WETH'].transfer(pitBreeder.address, expandTo18Decimals(100))
+    await pairs['BUSD/WETH'].transfer(pitBreeder.address, expandTo18Decimals(100))
+    await pairs['DAI/LINK'].transfer(pitBreeder.address, expandTo18Decimals(100))
+  })
+
+  it('should find the LP tokens PitBreeder holds', async function() {
+    // Tokens that aren't pairs of the factory are ignored, as are pairs that were converted already
+    await tokens.MIC.transfer(pitBreeder.address, expandTo18Decimals(1))
+    await pairs['BUSD/DAI'].transfer(pitBreeder.address, expandTo18Decimals(1))
+    await pitBreeder.convert(tokens.BUSD.address, tokens.DAI.address)
+
+    const held = await keeper().heldPairs()
+    expect(held.map(pair => pair.pair)).to.deep.eq([
+      pairs['VIPER/WETH'].address,
+      pairs['BUSD/WETH'].address,
+      pairs['DAI/LINK'].address
+    ])
+    held.forEach(pair => expect(pair.balance).to.eq(expandTo18Decimals(100)))
+    expect(held[0].token0).to.eq(await pairs['VIPER/WETH'].token0())
+  })
+
+  it('should convert every held pair in one batch & record the outcomes', async function() {
+    this.timeout(0)
+    const run = await keeper().run()
+
+    expect(run.error).to.be.undefined
+    expect(run.skipped).to.deep.eq([])
+    expect(run.batches.length).to.eq(1)
+    expect(run.outcomes.length).to.eq(3)
+    expect(run.outcomes.map(outcome => outcome.transactionHash)).to.deep.eq(
+      Array(3).fill(run.outcomes[0].transactionHash)
+    )
+
+    // The batch was quoted in order, so the quotes match the converts exactly
+    run.outcomes.forEach(outcome => expect(outcome.amountGovToken).to.eq(outcome.quotedGovTokenOut))
+    const converted = run.outcomes.reduce((total, outcome) => total.add(outcome.amountGovToken), expandTo18Decimals(0))
+    expect(await govToken.balanceOf(pit.address)).to.eq(converted)
+    for (const name of ['VIPER/WETH', 'BUSD/WETH', 'DAI/LINK']) {
+      expect(await pairs[name].balanceOf(pitBreeder.address)).to.eq(0)
+    }
+    expect(await keeper().heldPairs()).to.deep.eq([])
+  })
+
+  it('should skip pairs without a route', async function() {
+    this.timeout(0)
+    await pitBreeder.setBridge(tokens.DAI.address, tokens.MIC.address)
+
+    const run = await keeper().run()
+    expect(run.skipped.map(pair => [pair.pair, pair.reason])).to.deep.eq([
+      [pairs['DAI/LINK'].address, 'PitBreeder: Cannot convert']
+    ])
+    expect(run.outcomes.length).to.eq(2)
+    expect(await pairs['DAI/LINK'].balanceOf(pitBreeder.address)).to.eq(expandTo18Decimals(100))
+  })
+
+  it("should skip pairs that don't cover their gas", async function() {
+    this.timeout(0)
+    await pairs['BUSD/DAI'].transfer(pitBreeder.address, 1000000)
+
+    const plan = await keeper({ gasPrice: parseUnits('1000', 'gwei') }).plan()
+    expect(plan.skipped.map(pair => [pair.pair, pair.reason])).to.deep.eq([[pairs['BUSD/DAI'].address, 'uneconomic']])
+
+    const strict = await keeper({ minProfit: expandTo18Decimals(180) }).plan()
+    expect(strict.skipped.map(pair => pair.reason)).to.deep.eq(['uneconomic', 'uneconomic', 'uneconomic'])
+    expect(strict.batches[0].conversions.map(conversion => conversion.pair)).to.deep.eq([pairs['VIPER/WETH'].address])
+  })
+
+  it('should split the conversions into batches under the gas budget', async function() {
+    this.timeout(0)
+    const single = await keeper().plan()
+    const largest = single.batches[0].conversions.reduce(
+      (gas, conversion) => Math.max(gas, conversion.gas.toNumber()),
+      0
+    )
+
+    const tooSmall = await keeper({ gasBudget: 100000 }).plan()
+    expect(tooSmall.batches).to.deep.eq([])
+    expect(tooSmall.skipped.map(pair => pair.reason)).to.deep.eq(Array(3).fill('over gas budget'))
+
+    const run = await keeper({ gasBudget: largest }).run()
+    expect(run.batches.length).to.eq(3)
+    expect(run.outcomes.length).to.eq(3)
+    run.batches.forEach(batch => expect(batch.gasLimit).to.be.lte(largest))
+    run.outcomes.forEach(outcome => expect(outcome.amountGovToken).to.eq(outcome.quotedGovTokenOut))
+    // Most valuable first: VIPER/WETH is half GovToken already
+    expect(run.batches[0].conversions[0].pair).to.eq(pairs['VIPER/WETH'].address)
+  })
+
+  it('should only plan in dry run mode', async function() {
+    this.timeout(0)
+    const run = await keeper({ dryRun: true }).run()
+
+    expect(run.batches.length).to.eq(1)
+    expect(run.outcomes).to.deep.eq([])
+    expect(await govToken.balanceOf(pit.address)).to.eq(0)
+    expect(await pairs['VIPER/WETH'].balanceOf(pitBreeder.address)).to.eq(expandTo18Decimals(100))
+  })
+
+  it('should checkpoint the GovernanceVote rates whenever they are due', async function() {
+    this.timeout(0)
+    const protocol = await loadFixture(
+      protocolFixture({ pools: [{ allocPoint: 100, pair: 'WETH' }], pit: true, governanceVote: true })
+    )
+    const govVote = protocol.govVote!
+    const period = await govVote.RATE_PERIOD()
+    const votingKeeper = new Keeper(protocol.pitBreeder!, {
+      gasPrice: parseUnits('1', 'gwei'),
+      governanceVote: govVote
+    })
+
+    // The constructor observed the pair, so the first rate is due a period later
+    expect(await votingKeeper.ratesDue()).to.be.false
+    expect((await votingKeeper.run()).checkpoint).to.be.undefined
+    await increaseTime(provider, period)
+    expect(await votingKeeper.ratesDue()).to.be.true
+    expect((await keeper({ dryRun: true, governanceVote: govVote }).run()).checkpoint).to.be.undefined
+
+    const run = await votingKeeper.run()
+    const receipt = await provider.getTransactionReceipt(run.checkpoint!)
+    expect(await govVote.getPriorRate(0, receipt.blockNumber! - 1)).to.eq(0)
+    await increaseTime(provider, 1)
+    expect(await govVote.getPriorRate(0, receipt.blockNumber!)).to.be.gt(0)
+    expect(await votingKeeper.ratesDue()).to.be.false
+  })
+})
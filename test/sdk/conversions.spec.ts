@@ -0,0 +1,222 @@
+import chai, { expect } from 'chai'
+import { Contract } from 'ethers'
+import { solidity, MockProvider, createFixtureLoader } from 'ethereum-waffle'
+
+import { expandTo18Decimals } from '../shared/utilities'
+import { conversionFixture } from '../shared/fixtures'
+
+import { ConversionPlanner, ConversionQuote, GovernanceToken, Pit, PitBreeder, totalGovTokenOut } from '../../sdk'
+
+chai.use(solidity)
+
+describe('SDK::Conversions', () => {
+  const provider = new MockProvider({
+    hardfork: 'istanbul',
+    mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
+    gasLimit: 9999999
+  })
+  const wallets = provider.getWallets()
+  const [alice, bob] = wallets
+  const loadFixture = createFixtureLoader(provider, wallets)
+
+  let govToken: GovernanceToken
+  let pit: Pit
+  let pitBreeder: PitBreeder
+  let factory: Contract
+  let tokens: Record<string, Contract>
+  let pairs: Record<string, Contract>
+
+  function address(symbol: string): string {
+    return symbol === 'VIPER' ? govToken.address : tokens[symbol].address
+  }
+
+  async function setBridges(bridges: [string, string][]) {
+    for (const [token, bridge] of bridges) {
+      await pitBreeder.setBridge(address(token), address(bridge))
+    }
+  }
+
+  // Quotes convertMultiple with a freshly loaded planner, runs it & checks the quotes against the LogConvert events & the Pit's balance
+  async function expectQuotesMatch(converts: [string, string][]): Promise<ConversionQuote[]> {
+    const token0 = converts.map(([a]) => address(a))
+    const token1 = converts.map(([, b]) => address(b))
+    const planner = await ConversionPlanner.load(pitBreeder)
+    const quotes = await planner.quoteMultiple(token0, token1)
+    quotes.forEach(quote => expect(quote.error).to.be.undefined)
+
+    const before = await govToken.balanceOf(pit.address)
+    // ganache's estimate falls short when a burn mints the protocol fee, so don't rely on it
+    const receipt = await (await pitBreeder.convertMultiple(token0, token1, { gasLimit: 9999999 })).wait()
+    const events = pitBreeder.parseEvents('LogConvert', receipt.logs!)
+
+    expect(events.length).to.eq(quotes.length)
+    events.forEach((event, i) => {
+      expect(event.args.amount0).to.eq(quotes[i].amount0)
+      expect(event.args.amount1).to.eq(quotes[i].amount1)
+      expect(event.args.amountGovToken).to.eq(quotes[i].govTokenOut)
+    })
+    expect((await govToken.balanceOf(pit.address)).sub(before)).to.eq(totalGovTokenOut(quotes))
+    return quotes
+  }
+
+  async function expectQuoteReverts(token0: string, token1: string, message: string) {
+    const quote = await (await ConversionPlanner.load(pitBreeder)).quote(address(token0), address(token1))
+    expect(quote.error).to.contain(message)
+    expect(quote.govTokenOut).to.eq(0)
+
+    // Bridge cycles recurse until the EVM's call depth runs out, which isn't reported as a revert
+    let error: Error | undefined
+    try {
+      await pitBreeder.convert(address(token0), address(token1))
+    } catch (e) {
+      error = e
+    }
+    expect(error!.message).to.contain('VM Exception while processing transaction')
+  }
+
+  beforeEach(async function() {
+    this.timeout(0)
+    ;({ govToken, pit, pitBreeder, factory, tokens, pairs } = await loadFixture(conversionFixture))
+  })
+
+  context('Converting', function() {
+    const cases: { name: string; pair: string; convert: [string, string]; bridges: [string, string][] }[] = [
+      { name: 'GovernanceToken/WETH', pair: 'VIPER/WETH', convert: ['VIPER', 'WETH'], bridges: [] },
+      { name: 'GovernanceToken/BUSD', pair: 'VIPER/BUSD', convert: ['VIPER', 'BUSD'], bridges: [] },
+      { name: 'the standard ETH path', pair: 'BUSD/WETH', convert: ['BUSD', 'WETH'], bridges: [] },
+      { name: 'tokens in reverse pair order', pair: 'BUSD/WETH', convert: ['WETH', 'BUSD'], bridges: [] },
+      {
+        name: 'LINK/BUSD through bridges',
+        pair: 'BUSD/LINK',
+        convert: ['LINK', 'BUSD'],
+        bridges: [
+          ['BUSD', 'VIPER'],
+          ['LINK', 'BUSD']
+        ]
+      },
+      {
+        name: 'DAI/LINK through a two step path',
+        pair: 'DAI/LINK',
+        convert: ['DAI', 'LINK'],
+        bridges: [
+          ['DAI', 'BUSD'],
+          ['LINK', 'DAI']
+        ]
+      },
+      {
+        name: 'tokens that both bridge elsewhere',
+        pair: 'DAI/LINK',
+        convert: ['DAI', 'LINK'],
+        bridges: [
+          ['DAI', 'BUSD'],
+          ['LINK', 'WETH']
+        ]
+      },
+      { name: 'DAI/LINK through WETH', pair: 'DAI/LINK', convert: ['DAI', 'LINK'], bridges: [] }
+    ]
+
+    cases.forEach(({ name, pair, convert, bridges }) => {
+      it(`should quote ${name} exactly`, async function() {
+        this.timeout(0)
+        await setBridges(bridges)
+        await pairs[pair].transfer(pitBreeder.address, expandTo18Decimals(100))
+
+        const [quote] = await expectQuotesMatch([convert])
+        expect(quote.steps[0].type).to.eq('burn')
+        expect(quote.govTokenOut).to.be.gt(0)
+      })
+    })
+
+    it('should match the amounts asserted in PitBreeder.spec.ts', async function() {
+      await pairs['VIPER/WETH'].transfer(pitBreeder.address, expandTo18Decimals(100))
+      const quote = await (await ConversionPlanner.load(pitBreeder)).quote(govToken.address, tokens.WETH.address)
+
+      expect(quote.govTokenOut).to.eq('189756927078123437031')
+      expect(quote.steps.map(step => step.type)).to.deep.eq(['burn', 'transfer', 'swap'])
+    })
+
+    it('should quote convertMultiple with the reserves left by earlier converts', async function() {
+      this.timeout(0)
+      await pairs['DAI/WETH'].transfer(pitBreeder.address, expandTo18Decimals(100))
+      await pairs['VIPER/WETH'].transfer(pitBreeder.address, expandTo18Decimals(100))
+
+      const quotes = await expectQuotesMatch([
+        ['DAI', 'WETH'],
+        ['VIPER', 'WETH']
+      ])
+      expect(totalGovTokenOut(quotes)).to.eq('318658355868778309848')
+    })
+
+    it('should include the protocol fee minted on burn', async function() {
+      this.timeout(0)
+      await factory.setFeeTo(bob.address)
+      // Minting sets kLast, the swap of the BUSD/WETH convert then grows the VIPER/WETH pair's k
+      await govToken.transfer(pairs['VIPER/WETH'].address, expandTo18Decimals(500))
+      await tokens.WETH.transfer(pairs['VIPER/WETH'].address, expandTo18Decimals(500))
+      await pairs['VIPER/WETH'].mint(alice.address)
+
+      await pairs['BUSD/WETH'].transfer(pitBreeder.address, expandTo18Decimals(100))
+      await pairs['VIPER/WETH'].transfer(pitBreeder.address, expandTo18Decimals(100))
+      await expectQuotesMatch([
+        ['BUSD', 'WETH'],
+        ['VIPER', 'WETH']
+      ])
+      expect(await pairs['VIPER/WETH'].balanceOf(bob.address)).to.be.gt(0)
+    })
+  })
+
+  context('Reverting converts', function() {
+    it('should flag pairs that do not exist', async function() {
+      await expectQuoteReverts('LINK', 'VIPER', 'PitBreeder: Invalid pair')
+    })
+
+    it('should flag bridges without a pair', async function() {
+      this.timeout(0)
+      await setBridges([['DAI', 'MIC']])
+      await pairs['DAI/LINK'].transfer(pitBreeder.address, expandTo18Decimals(100))
+
+      await expectQuoteReverts('DAI', 'LINK', 'PitBreeder: Cannot convert')
+      const planner = await ConversionPlanner.load(pitBreeder)
+      expect(await planner.bridgePath(tokens.DAI.address)).to.deep.eq({
+        path: [tokens.DAI.address, tokens.MIC.address],
+        error: 'PitBreeder: Cannot convert'
+      })
+    })
+
+    it('should flag bridge cycles', async function() {
+      this.timeout(0)
+      await setBridges([
+        ['DAI', 'BUSD'],
+        ['BUSD', 'DAI']
+      ])
+      await pairs['BUSD/DAI'].transfer(pitBreeder.address, expandTo18Decimals(100))
+
+      await expectQuoteReverts('DAI', 'BUSD', 'Bridge cycle')
+      const planner = await ConversionPlanner.load(pitBreeder)
+      expect((await planner.bridgePath(tokens.BUSD.address)).error).to.eq('Bridge cycle')
+      expect(await planner.bridgePath(tokens.LINK.address)).to.deep.eq({
+        path: [tokens.LINK.address, tokens.WETH.address]
+      })
+    })
+
+    it('should flag converts without LP tokens to burn', async function() {
+      await expectQuoteReverts('BUSD', 'WETH', 'UniswapV2: INSUFFICIENT_LIQUIDITY_BURNED')
+    })
+
+    it('should leave the simulated state untouched by a reverting convertMultiple', async function() {
+      this.timeout(0)
+      await pairs['BUSD/WETH'].transfer(pitBreeder.address, expandTo18Decimals(100))
+      const planner = await ConversionPlanner.load(pitBreeder)
+
+      const reverted = await planner.quoteMultiple(
+        [tokens.BUSD.address, tokens.BUSD.address],
+        [tokens.WETH.address, tokens.WETH.address]
+      )
+      expect(reverted[0].error).to.be.undefined
+      expect(reverted[1].error).to.eq('UniswapV2: INSUFFICIENT_LIQUIDITY_BURNED')
+
+      const quote = await planner.quote(tokens.BUSD.address, tokens.WETH.address)
+      expect(quote.govTokenOut).to.eq(reverted[0].govTokenOut)
+    })
+  })
+})
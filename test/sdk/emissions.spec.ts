@@ -0,0 +1,301 @@
+import chai, { expect } from 'chai'
+import { Contract } from 'ethers'
+import { AddressZero } from 'ethers/constants'
+import { BigNumber } from 'ethers/utils'
+import { solidity, MockProvider, deployContract } from 'ethereum-waffle'
+
+import { expandTo18Decimals, advanceBlockTo } from '../shared/utilities'
+
+import {
+  deployMasterBreeder,
+  deployGovernanceToken,
+  TOKEN_NAME,
+  TOKEN_SYMBOL,
+  TOTAL_CAP,
+  MANUAL_MINT_LIMIT,
+  REWARD_MULTIPLIERS,
+  PERCENT_FOR_DEV,
+  PERCENT_FOR_LP,
+  PERCENT_FOR_COM,
+  PERCENT_FOR_FOUNDERS
+} from '../shared/deploy'
+
+import {
+  GovernanceToken,
+  MasterBreeder,
+  EmissionSchedule,
+  EmissionSimulator,
+  PoolReward,
+  createEmissionSchedule,
+  fetchEmissionSchedule,
+  getMultiplier,
+  getPoolReward
+} from '../../sdk'
+
+import ERC20Mock from '../../build/ERC20Mock.json'
+
+chai.use(solidity)
+
+const HALVING_AFTER_BLOCK_COUNT = 10
+const LOCK_FROM_BLOCK = 2000
+const LOCK_TO_BLOCK = 4000
+
+function expectPoolReward(actual: PoolReward, expected: PoolReward) {
+  expect(actual.forDev).to.eq(expected.forDev)
+  expect(actual.forFarmer).to.eq(expected.forFarmer)
+  expect(actual.forLP).to.eq(expected.forLP)
+  expect(actual.forCom).to.eq(expected.forCom)
+  expect(actual.forFounders).to.eq(expected.forFounders)
+}
+
+describe('SDK::Emissions', () => {
+  const provider = new MockProvider({
+    hardfork: 'istanbul',
+    mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
+    gasLimit: 19999999
+  })
+  const wallets = provider.getWallets()
+  const [alice, bob, carol, minter, dev, liquidityFund, communityFund, founderFund] = wallets
+
+  let govToken: GovernanceToken
+  let breeder: MasterBreeder
+  let schedule: EmissionSchedule
+  let startBlock: number
+  let lp: Contract
+  let lp2: Contract
+
+  async function setup(rewardPerBlock: BigNumber, cap: BigNumber = TOTAL_CAP) {
+    startBlock = (await provider.getBlockNumber()) + 50
+    govToken = await deployGovernanceToken(
+      alice,
+      TOKEN_NAME,
+      TOKEN_SYMBOL,
+      cap,
+      MANUAL_MINT_LIMIT,
+      LOCK_FROM_BLOCK,
+      LOCK_TO_BLOCK
+    )
+    breeder = await deployMasterBreeder(wallets, govToken, rewardPerBlock, startBlock, HALVING_AFTER_BLOCK_COUNT)
+    await govToken.transferOwnership(breeder.address)
+
+    schedule = createEmissionSchedule({
+      rewardPerBlock,
+      startBlock,
+      halvingAfterBlock: HALVING_AFTER_BLOCK_COUNT,
+      rewardMultipliers: REWARD_MULTIPLIERS,
+      percentForDev: PERCENT_FOR_DEV,
+      percentForLP: PERCENT_FOR_LP,
+      percentForCom: PERCENT_FOR_COM,
+      percentForFounders: PERCENT_FOR_FOUNDERS
+    })
+
+    lp = await deployContract(minter, ERC20Mock, ['LPToken', 'LP', expandTo18Decimals(1000000)])
+    lp2 = await deployContract(minter, ERC20Mock, ['LPToken2', 'LP2', expandTo18Decimals(1000000)])
+    for (const wallet of [bob, carol]) {
+      await lp.transfer(wallet.address, expandTo18Decimals(1000))
+      await lp2.transfer(wallet.address, expandTo18Decimals(1000))
+      await lp.connect(wallet).approve(breeder.address, expandTo18Decimals(1000))
+      await lp2.connect(wallet).approve(breeder.address, expandTo18Decimals(1000))
+    }
+  }
+
+  // Locked rewards are held by the token contract, totalBalanceOf includes them
+  async function fundBalances(): Promise<BigNumber[]> {
+    return Promise.all(
+      [breeder.address, dev.address, liquidityFund.address, communityFund.address, founderFund.address].map(address =>
+        govToken.totalBalanceOf(address)
+      )
+    )
+  }
+
+  context('Pure functions', function() {
+    beforeEach(async function() {
+      await setup(expandTo18Decimals(100))
+    })
+
+    it('should build the same schedule as the MasterBreeder constructor', async function() {
+      const fetched = await fetchEmissionSchedule(breeder, REWARD_MULTIPLIERS.length)
+
+      expect(schedule.rewardPerBlock).to.eq(fetched.rewardPerBlock)
+      expect(schedule.startBlock).to.eq(fetched.startBlock)
+      expect(schedule.finishBonusAtBlock).to.eq(fetched.finishBonusAtBlock)
+      expect(schedule.rewardMultipliers.map(String)).to.deep.eq(fetched.rewardMultipliers.map(String))
+      expect(schedule.halvingAtBlocks.map(String)).to.deep.eq(fetched.halvingAtBlocks.map(String))
+      expect(schedule.percentForDev).to.eq(fetched.percentForDev)
+      expect(schedule.percentForLP).to.eq(fetched.percentForLP)
+      expect(schedule.percentForCom).to.eq(fetched.percentForCom)
+      expect(schedule.percentForFounders).to.eq(fetched.percentForFounders)
+    })
+
+    it('should match getMultiplier for ranges before, across & after the halvings', async function() {
+      const finish = startBlock + HALVING_AFTER_BLOCK_COUNT * (REWARD_MULTIPLIERS.length - 1)
+      const ranges = [
+        [startBlock - 1, startBlock + 5],
+        [startBlock, startBlock],
+        [startBlock, startBlock + 5],
+        [startBlock, startBlock + 11],
+        [startBlock + 3, startBlock + 35],
+        [startBlock + 11, startBlock + 12],
+        [startBlock + 10, startBlock + 500],
+        [startBlock, finish + 50],
+        [finish - 5, finish + 100],
+        [finish + 1000, finish + 1001]
+      ]
+
+      for (const [from, to] of ranges) {
+        expect(getMultiplier(schedule, from, to)).to.eq(await breeder.getMultiplier(from, to))
+      }
+    })
+
+    it('should revert like getMultiplier when from is after to', async function() {
+      await expect(breeder.getMultiplier(startBlock + 30, startBlock + 5)).to.be.reverted
+      expect(() => getMultiplier(schedule, startBlock + 30, startBlock + 5)).to.throw('SafeMath: subtraction overflow')
+    })
+
+    it('should match getPoolReward for different pool allocations', async function() {
+      await breeder.add(100, lp.address, true)
+      await breeder.add(250, lp2.address, true)
+      const totalAllocPoint = await breeder.totalAllocPoint()
+      const cap = await govToken.cap()
+      const totalSupply = await govToken.totalSupply()
+
+      const ranges = [
+        [startBlock, startBlock + 1],
+        [startBlock + 7, startBlock + 123],
+        [startBlock + 333, startBlock + 777]
+      ]
+
+      for (const [from, to] of ranges) {
+        for (const allocPoint of [1, 100, 250, 350]) {
+          expectPoolReward(
+            getPoolReward(schedule, from, to, allocPoint, totalAllocPoint, cap, totalSupply),
+            await breeder.getPoolReward(from, to, allocPoint)
+          )
+        }
+      }
+    })
+  })
+
+  context('Cap', function() {
+    it('should clamp the farmer reward to the remaining cap', async function() {
+      await setup(expandTo18Decimals(1), expandTo18Decimals(100))
+      await breeder.add(100, lp.address, true)
+
+      const reward = getPoolReward(
+        schedule,
+        startBlock,
+        startBlock + 1,
+        100,
+        100,
+        await govToken.cap(),
+        await govToken.totalSupply()
+      )
+      expect(reward.forFarmer).to.eq(expandTo18Decimals(100))
+      expect(reward.forDev).to.eq(0)
+      expectPoolReward(reward, await breeder.getPoolReward(startBlock, startBlock + 1, 100))
+    })
+
+    it('should fail like updatePool when the fund splits exceed the remaining cap', async function() {
+      // One block at a 256x multiplier mints 256 tokens to farmers + 20% for the funds
+      await setup(expandTo18Decimals(1), expandTo18Decimals(300))
+      await breeder.add(100, lp.address, true)
+      const simulator = await EmissionSimulator.fromChain(breeder, govToken, REWARD_MULTIPLIERS.length)
+
+      await advanceBlockTo(provider, startBlock - 1)
+      const tx = await breeder.connect(bob).deposit(0, expandTo18Decimals(10), AddressZero)
+      const receipt = await tx.wait()
+      simulator.updatePool(0, receipt.blockNumber!)
+      simulator.setStaked(0, true)
+
+      await expect(breeder.updatePool(0)).to.be.revertedWith('ERC20Capped: cap exceeded')
+      expect(() => simulator.updatePool(0, startBlock + 1)).to.throw('ERC20Capped: cap exceeded')
+    })
+  })
+
+  context('Simulator', function() {
+    beforeEach(async function() {
+      await setup(expandTo18Decimals(100))
+    })
+
+    it('should replay deposits, pool changes & updates to the same minted supply and splits', async function() {
+      const simulator = await EmissionSimulator.fromChain(breeder, govToken, REWARD_MULTIPLIERS.length)
+      let receipt
+
+      receipt = await (await breeder.add(100, lp.address, true)).wait()
+      simulator.add(receipt.blockNumber!, 100, true)
+      receipt = await (await breeder.add(300, lp2.address, true)).wait()
+      simulator.add(receipt.blockNumber!, 300, true)
+
+      await advanceBlockTo(provider, startBlock + 3)
+      receipt = await (await breeder.connect(bob).deposit(0, expandTo18Decimals(100), AddressZero)).wait()
+      simulator.updatePool(0, receipt.blockNumber!)
+      simulator.setStaked(0, true)
+
+      await advanceBlockTo(provider, startBlock + 8)
+      receipt = await (await breeder.connect(carol).deposit(1, expandTo18Decimals(50), AddressZero)).wait()
+      simulator.updatePool(1, receipt.blockNumber!)
+      simulator.setStaked(1, true)
+
+      // Crosses a couple of halvings before the allocation change
+      await advanceBlockTo(provider, startBlock + 27)
+      receipt = await (await breeder.set(1, 50, true)).wait()
+      simulator.set(receipt.blockNumber!, 1, 50, true)
+
+      await advanceBlockTo(provider, startBlock + 40)
+      receipt = await (await breeder.connect(bob).claimReward(0)).wait()
+      simulator.updatePool(0, receipt.blockNumber!)
+
+      receipt = await (await breeder.massUpdatePools()).wait()
+      simulator.massUpdatePools(receipt.blockNumber!)
+
+      expect(simulator.totalSupply).to.eq(await govToken.totalSupply())
+
+      const [farmers, devBalance, lpBalance, comBalance, founderBalance] = await fundBalances()
+      const rewards = simulator.rewards.reduce((a, b) => ({
+        forDev: a.forDev.add(b.forDev),
+        forFarmer: a.forFarmer.add(b.forFarmer),
+        forLP: a.forLP.add(b.forLP),
+        forCom: a.forCom.add(b.forCom),
+        forFounders: a.forFounders.add(b.forFounders)
+      }))
+      // Bob's claim moved part of the farmer rewards out of MasterBreeder
+      expect(rewards.forFarmer).to.eq(farmers.add(await govToken.totalBalanceOf(bob.address)))
+      expect(rewards.forDev).to.eq(devBalance)
+      expect(rewards.forLP).to.eq(lpBalance)
+      expect(rewards.forCom).to.eq(comBalance)
+      expect(rewards.forFounders).to.eq(founderBalance)
+
+      for (let pid = 0; pid < simulator.pools.length; pid++) {
+        const pool = await breeder.poolInfo(pid)
+        expect(simulator.pools[pid].lastRewardBlock).to.eq(pool.lastRewardBlock)
+        expect(simulator.pools[pid].allocPoint).to.eq(pool.allocPoint)
+      }
+    })
+
+    it('should project the supply minted by periodic mass updates', async function() {
+      await breeder.add(100, lp.address, true)
+      await breeder.add(200, lp2.address, true)
+      await breeder.connect(bob).deposit(0, expandTo18Decimals(100), AddressZero)
+      await breeder.connect(carol).deposit(1, expandTo18Decimals(100), AddressZero)
+
+      await advanceBlockTo(provider, startBlock - 1)
+      await breeder.massUpdatePools()
+
+      const simulator = await EmissionSimulator.fromChain(breeder, govToken, REWARD_MULTIPLIERS.length)
+      const supplyBefore = await govToken.totalSupply()
+      const [farmersBefore] = await fundBalances()
+      const projection = simulator.project(startBlock, startBlock + 25, 5)
+
+      for (let block = startBlock + 5; block <= startBlock + 25; block += 5) {
+        await advanceBlockTo(provider, block - 1)
+        await breeder.massUpdatePools()
+      }
+
+      const [farmers] = await fundBalances()
+      expect(projection.minted).to.eq((await govToken.totalSupply()).sub(supplyBefore))
+      expect(projection.totalSupply).to.eq(await govToken.totalSupply())
+      expect(projection.total.forFarmer).to.eq(farmers.sub(farmersBefore))
+      expect(projection.pools[0].forFarmer.mul(2)).to.be.lte(projection.pools[1].forFarmer)
+    })
+  })
+})
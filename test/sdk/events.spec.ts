@@ -0,0 +1,81 @@
+import chai, { expect } from 'chai'
+import { Contract } from 'ethers'
+import { AddressZero } from 'ethers/constants'
+import { solidity, MockProvider, deployContract } from 'ethereum-waffle'
+
+import { expandTo18Decimals, advanceBlockTo } from '../shared/utilities'
+
+import { deployMasterBreeder, deployGovernanceToken } from '../shared/deploy'
+
+import { GovernanceToken, MasterBreeder } from '../../sdk'
+
+import ERC20Mock from '../../build/ERC20Mock.json'
+
+chai.use(solidity)
+
+describe('SDK::Events', () => {
+  const provider = new MockProvider({
+    hardfork: 'istanbul',
+    mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
+    gasLimit: 19999999
+  })
+  const wallets = provider.getWallets()
+  const [alice, bob, minter] = wallets
+
+  let govToken: GovernanceToken
+  let breeder: MasterBreeder
+  let lp: Contract
+
+  beforeEach(async () => {
+    govToken = await deployGovernanceToken(alice)
+    breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(1000), 20, 10)
+    await govToken.transferOwnership(breeder.address)
+
+    lp = await deployContract(minter, ERC20Mock, ['LPToken', 'LP', expandTo18Decimals(1000000)])
+    await lp.transfer(bob.address, expandTo18Decimals(1000))
+    await lp.connect(bob).approve(breeder.address, expandTo18Decimals(1000))
+
+    await breeder.add(100, lp.address, true)
+  })
+
+  it('should decode Deposit events from a transaction receipt', async () => {
+    const tx = await breeder.connect(bob).deposit(0, expandTo18Decimals(100), AddressZero)
+    const receipt = await tx.wait()
+
+    const events = breeder.parseEvents('Deposit', receipt.logs!)
+    expect(events.length).to.eq(1)
+    expect(events[0].name).to.eq('Deposit')
+    expect(events[0].args.user).to.eq(bob.address)
+    expect(events[0].args.pid).to.eq(0)
+    expect(events[0].args.amount).to.eq(expandTo18Decimals(100))
+  })
+
+  it('should decode SendGovernanceTokenReward & Lock events from a claim', async () => {
+    await breeder.connect(bob).deposit(0, expandTo18Decimals(100), AddressZero)
+    await advanceBlockTo(provider, 30)
+
+    const tx = await breeder.connect(bob).claimReward(0)
+    const receipt = await tx.wait()
+
+    const [reward] = breeder.parseEvents('SendGovernanceTokenReward', receipt.logs!)
+    expect(reward.args.user).to.eq(bob.address)
+    expect(reward.args.pid).to.eq(0)
+    expect(reward.args.amount).to.be.gt(0)
+
+    const locks = govToken.parseEvents('Lock', receipt.logs!)
+    expect(locks.map(lock => lock.args.to)).to.include(bob.address)
+    expect(locks.find(lock => lock.args.to === bob.address)!.args.value).to.eq(reward.args.lockAmount)
+  })
+
+  it('should ignore logs emitted by other contracts', async () => {
+    const tx = await breeder.connect(bob).deposit(0, expandTo18Decimals(100), AddressZero)
+    const receipt = await tx.wait()
+
+    expect(govToken.parseEvents('Transfer', receipt.logs!)).to.be.empty
+    expect(breeder.parseEvents('Withdraw', receipt.logs!)).to.be.empty
+  })
+
+  it('should throw on unknown event names', async () => {
+    expect(() => breeder.parseEvents('Unknown' as any, [])).to.throw('Unknown event: Unknown')
+  })
+})
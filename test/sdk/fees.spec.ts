@@ -0,0 +1,280 @@
+import chai, { expect } from 'chai'
+import { Contract } from 'ethers'
+import { AddressZero } from 'ethers/constants'
+import { BigNumber, bigNumberify } from 'ethers/utils'
+import { solidity, MockProvider, deployContract } from 'ethereum-waffle'
+
+import { expandTo18Decimals } from '../shared/utilities'
+import { mineBlocks } from '../shared/time'
+
+import { deployMasterBreeder, deployGovernanceToken } from '../shared/deploy'
+
+import {
+  GovernanceToken,
+  MasterBreeder,
+  FeeTier,
+  FEE_BPS,
+  MAX_FEE_TIERS,
+  WithdrawalUserInfo,
+  createFeeTiers,
+  fetchFeeTiers,
+  calculateEmergencyWithdrawalFee,
+  calculateWithdrawalFee,
+  getFeeTier,
+  nextFeeDropBlock,
+  validateFeeTiers
+} from '../../sdk'
+
+import ERC20Mock from '../../build/ERC20Mock.json'
+
+chai.use(solidity)
+
+// Small deterministic PRNG (mulberry32) so that failing property runs can be reproduced
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function randomInt(rand: () => number, min: number, max: number): number {
+  return min + Math.floor(rand() * (max - min + 1))
+}
+
+// Random fee tier table with short tiers (so that every tier can be reached on MockProvider). Dev shares are biased
+// towards the 0 & 100% edges and odd basis points, where rounding would lose LP tokens if the split wasn't exact.
+function randomFeeTiers(rand: () => number, maxTiers = 8): FeeTier[] {
+  const count = randomInt(rand, 1, maxTiers)
+  const minBlockDeltas = [0]
+  while (minBlockDeltas.length < count) {
+    minBlockDeltas.push(minBlockDeltas[minBlockDeltas.length - 1] + randomInt(rand, 1, 5))
+  }
+  const devBps = minBlockDeltas.map(() => {
+    const edge = rand()
+    return edge < 0.1 ? 0 : edge < 0.2 ? FEE_BPS : randomInt(rand, 1, FEE_BPS - 1)
+  })
+  return createFeeTiers(
+    minBlockDeltas,
+    devBps.map(bps => FEE_BPS - bps),
+    devBps
+  )
+}
+
+const DEFAULT_USER: WithdrawalUserInfo = {
+  firstDepositBlock: bigNumberify(100),
+  lastWithdrawBlock: bigNumberify(0),
+  lastDepositBlock: bigNumberify(100)
+}
+
+describe('SDK::Fees', () => {
+  const provider = new MockProvider({
+    hardfork: 'istanbul',
+    mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
+    gasLimit: 19999999
+  })
+  const wallets = provider.getWallets()
+  const [alice, bob, carol, minter, dev] = wallets
+
+  context('Calculator', function() {
+    // The values deployed by test/shared/deploy.ts
+    const tiers = createFeeTiers(
+      [0, 1, 275, 6601, 19801, 33001, 90721, 181441],
+      [7500, 9200, 9600, 9800, 9900, 9950, 9975, 9999],
+      [2500, 800, 400, 200, 100, 50, 25, 1]
+    )
+
+    it('should pick the tier for every delta boundary', async function() {
+      const expected: [number, number][] = [
+        [0, 0],
+        [1, 1],
+        [274, 1],
+        [275, 2],
+        [6600, 2],
+        [6601, 3],
+        [33000, 4],
+        [33001, 5],
+        [90721, 6],
+        [181440, 6],
+        [181441, 7],
+        [10000000, 7]
+      ]
+      for (const [delta, tier] of expected) {
+        expect(getFeeTier(tiers, delta, false)).to.eq(tier)
+      }
+      expect(getFeeTier(tiers, 181442, true)).to.eq(0)
+    })
+
+    it('should split withdrawals in basis points & give the rounding remainder to the user', async function() {
+      const amount = expandTo18Decimals(1)
+      const user = { ...DEFAULT_USER, lastDepositBlock: bigNumberify(90) }
+
+      const hour = calculateWithdrawalFee(tiers, user, amount, 150)
+      expect(hour.toUser).to.eq(amount.mul(92).div(100))
+      expect(hour.toDev).to.eq(amount.mul(8).div(100))
+
+      const week = calculateWithdrawalFee(tiers, user, amount, 100 + 40000)
+      expect(week.toUser).to.eq(amount.mul(995).div(1000))
+      expect(week.toDev).to.eq(amount.mul(5).div(1000))
+
+      const month = calculateWithdrawalFee(tiers, user, 19999, 100 + 200000)
+      expect(month.toUser).to.eq(19998)
+      expect(month.toDev).to.eq(1)
+    })
+
+    it('should apply the first tier in the deposit block, after the last withdrawal block & on emergency withdrawals', async function() {
+      const user = { ...DEFAULT_USER, lastWithdrawBlock: bigNumberify(500), lastDepositBlock: bigNumberify(400) }
+      expect(calculateWithdrawalFee(tiers, user, 100, 400).tier).to.eq(0)
+      expect(calculateWithdrawalFee(tiers, user, 100, 500).tier).to.eq(0)
+      expect(calculateWithdrawalFee(tiers, user, 100, 501).tier).to.eq(1)
+
+      const emergency = calculateEmergencyWithdrawalFee(tiers, 101)
+      expect(emergency.toUser).to.eq(76)
+      expect(emergency.toDev).to.eq(25)
+    })
+
+    it('should validate tier tables like MasterBreeder.setFeeTiers', async function() {
+      expect(validateFeeTiers(tiers)).to.deep.eq([])
+      expect(validateFeeTiers([])).to.deep.eq([`needs 1 to ${MAX_FEE_TIERS} fee tiers, got 0`])
+      expect(validateFeeTiers(tiers.slice(1))).to.deep.eq(['the first fee tier has to start at block delta 0'])
+      expect(validateFeeTiers([tiers[0], tiers[2], tiers[1]])).to.deep.eq(["fee tier 2 doesn't start after fee tier 1"])
+      expect(validateFeeTiers([{ ...tiers[0], devBps: bigNumberify(2600) }])).to.deep.eq([
+        'fee tier 0 pays out 10100 of 10000 bps'
+      ])
+    })
+
+    it('should return the next block with a cheaper fee', async function() {
+      expect(nextFeeDropBlock(tiers, DEFAULT_USER, 100)).to.eq(101)
+      expect(nextFeeDropBlock(tiers, DEFAULT_USER, 101)).to.eq(100 + 275)
+      expect(nextFeeDropBlock(tiers, DEFAULT_USER, 100 + 90721)).to.eq(100 + 181441)
+      expect(nextFeeDropBlock(tiers, DEFAULT_USER, 100 + 181441)).to.be.undefined
+    })
+
+    it('should match a block by block search for random schedules', async function() {
+      const rand = random(1337)
+      for (let run = 0; run < 50; run++) {
+        const randomTiers = randomFeeTiers(rand)
+        const firstDepositBlock = randomInt(rand, 1, 50)
+        const user: WithdrawalUserInfo = {
+          firstDepositBlock: bigNumberify(firstDepositBlock),
+          lastWithdrawBlock: bigNumberify(rand() < 0.5 ? 0 : firstDepositBlock + randomInt(rand, 0, 20)),
+          lastDepositBlock: bigNumberify(firstDepositBlock + randomInt(rand, 0, 20))
+        }
+        const block = randomInt(rand, 1, 80)
+
+        const expected = nextFeeDropBlock(randomTiers, user, block)
+        const current = calculateWithdrawalFee(randomTiers, user, expandTo18Decimals(1), block)
+        let found: number | undefined
+        for (let candidate = block + 1; candidate < 200; candidate++) {
+          if (calculateWithdrawalFee(randomTiers, user, expandTo18Decimals(1), candidate).toUser.gt(current.toUser)) {
+            found = candidate
+            break
+          }
+        }
+
+        if (found === undefined) {
+          expect(expected).to.be.undefined
+        } else {
+          expect(expected).to.eq(found)
+        }
+      }
+    })
+  })
+
+  context('MasterBreeder', function() {
+    let govToken: GovernanceToken
+    let breeder: MasterBreeder
+    let lp: Contract
+
+    beforeEach(async function() {
+      govToken = await deployGovernanceToken(alice)
+      // Rewards never start so that withdrawals only move LP tokens
+      breeder = await deployMasterBreeder(wallets, govToken, expandTo18Decimals(100), 1000000, 1000)
+      await govToken.transferOwnership(breeder.address)
+
+      lp = await deployContract(minter, ERC20Mock, ['LPToken', 'LP', expandTo18Decimals(1000000)])
+      await lp.transfer(bob.address, expandTo18Decimals(1000))
+      await lp.connect(bob).approve(breeder.address, expandTo18Decimals(1000))
+      await breeder.add(100, lp.address, true)
+      await breeder.connect(bob).deposit(0, expandTo18Decimals(1000), AddressZero)
+    })
+
+    it('should read the fee tiers from chain', async function() {
+      const tiers = await fetchFeeTiers(breeder)
+      expect(tiers.map(tier => tier.minBlockDelta.toNumber())).to.deep.eq([
+        0,
+        1,
+        275,
+        6601,
+        19801,
+        33001,
+        90721,
+        181441
+      ])
+      expect(tiers.map(tier => tier.userBps.toNumber())).to.deep.eq([7500, 9200, 9600, 9800, 9900, 9950, 9975, 9999])
+      expect(tiers.map(tier => tier.devBps.toNumber())).to.deep.eq([2500, 800, 400, 200, 100, 50, 25, 1])
+    })
+
+    it('should conserve LP tokens & match the calculator for random tier tables, deltas & amounts', async function() {
+      this.timeout(0)
+      const rand = random(42)
+      // Revised blocks are withdrawBlock - delta, so the chain has to be past the largest delta
+      await mineBlocks(provider, 40)
+
+      for (let run = 0; run < 4; run++) {
+        const tiers = randomFeeTiers(rand)
+        expect(validateFeeTiers(tiers)).to.deep.eq([])
+        await breeder.setFeeTiers(tiers)
+        expect(await fetchFeeTiers(breeder)).to.deep.eq(tiers)
+
+        for (let i = 0; i < 6; i++) {
+          // Revised blocks can't be in the future, so the smallest delta is 2 - the calculator specs cover 0 & 1
+          const delta = randomInt(rand, 2, 40)
+          const amount = expandTo18Decimals(1).add(randomInt(rand, 0, 1000000))
+
+          // reviseWithdraw & reviseDeposit are mined in the next two blocks, the withdrawal in the one after
+          const withdrawBlock = (await provider.getBlockNumber()) + 3
+          if (rand() < 0.5) {
+            await breeder.reviseWithdraw(0, bob.address, withdrawBlock - delta)
+            await breeder.reviseDeposit(0, bob.address, randomInt(rand, 1, withdrawBlock - 1))
+          } else {
+            await breeder.reviseWithdraw(0, bob.address, 0)
+            await breeder.reviseDeposit(0, bob.address, withdrawBlock - delta)
+          }
+
+          const user = await breeder.userInfo(0, bob.address)
+          const fee = calculateWithdrawalFee(tiers, user, amount, withdrawBlock)
+          expect(fee.blockDelta).to.eq(delta)
+          expect(fee.toUser.add(fee.toDev)).to.eq(amount)
+          if (!user.lastDepositBlock.eq(withdrawBlock)) {
+            expect(await breeder.feeTierOf(delta)).to.eq(fee.tier)
+          }
+
+          const bobBefore: BigNumber = await lp.balanceOf(bob.address)
+          const devBefore: BigNumber = await lp.balanceOf(dev.address)
+          const breederBefore: BigNumber = await lp.balanceOf(breeder.address)
+          const receipt = await (await breeder.connect(bob).withdraw(0, amount, AddressZero)).wait()
+          expect(receipt.blockNumber).to.eq(withdrawBlock)
+
+          expect((await lp.balanceOf(bob.address)).sub(bobBefore)).to.eq(fee.toUser)
+          expect((await lp.balanceOf(dev.address)).sub(devBefore)).to.eq(fee.toDev)
+          expect(breederBefore.sub(await lp.balanceOf(breeder.address))).to.eq(amount)
+        }
+      }
+    })
+
+    it('should pay the first tier on emergency withdrawals', async function() {
+      const tiers = createFeeTiers([0, 1], [6667, 10000], [3333, 0])
+      await breeder.setFeeTiers(tiers)
+      const { amount } = await breeder.userInfo(0, bob.address)
+      const fee = calculateEmergencyWithdrawalFee(tiers, amount)
+
+      await expect(breeder.connect(bob).emergencyWithdraw(0))
+        .to.emit(breeder.contract, 'EmergencyWithdraw')
+        .withArgs(bob.address, 0, fee.toUser)
+      expect(await lp.balanceOf(dev.address)).to.eq(fee.toDev)
+      expect(fee.toUser.add(fee.toDev)).to.eq(amount)
+    })
+  })
+})
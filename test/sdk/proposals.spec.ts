@@ -0,0 +1,160 @@
+import chai, { expect } from 'chai'
+import { Contract } from 'ethers'
+import { bigNumberify } from 'ethers/utils'
+import { solidity, MockProvider, createFixtureLoader, deployContract } from 'ethereum-waffle'
+
+import { increaseTime } from '../shared/time'
+import { protocolFixture } from '../shared/fixtures'
+
+import { earliestEta, MasterBreeder, ProposalAction, Timelock, TimelockProposal, timelockTxHash } from '../../sdk'
+
+import TimelockArtifact from '../../build/Timelock.json'
+
+chai.use(solidity)
+
+const DAY = 24 * 60 * 60
+const DELAY = 2 * DAY
+const GRACE_PERIOD = 14 * DAY
+
+describe('SDK::Proposals', () => {
+  const provider = new MockProvider({
+    hardfork: 'istanbul',
+    mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
+    gasLimit: 19999999
+  })
+  const wallets = provider.getWallets()
+  const [alice, bob] = wallets
+  const loadFixture = createFixtureLoader(provider, wallets)
+
+  const fixture = protocolFixture({ pools: [{ allocPoint: 100 }, { allocPoint: 100 }], lpTokens: 1 })
+
+  let breeder: MasterBreeder
+  let lpTokens: Contract[]
+  let timelock: Timelock
+
+  async function propose(actions: ProposalAction[]): Promise<TimelockProposal> {
+    return new TimelockProposal(timelock, actions, await earliestEta(timelock), { breeder })
+  }
+
+  beforeEach(async function() {
+    this.timeout(0)
+    ;({ breeder, lpTokens } = await loadFixture(fixture))
+    timelock = new Timelock((await deployContract(alice, TimelockArtifact, [alice.address, DELAY])).address, alice)
+    await breeder.transferOwnership(timelock.address)
+  })
+
+  it('should encode calls & compute the txHash used by the Timelock', async () => {
+    const proposal = await propose([{ type: 'setAllocPoint', pid: 1, allocPoint: 200 }])
+    const [call] = proposal.calls
+
+    expect(call.target).to.eq(breeder.address)
+    expect(call.signature).to.eq('set(uint256,uint256,bool)')
+    expect(breeder.interface.functions.set.sighash + call.data.slice(2)).to.eq(
+      breeder.interface.functions.set.encode([1, 200, true])
+    )
+    expect(call.txHash).to.eq(timelockTxHash(call.target, 0, call.signature, call.data, proposal.eta))
+
+    const [tx] = await proposal.queue()
+    const [queued] = timelock.parseEvents('QueueTransaction', (await tx.wait()).logs!)
+    expect(queued.args.txHash).to.eq(call.txHash)
+    expect(queued.args.eta).to.eq(proposal.eta)
+    expect(await timelock.queuedTransactions(call.txHash)).to.be.true
+  })
+
+  it('should queue, wait for the delay & execute MasterBreeder updates', async function() {
+    this.timeout(0)
+    const proposal = await propose([
+      { type: 'setAllocPoint', pid: 1, allocPoint: 300 },
+      { type: 'addPool', allocPoint: 50, lpToken: lpTokens[2].address },
+      { type: 'rewardMulUpdate', multipliers: [8, 4, 2, 1, 0] },
+      { type: 'setFeeTiers', tiers: [{ minBlockDelta: 0, userBps: 8000, devBps: 2000 }] },
+      { type: 'lockUpdate', percent: 80 }
+    ])
+    expect(await proposal.states()).to.deep.eq(['pending', 'pending', 'pending', 'pending', 'pending'])
+
+    await proposal.queue()
+    expect(await proposal.states()).to.deep.eq(['queued', 'queued', 'queued', 'queued', 'queued'])
+    await expect(proposal.execute()).to.be.revertedWith(
+      "Timelock::executeTransaction: Transaction hasn't surpassed time lock."
+    )
+
+    await increaseTime(provider, DELAY + 600)
+    expect(await proposal.states()).to.deep.eq(['ready', 'ready', 'ready', 'ready', 'ready'])
+    await proposal.execute()
+    expect(await proposal.states()).to.deep.eq(['executed', 'executed', 'executed', 'executed', 'executed'])
+
+    expect((await breeder.poolInfo(1)).allocPoint).to.eq(300)
+    expect(await breeder.poolLength()).to.eq(3)
+    expect(await breeder.totalAllocPoint()).to.eq(450)
+    expect(await breeder.REWARD_MULTIPLIER(0)).to.eq(8)
+    expect(await breeder.feeTierCount()).to.eq(1)
+    expect((await breeder.feeTiers(0)).devBps).to.eq(2000)
+    expect(await breeder.PERCENT_LOCK_BONUS_REWARD()).to.eq(80)
+    expect(await timelock.queuedTransactions(proposal.calls[0].txHash)).to.be.false
+  })
+
+  it('should cancel queued calls', async function() {
+    const proposal = await propose([{ type: 'setAllocPoint', pid: 0, allocPoint: 0 }])
+    await proposal.queue()
+    await proposal.cancel()
+
+    expect(await proposal.states()).to.deep.eq(['cancelled'])
+    expect(await timelock.queuedTransactions(proposal.calls[0].txHash)).to.be.false
+
+    await increaseTime(provider, DELAY + 600)
+    await expect(proposal.execute()).to.be.revertedWith("Timelock::executeTransaction: Transaction hasn't been queued.")
+    expect((await breeder.poolInfo(0)).allocPoint).to.eq(100)
+  })
+
+  it('should not execute calls after the grace period', async function() {
+    const proposal = await propose([{ type: 'setUserDepFee', fee: 50 }])
+    await proposal.queue()
+
+    await increaseTime(provider, DELAY + 600 + GRACE_PERIOD + 1)
+    expect(await proposal.states()).to.deep.eq(['stale'])
+    await expect(proposal.execute()).to.be.revertedWith('Timelock::executeTransaction: Transaction is stale.')
+  })
+
+  it('should reject ETAs within the delay & calls from other accounts than the admin', async function() {
+    const proposal = new TimelockProposal(
+      timelock,
+      [{ type: 'setUserDepFee', fee: 50 }],
+      (await earliestEta(timelock, 0)).sub(DAY),
+      { breeder }
+    )
+    await expect(proposal.queue()).to.be.revertedWith(
+      'Timelock::queueTransaction: Estimated execution block must satisfy delay.'
+    )
+
+    await expect(
+      new TimelockProposal(timelock.connect(bob), [{ type: 'setUserDepFee', fee: 50 }], await earliestEta(timelock), {
+        breeder
+      }).queue()
+    ).to.be.revertedWith('Timelock::queueTransaction: Call must come from admin.')
+  })
+
+  it('should drive the Timelock through its own admin functions', async function() {
+    const proposal = await propose([{ type: 'setDelay', delay: 3 * DAY }])
+    expect(proposal.calls[0].target).to.eq(timelock.address)
+    await proposal.queue()
+    await increaseTime(provider, DELAY + 600)
+    await proposal.execute()
+
+    expect(await timelock.delay()).to.eq(3 * DAY)
+    expect(() => new TimelockProposal(timelock, [{ type: 'lockUpdate', percent: 1 }], bigNumberify(0))).to.throw(
+      'TimelockProposal: lockUpdate requires a MasterBreeder target'
+    )
+    expect(
+      () =>
+        new TimelockProposal(
+          timelock,
+          [
+            { type: 'lockUpdate', percent: 1 },
+            { type: 'lockUpdate', percent: 1 }
+          ],
+          bigNumberify(0),
+          { breeder }
+        )
+    ).to.throw('TimelockProposal: duplicate calls share the same txHash')
+  })
+})
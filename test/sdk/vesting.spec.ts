@@ -0,0 +1,160 @@
+import chai, { expect } from 'chai'
+import { bigNumberify } from 'ethers/utils'
+import { solidity, MockProvider } from 'ethereum-waffle'
+
+import { expandTo18Decimals } from '../shared/utilities'
+import { mineTo, withSnapshot } from '../shared/time'
+
+import { deployGovernanceToken, TOKEN_NAME, TOKEN_SYMBOL, TOTAL_CAP, MANUAL_MINT_LIMIT } from '../shared/deploy'
+
+import {
+  GovernanceToken,
+  LockState,
+  claimableAt,
+  fetchLockState,
+  projectUnlocks,
+  unlockAt,
+  unlockCurve
+} from '../../sdk'
+
+chai.use(solidity)
+
+const LOCKED = expandTo18Decimals(600)
+
+describe('SDK::Vesting', () => {
+  const provider = new MockProvider({
+    hardfork: 'istanbul',
+    mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
+    gasLimit: 9999999
+  })
+  const wallets = provider.getWallets()
+  const [alice, bob] = wallets
+
+  let govToken: GovernanceToken
+  let lockFromBlock: number
+  let lockToBlock: number
+
+  // Unlocks in the next block & returns the amount transferred to the holder
+  async function unlock(holder = bob) {
+    const before = await govToken.balanceOf(holder.address)
+    await govToken.connect(holder).unlock()
+    return (await govToken.balanceOf(holder.address)).sub(before)
+  }
+
+  beforeEach(async () => {
+    lockFromBlock = (await provider.getBlockNumber()) + 20
+    lockToBlock = lockFromBlock + 97
+    govToken = await deployGovernanceToken(
+      alice,
+      TOKEN_NAME,
+      TOKEN_SYMBOL,
+      TOTAL_CAP,
+      MANUAL_MINT_LIMIT,
+      lockFromBlock,
+      lockToBlock
+    )
+    await govToken.mint(bob.address, expandTo18Decimals(1000))
+    await govToken.lock(bob.address, LOCKED)
+  })
+
+  it('should read the lock state of a holder', async function() {
+    const state = await fetchLockState(govToken, bob.address)
+
+    expect(state.locked).to.eq(LOCKED)
+    expect(state.lastUnlockBlock).to.eq(lockFromBlock)
+    expect(state.lockFromBlock).to.eq(lockFromBlock)
+    expect(state.lockToBlock).to.eq(lockToBlock)
+  })
+
+  it('should match unlock across the lock window boundaries', async function() {
+    this.timeout(0)
+    const state = await fetchLockState(govToken, bob.address)
+    const blocks = [
+      lockFromBlock - 1,
+      lockFromBlock,
+      lockFromBlock + 1,
+      lockFromBlock + 33,
+      lockToBlock - 1,
+      lockToBlock,
+      lockToBlock + 5
+    ]
+
+    for (const block of blocks) {
+      await withSnapshot(provider, async () => {
+        await mineTo(provider, block - 1)
+        const amount = block < lockFromBlock ? await govToken.canUnlockAmount(bob.address) : await unlock()
+        expect(amount).to.eq(claimableAt(state, block))
+      })
+    }
+    expect(claimableAt(state, lockFromBlock - 1)).to.eq(0)
+    expect(claimableAt(state, lockFromBlock + 1)).to.eq(LOCKED.div(97))
+    expect(claimableAt(state, lockToBlock)).to.eq(LOCKED)
+  })
+
+  it('should project repeated unlocks including the reset of the last unlock block', async function() {
+    this.timeout(0)
+    const state = await fetchLockState(govToken, bob.address)
+    const blocks = [lockFromBlock + 7, lockFromBlock + 30, lockFromBlock + 31, lockToBlock - 2, lockToBlock + 1]
+    const projections = projectUnlocks(state, blocks)
+
+    for (let i = 0; i < blocks.length; i++) {
+      await mineTo(provider, blocks[i] - 1)
+      expect(await unlock()).to.eq(projections[i].amount)
+
+      const actual = await fetchLockState(govToken, bob.address)
+      expect(actual.lastUnlockBlock).to.eq(blocks[i])
+      expect(actual.locked).to.eq(projections[i].state.locked)
+    }
+    expect(projections[blocks.length - 1].state.locked).to.eq(0)
+
+    // Unlocking along the way releases the same total, up to rounding
+    const total = projections.reduce((sum, projection) => sum.add(projection.amount), bigNumberify(0))
+    expect(total).to.eq(LOCKED)
+  })
+
+  it('should mirror an unlock before the lock window starts', async function() {
+    this.timeout(0)
+    // unlock() before lockFromBlock releases nothing, but moves the last unlock block before lockFromBlock
+    await mineTo(provider, lockFromBlock - 6)
+    const state = await fetchLockState(govToken, bob.address)
+    const [early, inWindow] = projectUnlocks(state, [lockFromBlock - 5, lockFromBlock + 10])
+
+    expect(await unlock()).to.eq(0)
+    expect(early.amount).to.eq(0)
+    expect(early.state.lastUnlockBlock).to.eq(lockFromBlock - 5)
+
+    await mineTo(provider, lockFromBlock + 9)
+    expect(await unlock()).to.eq(inWindow.amount)
+    expect(inWindow.amount).to.eq(LOCKED.mul(15).div(102))
+  })
+
+  it('should build the unlock curve over the lock window', async function() {
+    const state: LockState = await fetchLockState(govToken, bob.address)
+    const curve = unlockCurve(state, lockFromBlock - 10, 25)
+
+    expect(curve.map(point => point.block.toNumber())).to.deep.eq([
+      lockFromBlock - 10,
+      lockFromBlock,
+      lockFromBlock + 15,
+      lockFromBlock + 40,
+      lockFromBlock + 65,
+      lockFromBlock + 90,
+      lockToBlock
+    ])
+    expect(curve[0].claimable).to.eq(0)
+    expect(curve[1].claimable).to.eq(0)
+    expect(curve[2].claimable).to.eq(LOCKED.mul(15).div(97))
+    expect(curve[curve.length - 1].claimable).to.eq(LOCKED)
+    for (let i = 1; i < curve.length; i++) {
+      expect(curve[i].claimable).to.be.gte(curve[i - 1].claimable)
+    }
+
+    // After the lock window there's a single point with everything claimable
+    const after = unlockCurve(state, lockToBlock + 10, 25)
+    expect(after.length).to.eq(1)
+    expect(after[0].claimable).to.eq(LOCKED)
+
+    expect(() => unlockCurve(state, lockFromBlock, 0)).to.throw('unlockCurve: interval must be greater than 0')
+    expect(() => unlockAt({ ...state, locked: bigNumberify(0) }, lockToBlock)).to.throw('ERC20: cannot unlock')
+  })
+})
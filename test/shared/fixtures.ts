@@ -0,0 +1,307 @@
+import { Contract, ContractFactory, Wallet } from 'ethers'
+import { BigNumberish } from 'ethers/utils'
+import { deployContract, MockProvider } from 'ethereum-waffle'
+
+import { expandTo18Decimals } from './utilities'
+import {
+  deployGovernanceToken,
+  deployMasterBreeder,
+  LOCK_FROM_BLOCK,
+  LOCK_TO_BLOCK,
+  TOKEN_NAME,
+  TOKEN_SYMBOL,
+  TOTAL_CAP,
+  MANUAL_MINT_LIMIT
+} from './deploy'
+import { createLpToken } from './lp'
+
+import { GovernanceToken, GovernanceVote, MasterBreeder, Pit, PitBreeder } from '../../sdk'
+
+import PitArtifact from '../../build/Pit.json'
+import PitBreederArtifact from '../../build/PitBreeder.json'
+import GovernanceVoteArtifact from '../../build/GovernanceVote.json'
+import ERC20Mock from '../../build/ERC20Mock.json'
+import WETH9Mock from '../../build/WETH9Mock.json'
+import UniswapV2Factory from '@venomswap/core/build/UniswapV2Factory.json'
+import UniswapV2Pair from '@venomswap/core/build/UniswapV2Pair.json'
+import UniswapV2Router02 from '@venomswap/periphery/build/UniswapV2Router02.json'
+
+// Same signature as waffle's (non-exported) Fixture type
+export type Fixture<T> = (provider: MockProvider, wallets: Wallet[]) => Promise<T>
+
+export interface PoolSpec {
+  allocPoint: number
+  // Symbol of the token to pair the governance token with, e.g. 'WETH' - the pool uses an ERC20Mock LP token when omitted
+  pair?: string
+}
+
+export interface ProtocolSpec {
+  rewardPerBlock?: number // whole tokens
+  startBlock?: number
+  halvingAfterBlock?: number
+  lockFromBlock?: number
+  lockToBlock?: number
+  initializeLocks?: boolean
+  pools?: PoolSpec[] // added to MasterBreeder in order, so a pool's id is its index
+  lpTokens?: number // extra ERC20Mock LP tokens that aren't added as pools
+  lpBalance?: BigNumberish // LP tokens handed out to alice, bob & carol for every pool & extra LP token
+  pit?: boolean // deploys Pit & PitBreeder
+  governanceVote?: boolean // deploys GovernanceVote for the first governance token/WETH pool
+  router?: boolean // deploys UniswapV2Router02 for the factory, with WETH9Mock as WETH
+  transferOwnership?: boolean // hands the governance token's ownership to MasterBreeder
+}
+
+export interface ProtocolFixture {
+  govToken: GovernanceToken
+  breeder: MasterBreeder
+  lpTokens: Contract[] // LP tokens of the pools in pool id order, followed by the extra LP tokens
+  pairedTokens: Record<string, Contract> // tokens the governance token is paired with, by symbol
+  factory?: Contract
+  pit?: Pit
+  pitBreeder?: PitBreeder
+  govVote?: GovernanceVote
+  router?: Contract
+}
+
+const PAIR_LIQUIDITY = expandTo18Decimals(10000)
+
+export const DEFAULT_PROTOCOL_SPEC: Required<ProtocolSpec> = {
+  rewardPerBlock: 1,
+  startBlock: 100,
+  halvingAfterBlock: 1000,
+  lockFromBlock: LOCK_FROM_BLOCK,
+  lockToBlock: LOCK_TO_BLOCK,
+  initializeLocks: true,
+  pools: [],
+  lpTokens: 0,
+  lpBalance: expandTo18Decimals(1000),
+  pit: false,
+  governanceVote: false,
+  router: false,
+  transferOwnership: true
+}
+
+// Builds a wired protocol from a declarative spec. Create the fixture once per describe/context block (outside of beforeEach),
+// waffle's loadFixture only reuses its snapshot when it's called with the same fixture function.
+// Loading a fixture reverts the snapshots of fixtures loaded after it, so don't load different fixtures in nested blocks.
+export function protocolFixture(protocolSpec: ProtocolSpec = {}): Fixture<ProtocolFixture> {
+  const spec = { ...DEFAULT_PROTOCOL_SPEC, ...protocolSpec }
+
+  return async function(provider: MockProvider, wallets: Wallet[]): Promise<ProtocolFixture> {
+    const [alice, bob, carol, minter] = wallets
+    const holders = [alice, bob, carol]
+    const pairs = spec.pools.filter(pool => pool.pair)
+    const needsFactory = pairs.length > 0 || spec.pit || spec.governanceVote || spec.router
+    if (spec.governanceVote && !pairs.some(pool => pool.pair === 'WETH')) {
+      throw new Error('protocolFixture: governanceVote requires a WETH paired pool')
+    }
+
+    const govToken = await deployGovernanceToken(
+      alice,
+      TOKEN_NAME,
+      TOKEN_SYMBOL,
+      TOTAL_CAP,
+      MANUAL_MINT_LIMIT,
+      spec.lockFromBlock,
+      spec.lockToBlock
+    )
+    const breeder = await deployMasterBreeder(
+      wallets,
+      govToken,
+      expandTo18Decimals(spec.rewardPerBlock),
+      spec.startBlock,
+      spec.halvingAfterBlock,
+      spec.initializeLocks
+    )
+
+    // Tokens paired with the governance token, WETH is always deployed when a factory is needed since PitBreeder, GovernanceVote & the router rely on it
+    const pairedTokens: Record<string, Contract> = {}
+    const symbols = pairs.map(pool => pool.pair!).concat(needsFactory ? ['WETH'] : [])
+    for (const symbol of symbols.filter((symbol, index) => symbols.indexOf(symbol) === index)) {
+      if (symbol === 'WETH' && spec.router) {
+        // The router wraps & unwraps ETH, alice wraps as much as the ERC20Mock tokens mint
+        pairedTokens[symbol] = await deployContract(alice, WETH9Mock, [])
+        await pairedTokens[symbol].deposit({ value: expandTo18Decimals(10000000) })
+      } else {
+        pairedTokens[symbol] = await deployContract(alice, ERC20Mock, [symbol, symbol, expandTo18Decimals(10000000)])
+      }
+    }
+    if (pairs.length > 0) {
+      await govToken.mint(alice.address, PAIR_LIQUIDITY.mul(pairs.length))
+    }
+
+    let factory: Contract | undefined
+    let pairFactory: ContractFactory | undefined
+    if (needsFactory) {
+      factory = await deployContract(alice, UniswapV2Factory, [alice.address])
+      pairFactory = new ContractFactory(UniswapV2Pair.abi, UniswapV2Pair.bytecode, alice)
+    }
+
+    async function deployLpToken(index: number, pool?: PoolSpec): Promise<Contract> {
+      let lpToken: Contract
+      if (pool && pool.pair) {
+        lpToken = await createLpToken(
+          alice,
+          factory!,
+          pairFactory!,
+          govToken,
+          pairedTokens[pool.pair],
+          PAIR_LIQUIDITY,
+          PAIR_LIQUIDITY
+        )
+        // alice received all of the pair's liquidity & keeps what's left after the transfers
+        for (const holder of holders.slice(1)) {
+          await lpToken.transfer(holder.address, spec.lpBalance)
+        }
+      } else {
+        lpToken = await deployContract(minter, ERC20Mock, [
+          `LPToken${index + 1}`,
+          `LP${index + 1}`,
+          expandTo18Decimals(1000000)
+        ])
+        for (const holder of holders) {
+          await lpToken.transfer(holder.address, spec.lpBalance)
+        }
+      }
+      return lpToken
+    }
+
+    const lpTokens: Contract[] = []
+    for (let i = 0; i < spec.pools.length; i++) {
+      const lpToken = await deployLpToken(i, spec.pools[i])
+      await breeder.add(spec.pools[i].allocPoint, lpToken.address, true)
+      lpTokens.push(lpToken)
+    }
+    for (let i = spec.pools.length; i < spec.pools.length + spec.lpTokens; i++) {
+      lpTokens.push(await deployLpToken(i))
+    }
+
+    const fixture: ProtocolFixture = { govToken, breeder, lpTokens, pairedTokens, factory }
+
+    if (spec.pit) {
+      fixture.pit = new Pit(
+        (await deployContract(alice, PitArtifact, ['ViperPit', 'xVIPER', govToken.address])).address,
+        alice
+      )
+      fixture.pitBreeder = new PitBreeder(
+        (
+          await deployContract(alice, PitBreederArtifact, [
+            factory!.address,
+            fixture.pit.address,
+            govToken.address,
+            pairedTokens.WETH.address
+          ])
+        ).address,
+        alice
+      )
+    }
+
+    if (spec.governanceVote) {
+      const poolId = spec.pools.findIndex(pool => pool.pair === 'WETH')
+      const lpPair = lpTokens[poolId]
+      const govTokenReservePosition = (await lpPair.token0()) === govToken.address ? 0 : 1
+      const pit =
+        fixture.pit ||
+        new Pit((await deployContract(alice, PitArtifact, ['ViperPit', 'xVIPER', govToken.address])).address, alice)
+      fixture.pit = pit
+      fixture.govVote = new GovernanceVote(
+        (
+          await deployContract(alice, GovernanceVoteArtifact, [
+            'ViperVote',
+            'VIPERVOTE',
+            govToken.address,
+            pit.address,
+            breeder.address,
+            poolId,
+            lpPair.address,
+            govTokenReservePosition,
+            2,
+            1
+          ])
+        ).address,
+        alice
+      )
+    }
+
+    // The router's library has the init code hash of @venomswap/core's prebuilt pair, which the factory deploys.
+    // Deploying its ~22KB of code takes more than waffle's default gas limit
+    if (spec.router) {
+      fixture.router = await deployContract(alice, UniswapV2Router02, [factory!.address, pairedTokens.WETH.address], {
+        gasLimit: 9999999
+      })
+    }
+
+    if (spec.transferOwnership) {
+      await govToken.transferOwnership(breeder.address)
+    }
+
+    return fixture
+  }
+}
+
+export interface ConversionFixture {
+  govToken: GovernanceToken
+  pit: Pit
+  pitBreeder: PitBreeder
+  factory: Contract
+  pairFactory: ContractFactory
+  tokens: Record<string, Contract>
+  pairs: Record<string, Contract>
+}
+
+// PitBreeder with the tokens & 1000/1000 pairs of PitBreeder.spec.ts, plus MIC which isn't paired with anything.
+// Tokens & pairs are keyed by symbol, e.g. pairs['VIPER/WETH']
+export async function conversionFixture(provider: MockProvider, [alice]: Wallet[]): Promise<ConversionFixture> {
+  const govToken = await deployGovernanceToken(alice)
+  await govToken.mint(alice.address, expandTo18Decimals(10000000))
+
+  const tokens: Record<string, Contract> = {}
+  for (const symbol of ['WETH', 'BUSD', 'DAI', 'LINK', 'MIC']) {
+    tokens[symbol] = await deployContract(alice, ERC20Mock, [symbol, symbol, expandTo18Decimals(10000000)])
+  }
+
+  const pit = new Pit(
+    (await deployContract(alice, PitArtifact, ['ViperPit', 'xVIPER', govToken.address])).address,
+    alice
+  )
+  const factory = await deployContract(alice, UniswapV2Factory, [alice.address])
+  const pairFactory = new ContractFactory(UniswapV2Pair.abi, UniswapV2Pair.bytecode, alice)
+  const pitBreeder = new PitBreeder(
+    (
+      await deployContract(alice, PitBreederArtifact, [
+        factory.address,
+        pit.address,
+        govToken.address,
+        tokens.WETH.address
+      ])
+    ).address,
+    alice
+  )
+
+  const all: Record<string, Contract | GovernanceToken> = { VIPER: govToken, ...tokens }
+  const pairs: Record<string, Contract> = {}
+  for (const name of [
+    'VIPER/WETH',
+    'VIPER/BUSD',
+    'VIPER/DAI',
+    'BUSD/WETH',
+    'BUSD/DAI',
+    'BUSD/LINK',
+    'DAI/WETH',
+    'DAI/LINK',
+    'LINK/WETH'
+  ]) {
+    const [a, b] = name.split('/')
+    pairs[name] = await createLpToken(
+      alice,
+      factory,
+      pairFactory,
+      all[a],
+      all[b],
+      expandTo18Decimals(1000),
+      expandTo18Decimals(1000)
+    )
+  }
+
+  return { govToken, pit, pitBreeder, factory, pairFactory, tokens, pairs }
+}
@@ -1,12 +1,14 @@
 import { Contract, ContractFactory, Wallet, utils } from 'ethers'
 import { BigNumberish } from 'ethers/utils'
 
+import { ERC20Contract } from '../../sdk'
+
 export async function createLpToken(
   wallet: Wallet,
   factory: Contract,
   pairFactory: ContractFactory,
-  tokenA: Contract,
-  tokenB: Contract,
+  tokenA: Contract | ERC20Contract<any>,
+  tokenB: Contract | ERC20Contract<any>,
   amountA: BigNumberish,
   amountB: BigNumberish
 ): Promise<Contract> {
@@ -0,0 +1,123 @@
+import chai, { expect } from 'chai'
+import { Contract } from 'ethers'
+import { AddressZero } from 'ethers/constants'
+import { bigNumberify } from 'ethers/utils'
+import { solidity, MockProvider, createFixtureLoader } from 'ethereum-waffle'
+
+import { expandTo18Decimals } from './utilities'
+import { protocolFixture } from './fixtures'
+import { jumpToFeeTier, jumpToHalving, mineBlocks, mineTo, revert, snapshot, withSnapshot } from './time'
+
+import { calculateWithdrawalFee, fetchFeeTiers, MasterBreeder } from '../../sdk'
+
+chai.use(solidity)
+
+describe('Time', () => {
+  const provider = new MockProvider({
+    hardfork: 'istanbul',
+    mnemonic: 'horn horn horn horn horn horn horn horn horn horn horn horn',
+    gasLimit: 19999999
+  })
+  const wallets = provider.getWallets()
+  const [alice, bob] = wallets
+  const loadFixture = createFixtureLoader(provider, wallets)
+
+  const fixture = protocolFixture({ startBlock: 100, halvingAfterBlock: 1000, pools: [{ allocPoint: 1 }] })
+
+  let breeder: MasterBreeder
+  let lp: Contract
+
+  beforeEach(async () => {
+    ;({
+      breeder,
+      lpTokens: [lp]
+    } = await loadFixture(fixture))
+  })
+
+  it('should mine blocks in batches & up to a block', async function() {
+    const start = await provider.getBlockNumber()
+
+    expect(await mineBlocks(provider, 250)).to.eq(start + 250)
+    expect(await mineTo(provider, start + 300)).to.eq(start + 300)
+    // Already past the target
+    expect(await mineTo(provider, start + 10)).to.eq(start + 300)
+    expect(await provider.getBlockNumber()).to.eq(start + 300)
+  })
+
+  it('should revert everything done within a snapshot scope', async function() {
+    const start = await provider.getBlockNumber()
+
+    const result = await withSnapshot(provider, async () => {
+      await mineBlocks(provider, 20)
+      await breeder.set(0, 5, true)
+      return breeder.totalAllocPoint()
+    })
+    expect(result).to.eq(5)
+    expect(await provider.getBlockNumber()).to.eq(start)
+    expect(await breeder.totalAllocPoint()).to.eq(1)
+
+    let error: Error | undefined
+    try {
+      await withSnapshot(provider, async () => {
+        await mineBlocks(provider, 5)
+        throw new Error('failed')
+      })
+    } catch (e) {
+      error = e
+    }
+    expect(error!.message).to.eq('failed')
+    expect(await provider.getBlockNumber()).to.eq(start)
+  })
+
+  it('should reject unknown snapshots', async function() {
+    const id = await snapshot(provider)
+    await revert(provider, id)
+
+    let error: Error | undefined
+    try {
+      await revert(provider, id)
+    } catch (e) {
+      error = e
+    }
+    expect(error!.message).to.eq(`Unknown snapshot: ${id}`)
+  })
+
+  it('should jump to the start of a halving period', async function() {
+    const halvingAtBlock = await breeder.HALVING_AT_BLOCK(1)
+
+    expect(await jumpToHalving(provider, breeder, 1)).to.eq(halvingAtBlock.toNumber() - 1)
+    expect(await breeder.getMultiplier(halvingAtBlock.sub(1), halvingAtBlock)).to.eq(await breeder.REWARD_MULTIPLIER(1))
+    expect(await breeder.getMultiplier(halvingAtBlock, halvingAtBlock.add(1))).to.eq(await breeder.REWARD_MULTIPLIER(2))
+  })
+
+  it('should jump to a withdrawal fee tier', async function() {
+    // Shorter tiers than the Bao defaults, so that the last tier is reachable within the test's timeout
+    const minBlockDeltas = [0, 1, 11, 21, 31, 41, 51, 61]
+    const tiers = (await fetchFeeTiers(breeder)).map((tier, i) => ({
+      ...tier,
+      minBlockDelta: bigNumberify(minBlockDeltas[i])
+    }))
+    await breeder.setFeeTiers(tiers)
+    await lp.connect(bob).approve(breeder.address, expandTo18Decimals(1000))
+    await breeder.connect(bob).deposit(0, expandTo18Decimals(100), AddressZero)
+
+    for (const tier of [1, 2, 4, 7]) {
+      await jumpToFeeTier(provider, breeder, 0, bob.address, tier)
+      const user = await breeder.userInfo(0, bob.address)
+      const fee = calculateWithdrawalFee(tiers, user, expandTo18Decimals(1), (await provider.getBlockNumber()) + 1)
+      expect(fee.tier).to.eq(tier)
+
+      await expect(breeder.connect(bob).withdraw(0, expandTo18Decimals(1), AddressZero))
+        .to.emit(lp, 'Transfer')
+        .withArgs(breeder.address, bob.address, fee.toUser)
+    }
+
+    let error: Error | undefined
+    try {
+      await jumpToFeeTier(provider, breeder, 0, bob.address, 0)
+    } catch (e) {
+      error = e
+    }
+    expect(error!.message).to.eq('jumpToFeeTier: tier must be between 1 and 7')
+  })
+})
@@ -0,0 +1,124 @@
+import { Web3Provider } from 'ethers/providers'
+import { BigNumber, bigNumberify, BigNumberish } from 'ethers/utils'
+
+import { fetchFeeTiers, MasterBreeder } from '../../sdk'
+
+// Block & time control for specs. All helpers follow advanceBlockTo's convention: after mining up to block n,
+// the next transaction gets mined in block n + 1.
+
+let logging = false
+
+export function setTimeLogging(enabled: boolean) {
+  logging = enabled
+}
+
+function log(message: string) {
+  if (logging) console.log(`[time] ${message}`)
+}
+
+// Ganache 7+ mines any number of blocks in a single evm_mine call, older ganache-core releases only mine one block per
+// call. Calls of a JSON-RPC batch run concurrently in ganache-core, so those blocks are mined one request after another
+const batchMining = new WeakMap<Web3Provider, boolean>()
+
+async function supportsBatchMining(provider: Web3Provider): Promise<boolean> {
+  if (!batchMining.has(provider)) {
+    const version: string = await provider.send('web3_clientVersion', [])
+    const match = /^Ganache\/v(\d+)/.exec(version)
+    batchMining.set(provider, match !== null && parseInt(match[1]) >= 7)
+  }
+  return batchMining.get(provider)!
+}
+
+export async function mineBlocks(provider: Web3Provider, count: number): Promise<number> {
+  if (count > 1 && (await supportsBatchMining(provider))) {
+    await provider.send('evm_mine', [{ blocks: count }])
+  } else {
+    for (let i = 0; i < count; i++) {
+      await provider.send('evm_mine', [])
+    }
+  }
+  const blockNumber = await provider.getBlockNumber()
+  log(`mined ${Math.max(count, 0)} block(s), now at block ${blockNumber}`)
+  return blockNumber
+}
+
+// Mines up to blockNumber, does nothing if the chain is already past it
+export async function mineTo(provider: Web3Provider, blockNumber: BigNumberish): Promise<number> {
+  const target = bigNumberify(blockNumber).toNumber()
+  return mineBlocks(provider, target - (await provider.getBlockNumber()))
+}
+
+// Moves the clock forward by seconds & mines a block with the new timestamp
+export async function increaseTime(provider: Web3Provider, seconds: number): Promise<number> {
+  await provider.send('evm_increaseTime', [seconds])
+  return mineBlocks(provider, 1)
+}
+
+// Mines a single block with the given timestamp
+export async function mineBlockAt(provider: Web3Provider, timestamp: number): Promise<number> {
+  await provider.send('evm_mine', [timestamp])
+  const blockNumber = await provider.getBlockNumber()
+  log(`mined block ${blockNumber} at timestamp ${timestamp}`)
+  return blockNumber
+}
+
+export async function snapshot(provider: Web3Provider): Promise<string> {
+  const id: string = await provider.send('evm_snapshot', [])
+  log(`took snapshot ${id}`)
+  return id
+}
+
+// Ganache drops a snapshot once it has been reverted to, as well as every snapshot taken after it
+export async function revert(provider: Web3Provider, id: string): Promise<void> {
+  if (!(await provider.send('evm_revert', [id]))) {
+    throw new Error(`Unknown snapshot: ${id}`)
+  }
+  log(`reverted to snapshot ${id}`)
+}
+
+// Runs fn & reverts every block, transaction and clock change it made afterwards, even if it throws
+export async function withSnapshot<T>(provider: Web3Provider, fn: () => Promise<T>): Promise<T> {
+  const id = await snapshot(provider)
+  try {
+    return await fn()
+  } finally {
+    await revert(provider, id)
+  }
+}
+
+// Mines up to the block before HALVING_AT_BLOCK[index], so that the next transaction is the first one of the period
+// paying REWARD_MULTIPLIER[index + 1]
+export async function jumpToHalving(provider: Web3Provider, breeder: MasterBreeder, index: number): Promise<number> {
+  const halvingAtBlock: BigNumber = await breeder.HALVING_AT_BLOCK(index)
+  const blockNumber = await mineTo(provider, halvingAtBlock.sub(1))
+  log(`jumped to halving ${index} (HALVING_AT_BLOCK ${halvingAtBlock})`)
+  return blockNumber
+}
+
+// Mines up to the block before the account's next withdrawal from pool pid falls into the given fee tier,
+// so that the next transaction pays that tier's fee
+export async function jumpToFeeTier(
+  provider: Web3Provider,
+  breeder: MasterBreeder,
+  pid: BigNumberish,
+  account: string,
+  tier: number
+): Promise<number> {
+  const tiers = await fetchFeeTiers(breeder)
+  // Tier 0 starts at block delta 0, i.e. it's already reached in the block of the last withdrawal or first deposit
+  if (tier < 1 || tier >= tiers.length) {
+    throw new Error(`jumpToFeeTier: tier must be between 1 and ${tiers.length - 1}`)
+  }
+
+  const user = await breeder.userInfo(pid, account)
+  const from = user.lastWithdrawBlock.gt(0) ? user.lastWithdrawBlock : user.firstDepositBlock
+  const target = from.add(tiers[tier].minBlockDelta).sub(1)
+
+  const current = await provider.getBlockNumber()
+  if (target.lt(current)) {
+    throw new Error(`jumpToFeeTier: fee tier ${tier} started at block ${target.add(1)}, the chain is at ${current}`)
+  }
+  const blockNumber = await mineTo(provider, target)
+  log(`jumped to fee tier ${tier} of pool ${pid} for ${account}`)
+  return blockNumber
+}
@@ -3,8 +3,16 @@ import { Contract, Wallet, utils } from 'ethers'
 import {
   BigNumber,
   bigNumberify,
-  BigNumberish
+  BigNumberish,
+  defaultAbiCoder,
+  keccak256,
+  solidityPack
 } from 'ethers/utils'
+import { ecsign } from 'ethereumjs-util'
+
+import { BaseContract, PermitSignature } from '../../sdk'
+
+import * as time from './time'
 
 const BASE_TEN = 10
 
@@ -13,24 +21,19 @@ export function expandTo18Decimals(n: number): BigNumber {
 }
 
 export async function advanceBlock(provider: Web3Provider) {
-  return provider.send("evm_mine", [])
+  return time.mineBlocks(provider, 1)
 }
 
 export async function advanceBlockTo(provider: Web3Provider, blockNumber: number) {
-  for (let i = await provider.getBlockNumber(); i < blockNumber; i++) {
-    await advanceBlock(provider)
-  }
+  return time.mineTo(provider, blockNumber)
 }
 
 export async function advanceBlockWith(provider: Web3Provider, blockCount: number) {
-  const currentBlockNumber = await provider.getBlockNumber()
-  const newBlockNumber = currentBlockNumber + blockCount
-  await advanceBlockTo(provider, newBlockNumber)
+  return time.mineBlocks(provider, blockCount)
 }
 
 export async function increase(provider: Web3Provider, value: number) {
-  await provider.send("evm_increaseTime", [value])
-  await advanceBlock(provider)
+  return time.increaseTime(provider, value)
 }
 
 export async function latestBlock(provider: Web3Provider) {
@@ -65,40 +68,32 @@ export function getBigNumber(amount: BigNumberish, decimals: number = 18): BigNu
 }
 
 export async function mineBlock(provider: Web3Provider, timestamp: number): Promise<void> {
-  await new Promise(async (resolve, reject) => {
-    ;(provider._web3Provider.sendAsync as any)(
-      { jsonrpc: '2.0', method: 'evm_mine', params: [timestamp] },
-      (error: any, result: any): void => {
-        console.log({error, result})
-        if (error) {
-          reject(error)
-        } else {
-          resolve(result)
-        }
-      }
-    )
-  })
+  await time.mineBlockAt(provider, timestamp)
 }
 
 export async function increaseTime(provider: Web3Provider, duration: number): Promise<void> {
-  const id = Date.now()
-
-  await new Promise(async (resolve, reject) => {
-    ;(provider._web3Provider.sendAsync as any)(
-      { jsonrpc: '2.0', method: 'evm_increaseTime', params: [duration], id: id },
-      (err1: any): void => {
-        console.log({err1})
-        if (err1) reject(err1)
-
-        ;(provider._web3Provider.sendAsync as any)(
-        { jsonrpc: '2.0', method: 'evm_mine', params: [], id: id + 1 },
-        (err2: any, res: any): void => {
-          console.log({err2, res})
-          err2 ? reject(err2) : resolve(res)
-        })
-      }
+  await time.increaseTime(provider, duration)
+}
+
+// Signs an EIP-2612 permit of a UniswapV2Pair LP token with the token's next nonce for the wallet
+export async function signPermit(
+  wallet: Wallet,
+  token: Contract,
+  spender: string,
+  value: BigNumberish,
+  deadline: BigNumberish
+): Promise<PermitSignature> {
+  const structHash = keccak256(
+    defaultAbiCoder.encode(
+      ['bytes32', 'address', 'address', 'uint256', 'uint256', 'uint256'],
+      [await token.PERMIT_TYPEHASH(), wallet.address, spender, value, await token.nonces(wallet.address), deadline]
     )
-  })
+  )
+  const digest = keccak256(
+    solidityPack(['bytes2', 'bytes32', 'bytes32'], ['0x1901', await token.DOMAIN_SEPARATOR(), structHash])
+  )
+  const { v, r, s } = ecsign(Buffer.from(digest.slice(2), 'hex'), Buffer.from(wallet.privateKey.slice(2), 'hex'))
+  return { v, r: '0x' + r.toString('hex'), s: '0x' + s.toString('hex') }
 }
 
 export function encodePrice(reserve0: BigNumber, reserve1: BigNumber) {
@@ -107,20 +102,21 @@ export function encodePrice(reserve0: BigNumber, reserve1: BigNumber) {
 
 export async function humanBalance(
   provider: Web3Provider,
-  token: Contract,
+  token: Contract | BaseContract<any>,
   method: string = 'balanceOf',
   address?: string | null | undefined,
   label?: string | null | undefined,
   log: boolean = true
 ) {
-  const tokenName = await token.name()
-  const tokenSymbol = await token.symbol()
+  const contract = (token instanceof BaseContract) ? token.contract : token
+  const tokenName = await contract.name()
+  const tokenSymbol = await contract.symbol()
   let balance: BigNumber = new BigNumber(0)
   const currentBlock = await latestBlock(provider)
 
   try {
     const args = (address) ? [address] : []
-    balance = await token.functions[method](...args)
+    balance = await contract.functions[method](...args)
   } catch (error) {}
 
   let formattedBalance: string | undefined